@@ -0,0 +1,39 @@
+import { describe, expect, test } from "vitest";
+import { accessibilityFindings, normalizeBox } from "./accessibility";
+
+describe("normalizeBox", () => {
+  test("converts percent to fractions, clipped to the image", () => {
+    expect(normalizeBox({ x: 10, y: 20, width: 30, height: 5 })).toEqual({ x: 0.1, y: 0.2, width: 0.3, height: 0.05 });
+    expect(normalizeBox({ x: -10, y: 90, width: 30, height: 20 })).toEqual({ x: 0, y: 0.9, width: 0.2, height: 0.1 });
+  });
+
+  test("drops boxes off the image, without area or with missing sides", () => {
+    expect(normalizeBox({ x: 120, y: 10, width: 10, height: 10 })).toBeUndefined();
+    expect(normalizeBox({ x: 10, y: 10, width: 0.1, height: 10 })).toBeUndefined();
+    expect(normalizeBox({ x: 10, y: 10, width: Number.NaN, height: 10 })).toBeUndefined();
+  });
+});
+
+describe("accessibilityFindings", () => {
+  test("makes one finding per issue, with a region only when it has a box", () => {
+    const findings = accessibilityFindings([{
+      nodeId: "checkout",
+      summary: "Two problems.",
+      issues: [
+        { type: "contrast", severity: "high", wcag: "1.4.3", description: "Grey pay button text.", box: { x: 0.1, y: 0.8, width: 0.8, height: 0.1 } },
+        { type: "other", severity: "low", description: "No heading." },
+      ],
+    }], () => "Checkout");
+
+    expect(findings).toEqual([
+      {
+        type: "contrast",
+        severity: "high",
+        description: '"Checkout": Grey pay button text. (WCAG 1.4.3)',
+        affectedNodes: ["checkout"],
+        regions: [{ nodeId: "checkout", x: 0.1, y: 0.8, width: 0.8, height: 0.1 }],
+      },
+      { type: "other", severity: "low", description: '"Checkout": No heading.', affectedNodes: ["checkout"] },
+    ]);
+  });
+});
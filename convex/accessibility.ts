@@ -0,0 +1,76 @@
+/**
+ * Accessibility audit: WCAG issues the model can see in a screenshot's pixels,
+ * with the area of the image each one concerns. The model answers in percent
+ * of the image; boxes are stored as fractions clipped to it, so they can be
+ * drawn over the screenshot node at any zoom or node width.
+ */
+
+export const ACCESSIBILITY_ISSUE_LABELS: Record<string, string> = {
+  contrast: "Contrast",
+  touch_target: "Touch target",
+  focus_indicator: "Focus indicator",
+  text_in_image: "Text in image",
+  other: "Accessibility",
+};
+
+export interface AccessibilityBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface AccessibilityIssue {
+  type: string;
+  severity: string;
+  wcag?: string;
+  description: string;
+  box?: AccessibilityBox;
+}
+
+/** An issue as stored on its screenshot node, with the box fields inlined. */
+export type NodeAccessibilityIssue = Pick<AccessibilityIssue, "type" | "severity" | "description">
+  & (AccessibilityBox | Partial<Record<keyof AccessibilityBox, undefined>>);
+
+export interface ScreenAudit {
+  nodeId: string;
+  summary: string;
+  issues: AccessibilityIssue[];
+}
+
+// Boxes smaller than this share of either side are treated as missing
+const MIN_BOX_SIDE = 0.005;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * Convert a box in percent of the image (as the model gives it) to fractions,
+ * clipped to the image. Returns undefined for boxes that are off the image or
+ * have no area.
+ */
+export function normalizeBox(box: AccessibilityBox): AccessibilityBox | undefined {
+  if (![box.x, box.y, box.width, box.height].every(Number.isFinite)) return undefined;
+  const left = clamp01(box.x / 100);
+  const top = clamp01(box.y / 100);
+  const right = clamp01((box.x + box.width) / 100);
+  const bottom = clamp01((box.y + box.height) / 100);
+  if (right - left < MIN_BOX_SIDE || bottom - top < MIN_BOX_SIDE) return undefined;
+  const round = (value: number) => Math.round(value * 10_000) / 10_000;
+  return { x: round(left), y: round(top), width: round(right - left), height: round(bottom - top) };
+}
+
+/** One report finding per issue, pointing at its screen and the box on it. */
+export function accessibilityFindings(
+  audits: ScreenAudit[],
+  labelOf: (nodeId: string) => string,
+): { type: string; severity: string; description: string; affectedNodes: string[]; regions?: ({ nodeId: string } & AccessibilityBox)[] }[] {
+  return audits.flatMap((audit) =>
+    audit.issues.map((issue) => ({
+      type: issue.type,
+      severity: issue.severity,
+      description: `"${labelOf(audit.nodeId)}": ${issue.description}${issue.wcag ? ` (WCAG ${issue.wcag})` : ""}`,
+      affectedNodes: [audit.nodeId],
+      ...(issue.box ? { regions: [{ nodeId: audit.nodeId, ...issue.box }] } : {}),
+    }))
+  );
+}
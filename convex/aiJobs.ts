@@ -0,0 +1,268 @@
+import { v, type GenericValidator } from "convex/values";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
+import type { Doc } from "./_generated/dataModel";
+import {
+  checkValue,
+  jobArgsValidator,
+  jobStateValidator,
+  personaJourneyJobArgsValidator,
+  reportJobArgsValidator,
+  sectionJobArgsValidator,
+  terminologyJobArgsValidator,
+} from "./aiSchemas";
+
+/**
+ * Background queue for long-running AI work. Enqueueing inserts a job and
+ * schedules gemini.runJobStep; the step action reports progress back here and
+ * reschedules itself until the job is done, so large walkthroughs run in
+ * chunks and survive the tab being closed.
+ *
+ * `attempts` doubles as the run token: every step carries the attempt it was
+ * scheduled for, and updates from an earlier attempt (a step still running
+ * when the job was cancelled and retried) are ignored.
+ */
+
+// The args each kind of job accepts
+const JOB_ARGS: Record<string, GenericValidator> = {
+  walkthrough: sectionJobArgsValidator,
+  report: reportJobArgsValidator,
+  persona_journey: personaJourneyJobArgsValidator,
+  terminology: terminologyJobArgsValidator,
+  accessibility: sectionJobArgsValidator,
+};
+const ACTIVE_STATUSES = ["queued", "running"];
+// Longer than an action may run, so an active job this quiet has died (e.g. hit the action timeout)
+const STALE_JOB_MS = 15 * 60 * 1000;
+const STALE_JOB_ERROR = "The job stopped responding. Retry to resume it.";
+
+function isActive(job: Doc<"aiJobs">, now: number): boolean {
+  return ACTIVE_STATUSES.includes(job.status) && now - job.updatedAt < STALE_JOB_MS;
+}
+
+/** Whether an update from a step of `attempt` may still change the job. */
+function acceptsStep(job: Doc<"aiJobs"> | null, attempt: number): job is Doc<"aiJobs"> {
+  return !!job && job.attempts === attempt && isActive(job, Date.now());
+}
+
+/** Whether two jobs run on the same persona, section, etc. */
+function sameArgs(a: Doc<"aiJobs">["args"], b: Doc<"aiJobs">["args"]): boolean {
+  const key = (args: Doc<"aiJobs">["args"]) => JSON.stringify(
+    Object.entries(args ?? {}).filter(([, value]) => value !== undefined).sort(([x], [y]) => x.localeCompare(y))
+  );
+  return key(a) === key(b);
+}
+
+export const getByBoard = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const jobs = await ctx.db
+      .query("aiJobs")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    // Show dead jobs as failed so they can be retried
+    const now = Date.now();
+    return jobs
+      .map((job) => ACTIVE_STATUSES.includes(job.status) && !isActive(job, now)
+        ? { ...job, status: "failed", error: STALE_JOB_ERROR }
+        : job)
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+export const get = internalQuery({
+  args: { jobId: v.id("aiJobs") },
+  handler: async (ctx, args) => {
+    return await ctx.db.get(args.jobId);
+  },
+});
+
+export const enqueue = mutation({
+  args: {
+    boardId: v.id("boards"),
+    kind: v.string(),
+    args: v.optional(jobArgsValidator),
+    createdByName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const argsValidator = JOB_ARGS[args.kind];
+    if (!argsValidator) {
+      throw new Error(`Unknown job kind "${args.kind}"`);
+    }
+    const { errors } = checkValue(argsValidator, args.args ?? {}, "args");
+    if (errors.length > 0) {
+      throw new Error(`Invalid ${args.kind} job: ${errors.join("; ")}`);
+    }
+
+    // Don't start the same job twice on a board
+    const existing = await ctx.db
+      .query("aiJobs")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const now = Date.now();
+    const active = existing.find((j) => j.kind === args.kind && sameArgs(j.args, args.args) && isActive(j, now));
+    if (active) return active._id;
+
+    const jobId = await ctx.db.insert("aiJobs", {
+      boardId: args.boardId,
+      kind: args.kind,
+      args: args.args,
+      status: "queued",
+      progress: { completed: 0, total: 0 },
+      attempts: 1,
+      createdByName: args.createdByName,
+      createdAt: now,
+      updatedAt: now,
+    });
+    await ctx.scheduler.runAfter(0, internal.gemini.runJobStep, { jobId, attempt: 1 });
+    return jobId;
+  },
+});
+
+/**
+ * Re-run a failed, cancelled or stalled job, resuming from the last finished
+ * chunk. A step of the previous attempt that is still running stops at its
+ * next update.
+ */
+export const retry = mutation({
+  args: { jobId: v.id("aiJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || isActive(job, Date.now()) || job.status === "completed") return;
+
+    const attempt = job.attempts + 1;
+    await ctx.db.patch(args.jobId, {
+      status: "queued",
+      attempts: attempt,
+      error: undefined,
+      message: undefined,
+      finishedAt: undefined,
+      dismissed: undefined,
+      updatedAt: Date.now(),
+    });
+    await ctx.scheduler.runAfter(0, internal.gemini.runJobStep, { jobId: args.jobId, attempt });
+  },
+});
+
+/** Stop a job; the running step notices on its next progress update. */
+export const cancel = mutation({
+  args: { jobId: v.id("aiJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || !ACTIVE_STATUSES.includes(job.status)) return;
+
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "cancelled",
+      message: "Cancelled",
+      updatedAt: now,
+      finishedAt: now,
+    });
+  },
+});
+
+export const dismiss = mutation({
+  args: { jobId: v.id("aiJobs") },
+  handler: async (ctx, args) => {
+    await ctx.db.patch(args.jobId, { dismissed: true });
+  },
+});
+
+export const remove = mutation({
+  args: { jobId: v.id("aiJobs") },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!job || isActive(job, Date.now())) return;
+    await ctx.db.delete(args.jobId);
+  },
+});
+
+/**
+ * Record progress from a job step. Returns false when the job is no longer
+ * running (cancelled, or retried as a newer attempt), so the step can stop
+ * before doing more work. `comments` are posted in the same transaction as
+ * `state`, so a chunk's comments appear once, and only if its results were
+ * saved.
+ */
+export const updateProgress = internalMutation({
+  args: {
+    jobId: v.id("aiJobs"),
+    attempt: v.number(),
+    progress: v.optional(v.object({ completed: v.number(), total: v.number() })),
+    message: v.optional(v.string()),
+    state: v.optional(jobStateValidator),
+    comments: v.optional(v.array(v.object({
+      nodeId: v.string(),
+      authorId: v.string(),
+      authorName: v.string(),
+      text: v.string(),
+    }))),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!acceptsStep(job, args.attempt)) return false;
+
+    const now = Date.now();
+    for (const comment of args.comments ?? []) {
+      await ctx.db.insert("comments", { boardId: job.boardId, ...comment, createdAt: now, resolved: false });
+    }
+    if (args.comments?.length) await ctx.db.patch(job.boardId, { updatedAt: now });
+
+    await ctx.db.patch(args.jobId, {
+      status: "running",
+      ...(args.progress ? { progress: args.progress } : {}),
+      ...(args.message !== undefined ? { message: args.message } : {}),
+      ...(args.state !== undefined ? { state: args.state } : {}),
+      updatedAt: now,
+    });
+    return true;
+  },
+});
+
+export const complete = internalMutation({
+  args: {
+    jobId: v.id("aiJobs"),
+    attempt: v.number(),
+    message: v.optional(v.string()),
+    result: v.optional(v.object({
+      reportId: v.optional(v.id("reports")),
+      commentsCreated: v.optional(v.number()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!acceptsStep(job, args.attempt)) return;
+
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "completed",
+      progress: { completed: job.progress.total, total: job.progress.total },
+      message: args.message,
+      result: args.result,
+      // Intermediate chunk results are no longer needed
+      state: undefined,
+      updatedAt: now,
+      finishedAt: now,
+    });
+  },
+});
+
+export const fail = internalMutation({
+  args: {
+    jobId: v.id("aiJobs"),
+    attempt: v.number(),
+    error: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const job = await ctx.db.get(args.jobId);
+    if (!acceptsStep(job, args.attempt)) return;
+
+    const now = Date.now();
+    await ctx.db.patch(args.jobId, {
+      status: "failed",
+      error: args.error.slice(0, 500),
+      updatedAt: now,
+      finishedAt: now,
+    });
+  },
+});
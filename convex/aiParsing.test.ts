@@ -0,0 +1,161 @@
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, describe, expect, test } from "vitest";
+import { generate, setFixtureStore, userMessage, type LLMRequest } from "./llm";
+import { fileFixtureStore } from "./llmFixtures";
+import {
+  parseChatResponse,
+  parseImprovementResponse,
+  parseReportResponse,
+  parseWalkthroughResponse,
+} from "./aiParsing";
+
+// Model responses are replayed from fixtures/llm, keyed by the request that
+// produced them, so changing a request below needs a new recording
+const FIXTURE_DIR = fileURLToPath(new URL("../fixtures/llm", import.meta.url));
+
+const BOARD = `Board "Self-serve onboarding"
+Screens:
+- signup: "Sign up" (desktop)
+- verify: "Verify email" (desktop)
+- dashboard: "Dashboard" (desktop)
+Connections: signup → verify [Submit form], verify → dashboard [Verified]`;
+
+const nodes = [
+  { nodeId: "signup", data: { label: "Sign up" } },
+  { nodeId: "verify", data: { label: "Verify email" } },
+  { nodeId: "dashboard", data: { label: "Dashboard" } },
+];
+const nodeIds = new Set(nodes.map((n) => n.nodeId));
+
+const request = (task: string, json = true): LLMRequest => ({
+  system: "You are a senior UX analyst reviewing a customer journey board.",
+  messages: [userMessage(`${BOARD}\n\n${task}`)],
+  temperature: 0.4,
+  ...(json ? { json: true } : {}),
+});
+
+async function replay(task: string, json = true): Promise<string> {
+  return (await generate(request(task, json))).text;
+}
+
+beforeAll(() => setFixtureStore(fileFixtureStore(FIXTURE_DIR), "replay"));
+afterAll(() => setFixtureStore(null));
+
+describe("parseChatResponse", () => {
+  test("keeps valid structured proposals and reports the rest", async () => {
+    const text = await replay("How can we reduce drop-off between sign up and the dashboard? Respond with { analysis, proposals }.");
+
+    const { analysis, proposals, invalid } = parseChatResponse(text, nodes);
+
+    expect(analysis).toMatch(/^Users who finish sign up/);
+    expect(proposals.map((p) => p.action)).toEqual(["addNode", "addEdge", "relabelEdge"]);
+    // addEdge may point at a screen proposed in the same answer
+    expect(proposals[1]).toMatchObject({ source: "verify", target: "Welcome tour" });
+    expect(invalid.map((i) => i.index)).toEqual([3, 4]);
+    expect(invalid[0].errors).toEqual(['nodeId "legacy-onboarding" is not a node on this board']);
+    expect(invalid[1].errors).toEqual(["proposal.text is required"]);
+  });
+
+  test("reads proposals from a json block in a markdown answer", async () => {
+    const text = await replay("What is missing on the Verify email screen? Answer in markdown.", false);
+
+    const { analysis, proposals, invalid } = parseChatResponse(text, nodes);
+
+    expect(analysis).toBe(text);
+    expect(proposals).toEqual([
+      { action: "addAttention", text: "Verification email has no resend option", nearNode: "verify" },
+    ]);
+    expect(invalid).toEqual([]);
+  });
+});
+
+describe("parseReportResponse", () => {
+  test("renders a structured report and validates its findings", async () => {
+    const text = await replay("Write a gap analysis report as { executiveSummary, findings, detailedAnalysis }.");
+
+    const { content, summary, findings, issues } = parseReportResponse(text, nodeIds);
+
+    expect(summary).toMatch(/^The journey gets new users to the dashboard/);
+    expect(content).toContain("## Findings\n- **[high] dead_end**: The dashboard has no outgoing flows");
+    expect(findings).toEqual([
+      expect.objectContaining({ type: "dead_end", severity: "high", affectedNodes: ["dashboard"] }),
+      expect.objectContaining({ type: "terminology", severity: "medium", affectedNodes: ["signup"] }),
+    ]);
+    expect(issues).toEqual([
+      'Finding 2: removed unknown node reference "register-modal"',
+      expect.stringMatching(/^Finding 3 discarded: finding\.severity/),
+    ]);
+  });
+
+  test("falls back to the findings block of a markdown report", async () => {
+    const text = await replay("Write a gap analysis report in markdown with a ```json findings block.", false);
+
+    const { content, summary, findings, issues } = parseReportResponse(text, nodeIds);
+
+    expect(content).toBe(text);
+    expect(summary).toBe("Sign-up is short and clear, but verification is a dead end for users who miss the email.");
+    expect(findings).toEqual([
+      { type: "flow_gap", severity: "high", description: "Users who never receive the email cannot resend it or change their address.", affectedNodes: ["verify"] },
+    ]);
+    expect(issues).toEqual([]);
+  });
+});
+
+describe("parseWalkthroughResponse", () => {
+  test("accepts snake_case answers and keeps analyses to the chunk's screens", async () => {
+    const text = await replay("Walk through the screens signup and verify. Respond with { screenAnalyses, overallFindings, terminologyIssues, flowGaps }.");
+
+    const parsed = parseWalkthroughResponse(text, new Set(["signup", "verify"]), nodeIds);
+
+    expect(parsed?.screenAnalyses.map((a) => a.nodeId)).toEqual(["signup", "verify"]);
+    expect(parsed?.screenAnalyses[0].comment).toMatch(/^The form asks only for what/);
+    expect(parsed?.overallFindings).toEqual([
+      expect.objectContaining({ type: "consistency", severity: "medium", affectedNodes: ["signup", "verify"] }),
+    ]);
+    expect(parsed?.terminologyIssues).toEqual([
+      { term: "Sign up", usedOn: ["signup"], alternateTerms: ["Register"], recommendation: 'Use "Sign up" everywhere.' },
+    ]);
+    expect(parsed?.flowGaps).toEqual([
+      { description: "No way to resend the verification email or correct the address.", fromNode: "verify" },
+    ]);
+    expect(parsed?.issues).toEqual([
+      'Screen analysis 3 discarded: "dashboard" is not one of the screens analyzed',
+      'Terminology issue 1: removed unknown node reference "landing"',
+      expect.stringMatching(/^Terminology issue 2 discarded: terminology issue\.usedOn is required/),
+    ]);
+  });
+
+  test("returns null when the response isn't JSON", () => {
+    expect(parseWalkthroughResponse("I could not analyze these screens.", nodeIds, nodeIds)).toBeNull();
+  });
+});
+
+describe("parseImprovementResponse", () => {
+  test("stitches the older snake_case shape into markdown sections", async () => {
+    const text = await replay("Suggest an improvement for the Verify email screen as JSON.");
+
+    const draft = parseImprovementResponse(text);
+
+    expect(draft).toMatchObject({
+      title: "Let users resend the verification email",
+      developerTodos: "- Add a resend endpoint with rate limiting\n- Add a resend link to the Verify email screen",
+      priority: "high",
+      structuredTodos: [{ text: "Add a resend endpoint with rate limiting", phase: "backend" }],
+    });
+    expect(draft?.content.split("\n\n").map((section) => section.split("\n")[0])).toEqual([
+      "## Problem / Current State",
+      "## Proposed Solution",
+      "## Expected Impact",
+    ]);
+  });
+
+  test("defaults the title and priority of a sparse answer", () => {
+    expect(parseImprovementResponse('{"content": "## Proposed Solution\\nAdd a resend link."}')).toEqual({
+      title: "Untitled Improvement",
+      content: "## Proposed Solution\nAdd a resend link.",
+      developerTodos: "",
+      priority: "medium",
+      structuredTodos: undefined,
+    });
+  });
+});
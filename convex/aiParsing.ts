@@ -0,0 +1,640 @@
+import type { GenericValidator, Infer } from "convex/values";
+import { parseJSONResponse } from "./llm";
+import {
+  accessibilityResponseValidator,
+  autoLayoutResponseValidator,
+  checkValue,
+  improvementMergeResponseValidator,
+  isRecord,
+  journeyDraftResponseValidator,
+  personaJourneyResponseValidator,
+  portfolioResponseValidator,
+  screenshotLabelResponseValidator,
+  terminologyResponseValidator,
+  validateFindings,
+  validateProposals,
+  walkthroughResponseValidator,
+  type FindingOutput,
+  type InvalidItem,
+  type Proposal,
+  type ProposalTargetNode,
+  type WalkthroughFlowGap,
+  type WalkthroughTerminologyIssue,
+} from "./aiSchemas";
+import { cleanGlossary, glossaryFindings, type GlossaryEntry } from "./terminology";
+import type { LayoutStage } from "./autoLayout";
+import { resolveNodeRef, type PortfolioNodeRef } from "./portfolio";
+import type { JourneyDraft } from "./journeyDraft";
+import { normalizeBox, type AccessibilityIssue } from "./accessibility";
+
+/**
+ * Turns raw model text from the AI actions into the data they save. Each
+ * parser checks the answer against its validator in aiSchemas.ts and drops
+ * references to nodes the board doesn't have, returning what it dropped as
+ * `issues` for the report's validation notes. aiParsing.test.ts replays
+ * recorded responses (see llmFixtures.ts) through them.
+ */
+
+/**
+ * Chat reply: structured output gives { analysis, proposals }; providers
+ * without it may still answer in markdown with a ```json proposals block.
+ */
+export function parseChatResponse(
+  text: string,
+  nodes: ProposalTargetNode[],
+): { analysis: string; proposals: Proposal[]; invalid: InvalidItem[] } {
+  let analysis = text || "No response from the AI model.";
+  let rawProposals: unknown = null;
+  const unparseable: InvalidItem[] = [];
+  const parsed = parseJSONResponse(text);
+  if (isRecord(parsed) && typeof parsed.analysis === "string") {
+    analysis = parsed.analysis || "No analysis provided.";
+    rawProposals = parsed.proposals;
+  } else {
+    const jsonMatch = analysis.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      const block = parseJSONResponse(jsonMatch[1]);
+      if (block) {
+        rawProposals = isRecord(block) ? block.proposals : null;
+      } else {
+        unparseable.push({ index: -1, item: jsonMatch[1].slice(0, 500), errors: ["Proposals block is not valid JSON"] });
+      }
+    }
+  }
+
+  // Check shapes and node references
+  const { proposals, invalid } = validateProposals(rawProposals, nodes);
+  return { analysis, proposals, invalid: [...unparseable, ...invalid] };
+}
+
+/**
+ * Gap analysis report: the structured { executiveSummary, findings,
+ * detailedAnalysis } object is rendered to markdown; a markdown answer with a
+ * ```json findings block is accepted as a fallback.
+ */
+export function parseReportResponse(
+  text: string,
+  nodeIds: Set<string>,
+): { content: string; summary: string; findings: FindingOutput[]; issues: string[] } {
+  let content = text || "No report generated.";
+  let rawFindings: unknown = null;
+  let summary = "See full report.";
+  const issues: string[] = [];
+  const parsed = parseJSONResponse(content);
+  if (isRecord(parsed) && typeof parsed.executiveSummary === "string") {
+    summary = parsed.executiveSummary.trim() || summary;
+    rawFindings = parsed.findings;
+    content = [
+      `## Executive Summary\n${parsed.executiveSummary}`,
+      `## Findings\n${(Array.isArray(parsed.findings) ? parsed.findings : [])
+        .map((f: unknown) => (isRecord(f) ? f : {}))
+        .map((f) => `- **[${f.severity}] ${f.type}**: ${f.description}`)
+        .join("\n") || "(none)"}`,
+      `## Detailed Analysis\n${typeof parsed.detailedAnalysis === "string" ? parsed.detailedAnalysis : ""}`,
+    ].join("\n\n");
+  } else {
+    const jsonMatch = content.match(/```json\s*([\s\S]*?)\s*```/);
+    if (jsonMatch) {
+      rawFindings = parseJSONResponse(jsonMatch[1]);
+      if (rawFindings === null) issues.push("Findings block was not valid JSON and was discarded.");
+    }
+    const summaryMatch = content.match(/## Executive Summary\s*([\s\S]*?)(?=\n## )/);
+    if (summaryMatch) summary = summaryMatch[1].trim();
+  }
+
+  // Check finding shapes and that affected nodes exist on the board
+  const validated = validateFindings(rawFindings, nodeIds);
+  return { content, summary, findings: validated.findings, issues: [...issues, ...validated.issues] };
+}
+
+// Older prompts asked for snake_case keys
+const camelKeys = (value: unknown): unknown =>
+  isRecord(value)
+    ? Object.fromEntries(Object.entries(value).map(([key, v]) => [key.replace(/_([a-z])/g, (_, c: string) => c.toUpperCase()), v]))
+    : value;
+
+/**
+ * UX walkthrough JSON. Screen analyses must be for one of `screenNodeIds`,
+ * the screens this call was asked about; findings, terminology issues and
+ * flow gaps are checked against the schema and may reference any node in
+ * `nodeIds`. Malformed items are dropped and unknown node references removed,
+ * both recorded in `issues`. Returns null when the response isn't JSON.
+ */
+export function parseWalkthroughResponse(
+  text: string,
+  screenNodeIds: Set<string>,
+  nodeIds: Set<string>,
+): {
+  screenAnalyses: { nodeId: string; comment: string }[];
+  overallFindings: FindingOutput[];
+  terminologyIssues: WalkthroughTerminologyIssue[];
+  flowGaps: WalkthroughFlowGap[];
+  issues: string[];
+} | null {
+  const parsed = camelKeys(parseJSONResponse(text));
+  if (!isRecord(parsed)) return null;
+
+  const fields = walkthroughResponseValidator.fields;
+  const issues: string[] = [];
+  const list = (raw: unknown) => (Array.isArray(raw) ? raw.map(camelKeys) : []);
+
+  const screenAnalyses: { nodeId: string; comment: string }[] = [];
+  list(parsed.screenAnalyses).forEach((item, index) => {
+    // Older prompts called the comment "analysis"
+    const withComment = isRecord(item) && item.comment === undefined ? { ...item, comment: item.analysis } : item;
+    const { value, errors } = checkValue(fields.screenAnalyses.element, withComment, "screen analysis");
+    if (errors.length > 0) {
+      issues.push(`Screen analysis ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    if (!screenNodeIds.has(value.nodeId)) {
+      issues.push(`Screen analysis ${index + 1} discarded: "${value.nodeId}" is not one of the screens analyzed`);
+      return;
+    }
+    if (value.comment.trim()) screenAnalyses.push(value);
+  });
+
+  const unknownRefs = (what: string, refs: string[]) => {
+    const unknown = refs.filter((id) => !nodeIds.has(id));
+    if (unknown.length > 0) {
+      issues.push(`${what}: removed unknown node reference${unknown.length > 1 ? "s" : ""} ${unknown.map((id) => `"${id}"`).join(", ")}`);
+    }
+  };
+
+  const terminologyIssues: WalkthroughTerminologyIssue[] = [];
+  list(parsed.terminologyIssues).forEach((item, index) => {
+    const { value, errors } = checkValue(fields.terminologyIssues.element, item, "terminology issue");
+    if (errors.length > 0) {
+      issues.push(`Terminology issue ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    unknownRefs(`Terminology issue ${index + 1}`, value.usedOn);
+    terminologyIssues.push({ ...value, usedOn: value.usedOn.filter((id) => nodeIds.has(id)) });
+  });
+
+  const flowGaps: WalkthroughFlowGap[] = [];
+  list(parsed.flowGaps).forEach((item, index) => {
+    const { value, errors } = checkValue(fields.flowGaps.element, item, "flow gap");
+    if (errors.length > 0) {
+      issues.push(`Flow gap ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    const { fromNode, toNode, ...gap } = value;
+    unknownRefs(`Flow gap ${index + 1}`, [fromNode, toNode].filter((id): id is string => !!id));
+    flowGaps.push({
+      ...gap,
+      ...(fromNode && nodeIds.has(fromNode) ? { fromNode } : {}),
+      ...(toNode && nodeIds.has(toNode) ? { toNode } : {}),
+    });
+  });
+
+  const validated = validateFindings(list(parsed.overallFindings), nodeIds);
+  return {
+    screenAnalyses,
+    overallFindings: validated.findings,
+    terminologyIssues,
+    flowGaps,
+    issues: [...issues, ...validated.issues],
+  };
+}
+
+export interface ImprovementDraft {
+  title: string;
+  content: string;
+  developerTodos: string;
+  priority: string;
+  structuredTodos?: { text: string; phase?: string }[];
+}
+
+/**
+ * Improvement suggestion JSON. Prefers `content`; responses in the older
+ * currentState / proposedImprovement / expectedImpact shape (camel or snake
+ * case) are stitched into markdown sections. Returns null when not JSON.
+ */
+export function parseImprovementResponse(text: string): ImprovementDraft | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+  // First non-empty string among the given keys
+  const field = (...keys: string[]) => {
+    const value = keys.map((key) => parsed[key]).find((v) => typeof v === "string" && v);
+    return typeof value === "string" ? value : "";
+  };
+
+  let content = field("content");
+  if (!content) {
+    const parts: string[] = [];
+    const currentState = field("currentState", "current_state");
+    if (currentState) parts.push(`## Problem / Current State\n${currentState}`);
+    const proposedImprovement = field("proposedImprovement", "proposed_improvement");
+    if (proposedImprovement) parts.push(`## Proposed Solution\n${proposedImprovement}`);
+    const expectedImpact = field("expectedImpact", "expected_impact");
+    if (expectedImpact) parts.push(`## Expected Impact\n${expectedImpact}`);
+    content = parts.join("\n\n");
+  }
+
+  const rawTodos = parsed.structuredTodos || parsed.structured_todos || [];
+  const structuredTodos = (Array.isArray(rawTodos) ? rawTodos : [])
+    .filter((t: unknown): t is Record<string, unknown> => isRecord(t) && !!t.text)
+    .map((t) => ({
+      text: String(t.text),
+      phase: t.phase ? String(t.phase) : undefined,
+    }));
+
+  return {
+    title: field("title") || "Untitled Improvement",
+    content,
+    developerTodos: field("developerTodos", "developer_todos"),
+    priority: field("priority") || "medium",
+    structuredTodos: structuredTodos.length > 0 ? structuredTodos : undefined,
+  };
+}
+
+export interface PersonaJourneyStepResult {
+  nodeId: string;
+  narration: string;
+  frictionScore: number;
+  frictionPoints: string[];
+}
+
+/**
+ * Persona journey JSON. Steps are kept in journey order, one per screen on
+ * the walked path; steps for other screens are dropped and scores are clamped
+ * to 1–5. Returns null when the response isn't JSON.
+ */
+export function parsePersonaJourneyResponse(
+  text: string,
+  stepNodeIds: string[],
+  nodeIds: Set<string>,
+): { summary: string; steps: PersonaJourneyStepResult[]; findings: FindingOutput[]; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const byNode = new Map<string, PersonaJourneyStepResult>();
+  (Array.isArray(parsed.steps) ? parsed.steps : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(personaJourneyResponseValidator.fields.steps.element, item, "step");
+    if (errors.length > 0) {
+      issues.push(`Step ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    if (!stepNodeIds.includes(value.nodeId)) {
+      issues.push(`Step ${index + 1} discarded: "${value.nodeId}" is not on this persona's path`);
+      return;
+    }
+    if (byNode.has(value.nodeId)) return;
+    byNode.set(value.nodeId, {
+      ...value,
+      frictionScore: Math.min(5, Math.max(1, Math.round(value.frictionScore))),
+    });
+  });
+
+  const missing = stepNodeIds.filter((id) => !byNode.has(id));
+  if (missing.length > 0) {
+    issues.push(`No narration for ${missing.length} step${missing.length > 1 ? "s" : ""}: ${missing.map((id) => `"${id}"`).join(", ")}`);
+  }
+
+  const validated = validateFindings(parsed.findings, nodeIds);
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    steps: stepNodeIds.flatMap((id) => byNode.get(id) ?? []),
+    findings: validated.findings,
+    issues: [...issues, ...validated.issues],
+  };
+}
+
+/**
+ * Terminology check JSON. Malformed glossary entries are dropped, variants
+ * are limited to nodes on the board, and each concept worded more than one
+ * way becomes a `terminology` finding. Returns null when not JSON.
+ */
+export function parseTerminologyResponse(
+  text: string,
+  nodes: ProposalTargetNode[],
+): { summary: string; glossary: GlossaryEntry[]; findings: ReturnType<typeof glossaryFindings>; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const entries: GlossaryEntry[] = [];
+  (Array.isArray(parsed.glossary) ? parsed.glossary : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(terminologyResponseValidator.fields.glossary.element, item, "entry");
+    if (errors.length > 0) {
+      issues.push(`Glossary entry ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    entries.push(value);
+  });
+
+  const cleaned = cleanGlossary(entries, new Set(nodes.map((n) => n.nodeId)));
+  const labelOf = (nodeId: string) => {
+    const node = nodes.find((n) => n.nodeId === nodeId);
+    return node?.data?.label || node?.data?.text?.slice(0, 40) || nodeId;
+  };
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    glossary: cleaned.glossary,
+    findings: glossaryFindings(cleaned.glossary, labelOf),
+    issues: [...issues, ...cleaned.issues],
+  };
+}
+
+export interface MergeSuggestion {
+  improvementIds: string[];
+  primaryId: string;
+  reason: string;
+  confidence: string;
+}
+
+/**
+ * Improvement merge review JSON. A confirmed cluster must stay inside one of
+ * the candidate clusters it was given, name its primary among its members and
+ * not reuse an improvement from an earlier cluster. Returns null when not JSON.
+ */
+export function parseMergeSuggestionsResponse(
+  text: string,
+  candidates: string[][],
+): { suggestions: MergeSuggestion[]; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const suggestions: MergeSuggestion[] = [];
+  const used = new Set<string>();
+  (Array.isArray(parsed.clusters) ? parsed.clusters : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(improvementMergeResponseValidator.fields.clusters.element, item, "cluster");
+    if (errors.length > 0) {
+      issues.push(`Cluster ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    const ids: string[] = Array.from(new Set(value.improvementIds));
+    if (ids.length < 2) return;
+    if (!candidates.some((candidate) => ids.every((id) => candidate.includes(id)))) {
+      issues.push(`Cluster ${index + 1} discarded: it mixes improvements from different candidate groups`);
+      return;
+    }
+    if (ids.some((id) => used.has(id))) {
+      issues.push(`Cluster ${index + 1} discarded: an improvement already belongs to another cluster`);
+      return;
+    }
+    ids.forEach((id) => used.add(id));
+    suggestions.push({ ...value, improvementIds: ids, primaryId: ids.includes(value.primaryId) ? value.primaryId : ids[0] });
+  });
+
+  return { suggestions, issues };
+}
+
+/**
+ * Auto-layout stages. Malformed stages are dropped; checking screen ids
+ * against the board is left to cleanStages.
+ */
+export function parseAutoLayoutResponse(text: string): { stages: LayoutStage[]; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const stages: LayoutStage[] = [];
+  (Array.isArray(parsed.stages) ? parsed.stages : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(autoLayoutResponseValidator.fields.stages.element, item, "stage");
+    if (errors.length > 0) {
+      issues.push(`Stage ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    stages.push(value);
+  });
+
+  return { stages, issues };
+}
+
+export interface PortfolioFinding {
+  type: string;
+  severity: string;
+  description: string;
+  affectedNodes?: PortfolioNodeRef[];
+}
+
+// Section headings of the rendered portfolio report, in order
+const PORTFOLIO_FINDING_SECTIONS: { type: string; heading: string }[] = [
+  { type: "shared_screen", heading: "Shared Screens" },
+  { type: "terminology", heading: "Contradictory Terminology" },
+  { type: "handoff", heading: "Handoffs Between Products" },
+  { type: "systemic", heading: "Systemic Issues" },
+];
+
+/**
+ * Portfolio analysis JSON. Findings are checked like board findings, and their
+ * "J1/nodeId" references resolved to board and node; unknown references are
+ * dropped. `describeNode` renders a reference in the markdown content.
+ * Returns null when not JSON.
+ */
+export function parsePortfolioResponse(
+  text: string,
+  keys: Map<string, string>,
+  nodeIdsByBoard: Map<string, Set<string>>,
+  describeNode: (ref: PortfolioNodeRef) => string,
+): { content: string; summary: string; findings: PortfolioFinding[]; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const findings: PortfolioFinding[] = [];
+  (Array.isArray(parsed.findings) ? parsed.findings : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(portfolioResponseValidator.fields.findings.element, item, "finding");
+    if (errors.length > 0) {
+      issues.push(`Finding ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    const refs: string[] = value.affectedNodes || [];
+    const resolved = refs.map((ref) => resolveNodeRef(ref, keys, nodeIdsByBoard));
+    const unknown = refs.filter((_, i) => !resolved[i]);
+    if (unknown.length > 0) {
+      issues.push(`Finding ${index + 1}: removed unknown node reference${unknown.length > 1 ? "s" : ""} ${unknown.map((ref) => `"${ref}"`).join(", ")}`);
+    }
+    findings.push({
+      type: value.type,
+      severity: value.severity,
+      description: value.description,
+      affectedNodes: resolved.filter((r): r is PortfolioNodeRef => !!r),
+    });
+  });
+
+  const summary = typeof parsed.executiveSummary === "string" && parsed.executiveSummary.trim()
+    ? parsed.executiveSummary.trim()
+    : "See full report.";
+  const sections = PORTFOLIO_FINDING_SECTIONS.map(({ type, heading }) => {
+    const ofType = findings.filter((f) => f.type === type);
+    if (ofType.length === 0) return null;
+    return `## ${heading}\n${ofType.map((f) => {
+      const where = f.affectedNodes?.length ? ` _(${f.affectedNodes.map(describeNode).join(", ")})_` : "";
+      return `- **[${f.severity}]** ${f.description}${where}`;
+    }).join("\n")}`;
+  }).filter(Boolean);
+  const content = [
+    `## Executive Summary\n${summary}`,
+    ...sections,
+    `## Detailed Analysis\n${typeof parsed.detailedAnalysis === "string" ? parsed.detailedAnalysis : ""}`,
+  ].join("\n\n");
+
+  return { content, summary, findings, issues };
+}
+
+/**
+ * Journey draft JSON. Malformed items are dropped, screen keys made unique,
+ * and connections, persona assignments and note anchors that don't point at
+ * a drafted screen or persona are removed. Returns null when not JSON.
+ */
+export function parseJourneyDraftResponse(text: string): { draft: JourneyDraft; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const issues: string[] = [];
+  const fields = journeyDraftResponseValidator.fields;
+  const checkList = <V extends GenericValidator>(raw: unknown, validator: V, what: string): Infer<V>[] => {
+    const items: Infer<V>[] = [];
+    (Array.isArray(raw) ? raw : []).forEach((item: unknown, index: number) => {
+      const { value, errors } = checkValue(validator, item, what);
+      if (errors.length > 0) {
+        issues.push(`${what[0].toUpperCase()}${what.slice(1)} ${index + 1} discarded: ${errors.join("; ")}`);
+        return;
+      }
+      items.push(value);
+    });
+    return items;
+  };
+
+  const personas = checkList(parsed.personas, fields.personas.element, "persona")
+    .filter((p, i, all) => p.name.trim() && all.findIndex((o) => o.name === p.name) === i);
+  const personaNames = new Set(personas.map((p) => p.name));
+
+  const keys = new Set<string>();
+  const screens = checkList(parsed.screens, fields.screens.element, "screen").filter((screen) => {
+    if (!screen.label.trim()) return false;
+    if (keys.has(screen.key)) {
+      issues.push(`Screen "${screen.label}" discarded: key "${screen.key}" is used twice`);
+      return false;
+    }
+    keys.add(screen.key);
+    const unknown = screen.personas.filter((name: string) => !personaNames.has(name));
+    if (unknown.length > 0) {
+      issues.push(`Screen "${screen.label}": removed unknown persona${unknown.length > 1 ? "s" : ""} ${unknown.map((n: string) => `"${n}"`).join(", ")}`);
+      screen.personas = screen.personas.filter((name: string) => personaNames.has(name));
+    }
+    return true;
+  });
+
+  const connections = checkList(parsed.connections, fields.connections.element, "connection").filter((c) => {
+    if (keys.has(c.source) && keys.has(c.target) && c.source !== c.target) return true;
+    issues.push(`Connection "${c.source}" → "${c.target}" discarded: it doesn't join two drafted screens`);
+    return false;
+  });
+
+  const attentionNotes = checkList(parsed.attentionNotes, fields.attentionNotes.element, "attention note").map((note) => {
+    if (note.nearScreen && !keys.has(note.nearScreen)) {
+      issues.push(`Attention note anchor "${note.nearScreen}" is not a drafted screen; the note was placed on its own`);
+      return { text: note.text };
+    }
+    return note;
+  });
+
+  return {
+    draft: {
+      name: typeof parsed.name === "string" ? parsed.name.trim() : "",
+      description: typeof parsed.description === "string" ? parsed.description.trim() : "",
+      personas,
+      screens,
+      connections,
+      attentionNotes,
+    },
+    issues,
+  };
+}
+
+/**
+ * Accessibility audit JSON for one screenshot. Malformed issues are dropped;
+ * boxes off the image are removed but their issue is kept. Returns null when
+ * not JSON.
+ */
+export function parseAccessibilityResponse(
+  text: string,
+  screenLabel: string,
+): { summary: string; issues: AccessibilityIssue[]; validationIssues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const validationIssues: string[] = [];
+  const issues: AccessibilityIssue[] = [];
+  (Array.isArray(parsed.issues) ? parsed.issues : []).forEach((item: unknown, index: number) => {
+    const { value, errors } = checkValue(accessibilityResponseValidator.fields.issues.element, item, "issue");
+    if (errors.length > 0) {
+      validationIssues.push(`"${screenLabel}": issue ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    const box = value.box ? normalizeBox(value.box) : undefined;
+    if (value.box && !box) {
+      validationIssues.push(`"${screenLabel}": issue ${index + 1} has a box outside the image; it is listed without one`);
+    }
+    issues.push({
+      type: value.type,
+      severity: value.severity,
+      ...(value.wcag ? { wcag: value.wcag } : {}),
+      description: value.description,
+      ...(box ? { box } : {}),
+    });
+  });
+
+  return {
+    summary: typeof parsed.summary === "string" ? parsed.summary.trim() : "",
+    issues,
+    validationIssues,
+  };
+}
+
+// Suggested tags beyond this many are dropped
+const MAX_SUGGESTED_TAGS = 8;
+
+export interface ScreenshotLabelSuggestion {
+  label: string;
+  platform: string;
+  toolId?: string;
+  toolName?: string;
+  tags: string[];
+}
+
+/**
+ * Screenshot labelling JSON. The tool name is matched against the known tools
+ * ignoring case; tags are lowercased and deduplicated. Returns null when the
+ * response isn't JSON or doesn't have the expected shape.
+ */
+export function parseScreenshotLabelResponse(
+  text: string,
+  tools: { _id: string; name: string }[],
+): { suggestion: ScreenshotLabelSuggestion; issues: string[] } | null {
+  const parsed = parseJSONResponse(text);
+  if (!isRecord(parsed)) return null;
+
+  const { value, errors } = checkValue(screenshotLabelResponseValidator, parsed, "response");
+  if (errors.length > 0 || !value.label.trim()) return null;
+
+  const issues: string[] = [];
+  let tool: { _id: string; name: string } | undefined;
+  const toolName = value.tool?.trim();
+  if (toolName) {
+    tool = tools.find((t) => t.name.trim().toLowerCase() === toolName.toLowerCase());
+    if (!tool) issues.push(`Tool "${value.tool}" is not a known product tool; it was ignored`);
+  }
+
+  const tags = Array.from(new Set<string>(
+    value.tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-")).filter(Boolean)
+  ));
+  if (tags.length > MAX_SUGGESTED_TAGS) issues.push(`Only the first ${MAX_SUGGESTED_TAGS} of ${tags.length} tags were kept`);
+
+  return {
+    suggestion: {
+      label: value.label.trim(),
+      platform: value.platform,
+      toolId: tool?._id,
+      toolName: tool?.name,
+      tags: tags.slice(0, MAX_SUGGESTED_TAGS),
+    },
+    issues,
+  };
+}
@@ -0,0 +1,545 @@
+import { v, type GenericValidator, type Infer } from "convex/values";
+
+/**
+ * Shapes of the structured data the AI actions ask models for.
+ *
+ * Each shape is a Convex validator so the same definition drives the JSON
+ * schema sent to the model (structured output), the server-side check of what
+ * comes back, and the database schema where the data is stored.
+ */
+
+// Area of a screenshot a finding points at, as fractions (0-1) of the image size
+export const findingRegionValidator = v.object({
+  nodeId: v.string(),
+  x: v.number(),
+  y: v.number(),
+  width: v.number(),
+  height: v.number(),
+});
+
+// Stored finding, as saved on reports
+export const findingValidator = v.object({
+  type: v.string(),
+  severity: v.string(),
+  description: v.string(),
+  affectedNodes: v.optional(v.array(v.string())),
+  regions: v.optional(v.array(findingRegionValidator)),
+});
+
+const severityOutputValidator = v.union(v.literal("critical"), v.literal("high"), v.literal("medium"), v.literal("low"));
+
+// Finding as the model must produce it
+export const findingOutputValidator = v.object({
+  type: v.string(),
+  severity: severityOutputValidator,
+  description: v.string(),
+  affectedNodes: v.optional(v.array(v.string())),
+});
+
+export type FindingOutput = Infer<typeof findingOutputValidator>;
+
+const glossaryVariantValidator = v.object({
+  term: v.string(),
+  nodeIds: v.array(v.string()),
+  platforms: v.optional(v.array(v.string())),
+});
+
+// Stored glossary row, as saved on terminology reports
+export const glossaryEntryValidator = v.object({
+  concept: v.string(),
+  preferredTerm: v.string(),
+  variants: v.array(glossaryVariantValidator),
+  severity: v.string(),
+  recommendation: v.string(),
+});
+
+// Stored portfolio finding; nodes are qualified by board since they span journeys
+export const portfolioFindingValidator = v.object({
+  type: v.string(),
+  severity: v.string(),
+  description: v.string(),
+  affectedNodes: v.optional(v.array(v.object({ boardId: v.id("boards"), nodeId: v.string(), label: v.optional(v.string()) }))),
+});
+
+// AI-proposed library metadata, stored on the screenshot until accepted or dismissed
+export const screenshotSuggestionValidator = v.object({
+  label: v.string(),
+  platform: v.optional(v.string()),
+  toolId: v.optional(v.id("tools")),
+  toolName: v.optional(v.string()),
+  tags: v.array(v.string()),
+  createdAt: v.number(),
+});
+
+const annotationFields = {
+  text: v.string(),
+  nearNode: v.optional(v.string()),
+  persona: v.optional(v.string()),
+};
+
+export const proposalValidator = v.union(
+  v.object({
+    action: v.literal("addNode"),
+    label: v.string(),
+    platform: v.optional(v.string()),
+    afterNode: v.optional(v.string()),
+    connectionLabel: v.optional(v.string()),
+  }),
+  v.object({
+    action: v.literal("addEdge"),
+    source: v.string(),
+    target: v.string(),
+    label: v.optional(v.string()),
+  }),
+  v.object({ action: v.literal("addNote"), ...annotationFields }),
+  v.object({ action: v.literal("addAttention"), ...annotationFields }),
+  v.object({ action: v.literal("addImprovement"), ...annotationFields }),
+  v.object({
+    action: v.literal("relabelEdge"),
+    edgeSource: v.string(),
+    edgeTarget: v.string(),
+    newLabel: v.string(),
+  }),
+  v.object({ action: v.literal("removeNode"), nodeId: v.string() }),
+  v.object({ action: v.literal("removeEdge"), source: v.string(), target: v.string() }),
+);
+
+export type Proposal = Infer<typeof proposalValidator>;
+
+export const chatResponseValidator = v.object({
+  analysis: v.string(),
+  proposals: v.array(proposalValidator),
+});
+
+export const reportResponseValidator = v.object({
+  executiveSummary: v.string(),
+  findings: v.array(findingOutputValidator),
+  detailedAnalysis: v.string(),
+});
+
+export const walkthroughResponseValidator = v.object({
+  screenAnalyses: v.array(v.object({ nodeId: v.string(), comment: v.string() })),
+  overallFindings: v.array(findingOutputValidator),
+  terminologyIssues: v.array(v.object({
+    term: v.string(),
+    usedOn: v.array(v.string()),
+    alternateTerms: v.array(v.string()),
+    recommendation: v.string(),
+  })),
+  flowGaps: v.array(v.object({
+    description: v.string(),
+    fromNode: v.optional(v.string()),
+    toNode: v.optional(v.string()),
+  })),
+});
+
+export type WalkthroughTerminologyIssue = Infer<typeof walkthroughResponseValidator.fields.terminologyIssues.element>;
+export type WalkthroughFlowGap = Infer<typeof walkthroughResponseValidator.fields.flowGaps.element>;
+
+export const personaJourneyResponseValidator = v.object({
+  summary: v.string(),
+  steps: v.array(v.object({
+    nodeId: v.string(),
+    narration: v.string(),
+    // 1 (effortless) to 5 (likely to give up)
+    frictionScore: v.number(),
+    frictionPoints: v.array(v.string()),
+  })),
+  findings: v.array(findingOutputValidator),
+});
+
+export const terminologyResponseValidator = v.object({
+  summary: v.string(),
+  glossary: v.array(v.object({
+    concept: v.string(),
+    preferredTerm: v.string(),
+    variants: v.array(glossaryVariantValidator),
+    severity: severityOutputValidator,
+    recommendation: v.string(),
+  })),
+});
+
+export const portfolioResponseValidator = v.object({
+  executiveSummary: v.string(),
+  findings: v.array(v.object({
+    type: v.union(v.literal("shared_screen"), v.literal("terminology"), v.literal("handoff"), v.literal("systemic")),
+    severity: severityOutputValidator,
+    description: v.string(),
+    // "J1/nodeId" references, qualified by journey key
+    affectedNodes: v.optional(v.array(v.string())),
+  })),
+  detailedAnalysis: v.string(),
+});
+
+export const journeyDraftResponseValidator = v.object({
+  name: v.string(),
+  description: v.string(),
+  personas: v.array(v.object({ name: v.string(), description: v.string() })),
+  screens: v.array(v.object({
+    key: v.string(),
+    label: v.string(),
+    platform: v.optional(v.string()),
+    personas: v.array(v.string()),
+    existingScreenshot: v.optional(v.string()),
+  })),
+  connections: v.array(v.object({
+    source: v.string(),
+    target: v.string(),
+    label: v.optional(v.string()),
+  })),
+  attentionNotes: v.array(v.object({
+    text: v.string(),
+    nearScreen: v.optional(v.string()),
+  })),
+});
+
+export const accessibilityResponseValidator = v.object({
+  summary: v.string(),
+  issues: v.array(v.object({
+    type: v.union(
+      v.literal("contrast"),
+      v.literal("touch_target"),
+      v.literal("focus_indicator"),
+      v.literal("text_in_image"),
+      v.literal("other"),
+    ),
+    severity: severityOutputValidator,
+    // WCAG success criterion, e.g. "1.4.3"
+    wcag: v.optional(v.string()),
+    description: v.string(),
+    // Bounding box in percent (0-100) of the image width and height
+    box: v.optional(v.object({ x: v.number(), y: v.number(), width: v.number(), height: v.number() })),
+  })),
+});
+
+export const screenshotLabelResponseValidator = v.object({
+  label: v.string(),
+  platform: v.union(v.literal("desktop"), v.literal("mobile"), v.literal("admin")),
+  // Name of the product tool the screen belongs to, from the given list
+  tool: v.optional(v.string()),
+  tags: v.array(v.string()),
+});
+
+export const improvementMergeResponseValidator = v.object({
+  clusters: v.array(v.object({
+    improvementIds: v.array(v.string()),
+    // Improvement that should survive the merge and keep its IMP number
+    primaryId: v.string(),
+    reason: v.string(),
+    confidence: v.union(v.literal("high"), v.literal("medium"), v.literal("low")),
+  })),
+});
+
+export const autoLayoutResponseValidator = v.object({
+  stages: v.array(v.object({
+    label: v.string(),
+    // Screens in this stage, in the order users reach them
+    nodeIds: v.array(v.string()),
+  })),
+});
+
+// Background AI jobs (aiJobs.ts): what each kind runs on, stored as `args`
+export const reportJobArgsValidator = v.object({
+  personaId: v.optional(v.id("personas")),
+  sectionId: v.optional(v.string()),
+});
+export const personaJourneyJobArgsValidator = v.object({ personaId: v.id("personas") });
+// Walkthroughs and accessibility audits
+export const sectionJobArgsValidator = v.object({ sectionId: v.optional(v.string()) });
+// Terminology checks always cover the whole board
+export const terminologyJobArgsValidator = v.object({});
+
+export const jobArgsValidator = v.union(
+  reportJobArgsValidator,
+  personaJourneyJobArgsValidator,
+  sectionJobArgsValidator,
+  terminologyJobArgsValidator,
+);
+
+// Work chunked jobs carry between steps, stored as `state`
+export const walkthroughJobStateValidator = v.object({
+  screenNodeIds: v.array(v.string()),
+  cursor: v.number(),
+  results: v.object({
+    commentsCreated: v.number(),
+    screenAnalyses: walkthroughResponseValidator.fields.screenAnalyses,
+    overallFindings: walkthroughResponseValidator.fields.overallFindings,
+    terminologyIssues: walkthroughResponseValidator.fields.terminologyIssues,
+    flowGaps: walkthroughResponseValidator.fields.flowGaps,
+    // Items of the model's answers that failed validation
+    validationIssues: v.array(v.string()),
+  }),
+});
+
+export const accessibilityJobStateValidator = v.object({
+  screenNodeIds: v.array(v.string()),
+  cursor: v.number(),
+  audits: v.array(v.object({
+    nodeId: v.string(),
+    summary: v.string(),
+    issues: v.array(v.object({
+      type: v.string(),
+      severity: v.string(),
+      wcag: v.optional(v.string()),
+      description: v.string(),
+      // Fractions (0-1) of the image size
+      box: v.optional(v.object({ x: v.number(), y: v.number(), width: v.number(), height: v.number() })),
+    })),
+  })),
+  validationIssues: v.array(v.string()),
+});
+
+export const jobStateValidator = v.union(walkthroughJobStateValidator, accessibilityJobStateValidator);
+
+// Proposal fields that must reference a node on the board
+const PROPOSAL_NODE_FIELDS: Record<string, string[]> = {
+  addNode: ["afterNode"],
+  addEdge: ["source", "target"],
+  addNote: ["nearNode"],
+  addAttention: ["nearNode"],
+  addImprovement: ["nearNode"],
+  relabelEdge: ["edgeSource", "edgeTarget"],
+  removeNode: ["nodeId"],
+  removeEdge: ["source", "target"],
+};
+
+// What proposal validation needs to know about a board node
+export interface ProposalTargetNode {
+  nodeId: string;
+  data?: { label?: string; text?: string };
+}
+
+export interface InvalidItem {
+  index: number;
+  item: unknown;
+  errors: string[];
+}
+
+export type JSONSchema = {
+  type?: string;
+  enum?: unknown[];
+  items?: JSONSchema;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+};
+
+/**
+ * Convert a validator into the JSON schema subset both Gemini and OpenAI
+ * accept. Unions of objects are flattened into one object whose literal
+ * discriminator becomes an enum; the precise shape is enforced afterwards by
+ * checkValue.
+ */
+export function toJSONSchema(validator: GenericValidator): JSONSchema {
+  switch (validator.kind) {
+    case "string":
+    case "id":
+      return { type: "string" };
+    case "float64":
+    case "int64":
+      return { type: "number" };
+    case "boolean":
+      return { type: "boolean" };
+    case "literal":
+      return { type: typeof validator.value === "number" ? "number" : typeof validator.value, enum: [validator.value] };
+    case "array":
+      return { type: "array", items: toJSONSchema(validator.element) };
+    case "object": {
+      const properties: Record<string, JSONSchema> = {};
+      const required: string[] = [];
+      for (const [key, field] of Object.entries(validator.fields)) {
+        properties[key] = toJSONSchema(field);
+        if (field.isOptional !== "optional") required.push(key);
+      }
+      return { type: "object", properties, required };
+    }
+    case "union": {
+      const members = validator.members;
+      const literals = members.flatMap((m) => (m.kind === "literal" ? [m.value as unknown] : []));
+      if (literals.length === members.length) {
+        return { type: typeof literals[0], enum: literals };
+      }
+      if (members.every((m) => m.kind === "object")) {
+        const properties: Record<string, JSONSchema> = {};
+        let required: string[] | null = null;
+        for (const member of members) {
+          const schema = toJSONSchema(member);
+          for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+            const existing = properties[key];
+            properties[key] = existing?.enum && prop.enum
+              ? { ...existing, enum: [...existing.enum, ...prop.enum] }
+              : existing ?? prop;
+          }
+          const memberRequired = schema.required ?? [];
+          required = required ? required.filter((k) => memberRequired.includes(k)) : memberRequired;
+        }
+        return { type: "object", properties, required: required ?? [] };
+      }
+      return {};
+    }
+    default:
+      return {};
+  }
+}
+
+/**
+ * Check a value against a validator. Returns the value with unknown fields
+ * and null optionals removed, plus a list of human-readable errors. The value
+ * only has the validator's type when there are no errors.
+ */
+export function checkValue<V extends GenericValidator>(
+  validator: V,
+  value: unknown,
+  path = "value",
+): { value: Infer<V>; errors: string[] } {
+  const { value: checked, errors } = check(validator, value, path);
+  return { value: checked as Infer<V>, errors };
+}
+
+function check(validator: GenericValidator, value: unknown, path: string): { value: unknown; errors: string[] } {
+  switch (validator.kind) {
+    case "any":
+      return { value, errors: [] };
+    case "string":
+    case "id":
+      return typeof value === "string"
+        ? { value, errors: [] }
+        : { value, errors: [`${path} must be a string`] };
+    case "float64":
+    case "int64":
+      return typeof value === "number"
+        ? { value, errors: [] }
+        : { value, errors: [`${path} must be a number`] };
+    case "boolean":
+      return typeof value === "boolean"
+        ? { value, errors: [] }
+        : { value, errors: [`${path} must be a boolean`] };
+    case "literal":
+      return value === validator.value
+        ? { value, errors: [] }
+        : { value, errors: [`${path} must be ${JSON.stringify(validator.value)}`] };
+    case "array": {
+      if (!Array.isArray(value)) return { value, errors: [`${path} must be an array`] };
+      const items = value.map((item, i) => check(validator.element, item, `${path}[${i}]`));
+      return { value: items.map((r) => r.value), errors: items.flatMap((r) => r.errors) };
+    }
+    case "object": {
+      if (!isRecord(value)) {
+        return { value, errors: [`${path} must be an object`] };
+      }
+      const result: Record<string, unknown> = {};
+      const errors: string[] = [];
+      for (const [key, field] of Object.entries(validator.fields)) {
+        const fieldValue = value[key];
+        if (fieldValue === undefined || fieldValue === null) {
+          if (field.isOptional !== "optional") errors.push(`${path}.${key} is required`);
+          continue;
+        }
+        const checked = check(field, fieldValue, `${path}.${key}`);
+        result[key] = checked.value;
+        errors.push(...checked.errors);
+      }
+      return { value: result, errors };
+    }
+    case "union": {
+      const members = validator.members;
+      // Prefer the member whose literal discriminator matches, for clearer errors
+      const discriminated = members.filter((m) =>
+        m.kind === "object"
+        && isRecord(value)
+        && Object.entries(m.fields).some(([key, f]) => f.kind === "literal" && value[key] === f.value)
+      );
+      const candidates = discriminated.length > 0 ? discriminated : members;
+      let best: { value: unknown; errors: string[] } | null = null;
+      for (const member of candidates) {
+        const checked = check(member, value, path);
+        if (checked.errors.length === 0) return checked;
+        if (!best || checked.errors.length < best.errors.length) best = checked;
+      }
+      return discriminated.length > 0 && best
+        ? best
+        : { value, errors: [`${path} does not match any allowed shape`] };
+    }
+    default:
+      return { value, errors: [] };
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Validate model proposals and check that every node they reference exists.
+ * `addEdge` may also reference nodes by label, including screens proposed
+ * earlier in the same list.
+ */
+export function validateProposals(
+  raw: unknown,
+  nodes: ProposalTargetNode[],
+): { proposals: Proposal[]; invalid: InvalidItem[] } {
+  if (!Array.isArray(raw)) {
+    return raw == null
+      ? { proposals: [], invalid: [] }
+      : { proposals: [], invalid: [{ index: -1, item: raw, errors: ["proposals must be an array"] }] };
+  }
+
+  const nodeIds = new Set(nodes.map((n) => n.nodeId));
+  const labels = new Set(
+    nodes.flatMap((n) => [n.data?.label, n.data?.text]).filter((l): l is string => !!l).map((l) => l.toLowerCase())
+  );
+  const proposals: Proposal[] = [];
+  const invalid: InvalidItem[] = [];
+
+  raw.forEach((item, index) => {
+    const { value, errors } = checkValue(proposalValidator, item, "proposal");
+    if (errors.length === 0) {
+      for (const field of PROPOSAL_NODE_FIELDS[value.action] || []) {
+        const ref = (value as Record<string, string | undefined>)[field];
+        if (ref === undefined || nodeIds.has(ref)) continue;
+        if (value.action === "addEdge" && labels.has(String(ref).toLowerCase())) continue;
+        errors.push(`${field} "${ref}" is not a node on this board`);
+      }
+    }
+    if (errors.length > 0) {
+      invalid.push({ index, item, errors });
+      return;
+    }
+    proposals.push(value);
+    if (value.action === "addNode") labels.add(value.label.toLowerCase());
+  });
+
+  return { proposals, invalid };
+}
+
+/**
+ * Validate model findings. Malformed findings are dropped; unknown
+ * affectedNodes are removed from otherwise valid findings. Both are reported.
+ */
+export function validateFindings(
+  raw: unknown,
+  nodeIds: Set<string>,
+): { findings: FindingOutput[]; issues: string[] } {
+  if (!Array.isArray(raw)) {
+    return { findings: [], issues: raw == null ? [] : ["Findings were not a list and were discarded."] };
+  }
+
+  const findings: FindingOutput[] = [];
+  const issues: string[] = [];
+  raw.forEach((item, index) => {
+    const { value, errors } = checkValue(findingOutputValidator, item, "finding");
+    if (errors.length > 0) {
+      issues.push(`Finding ${index + 1} discarded: ${errors.join("; ")}`);
+      return;
+    }
+    if (value.affectedNodes) {
+      const unknown = value.affectedNodes.filter((id) => !nodeIds.has(id));
+      if (unknown.length > 0) {
+        issues.push(`Finding ${index + 1}: removed unknown node reference${unknown.length > 1 ? "s" : ""} ${unknown.map((id) => `"${id}"`).join(", ")}`);
+        value.affectedNodes = value.affectedNodes.filter((id) => nodeIds.has(id));
+      }
+    }
+    findings.push(value);
+  });
+
+  return { findings, issues };
+}
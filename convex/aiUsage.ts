@@ -0,0 +1,262 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, mutation, query, type MutationCtx, type QueryCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+
+/**
+ * Ledger of every LLM call made by the AI actions, with estimated cost, plus
+ * monthly budgets. gemini.ts checks the budgets before each call and records
+ * the outcome afterwards. Recording also updates running month totals per
+ * budget scope and daily statistics, which the budget check and dashboard
+ * read instead of the ledger.
+ */
+
+// USD per million tokens, matched by longest model-name prefix
+const MODEL_PRICES: Record<string, { input: number; output: number }> = {
+  "gemini-3.1-pro": { input: 2, output: 12 },
+  "gemini-3-pro": { input: 2, output: 12 },
+  "gemini-3-flash": { input: 0.5, output: 3 },
+  "gemini-2.5-pro": { input: 1.25, output: 10 },
+  "gemini-2.5-flash-lite": { input: 0.1, output: 0.4 },
+  "gemini-2.5-flash": { input: 0.3, output: 2.5 },
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gpt-4.1-nano": { input: 0.1, output: 0.4 },
+  "gpt-4.1-mini": { input: 0.4, output: 1.6 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gemini-embedding-001": { input: 0.15, output: 0 },
+  "text-embedding-3-small": { input: 0.02, output: 0 },
+  "text-embedding-3-large": { input: 0.13, output: 0 },
+  "mock": { input: 0, output: 0 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function estimateCost(model: string, inputTokens: number, outputTokens: number): number {
+  const key = Object.keys(MODEL_PRICES)
+    .filter((prefix) => model.startsWith(prefix))
+    .sort((a, b) => b.length - a.length)[0];
+  if (!key) return 0;
+  const price = MODEL_PRICES[key];
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
+
+const monthKey = (time: number) => new Date(time).toISOString().slice(0, 7);
+const dayKey = (time: number) => new Date(time).toISOString().slice(0, 10);
+
+// Whether a budget covers a call on this board / feature
+function budgetCovers(
+  budget: { scope: string; scopeKey?: string },
+  call: { boardId?: string; feature: string },
+): boolean {
+  return budget.scope === "global"
+    || (budget.scope === "board" && call.boardId === budget.scopeKey)
+    || (budget.scope === "feature" && call.feature === budget.scopeKey);
+}
+
+// Every budget scope a call counts towards
+function scopesOf(call: { boardId?: string; feature: string }): { scope: string; scopeKey?: string }[] {
+  return [
+    { scope: "global" },
+    ...(call.boardId ? [{ scope: "board", scopeKey: call.boardId }] : []),
+    { scope: "feature", scopeKey: call.feature },
+  ];
+}
+
+async function monthTotal(ctx: QueryCtx, month: string, budget: { scope: string; scopeKey?: string }) {
+  return await ctx.db
+    .query("aiUsageTotals")
+    .withIndex("by_scope", (q) => q.eq("month", month).eq("scope", budget.scope).eq("scopeKey", budget.scopeKey))
+    .unique();
+}
+
+/** Add a ledger entry to the month totals of its scopes and to its day's statistics. */
+async function addToTotals(ctx: MutationCtx, entry: Omit<Doc<"aiUsage">, "_id" | "_creationTime">) {
+  const month = monthKey(entry.createdAt);
+  for (const scope of scopesOf(entry)) {
+    const total = await monthTotal(ctx, month, scope);
+    if (total) {
+      await ctx.db.patch(total._id, { calls: total.calls + 1, costUsd: total.costUsd + entry.costUsd });
+    } else {
+      await ctx.db.insert("aiUsageTotals", { month, ...scope, calls: 1, costUsd: entry.costUsd });
+    }
+  }
+
+  const day = dayKey(entry.createdAt);
+  const daily = await ctx.db
+    .query("aiUsageDaily")
+    .withIndex("by_day", (q) => q.eq("day", day).eq("boardId", entry.boardId).eq("feature", entry.feature))
+    .unique();
+  const errors = entry.outcome === "success" ? 0 : 1;
+  if (daily) {
+    await ctx.db.patch(daily._id, {
+      calls: daily.calls + 1,
+      errors: daily.errors + errors,
+      costUsd: daily.costUsd + entry.costUsd,
+      inputTokens: daily.inputTokens + entry.inputTokens,
+      outputTokens: daily.outputTokens + entry.outputTokens,
+      latencyMs: daily.latencyMs + entry.latencyMs,
+    });
+  } else {
+    await ctx.db.insert("aiUsageDaily", {
+      day,
+      boardId: entry.boardId,
+      feature: entry.feature,
+      calls: 1,
+      errors,
+      costUsd: entry.costUsd,
+      inputTokens: entry.inputTokens,
+      outputTokens: entry.outputTokens,
+      latencyMs: entry.latencyMs,
+    });
+  }
+}
+
+export const record = internalMutation({
+  args: {
+    boardId: v.optional(v.id("boards")),
+    feature: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+    outcome: v.string(),
+    error: v.optional(v.string()),
+    userName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const entry = {
+      ...args,
+      error: args.error?.slice(0, 300),
+      costUsd: estimateCost(args.model, args.inputTokens, args.outputTokens),
+      createdAt: Date.now(),
+    };
+    await ctx.db.insert("aiUsage", entry);
+    await addToTotals(ctx, entry);
+  },
+});
+
+/**
+ * Returns a user-facing message when a month-to-date budget covering this
+ * call (overall, the board or the feature) is used up, or null.
+ */
+export const checkBudget = internalQuery({
+  args: {
+    boardId: v.optional(v.id("boards")),
+    feature: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const budgets = await ctx.db.query("aiBudgets").collect();
+    const month = monthKey(Date.now());
+    for (const budget of budgets.filter((b) => budgetCovers(b, args))) {
+      const spent = (await monthTotal(ctx, month, budget))?.costUsd ?? 0;
+      if (spent >= budget.monthlyLimitUsd) {
+        const scopeLabel = budget.scope === "global" ? "overall" : `${budget.scope} "${budget.scopeLabel || budget.scopeKey}"`;
+        return `Monthly AI budget exceeded (${scopeLabel}: $${spent.toFixed(2)} of $${budget.monthlyLimitUsd.toFixed(2)}). Raise the budget in Configuration to continue.`;
+      }
+    }
+    return null;
+  },
+});
+
+/** Spend and call statistics for the dashboard, over the last `days` days (today included). */
+export const getSummary = query({
+  args: { days: v.optional(v.number()) },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const days = args.days ?? 30;
+    const daily = await ctx.db
+      .query("aiUsageDaily")
+      .withIndex("by_day", (q) => q.gte("day", dayKey(now - (days - 1) * DAY_MS)))
+      .collect();
+
+    const group = (keyOf: (d: Doc<"aiUsageDaily">) => string) => {
+      const groups = new Map<string, { key: string; calls: number; errors: number; costUsd: number; inputTokens: number; outputTokens: number; latencyMs: number }>();
+      for (const d of daily) {
+        const key = keyOf(d);
+        const g = groups.get(key) ?? { key, calls: 0, errors: 0, costUsd: 0, inputTokens: 0, outputTokens: 0, latencyMs: 0 };
+        g.calls += d.calls;
+        g.errors += d.errors;
+        g.costUsd += d.costUsd;
+        g.inputTokens += d.inputTokens;
+        g.outputTokens += d.outputTokens;
+        g.latencyMs += d.latencyMs;
+        groups.set(key, g);
+      }
+      return Array.from(groups.values()).map((g) => ({
+        ...g,
+        avgLatencyMs: g.calls > 0 ? Math.round(g.latencyMs / g.calls) : 0,
+      }));
+    };
+
+    const byBoard = await Promise.all(
+      group((d) => d.boardId ?? "")
+        .sort((a, b) => b.costUsd - a.costUsd)
+        .map(async (g) => {
+          const board = g.key ? await ctx.db.get(g.key as Id<"boards">) : null;
+          return { ...g, boardName: board?.name ?? (g.key ? "Deleted board" : "No board") };
+        })
+    );
+
+    const recent = await ctx.db
+      .query("aiUsage")
+      .withIndex("by_created", (q) => q.gte("createdAt", now - days * DAY_MS))
+      .order("desc")
+      .take(20);
+
+    return {
+      days,
+      totals: group(() => "all")[0] ?? null,
+      monthToDateUsd: (await monthTotal(ctx, monthKey(now), { scope: "global" }))?.costUsd ?? 0,
+      byBoard,
+      byFeature: group((d) => d.feature).sort((a, b) => b.costUsd - a.costUsd),
+      byDay: group((d) => d.day).sort((a, b) => a.key.localeCompare(b.key)),
+      recent,
+    };
+  },
+});
+
+export const getBudgets = query({
+  args: {},
+  handler: async (ctx) => {
+    const budgets = await ctx.db.query("aiBudgets").collect();
+    const month = monthKey(Date.now());
+    return await Promise.all(budgets.map(async (budget) => ({
+      ...budget,
+      spentUsd: (await monthTotal(ctx, month, budget))?.costUsd ?? 0,
+    })));
+  },
+});
+
+export const setBudget = mutation({
+  args: {
+    scope: v.string(),
+    scopeKey: v.optional(v.string()),
+    scopeLabel: v.optional(v.string()),
+    monthlyLimitUsd: v.number(),
+  },
+  handler: async (ctx, args) => {
+    if (!["global", "board", "feature"].includes(args.scope)) {
+      throw new Error(`Unknown budget scope "${args.scope}"`);
+    }
+    const existing = (await ctx.db.query("aiBudgets").collect())
+      .find((b) => b.scope === args.scope && b.scopeKey === args.scopeKey);
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        monthlyLimitUsd: args.monthlyLimitUsd,
+        scopeLabel: args.scopeLabel,
+        updatedAt: Date.now(),
+      });
+      return existing._id;
+    }
+    return await ctx.db.insert("aiBudgets", { ...args, updatedAt: Date.now() });
+  },
+});
+
+export const removeBudget = mutation({
+  args: { budgetId: v.id("aiBudgets") },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.budgetId);
+  },
+});
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "vitest";
+import { cleanStages, fallbackStages, flowOrder, type LayoutEdge, type LayoutNode } from "./autoLayout";
+
+const screen = (n: number, x: number, y = 0): LayoutNode => ({
+  nodeId: `s${n}`,
+  type: "screenshot",
+  position: { x, y },
+  data: { label: `Screen ${n}` },
+});
+
+// s1 → s2 → … → s7, laid out left to right
+const chain = Array.from({ length: 7 }, (_, i) => screen(i + 1, i * 300));
+const chainEdges: LayoutEdge[] = chain.slice(1).map((n, i) => ({ source: chain[i].nodeId, target: n.nodeId }));
+
+describe("flowOrder", () => {
+  test("walks breadth-first from unreached screens, then picks up cycles", () => {
+    const nodes = [
+      screen(1, 0),
+      screen(2, 300, 0),
+      screen(3, 300, 300),
+      screen(4, 600),
+      // s5 and s6 only lead to each other
+      screen(5, 900),
+      screen(6, 1200),
+      { nodeId: "note", type: "text", position: { x: 0, y: 600 } },
+    ];
+    const edges: LayoutEdge[] = [
+      { source: "s1", target: "s3" },
+      { source: "s1", target: "s2" },
+      { source: "s2", target: "s4" },
+      { source: "s5", target: "s6" },
+      { source: "s6", target: "s5" },
+      { source: "note", target: "s1" },
+    ];
+
+    const { order, depth } = flowOrder(nodes, edges);
+
+    expect(order).toEqual(["s1", "s3", "s2", "s4", "s5", "s6"]);
+    expect(Object.fromEntries(depth)).toEqual({ s1: 0, s2: 1, s3: 1, s4: 2, s5: 3, s6: 4 });
+  });
+});
+
+describe("fallbackStages", () => {
+  test("groups consecutive depths, starting a new stage past six screens", () => {
+    expect(fallbackStages(chain, chainEdges)).toEqual([
+      { label: "Stage 1: Screen 1", nodeIds: ["s1", "s2", "s3", "s4", "s5", "s6"] },
+      { label: "Stage 2: Screen 7", nodeIds: ["s7"] },
+    ]);
+  });
+
+  test("keeps screens of one depth in the same stage", () => {
+    const nodes = [screen(1, 0), ...Array.from({ length: 6 }, (_, i) => screen(i + 2, 300, i * 500))];
+    const edges = nodes.slice(1).map((n) => ({ source: "s1", target: n.nodeId }));
+
+    expect(fallbackStages(nodes, edges).map((s) => s.nodeIds)).toEqual([
+      ["s1"],
+      ["s2", "s3", "s4", "s5", "s6", "s7"],
+    ]);
+  });
+});
+
+describe("cleanStages", () => {
+  const nodes = chain.slice(0, 4);
+  const edges = chainEdges.slice(0, 3);
+
+  test("drops unknown and repeated screens, orders by flow and collects the rest", () => {
+    const { stages, issues } = cleanStages([
+      { label: "Checkout", nodeIds: ["s3", "ghost", "s2"] },
+      { label: " ", nodeIds: ["s2", "s4"] },
+      { label: "Empty", nodeIds: ["s3"] },
+    ], nodes, edges);
+
+    expect(stages).toEqual([
+      { label: "Checkout", nodeIds: ["s2", "s3"] },
+      { label: "Stage 2", nodeIds: ["s4"] },
+      { label: "Other screens", nodeIds: ["s1"] },
+    ]);
+    expect(issues).toEqual([
+      '"Checkout": removed unknown screen "ghost"',
+      "1 screen was not assigned to a stage",
+    ]);
+  });
+
+  test("puts every screen in one stage, in flow order, when nothing was suggested", () => {
+    expect(cleanStages([], nodes, edges)).toEqual({
+      stages: [{ label: "Other screens", nodeIds: ["s1", "s2", "s3", "s4"] }],
+      issues: [],
+    });
+  });
+});
@@ -0,0 +1,253 @@
+/**
+ * Auto-layout: groups screens into stages and arranges each stage inside a
+ * section node, left to right in flow order. Stages come from the model when
+ * one is configured and from the flow's depth otherwise (fallbackStages);
+ * either way cleanStages puts every screen in exactly one stage.
+ */
+
+export interface LayoutNode {
+  nodeId: string;
+  type: string;
+  position: { x: number; y: number };
+  data?: { label?: string };
+  width?: number;
+  height?: number;
+  parentId?: string;
+}
+
+export interface LayoutEdge {
+  source: string;
+  target: string;
+}
+
+export interface LayoutStage {
+  label: string;
+  nodeIds: string[];
+}
+
+export interface AutoLayoutPlan {
+  stages: LayoutStage[];
+  // parentId puts the node in the new section of its stage (see sections.ts)
+  positions: { nodeId: string; position: { x: number; y: number }; parentId: string | null }[];
+  addSections: {
+    nodeId: string;
+    type: "section";
+    position: { x: number; y: number };
+    width: number;
+    height: number;
+    data: { label: string; color: string };
+  }[];
+  // Existing sections, which no longer match the arranged screens
+  removeSectionIds: string[];
+}
+
+const DEFAULT_SCREEN_WIDTH = 220;
+const DEFAULT_SCREEN_HEIGHT = 400;
+const SCREEN_GAP_X = 80;
+const SCREEN_GAP_Y = 100;
+const SECTION_PADDING = 60;
+// Room for the section's title bar above its screens
+const SECTION_HEADER = 50;
+const SECTION_GAP = 160;
+// Screens per row inside a section
+const MAX_COLUMNS = 3;
+// Fallback stages are cut at this many screens
+const MAX_STAGE_SCREENS = 6;
+const SECTION_COLORS = ["blue", "green", "purple", "amber", "rose", "cyan"];
+// Node types that follow the screen they are connected to
+const ATTACHED_TYPES = new Set(["text", "attention", "improvement"]);
+
+function screenLabel(node: LayoutNode): string {
+  return node.data?.label || node.nodeId;
+}
+
+/**
+ * Screens in flow order with their depth: breadth-first from screens nothing
+ * leads to, then from any screens left over (cycles), each in left-to-right,
+ * top-to-bottom board order.
+ */
+export function flowOrder(nodes: LayoutNode[], edges: LayoutEdge[]): { order: string[]; depth: Map<string, number> } {
+  const screens = nodes
+    .filter((n) => n.type === "screenshot")
+    .sort((a, b) => a.position.x - b.position.x || a.position.y - b.position.y);
+  const screenIds = new Set(screens.map((n) => n.nodeId));
+  const next = new Map<string, string[]>();
+  const incoming = new Set<string>();
+  for (const e of edges) {
+    if (!screenIds.has(e.source) || !screenIds.has(e.target) || e.source === e.target) continue;
+    next.set(e.source, [...(next.get(e.source) || []), e.target]);
+    incoming.add(e.target);
+  }
+
+  const order: string[] = [];
+  const depth = new Map<string, number>();
+  const walk = (starts: string[]) => {
+    const queue = starts.filter((id) => !depth.has(id));
+    const base = order.length > 0 ? Math.max(...depth.values()) + 1 : 0;
+    for (const id of queue) depth.set(id, base);
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      order.push(id);
+      for (const target of next.get(id) || []) {
+        if (depth.has(target)) continue;
+        depth.set(target, depth.get(id)! + 1);
+        queue.push(target);
+      }
+    }
+  };
+
+  walk(screens.filter((n) => !incoming.has(n.nodeId)).map((n) => n.nodeId));
+  for (const screen of screens) {
+    if (!depth.has(screen.nodeId)) walk([screen.nodeId]);
+  }
+  return { order, depth };
+}
+
+/**
+ * Deterministic stages when no model is available: consecutive flow depths
+ * are grouped until a stage would exceed MAX_STAGE_SCREENS.
+ */
+export function fallbackStages(nodes: LayoutNode[], edges: LayoutEdge[]): LayoutStage[] {
+  const { order, depth } = flowOrder(nodes, edges);
+  const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+  const levels: string[][] = [];
+  for (const id of order) {
+    const d = depth.get(id)!;
+    (levels[d] ||= []).push(id);
+  }
+
+  const stages: string[][] = [];
+  let current: string[] = [];
+  for (const level of levels.filter(Boolean)) {
+    if (current.length > 0 && current.length + level.length > MAX_STAGE_SCREENS) {
+      stages.push(current);
+      current = [];
+    }
+    current.push(...level);
+  }
+  if (current.length > 0) stages.push(current);
+
+  return stages.map((ids, i) => ({
+    label: `Stage ${i + 1}: ${screenLabel(byId.get(ids[0])!)}`,
+    nodeIds: ids,
+  }));
+}
+
+/**
+ * Make suggested stages usable: unknown and repeated screens are dropped,
+ * empty stages removed, and screens no stage mentions collected into a final
+ * "Other screens" stage. Screens inside a stage are put in flow order.
+ */
+export function cleanStages(
+  stages: LayoutStage[],
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+): { stages: LayoutStage[]; issues: string[] } {
+  const { order } = flowOrder(nodes, edges);
+  const rank = new Map(order.map((id, i) => [id, i]));
+  const issues: string[] = [];
+  const placed = new Set<string>();
+  const cleaned: LayoutStage[] = [];
+
+  for (const stage of stages) {
+    const unknown = stage.nodeIds.filter((id) => !rank.has(id));
+    if (unknown.length > 0) {
+      issues.push(`"${stage.label}": removed unknown screen${unknown.length > 1 ? "s" : ""} ${unknown.map((id) => `"${id}"`).join(", ")}`);
+    }
+    const ids = stage.nodeIds.filter((id) => rank.has(id) && !placed.has(id));
+    ids.forEach((id) => placed.add(id));
+    if (ids.length === 0) continue;
+    cleaned.push({ label: stage.label.trim() || `Stage ${cleaned.length + 1}`, nodeIds: ids.sort((a, b) => rank.get(a)! - rank.get(b)!) });
+  }
+
+  const leftover = order.filter((id) => !placed.has(id));
+  if (leftover.length > 0) {
+    if (stages.length > 0) issues.push(`${leftover.length} screen${leftover.length > 1 ? "s were" : " was"} not assigned to a stage`);
+    cleaned.push({ label: "Other screens", nodeIds: leftover });
+  }
+  return { stages: cleaned, issues };
+}
+
+/**
+ * Positions for every screen (and the annotations connected to them) plus one
+ * section per stage. The layout starts at the top-left of the current screens
+ * so the board doesn't jump. `sectionIdPrefix` keeps new section ids unique.
+ */
+export function planAutoLayout(
+  nodes: LayoutNode[],
+  edges: LayoutEdge[],
+  stages: LayoutStage[],
+  sectionIdPrefix: string,
+): AutoLayoutPlan {
+  const byId = new Map(nodes.map((n) => [n.nodeId, n]));
+  const screens = nodes.filter((n) => n.type === "screenshot");
+  const size = (n: LayoutNode) => ({ width: n.width || DEFAULT_SCREEN_WIDTH, height: n.height || DEFAULT_SCREEN_HEIGHT });
+
+  const originX = screens.length > 0 ? Math.min(...screens.map((n) => n.position.x)) : 0;
+  const originY = screens.length > 0 ? Math.min(...screens.map((n) => n.position.y)) : 0;
+
+  const positions = new Map<string, { x: number; y: number }>();
+  const parents = new Map<string, string>();
+  const addSections: AutoLayoutPlan["addSections"] = [];
+  let x = originX;
+
+  stages.forEach((stage, stageIndex) => {
+    const members = stage.nodeIds.map((id) => byId.get(id)).filter((n): n is LayoutNode => !!n);
+    if (members.length === 0) return;
+    const columns = Math.min(MAX_COLUMNS, members.length);
+    const columnWidth = Math.max(...members.map((n) => size(n).width));
+    const sectionId = `${sectionIdPrefix}-${stageIndex + 1}`;
+    const innerLeft = x + SECTION_PADDING;
+    let y = originY + SECTION_HEADER + SECTION_PADDING;
+
+    for (let row = 0; row * columns < members.length; row++) {
+      const rowMembers = members.slice(row * columns, (row + 1) * columns);
+      rowMembers.forEach((n, col) => {
+        positions.set(n.nodeId, { x: innerLeft + col * (columnWidth + SCREEN_GAP_X), y });
+        parents.set(n.nodeId, sectionId);
+      });
+      y += Math.max(...rowMembers.map((n) => size(n).height)) + SCREEN_GAP_Y;
+    }
+
+    const width = columns * columnWidth + (columns - 1) * SCREEN_GAP_X + 2 * SECTION_PADDING;
+    const height = y - SCREEN_GAP_Y + SECTION_PADDING - originY;
+    addSections.push({
+      nodeId: sectionId,
+      type: "section",
+      position: { x, y: originY },
+      width,
+      height,
+      data: { label: stage.label, color: SECTION_COLORS[stageIndex % SECTION_COLORS.length] },
+    });
+    x += width + SECTION_GAP;
+  });
+
+  // Annotations keep their offset from the first screen they are connected to
+  for (const n of nodes) {
+    if (!ATTACHED_TYPES.has(n.type)) continue;
+    const anchorId = edges
+      .map((e) => (e.source === n.nodeId ? e.target : e.target === n.nodeId ? e.source : null))
+      .find((id) => id && positions.has(id) && byId.get(id)?.type === "screenshot");
+    if (!anchorId) continue;
+    const anchor = byId.get(anchorId)!;
+    const moved = positions.get(anchorId)!;
+    positions.set(n.nodeId, {
+      x: moved.x + (n.position.x - anchor.position.x),
+      y: moved.y + (n.position.y - anchor.position.y),
+    });
+    parents.set(n.nodeId, parents.get(anchorId)!);
+  }
+
+  return {
+    stages,
+    positions: Array.from(positions.entries())
+      .filter(([id, position]) => {
+        const current = byId.get(id)!;
+        return current.position.x !== position.x || current.position.y !== position.y
+          || current.parentId !== parents.get(id);
+      })
+      .map(([nodeId, position]) => ({ nodeId, position, parentId: parents.get(nodeId) ?? null })),
+    addSections,
+    removeSectionIds: nodes.filter((n) => n.type === "section").map((n) => n.nodeId),
+  };
+}
@@ -1,5 +1,6 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
 
 export const list = query({
   args: {},
@@ -146,6 +147,92 @@ export const create = mutation({
   },
 });
 
+// Colors for personas drafted from text, in order
+const DRAFT_PERSONA_COLORS = ["#a855f7", "#3b82f6", "#f59e0b", "#22c55e", "#06b6d4", "#ef4444", "#ec4899", "#84cc16"];
+
+/**
+ * Create a board from a journey drafted from text (see gemini.draftJourneyFromText
+ * and journeyDraft.ts). Matched screens show their library screenshot, which
+ * is linked to the board; without drafted personas the defaults are seeded.
+ */
+export const createFromDraft = internalMutation({
+  args: {
+    name: v.string(),
+    description: v.optional(v.string()),
+    ownerId: v.string(),
+    ownerName: v.optional(v.string()),
+    toolIds: v.optional(v.array(v.id("tools"))),
+    personas: v.array(v.object({ name: v.string(), description: v.string() })),
+    nodes: v.array(v.object({
+      nodeId: v.string(),
+      type: v.string(),
+      position: v.object({ x: v.number(), y: v.number() }),
+      data: v.any(),
+      width: v.optional(v.number()),
+      globalScreenshotId: v.optional(v.id("globalScreenshots")),
+    })),
+    edges: v.array(v.object({
+      edgeId: v.string(),
+      source: v.string(),
+      target: v.string(),
+      sourceHandle: v.string(),
+      targetHandle: v.string(),
+      label: v.optional(v.string()),
+    })),
+    personaNodes: v.array(v.object({ persona: v.string(), nodeId: v.string() })),
+  },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const boardId = await ctx.db.insert("boards", {
+      name: args.name,
+      description: args.description,
+      ownerId: args.ownerId,
+      ownerName: args.ownerName,
+      toolIds: args.toolIds,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    const personas = args.personas.length > 0
+      ? args.personas.map((p, i) => ({ ...p, color: DRAFT_PERSONA_COLORS[i % DRAFT_PERSONA_COLORS.length] }))
+      : DEFAULT_PERSONAS;
+    const personaIds = new Map<string, Id<"personas">>();
+    for (let i = 0; i < personas.length; i++) {
+      const p = personas[i];
+      personaIds.set(p.name, await ctx.db.insert("personas", {
+        boardId,
+        name: p.name,
+        description: p.description,
+        color: p.color,
+        order: i + 1,
+      }));
+    }
+
+    for (const { globalScreenshotId, ...node } of args.nodes) {
+      let data = node.data;
+      if (globalScreenshotId) {
+        const shot = await ctx.db.get(globalScreenshotId);
+        if (shot) {
+          data = { ...data, imageUrl: await ctx.storage.getUrl(shot.storageId), globalScreenshotId };
+          await ctx.db.insert("boardScreenshots", { boardId, globalScreenshotId, addedAt: now });
+        }
+      }
+      await ctx.db.insert("nodes", { boardId, ...node, data });
+    }
+
+    for (const edge of args.edges) {
+      await ctx.db.insert("edges", { boardId, ...edge, type: "labeled" });
+    }
+
+    for (const pn of args.personaNodes) {
+      const personaId = personaIds.get(pn.persona);
+      if (personaId) await ctx.db.insert("personaNodes", { boardId, personaId, nodeId: pn.nodeId });
+    }
+
+    return boardId;
+  },
+});
+
 export const update = mutation({
   args: {
     boardId: v.id("boards"),
@@ -241,6 +328,22 @@ export const remove = mutation({
     for (const msg of chatMessages) {
       await ctx.db.delete(msg._id);
     }
+    const chatSummaries = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const summary of chatSummaries) {
+      await ctx.db.delete(summary._id);
+    }
+
+    // Delete AI jobs (a running step stops at its next progress update)
+    const aiJobs = await ctx.db
+      .query("aiJobs")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const job of aiJobs) {
+      await ctx.db.delete(job._id);
+    }
 
     // Delete associated personaNodes
     const personaNodes = await ctx.db
@@ -296,6 +399,24 @@ export const remove = mutation({
       await ctx.db.delete(it._id);
     }
 
+    // Delete associated improvement revisions
+    const improvementRevisions = await ctx.db
+      .query("improvementRevisions")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const ir of improvementRevisions) {
+      await ctx.db.delete(ir._id);
+    }
+
+    // Delete the board's search index entries
+    const searchEmbeddings = await ctx.db
+      .query("searchEmbeddings")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const se of searchEmbeddings) {
+      await ctx.db.delete(se._id);
+    }
+
     // Delete the board
     await ctx.db.delete(args.boardId);
   },
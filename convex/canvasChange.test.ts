@@ -0,0 +1,39 @@
+import { describe, expect, test } from "vitest";
+import { compactChange, invertChange, type CanvasChange } from "./canvasChange";
+
+const change: CanvasChange = {
+  nodes: [
+    { nodeId: "added", before: null, after: { type: "text", position: { x: 0, y: 0 }, data: { text: "Note" } } },
+    { nodeId: "moved", before: { position: { x: 0, y: 0 } }, after: { position: { x: 40, y: 0 } } },
+  ],
+  edges: [{ edgeId: "e1", before: { source: "a", target: "b" }, after: null }],
+  personaNodes: [{ nodeId: "moved", personaId: "p1", before: false, after: true }],
+};
+
+describe("invertChange", () => {
+  test("swaps before and after, so inverting twice gives the change back", () => {
+    const inverted = invertChange(change);
+
+    expect(inverted.nodes[0]).toEqual({ nodeId: "added", before: change.nodes[0].after, after: null });
+    expect(inverted.edges[0]).toEqual({ edgeId: "e1", before: null, after: { source: "a", target: "b" } });
+    expect(inverted.personaNodes[0]).toEqual({ nodeId: "moved", personaId: "p1", before: true, after: false });
+    expect(invertChange(inverted)).toEqual(change);
+  });
+});
+
+describe("compactChange", () => {
+  test("drops entries that end where they started, whatever the key order", () => {
+    const compacted = compactChange({
+      nodes: [
+        ...change.nodes,
+        { nodeId: "dragged back", before: { position: { x: 5, y: 5 } }, after: { position: { y: 5, x: 5 } } },
+      ],
+      edges: [{ edgeId: "e2", before: { source: "a", target: "b", label: "Next" }, after: { label: "Next", target: "b", source: "a" } }],
+      personaNodes: [{ nodeId: "moved", personaId: "p2", before: true, after: true }],
+    });
+
+    expect(compacted.nodes.map((n) => n.nodeId)).toEqual(["added", "moved"]);
+    expect(compacted.edges).toEqual([]);
+    expect(compacted.personaNodes).toEqual([]);
+  });
+});
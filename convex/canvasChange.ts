@@ -0,0 +1,144 @@
+/**
+ * Canvas edits as data, for undo/redo. A change lists the fields of each
+ * node, edge and persona assignment it touched as they were before and after;
+ * undoing is applying the inverted change. Applying checks that each entry is
+ * still in its "before" state, so an undo never overwrites what a
+ * collaborator changed since. Pure so the client can build and invert
+ * changes without a round trip.
+ */
+
+export interface NodeFields {
+  type: string;
+  position: { x: number; y: number };
+  data: Record<string, unknown>;
+  width?: number;
+  height?: number;
+  // null records "not in a section", since undefined doesn't survive the trip to the server
+  parentId?: string | null;
+}
+
+export interface EdgeFields {
+  source: string;
+  target: string;
+  sourceHandle?: string;
+  targetHandle?: string;
+  label?: string;
+  type?: string;
+}
+
+// null means the node or edge doesn't exist on that side of the change; a
+// created or deleted entry carries all its fields on the other side
+export interface NodeChange {
+  nodeId: string;
+  before: Partial<NodeFields> | null;
+  after: Partial<NodeFields> | null;
+}
+
+export interface EdgeChange {
+  edgeId: string;
+  before: Partial<EdgeFields> | null;
+  after: Partial<EdgeFields> | null;
+}
+
+export interface PersonaNodeChange {
+  nodeId: string;
+  personaId: string;
+  before: boolean;
+  after: boolean;
+}
+
+export interface CanvasChange {
+  nodes: NodeChange[];
+  edges: EdgeChange[];
+  personaNodes: PersonaNodeChange[];
+}
+
+/** The undoable fields of a node row, e.g. from nodes.getByBoard. */
+export function nodeSnapshot(node: NodeFields): NodeFields {
+  return {
+    type: node.type,
+    position: node.position,
+    data: node.data,
+    ...(node.width !== undefined ? { width: node.width } : {}),
+    ...(node.height !== undefined ? { height: node.height } : {}),
+    ...(node.parentId ? { parentId: node.parentId } : {}),
+  };
+}
+
+// Canvas edges use null for an unset handle where database rows leave it out
+type EdgeRow = { [K in keyof EdgeFields]: EdgeFields[K] | null };
+
+/** The undoable fields of an edge row, without the unset optional ones. */
+export function edgeSnapshot(edge: EdgeRow & Pick<EdgeFields, "source" | "target">): EdgeFields {
+  const fields: EdgeFields = { source: edge.source, target: edge.target };
+  for (const key of ["sourceHandle", "targetHandle", "label", "type"] as const) {
+    const value = edge[key];
+    if (value !== undefined && value !== null) fields[key] = value;
+  }
+  return fields;
+}
+
+export function invertChange(change: CanvasChange): CanvasChange {
+  return {
+    nodes: change.nodes.map((n) => ({ nodeId: n.nodeId, before: n.after, after: n.before })),
+    edges: change.edges.map((e) => ({ edgeId: e.edgeId, before: e.after, after: e.before })),
+    personaNodes: change.personaNodes.map((p) => ({ ...p, before: p.after, after: p.before })),
+  };
+}
+
+/** JSON comparison that ignores key order, for data read back from the database. */
+export function sameValue(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: unknown): string {
+  if (value === undefined) return "null";
+  if (value === null || typeof value !== "object") return JSON.stringify(value);
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  const entries = Object.entries(value as Record<string, unknown>)
+    .filter(([, v]) => v !== undefined && typeof v !== "function")
+    .sort(([a], [b]) => a.localeCompare(b));
+  return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${stableStringify(v)}`).join(",")}}`;
+}
+
+/** Whether every field recorded for an entry still has the recorded value. */
+export function matchesFields(current: object, fields: object): boolean {
+  const row = current as Record<string, unknown>;
+  return Object.entries(fields).every(([key, value]) => sameValue(row[key], value));
+}
+
+/** Drop entries whose before and after are the same, e.g. a drag back to the start. */
+export function compactChange(change: CanvasChange): CanvasChange {
+  return {
+    nodes: change.nodes.filter((n) => !(n.before && n.after && sameValue(n.before, n.after))),
+    edges: change.edges.filter((e) => !(e.before && e.after && sameValue(e.before, e.after))),
+    personaNodes: change.personaNodes.filter((p) => p.before !== p.after),
+  };
+}
+
+export function isEmptyChange(change: CanvasChange): boolean {
+  return change.nodes.length === 0 && change.edges.length === 0 && change.personaNodes.length === 0;
+}
+
+/**
+ * Three-way merge of node data after a write lost a race (nodes.updateData
+ * reported it stale). Keys only one side changed since base take that side's
+ * value; keys both sides changed differently are listed as conflicts and keep
+ * the local value in merged until the user picks.
+ */
+export function mergeNodeData(
+  base: Record<string, unknown>,
+  mine: Record<string, unknown>,
+  theirs: Record<string, unknown>,
+): { merged: Record<string, unknown>; conflicts: string[] } {
+  const merged: Record<string, unknown> = { ...theirs };
+  const conflicts: string[] = [];
+  const keys = new Set([...Object.keys(base), ...Object.keys(mine), ...Object.keys(theirs)]);
+  for (const key of keys) {
+    if (sameValue(mine[key], base[key])) continue;
+    if (mine[key] === undefined) delete merged[key];
+    else merged[key] = mine[key];
+    if (!sameValue(theirs[key], base[key]) && !sameValue(theirs[key], mine[key])) conflicts.push(key);
+  }
+  return { merged, conflicts };
+}
@@ -0,0 +1,192 @@
+import { v } from "convex/values";
+import { mutation } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { matchesFields, type CanvasChange, type NodeFields } from "./canvasChange";
+import { nextRevision } from "./nodes";
+
+const nodeFieldsValidator = v.object({
+  type: v.optional(v.string()),
+  position: v.optional(v.object({ x: v.number(), y: v.number() })),
+  data: v.optional(v.any()),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+  parentId: v.optional(v.union(v.string(), v.null())),
+});
+
+const edgeFieldsValidator = v.object({
+  source: v.optional(v.string()),
+  target: v.optional(v.string()),
+  sourceHandle: v.optional(v.string()),
+  targetHandle: v.optional(v.string()),
+  label: v.optional(v.string()),
+  type: v.optional(v.string()),
+});
+
+const canvasChangeValidator = v.object({
+  nodes: v.array(v.object({
+    nodeId: v.string(),
+    before: v.union(nodeFieldsValidator, v.null()),
+    after: v.union(nodeFieldsValidator, v.null()),
+  })),
+  edges: v.array(v.object({
+    edgeId: v.string(),
+    before: v.union(edgeFieldsValidator, v.null()),
+    after: v.union(edgeFieldsValidator, v.null()),
+  })),
+  personaNodes: v.array(v.object({
+    nodeId: v.string(),
+    personaId: v.string(),
+    before: v.boolean(),
+    after: v.boolean(),
+  })),
+});
+
+/**
+ * Apply one step of canvas undo/redo (see canvasChange.ts). Entries that are
+ * no longer in their expected "before" state, because a collaborator changed
+ * them in the meantime, are skipped and reported instead of overwritten.
+ */
+export const applyChange = mutation({
+  args: {
+    boardId: v.id("boards"),
+    change: canvasChangeValidator,
+  },
+  handler: async (ctx, args) => {
+    const change = args.change as CanvasChange;
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const edges = await ctx.db
+      .query("edges")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const conflicts: string[] = [];
+    let applied = 0;
+    const nodeName = (nodeId: string, fields?: Partial<NodeFields> | null) => {
+      const data = fields?.data as { label?: string; text?: string } | undefined;
+      return data?.label || data?.text?.slice(0, 40) || nodeId;
+    };
+    const liveNodeIds = new Set(nodes.map((n) => n.nodeId));
+
+    // Edges first, so removed nodes don't leave dangling edges and restored
+    // edges can check their nodes below
+    const edgeChanges = change.edges.filter((e) => e.after === null);
+    for (const entry of edgeChanges) {
+      const edge = edges.find((e) => e.edgeId === entry.edgeId);
+      if (!edge) continue;
+      if (entry.before && !matchesFields(edge, entry.before)) {
+        conflicts.push(`A connection was changed by someone else and was kept`);
+        continue;
+      }
+      await ctx.db.delete(edge._id);
+      applied++;
+    }
+
+    for (const entry of change.nodes) {
+      const node = nodes.find((n) => n.nodeId === entry.nodeId);
+      if (entry.after === null) {
+        if (!node) continue;
+        if (entry.before && !matchesFields(node, entry.before)) {
+          conflicts.push(`"${nodeName(entry.nodeId, node)}" was changed by someone else and was kept`);
+          continue;
+        }
+        await ctx.db.delete(node._id);
+        liveNodeIds.delete(entry.nodeId);
+        // Edges and persona assignments go with the node, as in nodes.deleteNode
+        for (const edge of edges) {
+          if (edge.source === entry.nodeId || edge.target === entry.nodeId) {
+            if (await ctx.db.get(edge._id)) await ctx.db.delete(edge._id);
+          }
+        }
+        const personaNodes = await ctx.db
+          .query("personaNodes")
+          .withIndex("by_node", (q) => q.eq("boardId", args.boardId).eq("nodeId", entry.nodeId))
+          .collect();
+        for (const pn of personaNodes) {
+          await ctx.db.delete(pn._id);
+        }
+      } else if (entry.before === null) {
+        if (node) {
+          conflicts.push(`"${nodeName(entry.nodeId, node)}" already exists`);
+          continue;
+        }
+        const { type, position, data, width, height, parentId } = entry.after;
+        if (!type || !position) continue;
+        await ctx.db.insert("nodes", {
+          boardId: args.boardId,
+          nodeId: entry.nodeId,
+          type,
+          position,
+          data: data ?? {},
+          ...(width !== undefined ? { width } : {}),
+          ...(height !== undefined ? { height } : {}),
+          ...(parentId ? { parentId } : {}),
+        });
+        liveNodeIds.add(entry.nodeId);
+      } else {
+        if (!node) {
+          conflicts.push(`"${nodeName(entry.nodeId, entry.before)}" was deleted by someone else`);
+          continue;
+        }
+        if (!matchesFields(node, entry.before)) {
+          conflicts.push(`"${nodeName(entry.nodeId, node)}" was changed by someone else and was kept`);
+          continue;
+        }
+        const { parentId, ...fields } = entry.after;
+        await ctx.db.patch(node._id, {
+          ...fields,
+          ...(parentId !== undefined ? { parentId: parentId ?? undefined } : {}),
+          ...(fields.data !== undefined ? { revision: nextRevision(node) } : {}),
+        });
+      }
+      applied++;
+    }
+
+    for (const entry of change.edges) {
+      if (entry.after === null) continue;
+      const edge = edges.find((e) => e.edgeId === entry.edgeId);
+      const current = edge && (await ctx.db.get(edge._id));
+      if (entry.before === null) {
+        const { source, target } = entry.after;
+        if (current || !source || !target) continue;
+        if (!liveNodeIds.has(source) || !liveNodeIds.has(target)) {
+          conflicts.push(`A connection couldn't be restored because one of its screens was deleted`);
+          continue;
+        }
+        await ctx.db.insert("edges", { boardId: args.boardId, edgeId: entry.edgeId, ...entry.after, source, target });
+      } else {
+        if (!current) {
+          conflicts.push(`A connection was deleted by someone else`);
+          continue;
+        }
+        if (!matchesFields(current, entry.before)) {
+          conflicts.push(`A connection was changed by someone else and was kept`);
+          continue;
+        }
+        await ctx.db.patch(current._id, entry.after);
+      }
+      applied++;
+    }
+
+    for (const entry of change.personaNodes) {
+      const assignments = await ctx.db
+        .query("personaNodes")
+        .withIndex("by_node", (q) => q.eq("boardId", args.boardId).eq("nodeId", entry.nodeId))
+        .collect();
+      const existing = assignments.find((pn) => pn.personaId === entry.personaId);
+      if (entry.after && !existing) {
+        const personaId = entry.personaId as Id<"personas">;
+        // The persona may have been deleted since
+        if (!liveNodeIds.has(entry.nodeId) || !(await ctx.db.get(personaId))) continue;
+        await ctx.db.insert("personaNodes", { boardId: args.boardId, personaId, nodeId: entry.nodeId });
+      } else if (!entry.after && existing) {
+        await ctx.db.delete(existing._id);
+      }
+    }
+
+    await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+    return { applied, conflicts };
+  },
+});
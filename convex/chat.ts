@@ -2,13 +2,51 @@ import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
 
 export const getByBoard = query({
-  args: { boardId: v.id("boards") },
+  args: {
+    boardId: v.id("boards"),
+    threadId: v.optional(v.string()),
+  },
   handler: async (ctx, args) => {
     return await ctx.db
       .query("chatMessages")
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .collect()
-      .then((messages) => messages.sort((a, b) => a.createdAt - b.createdAt));
+      .then((messages) => messages
+        .filter((m) => m.threadId === args.threadId)
+        .sort((a, b) => a.createdAt - b.createdAt));
+  },
+});
+
+/**
+ * List the board's chat threads (main thread first) with a title taken from
+ * the first user message.
+ */
+export const getThreads = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const messages = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const threads = new Map<string, { threadId?: string; title: string; messageCount: number; lastMessageAt: number }>();
+    for (const m of messages.sort((a, b) => a.createdAt - b.createdAt)) {
+      const key = m.threadId ?? "";
+      const thread = threads.get(key) ?? {
+        threadId: m.threadId,
+        title: "",
+        messageCount: 0,
+        lastMessageAt: 0,
+      };
+      if (!thread.title && m.role === "user") thread.title = m.content.slice(0, 60);
+      thread.messageCount++;
+      thread.lastMessageAt = m.createdAt;
+      threads.set(key, thread);
+    }
+
+    return Array.from(threads.values()).sort((a, b) =>
+      a.threadId === undefined ? -1 : b.threadId === undefined ? 1 : a.lastMessageAt - b.lastMessageAt
+    );
   },
 });
 
@@ -18,6 +56,8 @@ export const addMessage = mutation({
     role: v.string(),
     content: v.string(),
     metadata: v.optional(v.any()),
+    status: v.optional(v.string()),
+    threadId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     return await ctx.db.insert("chatMessages", {
@@ -27,15 +67,202 @@ export const addMessage = mutation({
   },
 });
 
+/**
+ * Append streamed text to an assistant message. Returns false once the
+ * message is no longer streaming (e.g. the user cancelled it) so the caller
+ * can stop generating.
+ */
+export const updateStreamingMessage = mutation({
+  args: {
+    messageId: v.id("chatMessages"),
+    content: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message || message.status !== "streaming") return false;
+    await ctx.db.patch(args.messageId, { content: args.content });
+    return true;
+  },
+});
+
+export const finishStreamingMessage = mutation({
+  args: {
+    messageId: v.id("chatMessages"),
+    content: v.string(),
+    status: v.string(),
+    metadata: v.optional(v.any()),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return;
+    await ctx.db.patch(args.messageId, {
+      content: args.content,
+      // A cancellation that raced the final chunk wins
+      status: message.status === "cancelled" ? "cancelled" : args.status,
+      metadata: args.metadata,
+    });
+  },
+});
+
+/** Merge fields into a message's metadata (e.g. an in-place apply record). */
+export const updateMetadata = mutation({
+  args: {
+    messageId: v.id("chatMessages"),
+    metadata: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) return;
+    await ctx.db.patch(args.messageId, {
+      metadata: { ...(message.metadata || {}), ...args.metadata },
+    });
+  },
+});
+
+export const cancelMessage = mutation({
+  args: { messageId: v.id("chatMessages") },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (message?.status === "streaming") {
+      await ctx.db.patch(args.messageId, { status: "cancelled" });
+    }
+  },
+});
+
+/**
+ * Start a new thread containing a copy of the conversation up to and
+ * including the given message. The original thread is left untouched.
+ */
+export const branchFromMessage = mutation({
+  args: { messageId: v.id("chatMessages") },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) throw new Error("Message not found");
+
+    const messages = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_board", (q) => q.eq("boardId", message.boardId))
+      .collect();
+    const history = messages
+      .filter((m) => m.threadId === message.threadId && m.createdAt <= message.createdAt && m.status !== "streaming")
+      .sort((a, b) => a.createdAt - b.createdAt);
+
+    const threadId = `thread-${Date.now()}`;
+    for (const m of history) {
+      await ctx.db.insert("chatMessages", {
+        boardId: m.boardId,
+        role: m.role,
+        content: m.content,
+        createdAt: m.createdAt,
+        metadata: m.metadata,
+        status: m.status,
+        threadId,
+      });
+    }
+    return threadId;
+  },
+});
+
+/**
+ * Restart a thread from the given message by deleting everything after it.
+ */
+export const restartFromMessage = mutation({
+  args: { messageId: v.id("chatMessages") },
+  handler: async (ctx, args) => {
+    const message = await ctx.db.get(args.messageId);
+    if (!message) throw new Error("Message not found");
+
+    const messages = await ctx.db
+      .query("chatMessages")
+      .withIndex("by_board", (q) => q.eq("boardId", message.boardId))
+      .collect();
+    for (const m of messages) {
+      if (m.threadId === message.threadId && m.createdAt > message.createdAt) {
+        await ctx.db.delete(m._id);
+      }
+    }
+
+    // The stored summary may cover deleted messages
+    const summaries = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_board", (q) => q.eq("boardId", message.boardId))
+      .collect();
+    for (const s of summaries) {
+      if (s.threadId === message.threadId && s.coversUntil > message.createdAt) {
+        await ctx.db.delete(s._id);
+      }
+    }
+  },
+});
+
+export const getSummary = query({
+  args: {
+    boardId: v.id("boards"),
+    threadId: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const summaries = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    return summaries.find((s) => s.threadId === args.threadId) ?? null;
+  },
+});
+
+export const saveSummary = mutation({
+  args: {
+    boardId: v.id("boards"),
+    threadId: v.optional(v.string()),
+    summary: v.string(),
+    coversUntil: v.number(),
+  },
+  handler: async (ctx, args) => {
+    const summaries = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const existing = summaries.find((s) => s.threadId === args.threadId);
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        summary: args.summary,
+        coversUntil: args.coversUntil,
+        updatedAt: Date.now(),
+      });
+    } else {
+      await ctx.db.insert("chatSummaries", { ...args, updatedAt: Date.now() });
+    }
+  },
+});
+
+/**
+ * Clear one thread (the main thread when threadId is omitted), or every
+ * thread on the board with allThreads.
+ */
 export const clearChat = mutation({
-  args: { boardId: v.id("boards") },
+  args: {
+    boardId: v.id("boards"),
+    threadId: v.optional(v.string()),
+    allThreads: v.optional(v.boolean()),
+  },
   handler: async (ctx, args) => {
     const messages = await ctx.db
       .query("chatMessages")
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .collect();
     for (const msg of messages) {
-      await ctx.db.delete(msg._id);
+      if (args.allThreads || msg.threadId === args.threadId) {
+        await ctx.db.delete(msg._id);
+      }
+    }
+
+    const summaries = await ctx.db
+      .query("chatSummaries")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const s of summaries) {
+      if (args.allThreads || s.threadId === args.threadId) {
+        await ctx.db.delete(s._id);
+      }
     }
   },
 });
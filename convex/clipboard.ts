@@ -0,0 +1,218 @@
+import { v } from "convex/values";
+import { mutation, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { edgeSnapshot, nodeSnapshot, type CanvasChange } from "./canvasChange";
+import { findParentSection } from "./sections";
+
+/**
+ * Canvas copy/paste. The clipboard only holds the source board and node ids;
+ * pasting reads the current nodes there and copies them into the target board
+ * with fresh ids, together with the edges between them, their persona
+ * assignments and the improvement records behind improvement nodes. A copied
+ * section brings the nodes it owns. Works for the same board (paste,
+ * duplicate) and across boards.
+ */
+export const pasteNodes = mutation({
+  args: {
+    sourceBoardId: v.id("boards"),
+    nodeIds: v.array(v.string()),
+    targetBoardId: v.id("boards"),
+    // Where the top-left corner of the copied selection lands
+    position: v.object({ x: v.number(), y: v.number() }),
+    createdById: v.optional(v.string()),
+    createdByName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const wanted = new Set(args.nodeIds);
+    const sourceNodes = (
+      await ctx.db
+        .query("nodes")
+        .withIndex("by_board", (q) => q.eq("boardId", args.sourceBoardId))
+        .collect()
+    ).filter((n) => wanted.has(n.nodeId) || (n.parentId !== undefined && wanted.has(n.parentId)));
+    const change: CanvasChange = { nodes: [], edges: [], personaNodes: [] };
+    if (sourceNodes.length === 0) {
+      return { nodeIds: [] as string[], change };
+    }
+
+    const now = Date.now();
+    const sameBoard = args.sourceBoardId === args.targetBoardId;
+    const left = Math.min(...sourceNodes.map((n) => n.position.x));
+    const top = Math.min(...sourceNodes.map((n) => n.position.y));
+    const idMap = new Map(
+      sourceNodes.map((n, i) => [n.nodeId, `${n.type}-${now.toString(36)}${i}`])
+    );
+
+    const targetSections = (
+      await ctx.db
+        .query("nodes")
+        .withIndex("by_board", (q) => q.eq("boardId", args.targetBoardId))
+        .collect()
+    ).filter((n) => n.type === "section");
+    for (const node of sourceNodes) {
+      const position = {
+        x: args.position.x + node.position.x - left,
+        y: args.position.y + node.position.y - top,
+      };
+      // Stays in its section if that was copied too, otherwise joins the one it lands in
+      const parentId = (node.parentId && idMap.get(node.parentId))
+        || findParentSection({ ...node, position }, targetSections);
+      const copy = {
+        nodeId: idMap.get(node.nodeId)!,
+        type: node.type,
+        position,
+        data: node.data,
+        ...(node.width !== undefined ? { width: node.width } : {}),
+        ...(node.height !== undefined ? { height: node.height } : {}),
+        ...(parentId ? { parentId } : {}),
+      };
+      await ctx.db.insert("nodes", { boardId: args.targetBoardId, ...copy });
+      change.nodes.push({ nodeId: copy.nodeId, before: null, after: nodeSnapshot(copy) });
+    }
+
+    // Only edges with both ends in the selection come along
+    const sourceEdges = await ctx.db
+      .query("edges")
+      .withIndex("by_board", (q) => q.eq("boardId", args.sourceBoardId))
+      .collect();
+    let edgeCount = 0;
+    for (const edge of sourceEdges) {
+      const source = idMap.get(edge.source);
+      const target = idMap.get(edge.target);
+      if (!source || !target) continue;
+      const copy = { ...edgeSnapshot(edge), source, target };
+      const edgeId = `e-${now.toString(36)}${edgeCount++}`;
+      await ctx.db.insert("edges", { boardId: args.targetBoardId, edgeId, ...copy });
+      change.edges.push({ edgeId, before: null, after: copy });
+    }
+
+    // Personas belong to a board: across boards, assign the target board's
+    // persona of the same name, creating it if the board has none
+    const sourcePersonaNodes = (
+      await ctx.db
+        .query("personaNodes")
+        .withIndex("by_board", (q) => q.eq("boardId", args.sourceBoardId))
+        .collect()
+    ).filter((pn) => idMap.has(pn.nodeId));
+    const targetPersonas = sameBoard
+      ? []
+      : await ctx.db
+          .query("personas")
+          .withIndex("by_board", (q) => q.eq("boardId", args.targetBoardId))
+          .collect();
+    const personaIdMap = new Map<string, Id<"personas">>();
+    const targetPersonaFor = async (personaId: Id<"personas">): Promise<Id<"personas"> | null> => {
+      if (sameBoard) return personaId;
+      if (personaIdMap.has(personaId)) return personaIdMap.get(personaId)!;
+      const persona = await ctx.db.get(personaId);
+      if (!persona) return null;
+      const match = targetPersonas.find((p) => p.name.trim().toLowerCase() === persona.name.trim().toLowerCase());
+      const mapped = match
+        ? match._id
+        : await ctx.db.insert("personas", {
+            boardId: args.targetBoardId,
+            name: persona.name,
+            description: persona.description,
+            color: persona.color,
+            order: targetPersonas.reduce((max, p) => Math.max(max, p.order), -1) + 1 + personaIdMap.size,
+          });
+      personaIdMap.set(personaId, mapped);
+      return mapped;
+    };
+    for (const pn of sourcePersonaNodes) {
+      const personaId = await targetPersonaFor(pn.personaId);
+      if (!personaId) continue;
+      const nodeId = idMap.get(pn.nodeId)!;
+      await ctx.db.insert("personaNodes", { boardId: args.targetBoardId, personaId, nodeId });
+      change.personaNodes.push({ nodeId, personaId, before: false, after: true });
+    }
+
+    // Improvement nodes get their own improvement record, numbered on the
+    // target board and starting over as open, with the checklist unticked
+    const improvementNodeIds = sourceNodes.filter((n) => n.type === "improvement").map((n) => n.nodeId);
+    if (improvementNodeIds.length > 0) {
+      const sourceImprovements = await ctx.db
+        .query("improvements")
+        .withIndex("by_board", (q) => q.eq("boardId", args.sourceBoardId))
+        .collect();
+      const targetImprovements = sameBoard
+        ? sourceImprovements
+        : await ctx.db
+            .query("improvements")
+            .withIndex("by_board", (q) => q.eq("boardId", args.targetBoardId))
+            .collect();
+      let nextNumber = targetImprovements.reduce((max, imp) => Math.max(max, imp.number), 0) + 1;
+      for (const nodeId of improvementNodeIds) {
+        const imp = sourceImprovements.find((i) => i.nodeId === nodeId && !i.mergedIntoId);
+        if (!imp) continue;
+        const improvementId = await ctx.db.insert("improvements", {
+          boardId: args.targetBoardId,
+          nodeId: idMap.get(nodeId)!,
+          number: nextNumber++,
+          title: imp.title,
+          content: imp.content,
+          currentState: imp.currentState,
+          proposedImprovement: imp.proposedImprovement,
+          expectedImpact: imp.expectedImpact,
+          developerTodos: imp.developerTodos,
+          priority: imp.priority,
+          status: "open",
+          connectedNodeIds: imp.connectedNodeIds.flatMap((id) => (idMap.has(id) ? [idMap.get(id)!] : [])),
+          generatedByAI: imp.generatedByAI,
+          createdAt: now,
+          assigneeId: imp.assigneeId,
+          assigneeName: imp.assigneeName,
+          createdById: args.createdById,
+          createdByName: args.createdByName,
+          statusHistory: [],
+        });
+        const todos = await ctx.db
+          .query("improvementTodos")
+          .withIndex("by_improvement", (q) => q.eq("improvementId", imp._id))
+          .collect();
+        for (const todo of todos) {
+          await ctx.db.insert("improvementTodos", {
+            improvementId,
+            boardId: args.targetBoardId,
+            text: todo.text,
+            completed: false,
+            order: todo.order,
+            phase: todo.phase,
+            createdAt: now,
+            createdBy: args.createdById,
+            createdByName: args.createdByName,
+          });
+        }
+      }
+    }
+
+    // Screenshots from the global library show up in the target board's list
+    if (!sameBoard) {
+      await linkScreenshots(ctx, args.targetBoardId, sourceNodes, now);
+    }
+
+    await ctx.db.patch(args.targetBoardId, { updatedAt: now });
+    return { nodeIds: Array.from(idMap.values()), change };
+  },
+});
+
+async function linkScreenshots(
+  ctx: MutationCtx,
+  boardId: Id<"boards">,
+  nodes: Doc<"nodes">[],
+  now: number,
+) {
+  const linked = await ctx.db
+    .query("boardScreenshots")
+    .withIndex("by_board", (q) => q.eq("boardId", boardId))
+    .collect();
+  const linkedIds = new Set<string>(linked.map((l) => l.globalScreenshotId));
+  for (const node of nodes) {
+    const globalScreenshotId = node.type === "screenshot" ? node.data?.globalScreenshotId : undefined;
+    if (!globalScreenshotId || linkedIds.has(globalScreenshotId)) continue;
+    const id = ctx.db.normalizeId("globalScreenshots", globalScreenshotId);
+    if (!id || !(await ctx.db.get(id))) continue;
+    await ctx.db.insert("boardScreenshots", { boardId, globalScreenshotId: id, addedAt: now });
+    linkedIds.add(globalScreenshotId);
+  }
+}
@@ -0,0 +1,12 @@
+import { cronJobs } from "convex/server";
+import { internal } from "./_generated/api";
+
+const crons = cronJobs();
+
+// Comments and chat don't mark boards as changed, so the search index is fully re-checked periodically
+crons.interval("refresh search index", { hours: 1 }, internal.gemini.refreshSearchIndex, { all: true });
+
+// Presence rows of tabs that closed without saying goodbye
+crons.interval("remove stale presence", { minutes: 1 }, internal.presence.removeStale, {});
+
+export default crons;
@@ -1,28 +1,152 @@
 "use node";
 
-import { v } from "convex/values";
-import { action } from "./_generated/server";
+import { v, type GenericValidator, type Infer } from "convex/values";
+import { action, internalAction, type ActionCtx } from "./_generated/server";
 import { api, internal } from "./_generated/api";
+import type { Doc, Id } from "./_generated/dataModel";
+import { DEFAULT_TEMPLATES } from "./promptTemplates";
+import {
+  describeEmbeddingSelection,
+  describeSelection,
+  embed,
+  errorMessage,
+  extractPartialJSONString,
+  generate,
+  getConfigError,
+  getEmbeddingConfigError,
+  LLMError,
+  parseJSONResponse,
+  stream,
+  userMessage,
+  type LLMEmbeddingResponse,
+  type LLMMessage,
+  type LLMRequest,
+  type LLMResponse,
+  type LLMSelection,
+} from "./llm";
+import {
+  accessibilityJobStateValidator,
+  accessibilityResponseValidator,
+  autoLayoutResponseValidator,
+  chatResponseValidator,
+  checkValue,
+  improvementMergeResponseValidator,
+  isRecord,
+  journeyDraftResponseValidator,
+  personaJourneyJobArgsValidator,
+  personaJourneyResponseValidator,
+  portfolioResponseValidator,
+  reportJobArgsValidator,
+  reportResponseValidator,
+  screenshotLabelResponseValidator,
+  sectionJobArgsValidator,
+  terminologyResponseValidator,
+  toJSONSchema,
+  walkthroughJobStateValidator,
+  walkthroughResponseValidator,
+  type InvalidItem,
+  type Proposal,
+} from "./aiSchemas";
+import {
+  parseAccessibilityResponse,
+  parseAutoLayoutResponse,
+  parseChatResponse,
+  parseImprovementResponse,
+  parseJourneyDraftResponse,
+  parseMergeSuggestionsResponse,
+  parsePersonaJourneyResponse,
+  parsePortfolioResponse,
+  parseReportResponse,
+  parseScreenshotLabelResponse,
+  parseTerminologyResponse,
+  parseWalkthroughResponse,
+} from "./aiParsing";
+import { describeAttachedImages, loadScreenshotImages, visionEnabled } from "./screenshotImages";
+import { configureFixturesFromEnv } from "./llmFixtures";
+import { planPersonaJourney } from "./personaJourney";
+import { calcHandles } from "./proposalPlan";
+import { collectTermSources, glossaryTable } from "./terminology";
+import { findDuplicateCandidates } from "./improvementDedupe";
+import { cleanStages, fallbackStages, planAutoLayout, type AutoLayoutPlan, type LayoutStage } from "./autoLayout";
+import { collectSearchDocuments, contentHash, searchSnippet } from "./searchDocuments";
+import { buildPortfolioInventory, findSharedScreens, portfolioKeys, type PortfolioBoard } from "./portfolio";
+import { matchScreenshots, planDraftBoard, type LibraryScreenshot } from "./journeyDraft";
+import { ACCESSIBILITY_ISSUE_LABELS, accessibilityFindings, type ScreenAudit } from "./accessibility";
+import { sectionScope, type SectionGeometryNode } from "./sections";
+
+// How often streamed chat text is written back to chatMessages
+const STREAM_FLUSH_INTERVAL_MS = 400;
+// Chat history beyond this size is folded into a rolling summary
+const HISTORY_CHAR_BUDGET = 24_000;
+// Most recent messages that are always sent verbatim
+const HISTORY_VERBATIM_MESSAGES = 8;
+// Screens analyzed per background walkthrough step
+const WALKTHROUGH_CHUNK_SIZE = 8;
+// Persona journey steps scored at or above this get an attention node
+const FRICTION_ATTENTION_THRESHOLD = 4;
+// Documents per embedding request when indexing
+const EMBED_BATCH_SIZE = 64;
+// Boards caught up before a search runs; the rest wait for the periodic refresh
+const SEARCH_REFRESH_BOARD_LIMIT = 5;
+// Journeys one portfolio analysis can compare; more won't fit the prompt in useful detail
+const MAX_PORTFOLIO_BOARDS = 6;
+// Requirements text beyond this is cut before drafting a journey
+const MAX_DRAFT_SOURCE_LENGTH = 30_000;
+// Library screenshots listed in the journey draft prompt
+const MAX_DRAFT_LIBRARY_SIZE = 300;
+// Screenshots audited per background accessibility step, one model call each
+const ACCESSIBILITY_CHUNK_SIZE = 4;
+
+// Record or replay model responses when AI_FIXTURE_MODE is set
+configureFixturesFromEnv();
 
+/**
+ * Answer a chat message about the board. Earlier messages in the thread are
+ * sent as conversation turns (older ones summarized). The assistant reply is
+ * inserted into chatMessages up front and filled in as tokens stream from the
+ * model; the user can stop it via chat.cancelMessage.
+ */
 export const analyzeJourney = action({
   args: {
     boardId: v.id("boards"),
     userMessage: v.string(),
+    threadId: v.optional(v.string()),
   },
   returns: v.object({
     response: v.string(),
     proposals: v.any(),
+    messageId: v.id("chatMessages"),
   }),
-  handler: async (ctx, args): Promise<{ response: string; proposals: any }> => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return {
-        response: "Gemini API key not configured. Please add GEMINI_API_KEY to your Convex environment variables.",
-        proposals: null,
+  handler: async (ctx, args): Promise<{ response: string; proposals: Proposal[] | null; messageId: Id<"chatMessages"> }> => {
+    const messageId: Id<"chatMessages"> = await ctx.runMutation(api.chat.addMessage, {
+      boardId: args.boardId,
+      role: "assistant",
+      content: "",
+      status: "streaming",
+      threadId: args.threadId,
+    });
+    const finish = async (response: string, status: string, proposals: Proposal[] | null = null, invalidProposals: InvalidItem[] = []) => {
+      const metadata = {
+        ...(proposals ? { proposals } : {}),
+        ...(invalidProposals.length > 0 ? { invalidProposals } : {}),
       };
+      await ctx.runMutation(api.chat.finishStreamingMessage, {
+        messageId,
+        content: response,
+        status,
+        metadata: Object.keys(metadata).length > 0 ? metadata : undefined,
+      });
+      return { response, proposals, messageId };
+    };
+
+    const template = await loadTemplate(ctx, "chat_system");
+    const configError = getConfigError(template.selection);
+    if (configError) {
+      return await finish(configError, "error");
     }
 
     // Gather context from the board
+    const board = await ctx.runQuery(api.boards.get, { boardId: args.boardId });
     const nodes: any[] = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
     const edges: any[] = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
     const personas: any[] = await ctx.runQuery(api.personas.getByBoard, { boardId: args.boardId });
@@ -72,94 +196,16 @@ export const analyzeJourney = action({
         return `- ${c.authorName}${node ? ` (on "${node.data?.label || c.nodeId}")` : ""}: "${c.text}"`;
       }).join("\n");
 
-    // Build a nodeId reference list so Gemini can use real IDs
-    const nodeIdList = screenshotNodes.map((n: any) =>
-      `  - nodeId: "${n.nodeId}" → label: "${n.data?.label || ""}"`
-    ).join("\n");
-
     // Build a position reference so Gemini knows spatial layout
     const nodePositionList = nodes.map((n: any) =>
       `  - nodeId: "${n.nodeId}" → label: "${n.data?.label || n.data?.text || ""}" (type: ${n.type}, x: ${Math.round(n.position.x)}, y: ${Math.round(n.position.y)})`
     ).join("\n");
 
-    const systemPrompt = `You are an expert UX analyst specializing in customer journey mapping across multi-platform enterprise software (OPPR platforms). You help teams analyze and improve cross-platform customer journeys.
-
-Your capabilities:
-1. Identify terminology mismatches across screens (e.g. "start" vs "initiate" vs "activate")
-2. Find missing screens or dead-end flows where users might get stuck
-3. Analyze per-persona experience — walk through each persona's path and annotate friction points
-4. Suggest specific improvements with references to actual screen names
-5. Propose canvas changes as structured JSON that can be applied automatically
-6. Add yellow annotation notes, red attention/issue markers, and green improvement boxes to provide rich visual feedback on the journey map
-
-## Canvas Node Types
-The journey map canvas supports these node types:
-- **Screenshot nodes**: Actual screen captures with labels and platform tags
-- **Text nodes (yellow)**: Annotation notes — use these for observations, context, persona-specific notes
-- **Attention nodes (red)**: Issue markers — use these for problems, friction points, UX issues, dead ends
-- **Improvement nodes (green)**: Improvement suggestions — use these for actionable recommendations
-
-## Tone
-Be constructive and supportive. Frame issues as opportunities — use "users may find this confusing because..." rather than "this is broken". Acknowledge what works well before suggesting changes. Your goal is to guide the team, not criticize.
-
-## How to provide comprehensive analysis
-When analyzing a journey, you should:
-1. Walk through EACH persona's path and identify where they succeed and where they get stuck
-2. For EACH screen, consider adding:
-   - A yellow **note** with persona-specific observations (e.g. "Admin sees this first after login")
-   - A red **attention** marker for any UX issues or friction points found
-   - A green **improvement** suggestion with actionable recommendations
-3. Connect screens in logical flow order using appropriate directional edges
-4. Add missing screens where the journey has gaps
-
-IMPORTANT: Whenever you suggest changes, you MUST ALWAYS include a structured JSON proposals block so the user can apply your changes directly to the canvas with one click. Do not just describe changes in text — always provide the JSON.
-
-Be generous with annotations! Add notes, attention markers, and improvement boxes for every meaningful observation. The goal is a richly annotated journey map that tells the full story.
-
-Available node IDs and positions (use these exact IDs in your proposals):
-${nodePositionList || "(no nodes yet)"}
-
-Available screenshot node IDs (for edges and references):
-${nodeIdList || "(no nodes yet)"}
-
-When proposing changes, format them as JSON in a code block with this structure:
-\`\`\`json
-{
-  "proposals": [
-    { "action": "addNode", "label": "Screen Name", "platform": "admin", "afterNode": "existing-node-id", "connectionLabel": "label for auto-created edge" },
-    { "action": "addEdge", "source": "existing-node-id", "target": "existing-node-id", "label": "Connection Label" },
-    { "action": "addNote", "text": "Observation or context note", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
-    { "action": "addAttention", "text": "Issue or friction point description", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
-    { "action": "addImprovement", "text": "Actionable improvement suggestion", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
-    { "action": "relabelEdge", "edgeSource": "node-id", "edgeTarget": "node-id", "newLabel": "New Label" },
-    { "action": "removeNode", "nodeId": "node-id-to-remove" },
-    { "action": "removeEdge", "source": "node-id", "target": "node-id" }
-  ]
-}
-\`\`\`
-
-### Proposal types explained:
-- **addNode**: Add a proposed new screen (creates a yellow text node placeholder). Use "afterNode" to position it near an existing screen and auto-connect.
-- **addEdge**: Connect two existing nodes with a labeled edge. The system will automatically choose the correct handle direction (top/bottom/left/right) based on node positions.
-- **addNote**: Add a yellow annotation box near a screen. Use "nearNode" to place it near the relevant screen. Include "persona" to tag which persona this note applies to.
-- **addAttention**: Add a red attention/issue box near a screen. Same positioning as addNote. Use for problems, friction points, dead-ends.
-- **addImprovement**: Add a green improvement box near a screen. Same positioning as addNote. Use for actionable recommendations.
-- **relabelEdge**: Change the label on an existing edge.
-- **removeNode**: Remove an existing node and its connections.
-- **removeEdge**: Remove a specific edge.
-
-Rules for proposals:
-- Use the exact nodeId values listed above (e.g. "screenshot-abc123"), NOT screen labels
-- For "afterNode" in addNode, use the nodeId of the screen the new node should appear after
-- For "nearNode" in addNote/addAttention/addImprovement, use the nodeId of the screen to annotate
-- For addEdge source/target, use nodeIds
-- Always include the proposals JSON block alongside your analysis text
-- Include persona name in addNote/addAttention/addImprovement when the observation is persona-specific
-- Create MULTIPLE notes/attention/improvement boxes — one per distinct observation, not one giant block`;
-
-    // Inject tool context
     const toolContext = await getToolContext(ctx, args.boardId);
-    const systemPromptWithTools = systemPrompt + toolContext;
+    const systemPromptWithTools = renderPrompt(template, {
+      ...buildPromptVariables(board, nodes, personas, toolContext),
+      nodePositionList: nodePositionList || "(no nodes yet)",
+    });
 
     const boardContext = `## Current Journey Map
 
@@ -184,63 +230,58 @@ ${personaDescriptions || "(none defined)"}
 ### Unresolved Comments:
 ${unresolvedComments || "(none)"}`;
 
-    const fullPrompt = `${boardContext}\n\n## User Question:\n${args.userMessage}`;
+    // Attach the screens themselves so answers can cite what is actually on them
+    const images = await loadScreenshotImages(screenshotNodes);
+    const imageNote = describeAttachedImages(images);
+    const fullPrompt = `${boardContext}${imageNote ? `\n\n${imageNote}` : ""}\n\n## User Question:\n${args.userMessage}`;
+
+    const history = await buildChatHistory(ctx, args.boardId, board?.name || "", args.threadId, messageId, args.userMessage, template.selection);
+    const systemPrompt = history.summary
+      ? `${systemPromptWithTools}\n\n## Earlier Conversation (summary)\n${history.summary}`
+      : systemPromptWithTools;
+
+    // Persist partial analysis periodically; stop generating once the message is cancelled
+    const cancel = new AbortController();
+    let raw = "";
+    let partial = "";
+    let lastFlush = 0;
+    let pendingFlush: Promise<void> | null = null;
+    const flush = () => {
+      lastFlush = Date.now();
+      pendingFlush = ctx
+        .runMutation(api.chat.updateStreamingMessage, { messageId, content: partial })
+        .then((active) => {
+          if (!active) cancel.abort();
+        })
+        .finally(() => {
+          pendingFlush = null;
+        });
+    };
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3.1-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            systemInstruction: {
-              parts: [{ text: systemPromptWithTools }],
-            },
-            contents: [
-              {
-                role: "user",
-                parts: [{ text: fullPrompt }],
-              },
-            ],
-            generationConfig: {
-              temperature: 0.7,
-              maxOutputTokens: 8192,
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        return {
-          response: `Gemini API error (${response.status}): ${errorText}`,
-          proposals: null,
-        };
-      }
-
-      const data = await response.json();
-      const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || "No response from Gemini.";
-
-      // Try to extract structured proposals from code blocks
-      let proposals = null;
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        try {
-          const parsed = JSON.parse(jsonMatch[1]);
-          if (parsed.proposals) {
-            proposals = parsed.proposals;
-          }
-        } catch {
-          // JSON parse failed, that's fine — just return the text
-        }
-      }
-
-      return { response: text, proposals };
+      const result = await trackedStream(ctx, { boardId: args.boardId, feature: "chat_system" }, {
+        system: systemPrompt,
+        messages: [...history.messages, { role: "user", parts: [{ text: fullPrompt }, ...images.parts] }],
+        temperature: 0.7,
+        maxOutputTokens: 8192,
+        responseSchema: toJSONSchema(chatResponseValidator),
+      }, (delta) => {
+        raw += delta;
+        // Show the "analysis" field while the JSON object is still arriving
+        partial = extractPartialJSONString(raw, "analysis") ?? (raw.trimStart().startsWith("{") ? "" : raw);
+        if (!pendingFlush && Date.now() - lastFlush >= STREAM_FLUSH_INTERVAL_MS) flush();
+      }, template.selection, { signal: cancel.signal });
+      await pendingFlush;
+
+      // Invalid proposals are reported on the message
+      const { analysis, proposals, invalid } = parseChatResponse(result.text, nodes);
+      return await finish(analysis, "complete", proposals.length > 0 ? proposals : null, invalid);
     } catch (error: any) {
-      return {
-        response: `Error calling Gemini: ${error.message}`,
-        proposals: null,
-      };
+      await pendingFlush;
+      if (cancel.signal.aborted) {
+        return await finish(partial, "cancelled");
+      }
+      return await finish(partial ? `${partial}\n\n---\nError calling AI model: ${error.message}` : `Error calling AI model: ${error.message}`, "error");
     }
   },
 });
@@ -249,9 +290,10 @@ export const generateBoardSummary = action({
   args: { boardId: v.id("boards") },
   returns: v.string(),
   handler: async (ctx, args): Promise<string> => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return "API key not configured.";
+    const template = await loadTemplate(ctx, "summary_generate");
+    if (getConfigError(template.selection)) return "API key not configured.";
 
+    const board = await ctx.runQuery(api.boards.get, { boardId: args.boardId });
     const nodes: any[] = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
     const edges: any[] = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
     const personas: any[] = await ctx.runQuery(api.personas.getByBoard, { boardId: args.boardId });
@@ -263,31 +305,25 @@ export const generateBoardSummary = action({
 
     const toolContext = await getToolContext(ctx, args.boardId);
 
-    const prompt = `Summarize this customer journey map in 1-2 concise sentences for a dashboard card. Keep the tone neutral and informative.
-Screens: ${screenList || "(none)"}
-Connections: ${edgeCount}
-Personas: ${personaList || "(none)"}${toolContext}`;
+    const prompt = renderPrompt(template, {
+      ...buildPromptVariables(board, nodes, personas, toolContext),
+      screenList: screenList || "(none)",
+      connectionCount: String(edgeCount),
+      personaNames: personaList || "(none)",
+    });
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3.1-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            generationConfig: { temperature: 0.5, maxOutputTokens: 200 },
-          }),
-        }
-      );
-      if (!response.ok) return "Failed to generate summary.";
-      const data = await response.json();
-      const summary = data?.candidates?.[0]?.content?.parts?.[0]?.text || "No summary generated.";
+      const result = await trackedGenerate(ctx, { boardId: args.boardId, feature: "summary_generate" }, {
+        messages: [userMessage(prompt)],
+        temperature: 0.5,
+        maxOutputTokens: 200,
+      }, template.selection);
+      const summary = result.text || "No summary generated.";
 
       await ctx.runMutation(api.boards.updateSummary, { boardId: args.boardId, aiSummary: summary });
       return summary;
-    } catch {
-      return "Error generating summary.";
+    } catch (error) {
+      return error instanceof LLMError && error.status ? "Failed to generate summary." : "Error generating summary.";
     }
   },
 });
@@ -296,160 +332,13 @@ export const generateReport = action({
   args: {
     boardId: v.id("boards"),
     personaId: v.optional(v.id("personas")),
+    // Section node to limit the analysis to (see sections.ts)
+    sectionId: v.optional(v.string()),
   },
   returns: v.string(),
   handler: async (ctx, args): Promise<string> => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) return "API key not configured.";
-
-    const nodes: any[] = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
-    const edges: any[] = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
-    const personas: any[] = await ctx.runQuery(api.personas.getByBoard, { boardId: args.boardId });
-    const personaNodes: any[] = await ctx.runQuery(api.personaNodes.getByBoard, { boardId: args.boardId });
-    const comments: any[] = await ctx.runQuery(api.comments.getByBoard, { boardId: args.boardId });
-
-    const screenshotNodes = nodes.filter((n: any) => n.type === "screenshot");
-    const textNodes = nodes.filter((n: any) => n.type === "text");
-    const attentionNodes = nodes.filter((n: any) => n.type === "attention");
-
-    // Build persona assignments map
-    const nodePersonas: Record<string, string[]> = {};
-    for (const pn of personaNodes) {
-      const persona = personas.find((p: any) => p._id === pn.personaId);
-      if (persona) {
-        if (!nodePersonas[pn.nodeId]) nodePersonas[pn.nodeId] = [];
-        nodePersonas[pn.nodeId].push(persona.name);
-      }
-    }
-
-    const screenDescriptions = screenshotNodes.map((n: any) => {
-      const assignedPersonas = nodePersonas[n.nodeId] || [];
-      return `- "${n.data?.label || n.nodeId}" (platform: ${n.data?.platform || "unknown"}${assignedPersonas.length > 0 ? `, personas: ${assignedPersonas.join(", ")}` : ""})`;
-    }).join("\n");
-
-    const connectionDescriptions = edges.map((e: any) => {
-      const source = screenshotNodes.find((n: any) => n.nodeId === e.source);
-      const target = screenshotNodes.find((n: any) => n.nodeId === e.target);
-      return `- "${source?.data?.label || e.source}" → "${target?.data?.label || e.target}"${e.label ? ` [${e.label}]` : ""}`;
-    }).join("\n");
-
-    const attentionDescriptions = attentionNodes.map((n: any) => {
-      return `- ATTENTION: "${n.data?.text || "No description"}"`;
-    }).join("\n");
-
-    const unresolvedComments = comments
-      .filter((c: any) => !c.resolved)
-      .map((c: any) => `- ${c.authorName}: "${c.text}"`)
-      .join("\n");
-
-    const personaDescriptions = personas.map((p: any) => `- ${p.name}: ${p.description}`).join("\n");
-
-    let focusNote = "";
-    if (args.personaId) {
-      const focusPersona = personas.find((p: any) => p._id === args.personaId);
-      if (focusPersona) {
-        focusNote = `\n\nFOCUS: Analyze specifically from the perspective of "${focusPersona.name}": ${focusPersona.description}`;
-      }
-    }
-
-    const nodeIdList = screenshotNodes.map((n: any) =>
-      `  - nodeId: "${n.nodeId}" → label: "${n.data?.label || ""}"`
-    ).join("\n");
-
-    const systemPrompt = `You are a supportive UX consultant conducting a gap analysis of this customer journey map. Your role is to help the team understand where the experience can be strengthened.
-
-Frame all findings constructively — instead of "this is broken" or "this fails", explain what users experience and why it may cause friction. Acknowledge the strengths of the current journey before diving into areas for improvement. Write as a collaborative partner, not a critic.
-
-Your response MUST follow this exact format:
-
-## Executive Summary
-(2-3 sentences summarizing the overall journey health, leading with what's working well)
-
-## Findings
-Provide findings as a JSON code block:
-\`\`\`json
-[
-  { "type": "gap|terminology|dead-end|missing-connection", "severity": "high|medium|low", "description": "...", "affectedNodes": ["nodeId1", "nodeId2"] }
-]
-\`\`\`
-
-## Detailed Analysis
-(Markdown analysis with specific, constructive recommendations)
-
-Available node IDs:
-${nodeIdList || "(none)"}
-${focusNote}`;
-
-    // Inject tool context
-    const toolContext = await getToolContext(ctx, args.boardId);
-    const reportSystemPrompt = systemPrompt + toolContext;
-
-    const boardContext = `### Screens (${screenshotNodes.length}):
-${screenDescriptions || "(none)"}
-
-### Connections (${edges.length}):
-${connectionDescriptions || "(none)"}
-
-### Attention Flags:
-${attentionDescriptions || "(none)"}
-
-### Personas (${personas.length}):
-${personaDescriptions || "(none)"}
-
-### Unresolved Comments:
-${unresolvedComments || "(none)"}`;
-
-    try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3.1-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            systemInstruction: { parts: [{ text: reportSystemPrompt }] },
-            contents: [{ role: "user", parts: [{ text: `Analyze this journey map:\n\n${boardContext}` }] }],
-            generationConfig: { temperature: 0.5, maxOutputTokens: 8192 },
-          }),
-        }
-      );
-
-      if (!response.ok) return "Failed to generate report.";
-      const data = await response.json();
-      const text = data?.candidates?.[0]?.content?.parts?.[0]?.text || "No report generated.";
-
-      // Extract findings JSON
-      let findings: any[] = [];
-      const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```/);
-      if (jsonMatch) {
-        try {
-          findings = JSON.parse(jsonMatch[1]);
-        } catch { /* ignore */ }
-      }
-
-      // Extract executive summary
-      const summaryMatch = text.match(/## Executive Summary\s*([\s\S]*?)(?=\n## )/);
-      const summary = summaryMatch ? summaryMatch[1].trim() : "See full report.";
-
-      // Generate title
-      const focusPersona = args.personaId ? personas.find((p: any) => p._id === args.personaId) : null;
-      const title = focusPersona
-        ? `Gap Analysis: ${focusPersona.name} Flow`
-        : `Gap Analysis Report`;
-
-      // Save the report
-      const reportId = await ctx.runMutation(api.reports.create, {
-        boardId: args.boardId,
-        title,
-        content: text,
-        summary,
-        findings,
-        personaId: args.personaId,
-      });
-
-      return reportId;
-    } catch (error: any) {
-      return `Error: ${error.message}`;
-    }
+    const result = await createGapReport(ctx, args.boardId, args.personaId, args.sectionId);
+    return result.reportId ?? result.error ?? "Failed to generate report.";
   },
 });
 
@@ -464,6 +353,7 @@ ${unresolvedComments || "(none)"}`;
 export const runUXWalkthrough = action({
   args: {
     boardId: v.id("boards"),
+    sectionId: v.optional(v.string()),
   },
   returns: v.object({
     commentsCreated: v.number(),
@@ -475,260 +365,30 @@ export const runUXWalkthrough = action({
     reportId?: string;
     error?: string;
   }> => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
-      return { commentsCreated: 0, error: "Gemini API key not configured." };
-    }
-
-    // Gather all board data
-    const board: any = await ctx.runQuery(api.boards.get, { boardId: args.boardId });
-    const nodes: any[] = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
-    const edges: any[] = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
-    const personas: any[] = await ctx.runQuery(api.personas.getByBoard, { boardId: args.boardId });
-    const personaNodes: any[] = await ctx.runQuery(api.personaNodes.getByBoard, { boardId: args.boardId });
-    const existingComments: any[] = await ctx.runQuery(api.comments.getByBoard, { boardId: args.boardId });
-
-    const screenshotNodes = nodes.filter((n: any) => n.type === "screenshot");
-    const textNodes = nodes.filter((n: any) => n.type === "text");
-    const attentionNodes = nodes.filter((n: any) => n.type === "attention");
-
-    if (screenshotNodes.length === 0) {
-      return { commentsCreated: 0, error: "No screenshot nodes found on this board." };
+    const template = await loadTemplate(ctx, "walkthrough_system");
+    const configError = getConfigError(template.selection);
+    if (configError) {
+      return { commentsCreated: 0, error: configError };
     }
 
-    // Build persona assignments map
-    const nodePersonaMap: Record<string, string[]> = {};
-    for (const pn of personaNodes) {
-      const persona = personas.find((p: any) => p._id === pn.personaId);
-      if (persona) {
-        if (!nodePersonaMap[pn.nodeId]) nodePersonaMap[pn.nodeId] = [];
-        nodePersonaMap[pn.nodeId].push(persona.name);
-      }
-    }
-
-    // Build edge map (what connects to each node)
-    const incomingEdges: Record<string, string[]> = {};
-    const outgoingEdges: Record<string, string[]> = {};
-    for (const e of edges) {
-      if (!outgoingEdges[e.source]) outgoingEdges[e.source] = [];
-      outgoingEdges[e.source].push(`→ ${findNodeLabel(nodes, e.target)} [${e.label || ""}]`);
-      if (!incomingEdges[e.target]) incomingEdges[e.target] = [];
-      incomingEdges[e.target].push(`← ${findNodeLabel(nodes, e.source)} [${e.label || ""}]`);
+    const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
+    const screenNodeIds = screensInScope(nodes, args.sectionId).map((n) => n.nodeId);
+    if (screenNodeIds.length === 0) {
+      return { commentsCreated: 0, error: `No screenshot nodes found ${args.sectionId ? "in this section" : "on this board"}.` };
     }
 
-    // Build the full board context for the AI
-    const boardContext = buildBoardContext(
-      board, screenshotNodes, textNodes, attentionNodes,
-      edges, personas, nodePersonaMap, existingComments
-    );
-
-    // Build per-node analysis request
-    const nodeDescriptions = screenshotNodes.map((n: any) => {
-      const assignedPersonas = nodePersonaMap[n.nodeId] || [];
-      const incoming = incomingEdges[n.nodeId] || [];
-      const outgoing = outgoingEdges[n.nodeId] || [];
-      const nodeComments = existingComments.filter(
-        (c: any) => c.nodeId === n.nodeId && !c.resolved
-      );
-
-      return `### Screen: "${n.data?.label || n.nodeId}" (nodeId: ${n.nodeId})
-Platform: ${n.data?.platform || "unknown"}
-Personas: ${assignedPersonas.length > 0 ? assignedPersonas.join(", ") : "none assigned"}
-Incoming flows: ${incoming.length > 0 ? incoming.join("; ") : "entry point"}
-Outgoing flows: ${outgoing.length > 0 ? outgoing.join("; ") : "dead end"}
-Existing comments: ${nodeComments.length > 0 ? nodeComments.map((c: any) => `[${c.authorName}] ${c.text.slice(0, 100)}...`).join("; ") : "none"}`;
-    }).join("\n\n");
-
-    const systemPrompt = `You are a supportive senior UX/UI colleague conducting a walkthrough of an enterprise software application. You are reviewing each screen in a customer journey map as a collaborative partner helping the team improve the experience.
-
-For EACH screen listed below, you must provide a focused UX analysis. Your response must be a JSON array where each item has:
-- "nodeId": the exact nodeId provided
-- "comment": your UX analysis (150-300 words). Cover:
-  1. First impressions and visual hierarchy — note what works well first
-  2. Information architecture and labeling clarity
-  3. Navigation flow — is it clear where the user came from and where they can go?
-  4. Terminology consistency — flag any terms that differ from other screens
-  5. Accessibility and usability observations
-  6. Specific, actionable suggestions framed as opportunities (not vague criticism)
-  7. If the screen is a dead end (no outgoing flows), explain the user impact
-
-After the per-screen analysis, provide an overall summary object with:
-- "overallFindings": array of { "type", "severity" (critical/high/medium/low), "description", "affectedNodes": [nodeIds] }
-- "terminologyIssues": array of { "term", "usedOn": [nodeIds], "alternateTerms": [strings], "recommendation" }
-- "flowGaps": array of { "description", "fromNode", "toNode" or null }
-
-## Tone
-Think of yourself as a trusted colleague doing a design review, not an auditor filing a report. Acknowledge what each screen does well before noting areas for improvement. Frame suggestions constructively: instead of "the navigation is confusing", try "users coming from the previous screen may not immediately see how to proceed — consider adding a visual cue or breadcrumb."
-
-Be specific. Reference actual screen names. If something works well, say so. Focus on user impact in your suggestions.
-
-IMPORTANT: Return ONLY valid JSON. No markdown, no code fences, just the JSON object.`;
-
-    // Inject tool context
-    const walkthroughToolContext = await getToolContext(ctx, args.boardId);
-    const walkthroughSystemPrompt = systemPrompt + walkthroughToolContext;
-
-    const userPrompt = `## Board: "${board?.name || "Unknown"}"
-${board?.description || ""}
-
-## Full Board Context
-${boardContext}
-
-## Screens to Analyze (${screenshotNodes.length}):
-
-${nodeDescriptions}
-
-Respond with a JSON object: { "screenAnalyses": [...], "overallFindings": [...], "terminologyIssues": [...], "flowGaps": [...] }`;
-
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3.1-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            systemInstruction: { parts: [{ text: walkthroughSystemPrompt }] },
-            contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-            generationConfig: {
-              temperature: 0.4,
-              maxOutputTokens: 16384,
-              responseMimeType: "application/json",
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        return {
-          commentsCreated: 0,
-          error: `Gemini API error (${response.status}): ${errorText.slice(0, 200)}`,
-        };
-      }
-
-      const data = await response.json();
-      const rawText = data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-      let parsed: any;
-      try {
-        // Try parsing directly (responseMimeType should give clean JSON)
-        parsed = JSON.parse(rawText);
-      } catch {
-        // Fallback: try extracting from code block
-        const jsonMatch = rawText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          parsed = JSON.parse(jsonMatch[1]);
-        } else {
-          return {
-            commentsCreated: 0,
-            error: "Failed to parse AI response as JSON.",
-          };
-        }
-      }
-
-      // Create comments for each screen analysis
-      let commentsCreated = 0;
-      const screenAnalyses = parsed.screenAnalyses || parsed.screen_analyses || [];
-
-      for (const analysis of screenAnalyses) {
-        const nodeId = analysis.nodeId || analysis.node_id;
-        const comment = analysis.comment || analysis.analysis;
-        if (!nodeId || !comment) continue;
-
-        // Check the nodeId actually exists
-        const nodeExists = nodes.some((n: any) => n.nodeId === nodeId);
-        if (!nodeExists) continue;
-
+      const results = await walkthroughScreens(ctx, args.boardId, template, screenNodeIds);
+      for (const { nodeId, comment } of results.screenAnalyses) {
         await ctx.runMutation(api.comments.addComment, {
           boardId: args.boardId,
           nodeId,
-          authorId: "ai-ux-walkthrough",
-          authorName: "AI UX Analyst",
+          ...WALKTHROUGH_COMMENT_AUTHOR,
           text: comment,
         });
-        commentsCreated++;
-      }
-
-      // Build findings for the report
-      const findings: any[] = [];
-      const overallFindings = parsed.overallFindings || parsed.overall_findings || [];
-      for (const f of overallFindings) {
-        findings.push({
-          type: f.type || "ux-issue",
-          severity: f.severity || "medium",
-          description: f.description || "",
-          affectedNodes: f.affectedNodes || f.affected_nodes || [],
-        });
-      }
-
-      // Add terminology issues as findings
-      const terminologyIssues = parsed.terminologyIssues || parsed.terminology_issues || [];
-      for (const t of terminologyIssues) {
-        findings.push({
-          type: "terminology",
-          severity: "medium",
-          description: `Term "${t.term}" used on ${(t.usedOn || []).length} screens. Alternates found: ${(t.alternateTerms || t.alternate_terms || []).join(", ")}. Recommendation: ${t.recommendation || "Standardize naming."}`,
-          affectedNodes: t.usedOn || [],
-        });
-      }
-
-      // Add flow gaps as findings
-      const flowGaps = parsed.flowGaps || parsed.flow_gaps || [];
-      for (const g of flowGaps) {
-        findings.push({
-          type: "flow-gap",
-          severity: "high",
-          description: g.description || "",
-          affectedNodes: [g.fromNode, g.toNode].filter(Boolean),
-        });
-      }
-
-      // Build report content
-      let reportContent = `## AI UX Walkthrough Report\n\n`;
-      reportContent += `**Board:** ${board?.name || "Unknown"}\n`;
-      reportContent += `**Screens analyzed:** ${commentsCreated}\n`;
-      reportContent += `**Findings:** ${findings.length}\n\n`;
-
-      if (terminologyIssues.length > 0) {
-        reportContent += `## Terminology Issues\n\n`;
-        for (const t of terminologyIssues) {
-          reportContent += `- **"${t.term}"**: Found on ${(t.usedOn || []).join(", ")}. `;
-          reportContent += `Alternates: ${(t.alternateTerms || t.alternate_terms || []).join(", ")}. `;
-          reportContent += `${t.recommendation || ""}\n`;
-        }
-        reportContent += "\n";
-      }
-
-      if (flowGaps.length > 0) {
-        reportContent += `## Flow Gaps\n\n`;
-        for (const g of flowGaps) {
-          reportContent += `- ${g.description}\n`;
-        }
-        reportContent += "\n";
-      }
-
-      reportContent += `## Per-Screen Analyses\n\n`;
-      for (const analysis of screenAnalyses) {
-        const nodeId = analysis.nodeId || analysis.node_id;
-        const comment = analysis.comment || analysis.analysis;
-        if (!nodeId || !comment) continue;
-        const node = screenshotNodes.find((n: any) => n.nodeId === nodeId);
-        reportContent += `### ${node?.data?.label || nodeId}\n${comment}\n\n`;
-      }
-
-      // Save report
-      let reportId: string | undefined;
-      if (findings.length > 0 || commentsCreated > 0) {
-        reportId = await ctx.runMutation(api.reports.create, {
-          boardId: args.boardId,
-          title: "AI UX Walkthrough Analysis",
-          content: reportContent,
-          summary: `AI analyzed ${commentsCreated} screens. Found ${findings.length} issues: ${findings.filter(f => f.severity === "critical" || f.severity === "high").length} critical/high, ${findings.filter(f => f.severity === "medium").length} medium, ${findings.filter(f => f.severity === "low").length} low.`,
-          findings,
-        });
       }
-
-      return { commentsCreated, reportId };
+      const reportId = await saveWalkthroughReport(ctx, args.boardId, results, args.sectionId);
+      return { commentsCreated: results.commentsCreated, reportId };
     } catch (error: any) {
       return {
         commentsCreated: 0,
@@ -738,6 +398,76 @@ Respond with a JSON object: { "screenAnalyses": [...], "overallFindings": [...],
   },
 });
 
+/**
+ * "Walk as persona" — follow the persona's assigned screens along the board's
+ * edges from their entry points, narrate each step in the persona's voice and
+ * score its friction. Saves a persona-tagged report and flags high-friction
+ * steps with attention nodes on the canvas.
+ */
+export const simulatePersonaJourney = action({
+  args: {
+    boardId: v.id("boards"),
+    personaId: v.id("personas"),
+  },
+  returns: v.string(),
+  handler: async (ctx, args): Promise<string> => {
+    const result = await createPersonaJourneyReport(ctx, args.boardId, args.personaId);
+    return result.reportId ?? result.error ?? "Failed to simulate persona journey.";
+  },
+});
+
+/**
+ * Terminology consistency check — collects the wording used in screen names,
+ * connection labels, annotations and (via vision) the screenshots themselves,
+ * clusters synonyms across platforms and saves a glossary report with a
+ * `terminology` finding per inconsistently worded concept.
+ */
+export const checkTerminology = action({
+  args: {
+    boardId: v.id("boards"),
+  },
+  returns: v.string(),
+  handler: async (ctx, args): Promise<string> => {
+    const result = await createTerminologyReport(ctx, args.boardId);
+    return result.reportId ?? result.error ?? "Failed to check terminology.";
+  },
+});
+
+/**
+ * Run one step of a background AI job (see aiJobs.ts). Reports, persona
+ * journeys and terminology checks are generated in a single step; walkthroughs analyze WALKTHROUGH_CHUNK_SIZE screens per
+ * step and accessibility audits ACCESSIBILITY_CHUNK_SIZE, scheduling the next step until every screen is done.
+ */
+export const runJobStep = internalAction({
+  args: { jobId: v.id("aiJobs"), attempt: v.number() },
+  handler: async (ctx, args): Promise<void> => {
+    const job = await ctx.runQuery(internal.aiJobs.get, { jobId: args.jobId });
+    if (!job || (job.status !== "queued" && job.status !== "running")) return;
+    // Left over from an attempt the job has since been retried past
+    if (job.attempts !== args.attempt) return;
+
+    try {
+      if (job.kind === "report") {
+        await runReportJob(ctx, job);
+      } else if (job.kind === "persona_journey") {
+        await runPersonaJourneyJob(ctx, job);
+      } else if (job.kind === "terminology") {
+        await runTerminologyJob(ctx, job);
+      } else if (job.kind === "accessibility") {
+        await runAccessibilityJob(ctx, job);
+      } else {
+        await runWalkthroughJob(ctx, job);
+      }
+    } catch (error) {
+      await ctx.runMutation(internal.aiJobs.fail, {
+        jobId: args.jobId,
+        attempt: args.attempt,
+        error: errorMessage(error),
+      });
+    }
+  },
+});
+
 /**
  * Generate an improvement suggestion by analyzing connected screenshot nodes.
  * Uses Gemini vision to analyze screenshot images when available.
@@ -767,21 +497,24 @@ export const generateImprovement = action({
     structuredTodos?: { text: string; phase?: string }[];
     error?: string;
   }> => {
-    const apiKey = process.env.GEMINI_API_KEY;
-    if (!apiKey) {
+    // An explicit override wins over the stored template
+    const template = await loadTemplate(ctx, "improvement_generate", args.promptOverride);
+    const configError = getConfigError(template.selection);
+    if (configError) {
       return {
         title: "API Key Missing",
         content: "",
         developerTodos: "",
         priority: "medium",
         structuredTodos: [],
-        error: "Gemini API key not configured.",
+        error: configError,
       };
     }
 
     const board: any = await ctx.runQuery(api.boards.get, { boardId: args.boardId });
     const nodes: any[] = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
     const edges: any[] = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
+    const personas = await ctx.runQuery(api.personas.getByBoard, { boardId: args.boardId });
     const comments: any[] = await ctx.runQuery(api.comments.getByBoard, { boardId: args.boardId });
 
     // Get connected nodes
@@ -810,62 +543,6 @@ Outgoing: ${outgoing.join("; ") || "none"}
 Comments:\n${nodeComments.join("\n") || "  (none)"}`;
     }).join("\n\n");
 
-    // Try to get custom prompt from templates
-    let systemPrompt = args.promptOverride || "";
-    if (!systemPrompt) {
-      try {
-        const template: any = await ctx.runQuery(api.promptTemplates.getByKey, {
-          key: "improvement_generate",
-        });
-        if (template) {
-          systemPrompt = template.prompt;
-        }
-      } catch {
-        // Template table may not exist yet
-      }
-    }
-    if (!systemPrompt) {
-      systemPrompt = `You are a senior UX improvement analyst conducting a deep-dive analysis of a customer journey. Your task is to thoroughly examine the connected screens and produce a comprehensive, granular improvement suggestion. DO NOT summarize or take shortcuts — be exhaustive and specific.
-
-## Tone Guidelines
-- NEVER use dismissive or harsh language like "this is broken", "poorly designed", "fails", "terrible", or "unusable"
-- Frame observations as user experience insights: "users may struggle here because..." or "the cognitive load increases when..."
-- Acknowledge what the current design does well before identifying areas for improvement
-- Explain the reasoning behind each suggestion — help the team understand the user's perspective
-- Use language that invites collaboration: "consider", "one approach would be", "this could be strengthened by"
-
-CRITICAL RULES:
-1. When referencing any screen or page name, ALWAYS wrap it in **double asterisks** like **Screen Name**. This enables clickable navigation in the UI.
-2. Do NOT condense multiple observations into one sentence. Break down each one separately and explain WHY it matters for users.
-3. Write as if you're presenting to a product team that needs to understand the FULL context without looking at the screens themselves.
-4. Reference specific UI elements, labels, buttons, navigation paths, and user actions by name.
-5. The content field must contain all three analysis sections as markdown — each 150-300+ words.
-6. The developerTodos section MUST be a sequenced, numbered checklist grouped by implementation phase. Each item must be a single, actionable task a developer can complete and check off independently.
-
-Respond with a JSON object with these fields:
-
-{
-  "title": "A clear, descriptive improvement title (10-15 words) that captures the opportunity",
-
-  "content": "A comprehensive markdown analysis with three labeled sections. Write each section as multiple paragraphs:\\n\\n## Problem / Current State\\nStart by acknowledging what works well. Then describe what the user sees and experiences step by step, identifying where they may encounter friction. Reference screens using **Screen Name** format.\\n\\n## Proposed Solution\\nA detailed multi-paragraph solution addressing every observation. Be prescriptive — describe exactly what to change and how. Reference screens using **Screen Name** format.\\n\\n## Expected Impact\\nCover: direct UX improvements, measurable metrics, business impact, which personas benefit most, and any risks or trade-offs.",
-
-  "developerTodos": "A structured, sequenced developer checklist as markdown text. Format with phase headers:\\n\\nPhase 1: Quick Wins (< 1 day)\\n1. [ ] Change button label on **Screen Name**\\n2. [ ] Add loading state to form submit\\n\\nPhase 2: Navigation & Flow (2-3 days)\\n3. [ ] Add breadcrumb bar on **Screen Name**\\n\\nPhase 3: Structural Changes (1+ week)\\n4. [ ] Refactor settings panel\\n\\nEach task must be specific enough that a developer knows exactly what to change. Number all tasks sequentially across phases.",
-
-  "structuredTodos": [
-    { "text": "Change button label from 'Submit' to 'Save Changes' on **Screen Name**", "phase": "Phase 1: Quick Wins" },
-    { "text": "Add loading spinner to form submit action", "phase": "Phase 1: Quick Wins" },
-    { "text": "Add breadcrumb navigation bar on **Screen Name**", "phase": "Phase 2: Navigation & Flow" },
-    { "text": "Refactor settings panel into tabbed layout", "phase": "Phase 3: Structural Changes" }
-  ],
-
-  "priority": "high|medium|low — based on severity of current friction, number of affected users, and implementation complexity"
-}
-
-IMPORTANT: The "structuredTodos" array MUST mirror the same tasks from "developerTodos" but as individual structured objects. Each todo must have a "text" describing a single, actionable task, and a "phase" grouping label. Include 6-15 specific, granular sub-tasks covering the full scope of work. Be exhaustive — break larger tasks into smaller checkable steps.
-
-Return ONLY valid JSON. Every screen name mentioned MUST be wrapped in **double asterisks**.`;
-    }
-
     // Also gather attention blocks and text annotations for fuller context
     const attentionNodes = nodes.filter((n: any) => n.type === "attention");
     const textNodes = nodes.filter((n: any) => n.type === "text");
@@ -910,92 +587,45 @@ Analyze the connected screens listed above in the context of the full journey. P
 
     // Inject tool context
     const improvementToolContext = await getToolContext(ctx, args.boardId);
-    const improvementSystemPrompt = systemPrompt + improvementToolContext;
+    const improvementSystemPrompt = renderPrompt(
+      template,
+      buildPromptVariables(board, nodes, personas, improvementToolContext),
+    );
 
     try {
-      const response = await fetch(
-        `https://generativelanguage.googleapis.com/v1beta/models/gemini-3.1-pro-preview:generateContent?key=${apiKey}`,
-        {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            systemInstruction: { parts: [{ text: improvementSystemPrompt }] },
-            contents: [{ role: "user", parts: [{ text: userPrompt }] }],
-            generationConfig: {
-              temperature: 0.4,
-              maxOutputTokens: 8192,
-              responseMimeType: "application/json",
-            },
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const errorText = await response.text();
+      let rawText: string;
+      try {
+        const result = await trackedGenerate(ctx, { boardId: args.boardId, feature: "improvement_generate" }, {
+          system: improvementSystemPrompt,
+          messages: [userMessage(userPrompt)],
+          temperature: 0.4,
+          maxOutputTokens: 8192,
+          json: true,
+        }, template.selection);
+        rawText = result.text;
+      } catch (error) {
         return {
           title: "Generation Failed",
           content: "",
           developerTodos: "",
           priority: "medium",
           structuredTodos: [],
-          error: `API error (${response.status}): ${errorText.slice(0, 200)}`,
+          error: errorMessage(error).slice(0, 300),
         };
       }
 
-      const data = await response.json();
-      const rawText = data?.candidates?.[0]?.content?.parts?.[0]?.text || "";
-
-      let parsed: any;
-      try {
-        parsed = JSON.parse(rawText);
-      } catch {
-        const jsonMatch = rawText.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
-        if (jsonMatch) {
-          parsed = JSON.parse(jsonMatch[1]);
-        } else {
-          return {
-            title: "Parse Error",
-            content: "",
-            developerTodos: "",
-            priority: "medium",
-            structuredTodos: [],
-            error: "Failed to parse AI response.",
-          };
-        }
-      }
-
-      // Build content: prefer parsed.content, fall back to concatenating legacy fields
-      let content = parsed.content || "";
-      if (!content) {
-        const parts: string[] = [];
-        if (parsed.currentState || parsed.current_state) {
-          parts.push(`## Problem / Current State\n${parsed.currentState || parsed.current_state}`);
-        }
-        if (parsed.proposedImprovement || parsed.proposed_improvement) {
-          parts.push(`## Proposed Solution\n${parsed.proposedImprovement || parsed.proposed_improvement}`);
-        }
-        if (parsed.expectedImpact || parsed.expected_impact) {
-          parts.push(`## Expected Impact\n${parsed.expectedImpact || parsed.expected_impact}`);
-        }
-        content = parts.join("\n\n");
+      const draft = parseImprovementResponse(rawText);
+      if (!draft) {
+        return {
+          title: "Parse Error",
+          content: "",
+          developerTodos: "",
+          priority: "medium",
+          structuredTodos: [],
+          error: "Failed to parse AI response.",
+        };
       }
-
-      // Parse structured todos
-      const rawTodos = parsed.structuredTodos || parsed.structured_todos || [];
-      const structuredTodos = rawTodos
-        .filter((t: any) => t && t.text)
-        .map((t: any) => ({
-          text: String(t.text),
-          phase: t.phase ? String(t.phase) : undefined,
-        }));
-
-      return {
-        title: parsed.title || "Untitled Improvement",
-        content,
-        developerTodos: parsed.developerTodos || parsed.developer_todos || "",
-        priority: parsed.priority || "medium",
-        structuredTodos: structuredTodos.length > 0 ? structuredTodos : undefined,
-      };
+      return draft;
     } catch (error: any) {
       return {
         title: "Error",
@@ -1009,15 +639,1683 @@ Analyze the connected screens listed above in the context of the full journey. P
   },
 });
 
-async function getToolContext(ctx: any, boardId: any): Promise<string> {
-  try {
-    const board = await ctx.runQuery(api.boards.get, { boardId });
-    if (!board?.toolIds || board.toolIds.length === 0) return "";
+/**
+ * Find improvements that duplicate each other on a board (optionally also
+ * against other boards). Similar improvements are pre-clustered locally by
+ * title, content and connected screens, then the model confirms which are
+ * true duplicates and picks the one to keep. Merging is done separately with
+ * improvements.merge once the user accepts a suggestion.
+ */
+export const suggestImprovementMerges = action({
+  args: {
+    boardId: v.id("boards"),
+    acrossBoards: v.optional(v.boolean()),
+  },
+  returns: v.object({
+    suggestions: v.array(v.object({
+      improvements: v.array(v.object({
+        _id: v.id("improvements"),
+        boardId: v.id("boards"),
+        boardName: v.string(),
+        number: v.number(),
+        title: v.string(),
+        status: v.string(),
+      })),
+      primaryId: v.id("improvements"),
+      reason: v.string(),
+      confidence: v.string(),
+    })),
+    compared: v.number(),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args): Promise<{
+    suggestions: {
+      improvements: { _id: Id<"improvements">; boardId: Id<"boards">; boardName: string; number: number; title: string; status: string }[];
+      primaryId: Id<"improvements">;
+      reason: string;
+      confidence: string;
+    }[];
+    compared: number;
+    error?: string;
+  }> => {
+    const improvements = await ctx.runQuery(internal.improvements.listForDedupe, {
+      boardId: args.boardId,
+      acrossBoards: args.acrossBoards,
+    });
+    const candidates = findDuplicateCandidates(
+      improvements.map((imp) => ({
+        id: imp._id,
+        boardId: imp.boardId,
+        title: imp.title,
+        content: imp.content,
+        connectedNodeIds: imp.connectedNodeIds,
+      })),
+      args.boardId,
+    );
+    if (candidates.length === 0) return { suggestions: [], compared: improvements.length };
+
+    const template = await loadTemplate(ctx, "improvement_dedupe");
+    const configError = getConfigError(template.selection);
+    if (configError) return { suggestions: [], compared: improvements.length, error: configError };
+
+    const byId = new Map<string, (typeof improvements)[number]>(improvements.map((imp) => [imp._id, imp]));
+    const candidateDescriptions = candidates.map((candidate, i) =>
+      `### Candidate cluster ${i + 1} (similarity ${candidate.score.toFixed(2)})\n${candidate.ids.flatMap((id) => {
+        const imp = byId.get(id);
+        if (!imp) return [];
+        return `- id: ${id}
+  IMP-${String(imp.number).padStart(3, "0")} on board "${imp.boardName}" — status: ${imp.status}, priority: ${imp.priority || "unset"}
+  Title: ${imp.title}
+  Connected screens: ${imp.connectedNodeIds.length}
+  Summary: ${(imp.content || "(no analysis yet)").slice(0, 600).replace(/\s+/g, " ")}`;
+      }).join("\n")}`
+    ).join("\n\n");
 
-    const tools = await ctx.runQuery(api.tools.getByIds, { toolIds: board.toolIds });
+    const toolContext = await getToolContext(ctx, args.boardId);
+    let text: string;
+    try {
+      const result = await trackedGenerate(ctx, { boardId: args.boardId, feature: "improvement_dedupe" }, {
+        system: renderPrompt(template, { toolContext }),
+        messages: [userMessage(`Review these candidate duplicate clusters:\n\n${candidateDescriptions}\n\nRespond with a JSON object: { "clusters": [...] }`)],
+        temperature: 0.2,
+        maxOutputTokens: 4096,
+        responseSchema: toJSONSchema(improvementMergeResponseValidator),
+      }, template.selection);
+      text = result.text;
+    } catch (error) {
+      return { suggestions: [], compared: improvements.length, error: `Error: ${errorMessage(error)}` };
+    }
+
+    const parsed = parseMergeSuggestionsResponse(text, candidates.map((c) => c.ids));
+    if (!parsed) return { suggestions: [], compared: improvements.length, error: "Failed to parse AI response as JSON." };
+
+    return {
+      compared: improvements.length,
+      suggestions: parsed.suggestions.map((s) => ({
+        improvements: s.improvementIds.flatMap((id) => {
+          const imp = byId.get(id);
+          return imp ? [{ _id: imp._id, boardId: imp.boardId, boardName: imp.boardName, number: imp.number, title: imp.title, status: imp.status }] : [];
+        }),
+        primaryId: s.primaryId as Id<"improvements">,
+        reason: s.reason,
+        confidence: s.confidence,
+      })),
+    };
+  },
+});
+
+const positionValidator = v.object({ x: v.number(), y: v.number() });
+
+/**
+ * Suggest a tidy layout for the board: screens grouped into journey stages
+ * (by the model, or by flow order when no model is configured or `useAI` is
+ * false), each stage framed by a new section. Nothing is written here; the
+ * canvas applies the plan with nodes.bulkUpdatePositions so it can be undone
+ * in one step. `nodeSizes` are the rendered sizes from the canvas, which
+ * stored nodes usually lack.
+ */
+export const suggestAutoLayout = action({
+  args: {
+    boardId: v.id("boards"),
+    useAI: v.optional(v.boolean()),
+    nodeSizes: v.optional(v.array(v.object({
+      nodeId: v.string(),
+      width: v.number(),
+      height: v.number(),
+    }))),
+  },
+  returns: v.object({
+    source: v.union(v.literal("ai"), v.literal("fallback")),
+    stages: v.array(v.object({ label: v.string(), nodeIds: v.array(v.string()) })),
+    positions: v.array(v.object({
+      nodeId: v.string(),
+      position: positionValidator,
+      parentId: v.union(v.string(), v.null()),
+    })),
+    addSections: v.array(v.object({
+      nodeId: v.string(),
+      type: v.literal("section"),
+      position: positionValidator,
+      width: v.number(),
+      height: v.number(),
+      data: v.object({ label: v.string(), color: v.string() }),
+    })),
+    removeSectionIds: v.array(v.string()),
+    issues: v.array(v.string()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args): Promise<AutoLayoutPlan & {
+    source: "ai" | "fallback";
+    issues: string[];
+    error?: string;
+  }> => {
+    const board = await ctx.runQuery(api.boards.get, { boardId: args.boardId });
+    const storedNodes = await ctx.runQuery(api.nodes.getByBoard, { boardId: args.boardId });
+    const edges = await ctx.runQuery(api.edges.getByBoard, { boardId: args.boardId });
+    const sizes = new Map((args.nodeSizes || []).map((s) => [s.nodeId, s]));
+    const nodes = storedNodes.map((n) => ({
+      nodeId: n.nodeId,
+      type: n.type,
+      position: n.position,
+      data: n.data,
+      width: sizes.get(n.nodeId)?.width ?? n.width,
+      height: sizes.get(n.nodeId)?.height ?? n.height,
+      parentId: n.parentId,
+    }));
+    const screens = nodes.filter((n) => n.type === "screenshot");
+    const empty = { source: "fallback" as const, stages: [], positions: [], addSections: [], removeSectionIds: [], issues: [] };
+    if (screens.length === 0) return { ...empty, error: "This board has no screens to arrange." };
+
+    let source: "ai" | "fallback" = "fallback";
+    let suggested: LayoutStage[] | null = null;
+    const issues: string[] = [];
+
+    const template = await loadTemplate(ctx, "auto_layout");
+    if (args.useAI !== false && !getConfigError(template.selection)) {
+      const toolContext = await getToolContext(ctx, args.boardId);
+      const labelOf = (id: string) => findNodeLabel(nodes, id);
+      const screenList = screens
+        .map((n) => `- nodeId: "${n.nodeId}" → "${n.data?.label || ""}" (${n.data?.platform || "?"})`)
+        .join("\n");
+      const connections = edges
+        .filter((e) => screens.some((n) => n.nodeId === e.source) && screens.some((n) => n.nodeId === e.target))
+        .map((e) => `- "${labelOf(e.source)}" → "${labelOf(e.target)}"${e.label ? ` [${e.label}]` : ""}`)
+        .join("\n");
+      try {
+        const result = await trackedGenerate(ctx, { boardId: args.boardId, feature: "auto_layout" }, {
+          system: renderPrompt(template, buildPromptVariables(board, storedNodes, [], toolContext)),
+          messages: [userMessage(`## Screens\n${screenList}\n\n## Connections\n${connections || "(none)"}\n\nRespond with a JSON object: { "stages": [...] }`)],
+          temperature: 0.2,
+          maxOutputTokens: 4096,
+          responseSchema: toJSONSchema(autoLayoutResponseValidator),
+        }, template.selection);
+        const parsed = parseAutoLayoutResponse(result.text);
+        if (parsed && parsed.stages.length > 0) {
+          suggested = parsed.stages;
+          source = "ai";
+          issues.push(...parsed.issues);
+        } else {
+          issues.push("The AI response had no usable stages; grouped by flow order instead.");
+        }
+      } catch (error) {
+        issues.push(`AI grouping failed (${errorMessage(error)}); grouped by flow order instead.`);
+      }
+    }
+
+    const cleaned = cleanStages(suggested ?? fallbackStages(nodes, edges), nodes, edges);
+    issues.push(...cleaned.issues);
+    const plan = planAutoLayout(nodes, edges, cleaned.stages, `section-layout-${Date.now().toString(36)}`);
+    return { source, ...plan, issues };
+  },
+});
+
+/**
+ * Bring one board's search index up to date. Only documents whose content or
+ * embedding model changed are embedded; documents that no longer exist are
+ * removed. Returns how many documents were embedded.
+ */
+async function indexBoardForSearch(ctx: ActionCtx, boardId: Id<"boards">): Promise<number> {
+  const indexedAt = Date.now();
+  const content = await ctx.runQuery(internal.search.getBoardContent, { boardId });
+  const existing: { _id: Id<"searchEmbeddings">; sourceId: string; contentHash: string; model: string }[] =
+    await ctx.runQuery(internal.search.getEntryHashes, { boardId });
+  const { model } = describeEmbeddingSelection();
+
+  const docs = collectSearchDocuments(content).map((doc) => ({ ...doc, contentHash: contentHash(doc) }));
+  const existingBySource = new Map(existing.map((e) => [e.sourceId, e]));
+  const changed = docs.filter((doc) => {
+    const current = existingBySource.get(doc.sourceId);
+    return !current || current.contentHash !== doc.contentHash || current.model !== model;
+  });
+  const liveSources = new Set(docs.map((doc) => doc.sourceId));
+  const removeIds = existing.filter((e) => !liveSources.has(e.sourceId)).map((e) => e._id);
+
+  // Saved per batch to keep each mutation's arguments small
+  for (let i = 0; i < changed.length; i += EMBED_BATCH_SIZE) {
+    const batch = changed.slice(i, i + EMBED_BATCH_SIZE);
+    const result = await trackedEmbed(ctx, { boardId, feature: "semantic_search" }, batch.map((doc) => `${doc.title}\n${doc.text}`));
+    await ctx.runMutation(internal.search.saveEntries, {
+      boardId,
+      upserts: batch.map((doc, j) => ({ ...doc, model: result.model, embedding: result.vectors[j] })),
+      removeIds: [],
+    });
+  }
+
+  await ctx.runMutation(internal.search.saveEntries, { boardId, upserts: [], removeIds, indexedAt });
+  return changed.length;
+}
+
+/**
+ * Catch the search index up with changed boards (or every board with `all`).
+ * Run hourly by crons.ts; boards that fail are listed in the result and
+ * retried on the next run.
+ */
+export const refreshSearchIndex = internalAction({
+  args: { all: v.optional(v.boolean()) },
+  returns: v.object({
+    indexed: v.number(),
+    failed: v.array(v.object({ boardId: v.id("boards"), error: v.string() })),
+  }),
+  handler: async (ctx, args): Promise<{ indexed: number; failed: { boardId: Id<"boards">; error: string }[] }> => {
+    const failed: { boardId: Id<"boards">; error: string }[] = [];
+    if (getEmbeddingConfigError()) return { indexed: 0, failed };
+    const boardIds: Id<"boards">[] = await ctx.runQuery(internal.search.listBoardsToIndex, { all: args.all });
+    for (const boardId of boardIds) {
+      try {
+        await indexBoardForSearch(ctx, boardId);
+      } catch (error) {
+        failed.push({ boardId, error: errorMessage(error) });
+      }
+    }
+    return { indexed: boardIds.length - failed.length, failed };
+  },
+});
+
+/** Re-check every board now, from the search bar. */
+export const rebuildSearchIndex = action({
+  args: {},
+  returns: v.object({ boards: v.number(), embedded: v.number(), error: v.optional(v.string()) }),
+  handler: async (ctx): Promise<{ boards: number; embedded: number; error?: string }> => {
+    const configError = getEmbeddingConfigError();
+    if (configError) return { boards: 0, embedded: 0, error: configError };
+    const boardIds: Id<"boards">[] = await ctx.runQuery(internal.search.listBoardsToIndex, { all: true });
+    let embedded = 0;
+    try {
+      for (const boardId of boardIds) embedded += await indexBoardForSearch(ctx, boardId);
+    } catch (error) {
+      return { boards: boardIds.length, embedded, error: `Error: ${errorMessage(error)}` };
+    }
+    return { boards: boardIds.length, embedded };
+  },
+});
+
+/**
+ * Semantic search over node labels and text, comments, improvements, reports
+ * and chat, across all boards or one. Recently changed boards are indexed
+ * first so fresh content is findable. Hits are ranked by similarity.
+ */
+export const searchContent = action({
+  args: {
+    query: v.string(),
+    boardId: v.optional(v.id("boards")),
+    limit: v.optional(v.number()),
+  },
+  returns: v.object({
+    hits: v.array(v.object({
+      boardId: v.id("boards"),
+      boardName: v.string(),
+      sourceType: v.string(),
+      nodeId: v.optional(v.string()),
+      title: v.string(),
+      snippet: v.string(),
+      score: v.number(),
+    })),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args): Promise<{
+    hits: { boardId: Id<"boards">; boardName: string; sourceType: string; nodeId?: string; title: string; snippet: string; score: number }[];
+    error?: string;
+  }> => {
+    const query = args.query.trim();
+    if (!query) return { hits: [] };
+    const configError = getEmbeddingConfigError();
+    if (configError) return { hits: [], error: configError };
+
+    try {
+      const stale: Id<"boards">[] = await ctx.runQuery(internal.search.listBoardsToIndex, {});
+      const toRefresh = args.boardId
+        ? stale.filter((id) => id === args.boardId)
+        : stale.slice(0, SEARCH_REFRESH_BOARD_LIMIT);
+      for (const boardId of toRefresh) await indexBoardForSearch(ctx, boardId);
+
+      const { vectors, model } = await trackedEmbed(ctx, { boardId: args.boardId, feature: "semantic_search" }, [query]);
+      const boardId = args.boardId;
+      const results = await ctx.vectorSearch("searchEmbeddings", "by_embedding", {
+        vector: vectors[0],
+        limit: Math.min(args.limit ?? 20, 256),
+        ...(boardId ? { filter: (q) => q.eq("boardId", boardId) } : {}),
+      });
+      const hits = await ctx.runQuery(internal.search.getHits, { results });
+      return {
+        hits: hits
+          // Vectors from another model aren't comparable; they are re-embedded on the next refresh
+          .filter((hit) => hit.model === model)
+          .map((hit) => ({
+            boardId: hit.boardId,
+            boardName: hit.boardName,
+            sourceType: hit.sourceType,
+            nodeId: hit.nodeId,
+            title: hit.title,
+            snippet: searchSnippet(hit.text, query),
+            score: hit.score,
+          })),
+      };
+    } catch (error) {
+      return { hits: [], error: `Error: ${errorMessage(error)}` };
+    }
+  },
+});
+
+/**
+ * Analyze several journeys together — shared screens, contradictory
+ * terminology, handoffs between products and systemic issues — and save a
+ * portfolio report that isn't tied to any one board. Text only: screenshots
+ * of every journey together would crowd out the comparison.
+ */
+export const analyzePortfolio = action({
+  args: {
+    boardIds: v.array(v.id("boards")),
+    createdByName: v.optional(v.string()),
+  },
+  returns: v.object({
+    reportId: v.optional(v.id("portfolioReports")),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args): Promise<{ reportId?: Id<"portfolioReports">; error?: string }> => {
+    const boardIds = Array.from(new Set(args.boardIds));
+    if (boardIds.length < 2) return { error: "Select at least two journeys to compare." };
+    if (boardIds.length > MAX_PORTFOLIO_BOARDS) {
+      return { error: `Select at most ${MAX_PORTFOLIO_BOARDS} journeys to compare.` };
+    }
+
+    const template = await loadTemplate(ctx, "portfolio_analysis");
+    const configError = getConfigError(template.selection);
+    if (configError) return { error: configError };
+
+    const boards: PortfolioBoard[] = [];
+    const toolIds = new Set<Id<"tools">>();
+    for (const boardId of boardIds) {
+      const board = await ctx.runQuery(api.boards.get, { boardId });
+      if (!board) return { error: "One of the selected journeys no longer exists." };
+      (board.toolIds || []).forEach((id) => toolIds.add(id));
+      boards.push({
+        boardId,
+        name: board.name,
+        nodes: await ctx.runQuery(api.nodes.getByBoard, { boardId }),
+        edges: await ctx.runQuery(api.edges.getByBoard, { boardId }),
+      });
+    }
+    if (boards.every((b) => !b.nodes.some((n) => n.type === "screenshot"))) {
+      return { error: "The selected journeys have no screens to compare." };
+    }
+
+    const keys = portfolioKeys(boards);
+    const shared = findSharedScreens(boards);
+    const journeyNames = boards.map((b, i) => `J${i + 1} "${b.name}"`).join(", ");
+    const systemPrompt = renderPrompt(template, {
+      journeyNames,
+      toolContext: await describeTools(ctx, Array.from(toolIds)),
+    });
+
+    let text: string;
+    try {
+      const result = await trackedGenerate(ctx, { feature: "portfolio_analysis" }, {
+        system: systemPrompt,
+        messages: [userMessage(`Analyze these journeys together:\n\n${buildPortfolioInventory(boards, shared)}`)],
+        temperature: 0.4,
+        maxOutputTokens: 8192,
+        responseSchema: toJSONSchema(portfolioResponseValidator),
+      }, template.selection);
+      text = result.text;
+    } catch (error) {
+      return { error: `Error: ${errorMessage(error)}` };
+    }
+
+    const nodeIdsByBoard = new Map(boards.map((b) => [b.boardId, new Set(b.nodes.map((n) => n.nodeId))]));
+    const boardOf = new Map(boards.map((b) => [b.boardId, b]));
+    const labelOf = (ref: { boardId: string; nodeId: string }) => findNodeLabel(boardOf.get(ref.boardId)!.nodes, ref.nodeId);
+    const parsed = parsePortfolioResponse(text, keys, nodeIdsByBoard, (ref) => `${labelOf(ref)} in ${boardOf.get(ref.boardId)!.name}`);
+    if (!parsed) return { error: "Failed to parse AI response as JSON." };
+
+    const reportId: Id<"portfolioReports"> = await ctx.runMutation(internal.portfolioReports.create, {
+      boardIds,
+      boardNames: boards.map((b) => b.name),
+      title: `Portfolio Analysis: ${boards.map((b) => b.name).join(" + ")}`,
+      content: parsed.content,
+      summary: parsed.summary,
+      findings: parsed.findings.map((f) => ({
+        ...f,
+        affectedNodes: f.affectedNodes?.map((r) => ({ boardId: r.boardId as Id<"boards">, nodeId: r.nodeId, label: labelOf(r) })),
+      })),
+      createdByName: args.createdByName,
+      ...(parsed.issues.length > 0 ? { validationIssues: parsed.issues } : {}),
+    });
+    return { reportId };
+  },
+});
+
+/**
+ * Draft a new board from a written user story, PRD or support ticket:
+ * placeholder screens (or library screenshots where the names match),
+ * labeled connections, personas and attention notes for open questions.
+ */
+export const draftJourneyFromText = action({
+  args: {
+    text: v.string(),
+    name: v.optional(v.string()),
+    ownerId: v.string(),
+    ownerName: v.optional(v.string()),
+    toolIds: v.optional(v.array(v.id("tools"))),
+  },
+  returns: v.object({
+    boardId: v.optional(v.id("boards")),
+    screens: v.number(),
+    matchedScreenshots: v.number(),
+    issues: v.array(v.string()),
+    error: v.optional(v.string()),
+  }),
+  handler: async (ctx, args): Promise<{
+    boardId?: Id<"boards">;
+    screens: number;
+    matchedScreenshots: number;
+    issues: string[];
+    error?: string;
+  }> => {
+    const empty = { screens: 0, matchedScreenshots: 0, issues: [] };
+    const source = args.text.trim();
+    if (!source) return { ...empty, error: "Paste a user story, PRD or ticket to draft from." };
+
+    const template = await loadTemplate(ctx, "journey_draft");
+    const configError = getConfigError(template.selection);
+    if (configError) return { ...empty, error: configError };
+
+    const library: LibraryScreenshot[] = await ctx.runQuery(internal.globalScreenshots.listForMatching, {});
+    const libraryList = library
+      .filter((s) => s.label)
+      .slice(0, MAX_DRAFT_LIBRARY_SIZE)
+      .map((s) => `- "${s.label}"${s.platform ? ` (${s.platform})` : ""}${s.tags?.length ? ` [${s.tags.join(", ")}]` : ""}`)
+      .join("\n");
+    const systemPrompt = renderPrompt(template, {
+      screenshotLibrary: libraryList || "(the library is empty)",
+      toolContext: await describeTools(ctx, args.toolIds || []),
+    });
+
+    let text: string;
+    try {
+      const result = await trackedGenerate(ctx, { feature: "journey_draft" }, {
+        system: systemPrompt,
+        messages: [userMessage(`Draft a journey map from this text:\n\n${source.slice(0, MAX_DRAFT_SOURCE_LENGTH)}`)],
+        temperature: 0.4,
+        maxOutputTokens: 8192,
+        responseSchema: toJSONSchema(journeyDraftResponseValidator),
+      }, template.selection);
+      text = result.text;
+    } catch (error) {
+      return { ...empty, error: `Error: ${errorMessage(error)}` };
+    }
+
+    const parsed = parseJourneyDraftResponse(text);
+    if (!parsed) return { ...empty, error: "Failed to parse AI response as JSON." };
+    const { draft, issues } = parsed;
+    if (draft.screens.length === 0) return { ...empty, issues, error: "The AI found no screens in the text." };
+
+    const matches = matchScreenshots(draft.screens, library);
+    const plan = planDraftBoard(draft, matches, `draft-${Date.now().toString(36)}`);
+    const boardId: Id<"boards"> = await ctx.runMutation(internal.boards.createFromDraft, {
+      name: args.name?.trim() || draft.name || "Drafted Journey",
+      description: draft.description || undefined,
+      ownerId: args.ownerId,
+      ownerName: args.ownerName,
+      toolIds: args.toolIds,
+      personas: draft.personas,
+      nodes: plan.nodes.map((n) => ({
+        ...n,
+        globalScreenshotId: n.globalScreenshotId as Id<"globalScreenshots"> | undefined,
+      })),
+      edges: plan.edges,
+      personaNodes: plan.personaNodes,
+    });
+    return { boardId, screens: draft.screens.length, matchedScreenshots: matches.size, issues };
+  },
+});
+
+/**
+ * Propose a label, platform, product tool and tags for a newly uploaded
+ * library screenshot. Scheduled by globalScreenshots.save; the result is kept
+ * as a suggestion until the uploader accepts or dismisses it.
+ */
+export const suggestScreenshotLabels = internalAction({
+  args: { screenshotId: v.id("globalScreenshots") },
+  returns: v.null(),
+  handler: async (ctx, args): Promise<null> => {
+    const fail = async (error: string): Promise<null> => {
+      await ctx.runMutation(internal.globalScreenshots.saveSuggestion, { id: args.screenshotId, error });
+      return null;
+    };
+
+    const screenshot = await ctx.runQuery(internal.globalScreenshots.getForLabelling, { id: args.screenshotId });
+    if (!screenshot) return null;
+    if (!visionEnabled()) return await fail("Image analysis is turned off (AI_VISION=off).");
+    if (!screenshot.url) return await fail("The screenshot file is missing.");
+
+    const template = await loadTemplate(ctx, "screenshot_labelling");
+    const configError = getConfigError(template.selection);
+    if (configError) return await fail(configError);
+
+    const images = await loadScreenshotImages(
+      [{ nodeId: screenshot._id, data: { imageUrl: screenshot.url, label: screenshot.filename } }],
+      { maxImages: 1 },
+    );
+    if (images.included.length === 0) return await fail("The screenshot image could not be loaded.");
+
+    const tools: { _id: Id<"tools">; name: string; category?: string }[] = await ctx.runQuery(api.tools.getAll, {});
+    const systemPrompt = renderPrompt(template, {
+      filename: screenshot.filename,
+      toolList: tools.map((t) => `- ${t.name}${t.category ? ` (${t.category})` : ""}`).join("\n") || "(no tools defined)",
+      toolContext: await describeTools(ctx, tools.map((t) => t._id)),
+    });
+
+    let text: string;
+    try {
+      const result = await trackedGenerate(ctx, { feature: "screenshot_labelling" }, {
+        system: systemPrompt,
+        messages: [{ role: "user", parts: [{ text: "Label this screenshot." }, ...images.parts] }],
+        temperature: 0.2,
+        maxOutputTokens: 1024,
+        responseSchema: toJSONSchema(screenshotLabelResponseValidator),
+      }, template.selection);
+      text = result.text;
+    } catch (error) {
+      return await fail(`Error: ${errorMessage(error)}`);
+    }
+
+    const parsed = parseScreenshotLabelResponse(text, tools);
+    if (!parsed) return await fail("Failed to parse AI response as JSON.");
+    const { suggestion } = parsed;
+    await ctx.runMutation(internal.globalScreenshots.saveSuggestion, {
+      id: args.screenshotId,
+      suggestion: {
+        ...suggestion,
+        toolId: suggestion.toolId as Id<"tools"> | undefined,
+        createdAt: Date.now(),
+      },
+    });
+    return null;
+  },
+});
+
+/**
+ * Screenshot nodes an AI action covers: the whole board, or the section's
+ * scope when the action is limited to one (none if the section is gone).
+ */
+function screensInScope<N extends SectionGeometryNode>(nodes: N[], sectionId?: string): N[] {
+  const scoped = sectionId ? sectionScope(nodes, [], sectionId)?.nodes ?? [] : nodes;
+  return scoped.filter((n) => n.type === "screenshot");
+}
+
+function sectionLabel(nodes: SectionGeometryNode[], sectionId?: string): string | undefined {
+  if (!sectionId) return undefined;
+  return nodes.find((n) => n.nodeId === sectionId)?.data?.label || "Section";
+}
+
+/**
+ * Build and save a gap analysis report for the board, optionally focused on
+ * one persona and limited to one section. Shared by generateReport and
+ * background report jobs.
+ */
+async function createGapReport(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  personaId?: Id<"personas">,
+  sectionId?: string,
+): Promise<{ reportId?: Id<"reports">; error?: string }> {
+  const template = await loadTemplate(ctx, "report_gap_analysis");
+  if (getConfigError(template.selection)) return { error: "API key not configured." };
+
+  const board = await ctx.runQuery(api.boards.get, { boardId });
+  let nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId });
+  let edges = await ctx.runQuery(api.edges.getByBoard, { boardId });
+  let scopeLabel: string | undefined;
+  if (sectionId) {
+    const scope = sectionScope(nodes, edges, sectionId);
+    if (!scope) return { error: "That section no longer exists." };
+    scopeLabel = scope.section.data?.label || "Section";
+    nodes = scope.nodes;
+    edges = scope.edges;
+  }
+  const personas = await ctx.runQuery(api.personas.getByBoard, { boardId });
+  const personaNodes = await ctx.runQuery(api.personaNodes.getByBoard, { boardId });
+  const comments = await ctx.runQuery(api.comments.getByBoard, { boardId });
+
+  const screenshotNodes = nodes.filter((n) => n.type === "screenshot");
+  const textNodes = nodes.filter((n) => n.type === "text");
+  const attentionNodes = nodes.filter((n) => n.type === "attention");
+
+  // Build persona assignments map
+  const nodePersonas: Record<string, string[]> = {};
+  for (const pn of personaNodes) {
+    const persona = personas.find((p) => p._id === pn.personaId);
+    if (persona) {
+      if (!nodePersonas[pn.nodeId]) nodePersonas[pn.nodeId] = [];
+      nodePersonas[pn.nodeId].push(persona.name);
+    }
+  }
+
+  const screenDescriptions = screenshotNodes.map((n) => {
+    const assignedPersonas = nodePersonas[n.nodeId] || [];
+    return `- "${n.data?.label || n.nodeId}" (platform: ${n.data?.platform || "unknown"}${assignedPersonas.length > 0 ? `, personas: ${assignedPersonas.join(", ")}` : ""})`;
+  }).join("\n");
+
+  const connectionDescriptions = edges.map((e) => {
+    const source = screenshotNodes.find((n) => n.nodeId === e.source);
+    const target = screenshotNodes.find((n) => n.nodeId === e.target);
+    return `- "${source?.data?.label || e.source}" → "${target?.data?.label || e.target}"${e.label ? ` [${e.label}]` : ""}`;
+  }).join("\n");
+
+  const attentionDescriptions = attentionNodes.map((n) => {
+    return `- ATTENTION: "${n.data?.text || "No description"}"`;
+  }).join("\n");
+
+  const unresolvedComments = comments
+    .filter((c) => !c.resolved)
+    .map((c) => `- ${c.authorName}: "${c.text}"`)
+    .join("\n");
+
+  const personaDescriptions = personas.map((p) => `- ${p.name}: ${p.description}`).join("\n");
+
+  let focusNote = "";
+  if (personaId) {
+    const focusPersona = personas.find((p) => p._id === personaId);
+    if (focusPersona) {
+      focusNote = `\n\nFOCUS: Analyze specifically from the perspective of "${focusPersona.name}": ${focusPersona.description}`;
+    }
+  }
+  if (scopeLabel) {
+    focusNote += `\n\nSCOPE: Only the "${scopeLabel}" section of the board is included below; judge gaps within it, not missing parts of the wider journey.`;
+  }
+
+  // Inject tool context
+  const toolContext = await getToolContext(ctx, boardId);
+  const reportSystemPrompt = renderPrompt(template, {
+    ...buildPromptVariables(board, nodes, personas, toolContext),
+    focusPersona: focusNote,
+  });
+
+  const boardContext = `### Screens (${screenshotNodes.length}):
+${screenDescriptions || "(none)"}
+
+### Connections (${edges.length}):
+${connectionDescriptions || "(none)"}
+
+### Attention Flags:
+${attentionDescriptions || "(none)"}
+
+### Personas (${personas.length}):
+${personaDescriptions || "(none)"}
+
+### Unresolved Comments:
+${unresolvedComments || "(none)"}`;
+
+  const images = await loadScreenshotImages(screenshotNodes);
+  const imageNote = describeAttachedImages(images);
+
+  try {
+    let text: string;
+    try {
+      const result = await trackedGenerate(ctx, { boardId, feature: "report_gap_analysis" }, {
+        system: reportSystemPrompt,
+        messages: [{
+          role: "user",
+          parts: [{ text: `Analyze this journey map:\n\n${boardContext}${imageNote ? `\n\n${imageNote}` : ""}` }, ...images.parts],
+        }],
+        temperature: 0.5,
+        maxOutputTokens: 8192,
+        responseSchema: toJSONSchema(reportResponseValidator),
+      }, template.selection);
+      text = result.text;
+    } catch {
+      return { error: "Failed to generate report." };
+    }
+
+    const { content, summary, findings, issues } = parseReportResponse(text, new Set(nodes.map((n) => n.nodeId)));
+
+    // Generate title
+    const focusPersona = personaId ? personas.find((p) => p._id === personaId) : null;
+    const title = [
+      focusPersona ? `Gap Analysis: ${focusPersona.name} Flow` : `Gap Analysis Report`,
+      scopeLabel,
+    ].filter(Boolean).join(" — ");
+
+    // Save the report
+    const reportId = await ctx.runMutation(api.reports.create, {
+      boardId,
+      title,
+      content,
+      summary,
+      findings,
+      personaId,
+      sectionId,
+      ...(issues.length > 0 ? { validationIssues: issues } : {}),
+    });
+
+    return { reportId };
+  } catch (error) {
+    return { error: `Error: ${errorMessage(error)}` };
+  }
+}
+
+/**
+ * Simulate one persona's journey and save it as a persona-tagged report.
+ * Shared by simulatePersonaJourney and background persona journey jobs.
+ */
+async function createPersonaJourneyReport(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  personaId: Id<"personas">,
+): Promise<{ reportId?: Id<"reports">; attentionNodesCreated?: number; error?: string }> {
+  const template = await loadTemplate(ctx, "persona_journey");
+  const configError = getConfigError(template.selection);
+  if (configError) return { error: configError };
+
+  const board = await ctx.runQuery(api.boards.get, { boardId });
+  // Grown below as friction flags are added, so later flags stack beneath earlier ones
+  const nodes: Pick<Doc<"nodes">, "nodeId" | "type" | "position" | "data" | "width">[] =
+    await ctx.runQuery(api.nodes.getByBoard, { boardId });
+  const edges: Pick<Doc<"edges">, "edgeId" | "source" | "target" | "label">[] =
+    await ctx.runQuery(api.edges.getByBoard, { boardId });
+  const personas = await ctx.runQuery(api.personas.getByBoard, { boardId });
+  const personaNodes = await ctx.runQuery(api.personaNodes.getByPersona, { boardId, personaId });
+  const comments = await ctx.runQuery(api.comments.getByBoard, { boardId });
+
+  const persona = personas.find((p) => p._id === personaId);
+  if (!persona) return { error: "Persona not found on this board." };
+
+  const plan = planPersonaJourney(nodes, edges, new Set(personaNodes.map((pn) => pn.nodeId)));
+  if (plan.steps.length === 0) return { error: `No screens on this board are assigned to ${persona.name}.` };
+
+  const stepDescriptions = plan.steps.map((step, i) => {
+    const node = nodes.find((n) => n.nodeId === step.nodeId);
+    const stepComments = comments.filter((c) => c.nodeId === step.nodeId && !c.resolved);
+    const arrival = step.fromNodeId
+      ? `from "${findNodeLabel(nodes, step.fromNodeId)}"${step.via ? ` via [${step.via}]` : ""}`
+      : "entry point";
+    const describeLinks = (links: typeof step.next) =>
+      links.map((l) => `"${l.label}"${l.via ? ` [${l.via}]` : ""}`).join("; ");
+    return `### Step ${i + 1}: "${step.label}" (nodeId: ${step.nodeId})
+Type: ${node?.type || "unknown"}${node?.data?.platform ? `, platform: ${node.data.platform}` : ""}
+Arrived: ${arrival}
+Leads to: ${step.next.length > 0 ? describeLinks(step.next) : "nothing else on this persona's path"}
+Leaves the persona's path to: ${step.exits.length > 0 ? describeLinks(step.exits) : "none"}
+Open comments: ${stepComments.length > 0 ? stepComments.map((c) => `[${c.authorName}] ${c.text.slice(0, 100)}`).join("; ") : "none"}`;
+  }).join("\n\n");
+
+  const toolContext = await getToolContext(ctx, boardId);
+  const systemPrompt = renderPrompt(template, {
+    ...buildPromptVariables(board, nodes, personas, toolContext),
+    personaName: persona.name,
+    personaDescription: persona.description || "(no description)",
+  });
+
+  const stepNodes = plan.steps.map((step) => nodes.find((n) => n.nodeId === step.nodeId));
+  const images = await loadScreenshotImages(stepNodes.filter((n): n is NonNullable<typeof n> => n?.type === "screenshot"));
+  const imageNote = describeAttachedImages(images);
+
+  const userPrompt = `## Board: "${board?.name || "Unknown"}"
+${board?.description || ""}
+
+## Your journey as ${persona.name} (${plan.steps.length} steps, ${plan.entryNodeIds.length} entry point${plan.entryNodeIds.length === 1 ? "" : "s"}):
+
+${stepDescriptions}
+
+${imageNote ? `${imageNote}\n\n` : ""}Respond with a JSON object: { "summary": "...", "steps": [...], "findings": [...] }`;
+
+  let text: string;
+  try {
+    const result = await trackedGenerate(ctx, { boardId, feature: "persona_journey" }, {
+      system: systemPrompt,
+      messages: [{ role: "user", parts: [{ text: userPrompt }, ...images.parts] }],
+      temperature: 0.6,
+      maxOutputTokens: 16384,
+      responseSchema: toJSONSchema(personaJourneyResponseValidator),
+    }, template.selection);
+    text = result.text;
+  } catch (error) {
+    return { error: `Error: ${errorMessage(error)}` };
+  }
+
+  const parsed = parsePersonaJourneyResponse(
+    text,
+    plan.steps.map((step) => step.nodeId),
+    new Set(nodes.map((n) => n.nodeId)),
+  );
+  if (!parsed) return { error: "Failed to parse AI response as JSON." };
+
+  const stepsByNode = new Map(plan.steps.map((step) => [step.nodeId, step]));
+  const highFriction = parsed.steps.filter((s) => s.frictionScore >= FRICTION_ATTENTION_THRESHOLD);
+  const findings = [
+    ...highFriction.map((s) => ({
+      type: "friction",
+      severity: s.frictionScore >= 5 ? "high" : "medium",
+      description: `${persona.name} scored "${stepsByNode.get(s.nodeId)?.label}" ${s.frictionScore}/5: ${s.frictionPoints.join("; ") || "high friction"}`,
+      affectedNodes: [s.nodeId],
+    })),
+    ...parsed.findings,
+  ];
+
+  const averageFriction = parsed.steps.length > 0
+    ? parsed.steps.reduce((sum, s) => sum + s.frictionScore, 0) / parsed.steps.length
+    : 0;
+
+  // Build report content
+  let content = `## Persona Journey: ${persona.name}\n\n`;
+  content += `**Persona:** ${persona.description || "(no description)"}\n`;
+  content += `**Steps walked:** ${plan.steps.length}\n`;
+  content += `**Average friction:** ${averageFriction.toFixed(1)}/5\n\n`;
+  if (parsed.summary) content += `## Summary\n\n${parsed.summary}\n\n`;
+
+  content += `## Journey\n\n`;
+  parsed.steps.forEach((s, i) => {
+    const step = stepsByNode.get(s.nodeId);
+    content += `### ${i + 1}. ${step?.label || s.nodeId} — friction ${s.frictionScore}/5\n`;
+    if (step?.fromNodeId) {
+      content += `_From "${findNodeLabel(nodes, step.fromNodeId)}"${step.via ? ` via "${step.via}"` : ""}_\n`;
+    }
+    content += `${s.narration}\n`;
+    for (const point of s.frictionPoints) content += `- ${point}\n`;
+    content += "\n";
+  });
+
+  if (plan.deadEnds.length > 0) {
+    content += `## Dead Ends\n\n`;
+    for (const nodeId of plan.deadEnds) content += `- ${findNodeLabel(nodes, nodeId)}\n`;
+    content += "\n";
+  }
+
+  if (findings.length > 0) {
+    content += `## Findings\n\n`;
+    for (const f of findings) content += `- **[${f.severity}] ${f.type}**: ${f.description}\n`;
+  }
+
+  const reportId = await ctx.runMutation(api.reports.create, {
+    boardId,
+    title: `Persona Journey: ${persona.name}`,
+    content,
+    summary: `${persona.name} walked ${plan.steps.length} screens with an average friction of ${averageFriction.toFixed(1)}/5; ${highFriction.length} step${highFriction.length === 1 ? "" : "s"} scored ${FRICTION_ATTENTION_THRESHOLD} or higher.`,
+    findings,
+    personaId,
+    ...(parsed.issues.length > 0 ? { validationIssues: parsed.issues } : {}),
+  });
+
+  // Flag high-friction steps on the canvas, stacked beside the screen like chat annotations
+  const now = Date.now();
+  const annotationTypes = new Set(["text", "attention", "improvement"]);
+  for (const [i, s] of highFriction.entries()) {
+    const screen = nodes.find((n) => n.nodeId === s.nodeId);
+    if (!screen) continue;
+    const stacked = edges.filter((e) =>
+      e.source === screen.nodeId
+      && annotationTypes.has(nodes.find((n) => n.nodeId === e.target)?.type ?? "")
+    ).length;
+    const screenWidth = screen.width || 220;
+    const position = {
+      x: screen.position.x + screenWidth + 30,
+      y: screen.position.y + stacked * 80,
+    };
+    const attention = {
+      nodeId: `ai-attention-${now}-${i}`,
+      type: "attention",
+      position,
+      data: { text: `[${persona.name}] Friction ${s.frictionScore}/5: ${s.frictionPoints.join("; ") || s.narration.slice(0, 160)}` },
+      width: 250,
+    };
+    await ctx.runMutation(api.nodes.addNode, { boardId, ...attention });
+    const edgeId = `ai-edge-${now}-${i}`;
+    await ctx.runMutation(api.edges.addEdge, {
+      boardId,
+      edgeId,
+      source: screen.nodeId,
+      target: attention.nodeId,
+      ...calcHandles(screen.position, position, screenWidth, 250),
+      label: "",
+    });
+    edges.push({ edgeId, source: screen.nodeId, target: attention.nodeId });
+    nodes.push(attention);
+  }
+
+  return { reportId, attentionNodesCreated: highFriction.length };
+}
+
+/**
+ * Build and save a terminology consistency report for the board. Shared by
+ * checkTerminology and background terminology jobs.
+ */
+async function createTerminologyReport(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+): Promise<{ reportId?: Id<"reports">; error?: string }> {
+  const template = await loadTemplate(ctx, "terminology_check");
+  const configError = getConfigError(template.selection);
+  if (configError) return { error: configError };
+
+  const board = await ctx.runQuery(api.boards.get, { boardId });
+  const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId });
+  const edges = await ctx.runQuery(api.edges.getByBoard, { boardId });
+  const personas = await ctx.runQuery(api.personas.getByBoard, { boardId });
+
+  const screenshotNodes = nodes.filter((n) => n.type === "screenshot");
+  const sources = collectTermSources(nodes, edges);
+  if (sources.length === 0 && screenshotNodes.length === 0) {
+    return { error: "No screens, labels or annotations on this board to check." };
+  }
+
+  // Group the text by node so the model can cite nodeIds for each wording
+  const sourcesByNode = new Map<string, typeof sources>();
+  for (const source of sources) {
+    sourcesByNode.set(source.nodeId, [...(sourcesByNode.get(source.nodeId) || []), source]);
+  }
+  const inventory = Array.from(sourcesByNode.entries()).map(([nodeId, nodeSources]) => {
+    const node = nodes.find((n) => n.nodeId === nodeId);
+    const lines = nodeSources.map((s) =>
+      s.kind === "edge" ? `  - connection label: "${s.text}"` :
+      s.kind === "annotation" ? `  - annotation: "${s.text}"` :
+      `  - screen name: "${s.text}"`
+    );
+    return `- nodeId: ${nodeId} (${node?.type || "unknown"}${node?.data?.platform ? `, platform: ${node.data.platform}` : ""})\n${lines.join("\n")}`;
+  }).join("\n");
+
+  const toolContext = await getToolContext(ctx, boardId);
+  const systemPrompt = renderPrompt(template, buildPromptVariables(board, nodes, personas, toolContext));
+
+  const images = await loadScreenshotImages(screenshotNodes);
+  const imageNote = describeAttachedImages(images);
+
+  let text: string;
+  try {
+    const result = await trackedGenerate(ctx, { boardId, feature: "terminology_check" }, {
+      system: systemPrompt,
+      messages: [{
+        role: "user",
+        parts: [{
+          text: `## Board: "${board?.name || "Unknown"}"
+
+## Text on the journey map (${sources.length} items):
+${inventory || "(none)"}
+
+${imageNote ? `${imageNote} Read the visible text in each screenshot as part of the inventory.\n\n` : ""}Respond with a JSON object: { "summary": "...", "glossary": [...] }`,
+        }, ...images.parts],
+      }],
+      temperature: 0.3,
+      maxOutputTokens: 8192,
+      responseSchema: toJSONSchema(terminologyResponseValidator),
+    }, template.selection);
+    text = result.text;
+  } catch (error) {
+    return { error: `Error: ${errorMessage(error)}` };
+  }
+
+  const parsed = parseTerminologyResponse(text, nodes);
+  if (!parsed) return { error: "Failed to parse AI response as JSON." };
+
+  const labelOf = (nodeId: string) => findNodeLabel(nodes, nodeId);
+  let content = `## Terminology Consistency Check\n\n`;
+  content += `**Board:** ${board?.name || "Unknown"}\n`;
+  content += `**Concepts reviewed:** ${parsed.glossary.length}\n`;
+  content += `**Inconsistently worded:** ${parsed.findings.length}\n\n`;
+  if (parsed.summary) content += `## Summary\n\n${parsed.summary}\n\n`;
+  content += `## Glossary\n\n${parsed.glossary.length > 0 ? glossaryTable(parsed.glossary, labelOf) : "(no terms found)"}\n\n`;
+  if (parsed.findings.length > 0) {
+    content += `## Findings\n\n`;
+    for (const f of parsed.findings) content += `- **[${f.severity}] ${f.type}**: ${f.description}\n`;
+  }
+
+  const reportId = await ctx.runMutation(api.reports.create, {
+    boardId,
+    title: "Terminology Consistency Check",
+    content,
+    summary: parsed.summary || `${parsed.findings.length} of ${parsed.glossary.length} concepts are worded inconsistently.`,
+    findings: parsed.findings,
+    glossary: parsed.glossary,
+    ...(parsed.issues.length > 0 ? { validationIssues: parsed.issues } : {}),
+  });
+  return { reportId };
+}
+
+type WalkthroughJobState = Infer<typeof walkthroughJobStateValidator>;
+type WalkthroughResults = WalkthroughJobState["results"];
+
+const emptyWalkthroughResults = (): WalkthroughResults => ({
+  commentsCreated: 0,
+  screenAnalyses: [],
+  overallFindings: [],
+  terminologyIssues: [],
+  flowGaps: [],
+  validationIssues: [],
+});
+
+// Author of the per-screen walkthrough comments
+const WALKTHROUGH_COMMENT_AUTHOR = { authorId: "ai-ux-walkthrough", authorName: "AI UX Analyst" };
+
+/**
+ * Walk through the given screens and write a comment for each one; the caller
+ * posts them. The model sees the whole board for context but only comments on
+ * `screenNodeIds`, so large boards can be walked in chunks (`part`).
+ */
+async function walkthroughScreens(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  template: LoadedTemplate,
+  screenNodeIds: string[],
+  part?: { index: number; count: number },
+): Promise<WalkthroughResults> {
+  // Gather all board data
+  const board = await ctx.runQuery(api.boards.get, { boardId });
+  const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId });
+  const edges = await ctx.runQuery(api.edges.getByBoard, { boardId });
+  const personas = await ctx.runQuery(api.personas.getByBoard, { boardId });
+  const personaNodes = await ctx.runQuery(api.personaNodes.getByBoard, { boardId });
+  const existingComments = await ctx.runQuery(api.comments.getByBoard, { boardId });
+
+  const screenshotNodes = nodes.filter((n) => n.type === "screenshot");
+  const textNodes = nodes.filter((n) => n.type === "text");
+  const attentionNodes = nodes.filter((n) => n.type === "attention");
+  const targetNodes = screenshotNodes.filter((n) => screenNodeIds.includes(n.nodeId));
+
+  // Build persona assignments map
+  const nodePersonaMap: Record<string, string[]> = {};
+  for (const pn of personaNodes) {
+    const persona = personas.find((p) => p._id === pn.personaId);
+    if (persona) {
+      if (!nodePersonaMap[pn.nodeId]) nodePersonaMap[pn.nodeId] = [];
+      nodePersonaMap[pn.nodeId].push(persona.name);
+    }
+  }
+
+  // Build edge map (what connects to each node)
+  const incomingEdges: Record<string, string[]> = {};
+  const outgoingEdges: Record<string, string[]> = {};
+  for (const e of edges) {
+    if (!outgoingEdges[e.source]) outgoingEdges[e.source] = [];
+    outgoingEdges[e.source].push(`→ ${findNodeLabel(nodes, e.target)} [${e.label || ""}]`);
+    if (!incomingEdges[e.target]) incomingEdges[e.target] = [];
+    incomingEdges[e.target].push(`← ${findNodeLabel(nodes, e.source)} [${e.label || ""}]`);
+  }
+
+  // Build the full board context for the AI
+  const boardContext = buildBoardContext(
+    board, screenshotNodes, textNodes, attentionNodes,
+    edges, personas, nodePersonaMap, existingComments
+  );
+
+  // Build per-node analysis request
+  const nodeDescriptions = targetNodes.map((n) => {
+    const assignedPersonas = nodePersonaMap[n.nodeId] || [];
+    const incoming = incomingEdges[n.nodeId] || [];
+    const outgoing = outgoingEdges[n.nodeId] || [];
+    const nodeComments = existingComments.filter(
+      (c) => c.nodeId === n.nodeId && !c.resolved
+    );
+
+    return `### Screen: "${n.data?.label || n.nodeId}" (nodeId: ${n.nodeId})
+Platform: ${n.data?.platform || "unknown"}
+Personas: ${assignedPersonas.length > 0 ? assignedPersonas.join(", ") : "none assigned"}
+Incoming flows: ${incoming.length > 0 ? incoming.join("; ") : "entry point"}
+Outgoing flows: ${outgoing.length > 0 ? outgoing.join("; ") : "dead end"}
+Existing comments: ${nodeComments.length > 0 ? nodeComments.map((c) => `[${c.authorName}] ${c.text.slice(0, 100)}...`).join("; ") : "none"}`;
+  }).join("\n\n");
+
+  // Inject tool context
+  const walkthroughToolContext = await getToolContext(ctx, boardId);
+  const walkthroughSystemPrompt = renderPrompt(
+    template,
+    buildPromptVariables(board, nodes, personas, walkthroughToolContext),
+  );
+
+  // Attach the screens themselves so per-screen comments reflect real labels and layout
+  const images = await loadScreenshotImages(targetNodes);
+  const imageNote = describeAttachedImages(images);
+
+  const partNote = part
+    ? `This is part ${part.index + 1} of ${part.count} of the walkthrough. Only write screenAnalyses for the screens listed below; use the rest of the board as context.\n\n`
+    : "";
+
+  const userPrompt = `## Board: "${board?.name || "Unknown"}"
+${board?.description || ""}
+
+## Full Board Context
+${boardContext}
+
+## Screens to Analyze (${targetNodes.length}):
+
+${partNote}${nodeDescriptions}
+
+${imageNote ? `${imageNote}\n\n` : ""}Respond with a JSON object: { "screenAnalyses": [...], "overallFindings": [...], "terminologyIssues": [...], "flowGaps": [...] }`;
+
+  const result = await trackedGenerate(ctx, { boardId, feature: "walkthrough_system" }, {
+    system: walkthroughSystemPrompt,
+    messages: [{ role: "user", parts: [{ text: userPrompt }, ...images.parts] }],
+    temperature: 0.4,
+    maxOutputTokens: 16384,
+    responseSchema: toJSONSchema(walkthroughResponseValidator),
+  }, template.selection);
+
+  const parsed = parseWalkthroughResponse(
+    result.text,
+    new Set(targetNodes.map((n) => n.nodeId)),
+    new Set(nodes.map((n) => n.nodeId)),
+  );
+  if (!parsed) {
+    throw new Error("Failed to parse AI response as JSON.");
+  }
+
+  const { issues, ...results } = parsed;
+  return { ...results, validationIssues: issues, commentsCreated: parsed.screenAnalyses.length };
+}
+
+/**
+ * Combine the results of two walkthrough chunks. Terminology issues are
+ * merged by term and flow gaps by description, since every chunk sees the
+ * whole board and may report the same ones.
+ */
+function mergeWalkthroughResults(a: WalkthroughResults, b: WalkthroughResults): WalkthroughResults {
+  const terminologyIssues = [...a.terminologyIssues];
+  for (const t of b.terminologyIssues) {
+    const existing = terminologyIssues.find((e) => e.term.toLowerCase() === t.term.toLowerCase());
+    if (existing) {
+      existing.usedOn = Array.from(new Set([...existing.usedOn, ...t.usedOn]));
+    } else {
+      terminologyIssues.push(t);
+    }
+  }
+
+  const gapDescriptions = new Set(a.flowGaps.map((g) => g.description));
+  return {
+    commentsCreated: a.commentsCreated + b.commentsCreated,
+    screenAnalyses: [...a.screenAnalyses, ...b.screenAnalyses],
+    overallFindings: [...a.overallFindings, ...b.overallFindings],
+    terminologyIssues,
+    flowGaps: [...a.flowGaps, ...b.flowGaps.filter((g) => !gapDescriptions.has(g.description))],
+    validationIssues: [...a.validationIssues, ...b.validationIssues],
+  };
+}
+
+/** Save the walkthrough summary report. Returns undefined if there was nothing to report. */
+async function saveWalkthroughReport(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  results: WalkthroughResults,
+  sectionId?: string,
+): Promise<Id<"reports"> | undefined> {
+  const board = await ctx.runQuery(api.boards.get, { boardId });
+  const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId });
+  const scopeLabel = sectionLabel(nodes, sectionId);
+  const { commentsCreated, screenAnalyses, overallFindings, terminologyIssues, flowGaps, validationIssues } = results;
+
+  // Build findings for the report
+  const findings: { type: string; severity: string; description: string; affectedNodes: string[] }[] = [];
+  for (const f of overallFindings) {
+    findings.push({
+      type: f.type || "ux-issue",
+      severity: f.severity,
+      description: f.description,
+      affectedNodes: f.affectedNodes ?? [],
+    });
+  }
+
+  // Add terminology issues as findings
+  for (const t of terminologyIssues) {
+    findings.push({
+      type: "terminology",
+      severity: "medium",
+      description: `Term "${t.term}" used on ${t.usedOn.length} screens. Alternates found: ${t.alternateTerms.join(", ")}. Recommendation: ${t.recommendation || "Standardize naming."}`,
+      affectedNodes: t.usedOn,
+    });
+  }
+
+  // Add flow gaps as findings
+  for (const g of flowGaps) {
+    findings.push({
+      type: "flow-gap",
+      severity: "high",
+      description: g.description,
+      affectedNodes: [g.fromNode, g.toNode].filter((id): id is string => !!id),
+    });
+  }
+
+  if (findings.length === 0 && commentsCreated === 0) return undefined;
+
+  // Build report content
+  let reportContent = `## AI UX Walkthrough Report\n\n`;
+  reportContent += `**Board:** ${board?.name || "Unknown"}\n`;
+  if (scopeLabel) reportContent += `**Section:** ${scopeLabel}\n`;
+  reportContent += `**Screens analyzed:** ${commentsCreated}\n`;
+  reportContent += `**Findings:** ${findings.length}\n\n`;
+
+  if (terminologyIssues.length > 0) {
+    reportContent += `## Terminology Issues\n\n`;
+    for (const t of terminologyIssues) {
+      reportContent += `- **"${t.term}"**: Found on ${t.usedOn.join(", ")}. `;
+      reportContent += `Alternates: ${t.alternateTerms.join(", ")}. `;
+      reportContent += `${t.recommendation || ""}\n`;
+    }
+    reportContent += "\n";
+  }
+
+  if (flowGaps.length > 0) {
+    reportContent += `## Flow Gaps\n\n`;
+    for (const g of flowGaps) {
+      reportContent += `- ${g.description}\n`;
+    }
+    reportContent += "\n";
+  }
+
+  reportContent += `## Per-Screen Analyses\n\n`;
+  for (const { nodeId, comment } of screenAnalyses) {
+    const node = nodes.find((n) => n.nodeId === nodeId);
+    reportContent += `### ${node?.data?.label || nodeId}\n${comment}\n\n`;
+  }
+
+  return await ctx.runMutation(api.reports.create, {
+    boardId,
+    title: scopeLabel ? `AI UX Walkthrough Analysis — ${scopeLabel}` : "AI UX Walkthrough Analysis",
+    content: reportContent,
+    summary: `AI analyzed ${commentsCreated} screens. Found ${findings.length} issues: ${findings.filter(f => f.severity === "critical" || f.severity === "high").length} critical/high, ${findings.filter(f => f.severity === "medium").length} medium, ${findings.filter(f => f.severity === "low").length} low.`,
+    findings,
+    sectionId,
+    ...(validationIssues.length > 0 ? { validationIssues } : {}),
+  });
+}
+
+/** A job's args or carried state, checked against the shape its kind stores. */
+function readJobValue<V extends GenericValidator>(validator: V, value: unknown, path: string): Infer<V> {
+  const checked = checkValue(validator, value, path);
+  if (checked.errors.length > 0) throw new Error(`Invalid job ${path}: ${checked.errors.join("; ")}`);
+  return checked.value;
+}
+
+async function runReportJob(ctx: ActionCtx, job: Doc<"aiJobs">): Promise<void> {
+  const { personaId, sectionId } = readJobValue(reportJobArgsValidator, job.args ?? {}, "args");
+  const active = await ctx.runMutation(internal.aiJobs.updateProgress, {
+    jobId: job._id,
+    attempt: job.attempts,
+    progress: { completed: 0, total: 1 },
+    message: "Analyzing journey",
+  });
+  if (!active) return;
+
+  const result = await createGapReport(ctx, job.boardId, personaId, sectionId);
+  if (!result.reportId) throw new Error(result.error || "Failed to generate report.");
+  await ctx.runMutation(internal.aiJobs.complete, {
+    jobId: job._id,
+    attempt: job.attempts,
+    message: "Report ready",
+    result: { reportId: result.reportId },
+  });
+}
+
+async function runPersonaJourneyJob(ctx: ActionCtx, job: Doc<"aiJobs">): Promise<void> {
+  const { personaId } = readJobValue(personaJourneyJobArgsValidator, job.args ?? {}, "args");
+  const active = await ctx.runMutation(internal.aiJobs.updateProgress, {
+    jobId: job._id,
+    attempt: job.attempts,
+    progress: { completed: 0, total: 1 },
+    message: "Walking the journey as persona",
+  });
+  if (!active) return;
+
+  const result = await createPersonaJourneyReport(ctx, job.boardId, personaId);
+  if (!result.reportId) throw new Error(result.error || "Failed to simulate persona journey.");
+  await ctx.runMutation(internal.aiJobs.complete, {
+    jobId: job._id,
+    attempt: job.attempts,
+    message: `Journey ready; ${result.attentionNodesCreated ?? 0} high-friction step${result.attentionNodesCreated === 1 ? "" : "s"} flagged`,
+    result: { reportId: result.reportId },
+  });
+}
+
+async function runTerminologyJob(ctx: ActionCtx, job: Doc<"aiJobs">): Promise<void> {
+  const active = await ctx.runMutation(internal.aiJobs.updateProgress, {
+    jobId: job._id,
+    attempt: job.attempts,
+    progress: { completed: 0, total: 1 },
+    message: "Collecting and comparing terms",
+  });
+  if (!active) return;
+
+  const result = await createTerminologyReport(ctx, job.boardId);
+  if (!result.reportId) throw new Error(result.error || "Failed to check terminology.");
+  await ctx.runMutation(internal.aiJobs.complete, {
+    jobId: job._id,
+    attempt: job.attempts,
+    message: "Glossary ready",
+    result: { reportId: result.reportId },
+  });
+}
+
+type AccessibilityJobState = Infer<typeof accessibilityJobStateValidator>;
+
+/**
+ * Audit one screenshot for WCAG issues visible in its pixels and store the
+ * issue boxes on the node for the canvas to draw.
+ */
+async function auditScreenAccessibility(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  template: LoadedTemplate,
+  board: Doc<"boards"> | null,
+  toolContext: string,
+  node: Doc<"nodes">,
+): Promise<{ audit: ScreenAudit | null; validationIssues: string[] }> {
+  const label = node.data?.label || node.nodeId;
+  // A single image gets the full resolution, which contrast and target sizes need
+  const images = await loadScreenshotImages([node], { maxImages: 1 });
+  if (images.included.length === 0) {
+    return {
+      audit: null,
+      validationIssues: [`"${label}": the screenshot image could not be loaded, so it was not audited`],
+    };
+  }
+
+  const result = await trackedGenerate(ctx, { boardId, feature: "accessibility_audit" }, {
+    system: renderPrompt(template, {
+      boardName: board?.name || "Unknown",
+      screenLabel: label,
+      platform: node.data?.platform || "unknown",
+      toolContext,
+    }),
+    messages: [{
+      role: "user",
+      parts: [{ text: `Audit this screen. Respond with a JSON object: { "summary": "...", "issues": [...] }` }, ...images.parts],
+    }],
+    temperature: 0.2,
+    maxOutputTokens: 4096,
+    responseSchema: toJSONSchema(accessibilityResponseValidator),
+  }, template.selection);
+
+  const parsed = parseAccessibilityResponse(result.text, label);
+  if (!parsed) {
+    return {
+      audit: null,
+      validationIssues: [`"${label}": the AI response was not valid JSON, so it was not audited`],
+    };
+  }
+
+  await ctx.runMutation(internal.nodes.setAccessibilityIssues, {
+    boardId,
+    nodeId: node.nodeId,
+    issues: parsed.issues.map((issue) => ({
+      type: issue.type,
+      severity: issue.severity,
+      description: `${issue.description}${issue.wcag ? ` (WCAG ${issue.wcag})` : ""}`,
+      ...issue.box,
+    })),
+  });
+  return {
+    audit: { nodeId: node.nodeId, summary: parsed.summary, issues: parsed.issues },
+    validationIssues: parsed.validationIssues,
+  };
+}
+
+/**
+ * Audit the next chunk of screenshots for accessibility. Like walkthroughs,
+ * the audits so far are stored on the job after every chunk so a retry
+ * resumes where it failed; the report is saved once every screen is done.
+ */
+async function runAccessibilityJob(ctx: ActionCtx, job: Doc<"aiJobs">): Promise<void> {
+  if (!visionEnabled()) throw new Error("The accessibility audit needs screenshot images, but AI_VISION is off.");
+  const template = await loadTemplate(ctx, "accessibility_audit");
+  const configError = getConfigError(template.selection);
+  if (configError) throw new Error(configError);
+
+  const { sectionId } = readJobValue(sectionJobArgsValidator, job.args ?? {}, "args");
+  const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId: job.boardId });
+  let state: AccessibilityJobState | undefined = job.state && readJobValue(accessibilityJobStateValidator, job.state, "state");
+  if (!state) {
+    const screenNodeIds = screensInScope(nodes, sectionId).filter((n) => n.data?.imageUrl).map((n) => n.nodeId);
+    if (screenNodeIds.length === 0) {
+      throw new Error(`No screenshots found ${sectionId ? "in this section" : "on this board"}.`);
+    }
+    state = { screenNodeIds, cursor: 0, audits: [], validationIssues: [] };
+  }
+
+  const total = state.screenNodeIds.length;
+  const chunk = state.screenNodeIds.slice(state.cursor, state.cursor + ACCESSIBILITY_CHUNK_SIZE);
+  const active = await ctx.runMutation(internal.aiJobs.updateProgress, {
+    jobId: job._id,
+    attempt: job.attempts,
+    progress: { completed: state.cursor, total },
+    message: `Auditing screens ${state.cursor + 1}–${state.cursor + chunk.length} of ${total}`,
+    state,
+  });
+  if (!active) return;
+
+  const board = await ctx.runQuery(api.boards.get, { boardId: job.boardId });
+  const toolContext = await getToolContext(ctx, job.boardId);
+  for (const nodeId of chunk) {
+    const node = nodes.find((n) => n.nodeId === nodeId);
+    if (!node) continue;
+    const { audit, validationIssues } = await auditScreenAccessibility(ctx, job.boardId, template, board, toolContext, node);
+    state = {
+      ...state,
+      audits: audit ? [...state.audits, audit] : state.audits,
+      validationIssues: [...state.validationIssues, ...validationIssues],
+    };
+  }
+  state = { ...state, cursor: state.cursor + chunk.length };
+
+  if (state.cursor < total) {
+    const stillActive = await ctx.runMutation(internal.aiJobs.updateProgress, {
+      jobId: job._id,
+      attempt: job.attempts,
+      progress: { completed: state.cursor, total },
+      state,
+    });
+    if (stillActive) await ctx.scheduler.runAfter(0, internal.gemini.runJobStep, { jobId: job._id, attempt: job.attempts });
+    return;
+  }
+
+  const labelOf = (nodeId: string) => findNodeLabel(nodes, nodeId);
+  const findings = accessibilityFindings(state.audits, labelOf);
+  const bySeverity = (severity: string) => findings.filter((f) => f.severity === severity).length;
+
+  const scopeLabel = sectionLabel(nodes, sectionId);
+  let content = `## Accessibility Audit\n\n`;
+  content += `**Board:** ${board?.name || "Unknown"}\n`;
+  if (scopeLabel) content += `**Section:** ${scopeLabel}\n`;
+  content += `**Screens audited:** ${state.audits.length}\n`;
+  content += `**Issues:** ${findings.length} (${bySeverity("critical")} critical, ${bySeverity("high")} high, ${bySeverity("medium")} medium, ${bySeverity("low")} low)\n\n`;
+  content += `_Based on the screenshots only: contrast, target sizes, focus indicators and text in images. Screen reader and keyboard behavior need a separate manual check._\n\n`;
+  for (const audit of state.audits) {
+    content += `### ${labelOf(audit.nodeId)}\n`;
+    if (audit.summary) content += `${audit.summary}\n`;
+    for (const issue of audit.issues) {
+      content += `- **[${issue.severity}] ${ACCESSIBILITY_ISSUE_LABELS[issue.type] || issue.type}**${issue.wcag ? ` (WCAG ${issue.wcag})` : ""}: ${issue.description}\n`;
+    }
+    if (audit.issues.length === 0) content += `- No visible issues found\n`;
+    content += "\n";
+  }
+
+  const reportId = await ctx.runMutation(api.reports.create, {
+    boardId: job.boardId,
+    title: scopeLabel ? `Accessibility Audit — ${scopeLabel}` : "Accessibility Audit",
+    content,
+    summary: `${findings.length} accessibility issue${findings.length === 1 ? "" : "s"} across ${state.audits.length} screen${state.audits.length === 1 ? "" : "s"}; ${bySeverity("critical") + bySeverity("high")} critical or high.`,
+    findings,
+    sectionId,
+    ...(state.validationIssues.length > 0 ? { validationIssues: state.validationIssues } : {}),
+  });
+  await ctx.runMutation(internal.aiJobs.complete, {
+    jobId: job._id,
+    attempt: job.attempts,
+    message: `Audited ${state.audits.length} screens; ${findings.length} issue${findings.length === 1 ? "" : "s"} found`,
+    result: { reportId },
+  });
+}
+
+/**
+ * Analyze the next chunk of screens. Progress and accumulated results are
+ * stored on the job after every chunk, together with the chunk's comments, so
+ * a retry resumes where it failed without commenting on a screen twice.
+ */
+async function runWalkthroughJob(ctx: ActionCtx, job: Doc<"aiJobs">): Promise<void> {
+  const template = await loadTemplate(ctx, "walkthrough_system");
+  const configError = getConfigError(template.selection);
+  if (configError) throw new Error(configError);
+
+  const { sectionId } = readJobValue(sectionJobArgsValidator, job.args ?? {}, "args");
+  let state: WalkthroughJobState | undefined = job.state && readJobValue(walkthroughJobStateValidator, job.state, "state");
+  if (!state) {
+    const nodes = await ctx.runQuery(api.nodes.getByBoard, { boardId: job.boardId });
+    const screenNodeIds = screensInScope(nodes, sectionId).map((n) => n.nodeId);
+    if (screenNodeIds.length === 0) {
+      throw new Error(`No screenshot nodes found ${sectionId ? "in this section" : "on this board"}.`);
+    }
+    state = { screenNodeIds, cursor: 0, results: emptyWalkthroughResults() };
+  }
+
+  const total = state.screenNodeIds.length;
+  // A retry after the report failed to save has no screens left to analyze
+  if (state.cursor < total) {
+    const chunk = state.screenNodeIds.slice(state.cursor, state.cursor + WALKTHROUGH_CHUNK_SIZE);
+    const active = await ctx.runMutation(internal.aiJobs.updateProgress, {
+      jobId: job._id,
+      attempt: job.attempts,
+      progress: { completed: state.cursor, total },
+      message: `Analyzing screens ${state.cursor + 1}–${state.cursor + chunk.length} of ${total}`,
+      state,
+    });
+    if (!active) return;
+
+    const chunkCount = Math.ceil(total / WALKTHROUGH_CHUNK_SIZE);
+    const results = await walkthroughScreens(
+      ctx, job.boardId, template, chunk,
+      chunkCount > 1 ? { index: Math.floor(state.cursor / WALKTHROUGH_CHUNK_SIZE), count: chunkCount } : undefined,
+    );
+    state = {
+      ...state,
+      cursor: state.cursor + chunk.length,
+      results: mergeWalkthroughResults(state.results, results),
+    };
+
+    const saved = await ctx.runMutation(internal.aiJobs.updateProgress, {
+      jobId: job._id,
+      attempt: job.attempts,
+      progress: { completed: state.cursor, total },
+      state,
+      comments: results.screenAnalyses.map(({ nodeId, comment }) => ({ nodeId, ...WALKTHROUGH_COMMENT_AUTHOR, text: comment })),
+    });
+    if (!saved) return;
+    if (state.cursor < total) {
+      await ctx.scheduler.runAfter(0, internal.gemini.runJobStep, { jobId: job._id, attempt: job.attempts });
+      return;
+    }
+  }
+
+  const reportId = await saveWalkthroughReport(ctx, job.boardId, state.results, sectionId);
+  await ctx.runMutation(internal.aiJobs.complete, {
+    jobId: job._id,
+    attempt: job.attempts,
+    message: `Analyzed ${state.results.commentsCreated} screens`,
+    result: { reportId, commentsCreated: state.results.commentsCreated },
+  });
+}
+
+/**
+ * Turn a chat thread into model conversation turns. The current user message
+ * (already stored by the client) and the pending reply are excluded. When the
+ * thread outgrows HISTORY_CHAR_BUDGET, everything but the latest messages is
+ * folded into a rolling summary cached in chatSummaries.
+ */
+async function buildChatHistory(
+  ctx: ActionCtx,
+  boardId: Id<"boards">,
+  boardName: string,
+  threadId: string | undefined,
+  pendingMessageId: Id<"chatMessages">,
+  currentMessage: string,
+  selection: LLMSelection,
+): Promise<{ messages: LLMMessage[]; summary: string }> {
+  const thread = await ctx.runQuery(api.chat.getByBoard, { boardId, threadId });
+  const prior = thread.filter((m) =>
+    m._id !== pendingMessageId
+    && (m.role === "user" || m.role === "assistant")
+    && m.status !== "streaming"
+    && m.status !== "error"
+    && m.content
+  );
+  const last = prior[prior.length - 1];
+  if (last?.role === "user" && last.content === currentMessage) prior.pop();
+
+  const totalChars = prior.reduce((sum, m) => sum + m.content.length, 0);
+  let recent = prior;
+  let summary = "";
+
+  if (totalChars > HISTORY_CHAR_BUDGET && prior.length > HISTORY_VERBATIM_MESSAGES) {
+    // Start the verbatim window on a user turn
+    let split = prior.length - HISTORY_VERBATIM_MESSAGES;
+    while (split < prior.length && prior[split].role !== "user") split++;
+    const older = prior.slice(0, split);
+    recent = prior.slice(split);
+
+    const coversUntil = older[older.length - 1]?.createdAt ?? 0;
+    const cached = await ctx.runQuery(api.chat.getSummary, { boardId, threadId });
+    if (cached && cached.coversUntil === coversUntil) {
+      summary = cached.summary;
+    } else if (older.length > 0) {
+      // Extend the cached summary with whatever has scrolled out since
+      const usable = cached && cached.coversUntil < coversUntil ? cached : null;
+      const toSummarize = usable ? older.filter((m) => m.createdAt > usable.coversUntil) : older;
+      try {
+        const template = await loadTemplate(ctx, "chat_history_summary");
+        const result = await trackedGenerate(ctx, { boardId, feature: "chat_history_summary" }, {
+          messages: [userMessage(renderPrompt(template, {
+            boardName,
+            previousSummary: usable ? `## Summary So Far\n${usable.summary}` : "",
+            transcript: toSummarize.map((m) => `${m.role === "user" ? "User" : "Analyst"}: ${compactChatContent(m.content)}`).join("\n\n"),
+          }))],
+          temperature: 0.3,
+          maxOutputTokens: 1024,
+        }, template.selection.provider ? template.selection : selection);
+        summary = result.text.trim();
+        await ctx.runMutation(api.chat.saveSummary, { boardId, threadId, summary, coversUntil });
+      } catch {
+        // Fall back to the stale summary rather than failing the chat turn
+        summary = cached?.summary ?? "";
+      }
+    }
+  }
+
+  // Merge consecutive turns from the same side so roles alternate
+  const messages: LLMMessage[] = [];
+  for (const m of recent) {
+    const role = m.role === "assistant" ? "model" : "user";
+    const text = compactChatContent(m.content);
+    const previous = messages[messages.length - 1];
+    if (previous?.role === role) {
+      previous.parts.push({ text });
+    } else {
+      messages.push({ role, parts: [{ text }] });
+    }
+  }
+  return { messages, summary };
+}
+
+/** Replace bulky proposals JSON in earlier replies with a short placeholder. */
+function compactChatContent(content: string): string {
+  return content.replace(/```json\s*([\s\S]*?)\s*```/g, (block, json) => {
+    const parsed = parseJSONResponse(json);
+    const proposals = isRecord(parsed) ? parsed.proposals : undefined;
+    return Array.isArray(proposals) ? `[${proposals.length} proposed changes omitted]` : block;
+  });
+}
+
+async function getToolContext(ctx: any, boardId: any): Promise<string> {
+  try {
+    const board = await ctx.runQuery(api.boards.get, { boardId });
+    return await describeTools(ctx, board?.toolIds || []);
+  } catch {
+    return "";
+  }
+}
+
+/** Tool/product context for the given tools, in the form appended to prompts. */
+async function describeTools(ctx: ActionCtx, toolIds: Id<"tools">[]): Promise<string> {
+  try {
+    if (toolIds.length === 0) return "";
+
+    const tools = await ctx.runQuery(api.tools.getByIds, { toolIds });
     if (!tools || tools.length === 0) return "";
 
-    const sections = tools.map((t: any) =>
+    const sections = tools.map((t) =>
       `### ${t.name}${t.category ? ` (${t.category})` : ""}\n${t.description}`
     ).join("\n\n");
 
@@ -1027,6 +2325,168 @@ async function getToolContext(ctx: any, boardId: any): Promise<string> {
   }
 }
 
+interface LoadedTemplate {
+  prompt: string;
+  selection: LLMSelection;
+}
+
+// Who/what an LLM call is billed to in the aiUsage ledger
+interface UsageContext {
+  boardId?: Id<"boards">;
+  // Prompt template key of the calling feature
+  feature: string;
+}
+
+/**
+ * Run an LLM call under the usage ledger: refuse it when a monthly budget is
+ * used up, then record model, tokens, latency and outcome either way.
+ */
+async function withUsageLedger<T extends Omit<LLMResponse, "text">>(
+  ctx: ActionCtx,
+  usage: UsageContext,
+  expected: { provider: string; model: string },
+  call: () => Promise<T>,
+  isCancelled: () => boolean = () => false,
+): Promise<T> {
+  const { provider, model } = expected;
+  const identity = await ctx.auth.getUserIdentity().catch(() => null);
+  const entry = {
+    boardId: usage.boardId,
+    feature: usage.feature,
+    provider,
+    model,
+    userName: identity?.name ?? undefined,
+  };
+
+  const blocked = await ctx.runQuery(internal.aiUsage.checkBudget, {
+    boardId: usage.boardId,
+    feature: usage.feature,
+  });
+  if (blocked) {
+    await ctx.runMutation(internal.aiUsage.record, {
+      ...entry, inputTokens: 0, outputTokens: 0, latencyMs: 0, outcome: "blocked", error: blocked,
+    });
+    throw new LLMError(blocked);
+  }
+
+  const started = Date.now();
+  try {
+    const result = await call();
+    await ctx.runMutation(internal.aiUsage.record, {
+      ...entry,
+      provider: result.provider,
+      model: result.model,
+      inputTokens: result.usage.inputTokens,
+      outputTokens: result.usage.outputTokens,
+      latencyMs: result.latencyMs,
+      outcome: "success",
+    });
+    return result;
+  } catch (error) {
+    await ctx.runMutation(internal.aiUsage.record, {
+      ...entry,
+      inputTokens: 0,
+      outputTokens: 0,
+      latencyMs: Date.now() - started,
+      outcome: isCancelled() ? "cancelled" : "error",
+      error: errorMessage(error),
+    });
+    throw error;
+  }
+}
+
+function trackedGenerate(
+  ctx: ActionCtx,
+  usage: UsageContext,
+  request: LLMRequest,
+  selection?: LLMSelection,
+): Promise<LLMResponse> {
+  return withUsageLedger(ctx, usage, describeSelection(selection), () => generate(request, selection));
+}
+
+function trackedStream(
+  ctx: ActionCtx,
+  usage: UsageContext,
+  request: LLMRequest,
+  onText: (delta: string) => void,
+  selection?: LLMSelection,
+  options: { signal?: AbortSignal } = {},
+): Promise<LLMResponse> {
+  return withUsageLedger(
+    ctx, usage, describeSelection(selection),
+    () => stream(request, onText, selection, options),
+    () => options.signal?.aborted ?? false,
+  );
+}
+
+function trackedEmbed(ctx: ActionCtx, usage: UsageContext, texts: string[]): Promise<LLMEmbeddingResponse> {
+  return withUsageLedger(ctx, usage, describeEmbeddingSelection(), () => embed(texts));
+}
+
+/**
+ * Load a prompt from the promptTemplates table, falling back to the built-in
+ * default. The template may also pin the provider/model used to run it.
+ */
+async function loadTemplate(ctx: ActionCtx, key: string, override?: string): Promise<LoadedTemplate> {
+  let template: Doc<"promptTemplates"> | null = null;
+  try {
+    template = await ctx.runQuery(api.promptTemplates.getByKey, { key });
+  } catch {
+    // Template table may not exist yet
+  }
+
+  const prompt = override
+    || template?.prompt
+    || DEFAULT_TEMPLATES.find((t) => t.key === key)?.prompt
+    || "";
+  return {
+    prompt,
+    selection: { provider: template?.provider, model: template?.model },
+  };
+}
+
+/**
+ * Fill in a template's {{variable}} placeholders. Templates edited before
+ * placeholders existed don't reference {{toolContext}}, so it is appended.
+ */
+function renderPrompt(template: LoadedTemplate, variables: Record<string, string>): string {
+  const filled = interpolatePrompt(template.prompt, variables);
+  if (variables.toolContext && !/\{\{\s*toolContext\s*\}\}/.test(template.prompt)) {
+    return filled + variables.toolContext;
+  }
+  return filled;
+}
+
+function interpolatePrompt(prompt: string, variables: Record<string, string>): string {
+  return prompt.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name: string) =>
+    name in variables ? variables[name] : match
+  );
+}
+
+/** Variables shared by every prompt template. */
+function buildPromptVariables(
+  board: Pick<Doc<"boards">, "name"> | null,
+  nodes: Pick<Doc<"nodes">, "nodeId" | "type" | "data">[],
+  personas: Pick<Doc<"personas">, "name" | "description">[],
+  toolContext: string
+): Record<string, string> {
+  const nodeIdList = nodes
+    .filter((n) => n.type === "screenshot")
+    .map((n) => `  - nodeId: "${n.nodeId}" → label: "${n.data?.label || ""}"`)
+    .join("\n");
+
+  const personaList = personas
+    .map((p) => `- ${p.name}: ${p.description}`)
+    .join("\n");
+
+  return {
+    boardName: board?.name || "Unknown",
+    nodeIdList: nodeIdList || "(no nodes yet)",
+    personaList: personaList || "(none defined)",
+    toolContext,
+  };
+}
+
 function findNodeLabel(nodes: any[], nodeId: string): string {
   const node = nodes.find((n: any) => n.nodeId === nodeId);
   return node?.data?.label || node?.data?.text?.slice(0, 40) || nodeId;
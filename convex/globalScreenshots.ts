@@ -1,6 +1,8 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, internalQuery, mutation, query } from "./_generated/server";
+import { internal } from "./_generated/api";
 import type { Id } from "./_generated/dataModel";
+import { screenshotSuggestionValidator } from "./aiSchemas";
 
 export const generateUploadUrl = mutation({
   handler: async (ctx) => {
@@ -22,10 +24,14 @@ export const save = mutation({
     size: v.optional(v.number()),
   },
   handler: async (ctx, args) => {
-    return await ctx.db.insert("globalScreenshots", {
+    const id = await ctx.db.insert("globalScreenshots", {
       ...args,
       createdAt: Date.now(),
+      aiSuggestionStatus: "pending",
     });
+    // Propose label, platform, tool and tags in the background
+    await ctx.scheduler.runAfter(0, internal.gemini.suggestScreenshotLabels, { screenshotId: id });
+    return id;
   },
 });
 
@@ -61,6 +67,21 @@ export const listAll = query({
   },
 });
 
+/** Label, platform and tags of every library screenshot, for matching drafted screens. */
+export const listForMatching = internalQuery({
+  args: {},
+  handler: async (ctx) => {
+    const screenshots = await ctx.db.query("globalScreenshots").collect();
+    return screenshots.map((s) => ({
+      _id: s._id,
+      filename: s.filename,
+      label: s.label,
+      platform: s.platform,
+      tags: s.tags,
+    }));
+  },
+});
+
 export const listByBoard = query({
   args: { boardId: v.id("boards") },
   handler: async (ctx, args) => {
@@ -240,3 +261,76 @@ export const unlinkFromBoard = mutation({
     }
   },
 });
+
+export const getForLabelling = internalQuery({
+  args: { id: v.id("globalScreenshots") },
+  handler: async (ctx, args) => {
+    const screenshot = await ctx.db.get(args.id);
+    if (!screenshot) return null;
+    return { ...screenshot, url: await ctx.storage.getUrl(screenshot.storageId) };
+  },
+});
+
+/** Store the outcome of an AI labelling run. */
+export const saveSuggestion = internalMutation({
+  args: {
+    id: v.id("globalScreenshots"),
+    suggestion: v.optional(screenshotSuggestionValidator),
+    error: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    if (!(await ctx.db.get(args.id))) return;
+    await ctx.db.patch(args.id, args.suggestion
+      ? { aiSuggestionStatus: "ready", aiSuggestion: args.suggestion, aiSuggestionError: undefined }
+      : { aiSuggestionStatus: "failed", aiSuggestion: undefined, aiSuggestionError: args.error });
+  },
+});
+
+/** Run AI labelling again, e.g. for screenshots uploaded before it existed. */
+export const requestSuggestions = mutation({
+  args: { ids: v.array(v.id("globalScreenshots")) },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      const screenshot = await ctx.db.get(id);
+      if (!screenshot || screenshot.aiSuggestionStatus === "pending") continue;
+      await ctx.db.patch(id, { aiSuggestionStatus: "pending", aiSuggestion: undefined, aiSuggestionError: undefined });
+      await ctx.scheduler.runAfter(0, internal.gemini.suggestScreenshotLabels, { screenshotId: id });
+    }
+  },
+});
+
+/**
+ * Apply the AI suggestions of the given screenshots: label, platform and tool
+ * are replaced, suggested tags are added to the existing ones.
+ */
+export const acceptSuggestions = mutation({
+  args: { ids: v.array(v.id("globalScreenshots")) },
+  handler: async (ctx, args) => {
+    let accepted = 0;
+    for (const id of args.ids) {
+      const screenshot = await ctx.db.get(id);
+      const suggestion = screenshot?.aiSuggestion;
+      if (!screenshot || !suggestion) continue;
+      await ctx.db.patch(id, {
+        label: suggestion.label,
+        ...(suggestion.platform ? { platform: suggestion.platform } : {}),
+        ...(suggestion.toolId ? { toolId: suggestion.toolId } : {}),
+        tags: Array.from(new Set([...(screenshot.tags || []), ...suggestion.tags])),
+        aiSuggestionStatus: undefined,
+        aiSuggestion: undefined,
+      });
+      accepted++;
+    }
+    return accepted;
+  },
+});
+
+export const dismissSuggestions = mutation({
+  args: { ids: v.array(v.id("globalScreenshots")) },
+  handler: async (ctx, args) => {
+    for (const id of args.ids) {
+      if (!(await ctx.db.get(id))) continue;
+      await ctx.db.patch(id, { aiSuggestionStatus: undefined, aiSuggestion: undefined, aiSuggestionError: undefined });
+    }
+  },
+});
@@ -0,0 +1,93 @@
+/**
+ * Finds improvements that probably describe the same change, as candidates
+ * for the AI merge review. Pure and cheap so every improvement on a board (or
+ * across boards) can be compared pairwise before anything is sent to a model.
+ */
+
+export interface DedupeItem {
+  id: string;
+  boardId: string;
+  title: string;
+  content?: string;
+  connectedNodeIds: string[];
+}
+
+export interface DuplicateCandidate {
+  ids: string[];
+  // Highest pairwise similarity inside the cluster, 0–1
+  score: number;
+}
+
+// Pairs at or above this similarity are clustered together
+const SIMILARITY_THRESHOLD = 0.35;
+// Larger clusters are usually a theme rather than duplicates
+const MAX_CLUSTER_SIZE = 6;
+
+const STOP_WORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "for", "from", "in", "into", "is", "it", "of", "on",
+  "or", "so", "that", "the", "their", "this", "to", "users", "user", "with", "when", "can", "should",
+]);
+
+function tokens(text: string | undefined): Set<string> {
+  return new Set(
+    (text || "")
+      .toLowerCase()
+      .replace(/\*\*|##/g, " ")
+      .split(/[^a-z0-9]+/)
+      .filter((t) => t.length > 2 && !STOP_WORDS.has(t))
+  );
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  for (const t of a) if (b.has(t)) shared++;
+  return shared / (a.size + b.size - shared);
+}
+
+/**
+ * Similarity of two improvements from their titles, content and the screens
+ * they are connected to. Node ids are board-local, so screen overlap only
+ * counts for improvements on the same board.
+ */
+export function improvementSimilarity(a: DedupeItem, b: DedupeItem): number {
+  const title = jaccard(tokens(a.title), tokens(b.title));
+  const content = jaccard(tokens(a.content), tokens(b.content));
+  if (a.boardId !== b.boardId) return 0.6 * title + 0.4 * content;
+  const nodes = jaccard(new Set(a.connectedNodeIds), new Set(b.connectedNodeIds));
+  return 0.45 * title + 0.3 * content + 0.25 * nodes;
+}
+
+/**
+ * Group similar improvements into candidate clusters (connected components of
+ * the similar-pair graph). When `focusBoardId` is given, only clusters with at
+ * least one improvement on that board are returned.
+ */
+export function findDuplicateCandidates(items: DedupeItem[], focusBoardId?: string): DuplicateCandidate[] {
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const best = new Map<number, number>();
+
+  for (let i = 0; i < items.length; i++) {
+    for (let j = i + 1; j < items.length; j++) {
+      const score = improvementSimilarity(items[i], items[j]);
+      if (score < SIMILARITY_THRESHOLD) continue;
+      const root = find(i);
+      const other = find(j);
+      parent[other] = root;
+      best.set(root, Math.max(best.get(root) ?? 0, best.get(other) ?? 0, score));
+    }
+  }
+
+  const clusters = new Map<number, number[]>();
+  items.forEach((_, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) || []), i]);
+  });
+
+  return Array.from(clusters.entries())
+    .filter(([, members]) => members.length > 1 && members.length <= MAX_CLUSTER_SIZE)
+    .filter(([, members]) => !focusBoardId || members.some((i) => items[i].boardId === focusBoardId))
+    .map(([root, members]) => ({ ids: members.map((i) => items[i].id), score: best.get(root) ?? 0 }))
+    .sort((a, b) => b.score - a.score);
+}
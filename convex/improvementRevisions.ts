@@ -0,0 +1,153 @@
+import { v } from "convex/values";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { nextRevision } from "./nodes";
+
+/**
+ * Revision history of an improvement's content fields. Every change to them
+ * (manual edit, AI generation, clear, merge, restore) stores the resulting
+ * state, so the latest revision always matches the improvement and any
+ * earlier one can be restored.
+ */
+
+export const REVISION_FIELDS = [
+  "title",
+  "content",
+  "currentState",
+  "proposedImprovement",
+  "expectedImpact",
+  "developerTodos",
+  "priority",
+] as const;
+
+type RevisionField = (typeof REVISION_FIELDS)[number];
+type RevisionFields = Partial<Pick<Doc<"improvements">, RevisionField>>;
+
+// Manual edits by the same person within this window update one revision
+const REVISION_COALESCE_MS = 60_000;
+
+function pickFields(source: RevisionFields): RevisionFields {
+  const fields: RevisionFields = {};
+  for (const key of REVISION_FIELDS) {
+    if (source[key] !== undefined) fields[key] = source[key];
+  }
+  return fields;
+}
+
+/**
+ * Record the state `imp` will have after `patch` is applied. Call before
+ * patching. Does nothing when no content field changes. The first revision of
+ * an improvement that already has content also snapshots its prior state.
+ */
+export async function recordRevision(
+  ctx: MutationCtx,
+  imp: Doc<"improvements">,
+  patch: RevisionFields & Record<string, unknown>,
+  source: "manual" | "ai" | "clear" | "merge" | "restore",
+  note?: string,
+) {
+  const changed = REVISION_FIELDS.some((key) => key in patch && patch[key] !== imp[key]);
+  if (!changed) return;
+
+  const identity = await ctx.auth.getUserIdentity().catch(() => null);
+  const authorName = identity?.name ?? undefined;
+  const now = Date.now();
+
+  const revisions = await ctx.db
+    .query("improvementRevisions")
+    .withIndex("by_improvement", (q) => q.eq("improvementId", imp._id))
+    .collect();
+  const latest = revisions.sort((a, b) => b.createdAt - a.createdAt)[0];
+
+  if (!latest && REVISION_FIELDS.some((key) => key !== "title" && imp[key])) {
+    await ctx.db.insert("improvementRevisions", {
+      improvementId: imp._id,
+      boardId: imp.boardId,
+      ...pickFields(imp),
+      source: imp.generatedByAI ? "ai" : "manual",
+      note: "Before revision history",
+      createdAt: imp._creationTime,
+      authorName: imp.createdByName,
+    });
+  }
+
+  const next = pickFields({ ...pickFields(imp), ...patch });
+  if (
+    latest
+    && source === "manual"
+    && latest.source === "manual"
+    && latest.authorName === authorName
+    && now - latest.createdAt < REVISION_COALESCE_MS
+  ) {
+    await ctx.db.replace(latest._id, {
+      improvementId: imp._id,
+      boardId: imp.boardId,
+      ...next,
+      source,
+      createdAt: now,
+      authorName,
+    });
+    return;
+  }
+
+  await ctx.db.insert("improvementRevisions", {
+    improvementId: imp._id,
+    boardId: imp.boardId,
+    ...next,
+    source,
+    note,
+    createdAt: now,
+    authorName,
+  });
+}
+
+export async function deleteRevisions(ctx: MutationCtx, improvementId: Id<"improvements">) {
+  const revisions = await ctx.db
+    .query("improvementRevisions")
+    .withIndex("by_improvement", (q) => q.eq("improvementId", improvementId))
+    .collect();
+  for (const revision of revisions) {
+    await ctx.db.delete(revision._id);
+  }
+}
+
+export const getByImprovement = query({
+  args: { improvementId: v.id("improvements") },
+  handler: async (ctx, args) => {
+    return await ctx.db
+      .query("improvementRevisions")
+      .withIndex("by_improvement", (q) => q.eq("improvementId", args.improvementId))
+      .collect()
+      .then((revisions) => revisions.sort((a, b) => b.createdAt - a.createdAt));
+  },
+});
+
+/** Put an earlier revision's content back; recorded as a new revision. */
+export const restore = mutation({
+  args: { revisionId: v.id("improvementRevisions") },
+  handler: async (ctx, args) => {
+    const revision = await ctx.db.get(args.revisionId);
+    if (!revision) throw new Error("Revision not found");
+    const imp = await ctx.db.get(revision.improvementId);
+    if (!imp) throw new Error("Improvement not found");
+
+    // Fields the revision didn't have are cleared, except the title
+    const patch: RevisionFields = {};
+    for (const key of REVISION_FIELDS) {
+      patch[key] = revision[key] ?? (key === "title" ? imp.title : undefined);
+    }
+    await recordRevision(ctx, imp, patch, "restore", `Restored revision from ${new Date(revision.createdAt).toISOString()}`);
+    await ctx.db.patch(imp._id, patch);
+
+    // The canvas node shows the title from its own data
+    const node = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", imp.boardId))
+      .filter((q) => q.eq(q.field("nodeId"), imp.nodeId))
+      .first();
+    if (node && patch.title !== imp.title) {
+      await ctx.db.patch(node._id, { data: { ...node.data, text: patch.title }, revision: nextRevision(node) });
+    }
+    await ctx.db.patch(imp.boardId, { updatedAt: Date.now() });
+  },
+});
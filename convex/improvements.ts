@@ -1,5 +1,7 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalQuery, mutation, query, type MutationCtx } from "./_generated/server";
+import type { Id } from "./_generated/dataModel";
+import { deleteRevisions, recordRevision } from "./improvementRevisions";
 
 export const getByBoard = query({
   args: { boardId: v.id("boards") },
@@ -8,7 +10,16 @@ export const getByBoard = query({
       .query("improvements")
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .collect();
-    return improvements.sort((a, b) => a.number - b.number);
+    // Resolve where merged improvements went, which may be another board
+    const withMerge = await Promise.all(improvements.map(async (imp) => {
+      const target = imp.mergedIntoId ? await ctx.db.get(imp.mergedIntoId) : null;
+      const targetBoard = target && target.boardId !== imp.boardId ? await ctx.db.get(target.boardId) : null;
+      return {
+        ...imp,
+        mergedInto: target ? { number: target.number, boardName: targetBoard?.name } : undefined,
+      };
+    }));
+    return withMerge.sort((a, b) => a.number - b.number);
   },
 });
 
@@ -25,6 +36,8 @@ export const listAllWithBoardInfo = query({
     const result = [];
 
     for (const imp of allImprovements) {
+      // Merged duplicates are represented by the improvement they were merged into
+      if (imp.mergedIntoId) continue;
       const board = await ctx.db.get(imp.boardId);
       if (!board) continue;
 
@@ -141,6 +154,8 @@ export const update = mutation({
       }
     }
     if (Object.keys(patch).length > 0) {
+      const imp = await ctx.db.get(improvementId);
+      if (imp) await recordRevision(ctx, imp, patch, args.generatedByAI ? "ai" : "manual");
       await ctx.db.patch(improvementId, patch);
     }
   },
@@ -239,7 +254,7 @@ export const reopen = mutation({
 export const clearContent = mutation({
   args: { improvementId: v.id("improvements") },
   handler: async (ctx, args) => {
-    await ctx.db.patch(args.improvementId, {
+    const patch = {
       title: "New improvement",
       content: undefined,
       currentState: undefined,
@@ -247,6 +262,12 @@ export const clearContent = mutation({
       expectedImpact: undefined,
       developerTodos: undefined,
       priority: undefined,
+    };
+    const imp = await ctx.db.get(args.improvementId);
+    // Cleared content stays restorable from the revision history
+    if (imp) await recordRevision(ctx, imp, patch, "clear");
+    await ctx.db.patch(args.improvementId, {
+      ...patch,
       generatedByAI: false,
       status: "open",
     });
@@ -272,10 +293,223 @@ export const remove = mutation({
     for (const todo of todos) {
       await ctx.db.delete(todo._id);
     }
+    await deleteRevisions(ctx, args.improvementId);
     await ctx.db.delete(args.improvementId);
   },
 });
 
+/**
+ * Improvements to compare for duplicates: the board's own, plus those on
+ * other active boards when `acrossBoards` is set. Merged improvements are
+ * skipped.
+ */
+export const listForDedupe = internalQuery({
+  args: {
+    boardId: v.id("boards"),
+    acrossBoards: v.optional(v.boolean()),
+  },
+  handler: async (ctx, args) => {
+    const improvements = args.acrossBoards
+      ? await ctx.db.query("improvements").collect()
+      : await ctx.db
+          .query("improvements")
+          .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+          .collect();
+
+    const boardNames = new Map<string, string | null>();
+    const result = [];
+    for (const imp of improvements) {
+      if (imp.mergedIntoId) continue;
+      if (!boardNames.has(imp.boardId)) {
+        const board = await ctx.db.get(imp.boardId);
+        boardNames.set(imp.boardId, board && !board.archived ? board.name : null);
+      }
+      const boardName = boardNames.get(imp.boardId);
+      if (!boardName) continue;
+      result.push({
+        _id: imp._id,
+        boardId: imp.boardId,
+        boardName,
+        number: imp.number,
+        title: imp.title,
+        content: imp.content || [imp.currentState, imp.proposedImprovement].filter(Boolean).join("\n\n"),
+        status: imp.status,
+        priority: imp.priority,
+        connectedNodeIds: imp.connectedNodeIds,
+      });
+    }
+    return result;
+  },
+});
+
+const PRIORITY_RANK: Record<string, number> = { high: 3, medium: 2, low: 1 };
+
+/**
+ * Merge duplicate improvements into `targetId`, which keeps its IMP number.
+ * Todos, comments and status history move to the target and its content gains
+ * a section per merged improvement. The merged records stay (closed, with
+ * mergedIntoId) so existing IMP references resolve; on the target's board
+ * their canvas nodes are removed and their connections re-pointed to the
+ * target's node.
+ */
+export const merge = mutation({
+  args: {
+    targetId: v.id("improvements"),
+    sourceIds: v.array(v.id("improvements")),
+    mergedBy: v.string(),
+    mergedByName: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const target = await ctx.db.get(args.targetId);
+    if (!target) throw new Error("Improvement not found");
+    if (target.mergedIntoId) throw new Error(`IMP-${String(target.number).padStart(3, "0")} has already been merged`);
+
+    const now = Date.now();
+    const targetTodos = await ctx.db
+      .query("improvementTodos")
+      .withIndex("by_improvement", (q) => q.eq("improvementId", args.targetId))
+      .collect();
+    let nextOrder = targetTodos.reduce((max, t) => Math.max(max, t.order), -1) + 1;
+
+    let content = target.content || "";
+    let priority = target.priority;
+    const connectedNodeIds = new Set(target.connectedNodeIds);
+    const statusHistory = [...(target.statusHistory || [])];
+    const mergedFrom = [...(target.mergedFrom || [])];
+
+    for (const sourceId of args.sourceIds) {
+      if (sourceId === args.targetId) continue;
+      const source = await ctx.db.get(sourceId);
+      if (!source || source.mergedIntoId) continue;
+      const sourceRef = `IMP-${String(source.number).padStart(3, "0")}`;
+      const sameBoard = source.boardId === target.boardId;
+
+      // Todos: identical wording folds into the target's todo, keeping completion
+      const sourceTodos = await ctx.db
+        .query("improvementTodos")
+        .withIndex("by_improvement", (q) => q.eq("improvementId", sourceId))
+        .collect();
+      for (const todo of sourceTodos.sort((a, b) => a.order - b.order)) {
+        const existing = targetTodos.find((t) => t.text.trim().toLowerCase() === todo.text.trim().toLowerCase());
+        if (existing) {
+          if (todo.completed && !existing.completed) {
+            await ctx.db.patch(existing._id, {
+              completed: true,
+              completedAt: todo.completedAt,
+              completedBy: todo.completedBy,
+              completedByName: todo.completedByName,
+            });
+          }
+          await ctx.db.delete(todo._id);
+          continue;
+        }
+        await ctx.db.patch(todo._id, { improvementId: args.targetId, boardId: target.boardId, order: nextOrder++ });
+        targetTodos.push({ ...todo, improvementId: args.targetId });
+      }
+
+      const comments = await ctx.db
+        .query("improvementComments")
+        .withIndex("by_improvement", (q) => q.eq("improvementId", sourceId))
+        .collect();
+      for (const comment of comments) {
+        await ctx.db.patch(comment._id, { improvementId: args.targetId, boardId: target.boardId });
+      }
+
+      statusHistory.push(...(source.statusHistory || []).map((entry) => ({
+        ...entry,
+        note: entry.note ? `${sourceRef}: ${entry.note}` : `From ${sourceRef}`,
+      })));
+      statusHistory.push({
+        from: target.status,
+        to: target.status,
+        changedBy: args.mergedBy,
+        changedByName: args.mergedByName,
+        changedAt: now,
+        note: `Merged ${sourceRef} "${source.title}"`,
+      });
+
+      const sourceContent = source.content || [source.currentState, source.proposedImprovement, source.expectedImpact]
+        .filter(Boolean)
+        .join("\n\n");
+      if (sourceContent && sourceContent !== content) {
+        content = `${content}${content ? "\n\n" : ""}## Merged from ${sourceRef}: ${source.title}\n\n${sourceContent}`;
+      }
+      if ((PRIORITY_RANK[source.priority || ""] ?? 0) > (PRIORITY_RANK[priority || ""] ?? 0)) {
+        priority = source.priority;
+      }
+      if (sameBoard) {
+        for (const nodeId of source.connectedNodeIds) connectedNodeIds.add(nodeId);
+      }
+      mergedFrom.push({ improvementId: sourceId, boardId: source.boardId, number: source.number, title: source.title, mergedAt: now });
+
+      await ctx.db.patch(sourceId, {
+        mergedIntoId: args.targetId,
+        status: "closed",
+        closedAt: source.closedAt ?? now,
+        statusHistory: [...(source.statusHistory || []), {
+          from: source.status,
+          to: "closed",
+          changedBy: args.mergedBy,
+          changedByName: args.mergedByName,
+          changedAt: now,
+          note: `Merged into IMP-${String(target.number).padStart(3, "0")}`,
+        }],
+      });
+
+      // On the same board, move the duplicate's canvas connections onto the target node
+      if (sameBoard && source.nodeId !== target.nodeId) {
+        await repointImprovementNode(ctx, target.boardId, source.nodeId, target.nodeId);
+      }
+    }
+
+    await recordRevision(
+      ctx,
+      target,
+      { content: content || undefined, priority },
+      "merge",
+      `Merged ${mergedFrom.slice(target.mergedFrom?.length ?? 0).map((m) => `IMP-${String(m.number).padStart(3, "0")}`).join(", ")}`,
+    );
+    await ctx.db.patch(args.targetId, {
+      content: content || undefined,
+      priority,
+      connectedNodeIds: Array.from(connectedNodeIds),
+      statusHistory: statusHistory.sort((a, b) => a.changedAt - b.changedAt),
+      mergedFrom,
+    });
+    await ctx.db.patch(target.boardId, { updatedAt: now });
+    return { number: target.number, merged: mergedFrom.length - (target.mergedFrom?.length ?? 0) };
+  },
+});
+
+async function repointImprovementNode(ctx: MutationCtx, boardId: Id<"boards">, fromNodeId: string, toNodeId: string) {
+  const edges = await ctx.db
+    .query("edges")
+    .withIndex("by_board", (q) => q.eq("boardId", boardId))
+    .collect();
+  const linked = new Set(
+    edges
+      .filter((e) => e.source === toNodeId || e.target === toNodeId)
+      .map((e) => (e.source === toNodeId ? e.target : e.source))
+  );
+  for (const edge of edges) {
+    if (edge.source !== fromNodeId && edge.target !== fromNodeId) continue;
+    const other = edge.source === fromNodeId ? edge.target : edge.source;
+    if (other === toNodeId || linked.has(other)) {
+      await ctx.db.delete(edge._id);
+      continue;
+    }
+    linked.add(other);
+    await ctx.db.patch(edge._id, edge.source === fromNodeId ? { source: toNodeId } : { target: toNodeId });
+  }
+
+  const node = await ctx.db
+    .query("nodes")
+    .withIndex("by_board", (q) => q.eq("boardId", boardId))
+    .filter((q) => q.eq(q.field("nodeId"), fromNodeId))
+    .first();
+  if (node) await ctx.db.delete(node._id);
+}
+
 // One-time migration: convert "finalized" -> "closed"
 export const migrateStatusValues = mutation({
   handler: async (ctx) => {
@@ -0,0 +1,186 @@
+/**
+ * Draft journeys from written requirements: the model turns a user story, PRD
+ * or support ticket into screens, connections, personas and attention notes;
+ * this module matches the screens to the screenshot library and lays the
+ * draft out as board nodes, one column per flow step like auto-layout.
+ */
+
+import { flowOrder } from "./autoLayout";
+import { calcHandles } from "./proposalPlan";
+
+export interface DraftScreen {
+  // Short id the model uses to connect screens
+  key: string;
+  label: string;
+  platform?: string;
+  // Names of the draft personas who use this screen
+  personas: string[];
+  // Label of a library screenshot the model thinks shows this screen
+  existingScreenshot?: string;
+}
+
+export interface JourneyDraft {
+  name: string;
+  description: string;
+  personas: { name: string; description: string }[];
+  screens: DraftScreen[];
+  connections: { source: string; target: string; label?: string }[];
+  attentionNotes: { text: string; nearScreen?: string }[];
+}
+
+export interface LibraryScreenshot {
+  _id: string;
+  filename: string;
+  label?: string;
+  platform?: string;
+  tags?: string[];
+}
+
+export interface DraftBoardPlan {
+  nodes: {
+    nodeId: string;
+    type: "screenshot" | "text" | "attention";
+    position: { x: number; y: number };
+    data: Record<string, unknown>;
+    width?: number;
+    // Library screenshot to show and link, for matched screens
+    globalScreenshotId?: string;
+  }[];
+  edges: { edgeId: string; source: string; target: string; sourceHandle: string; targetHandle: string; label?: string }[];
+  personaNodes: { persona: string; nodeId: string }[];
+}
+
+const SCREEN_WIDTH = 280;
+const COLUMN_GAP = 560;
+const ROW_GAP = 520;
+// Attention notes sit to the right of their screen, inside the column gap
+const ATTENTION_OFFSET_X = SCREEN_WIDTH + 40;
+// Notes not tied to a screen are lined up above the journey
+const UNANCHORED_NOTE_Y = -320;
+// Word overlap a screen name needs with a screenshot's label and tags to reuse it
+const MATCH_THRESHOLD = 0.6;
+
+const tokens = (text: string) =>
+  new Set(text.toLowerCase().replace(/\.[a-z0-9]+$/, "").split(/[^a-z0-9]+/).filter((w) => w.length > 1));
+
+const normalize = (text: string) => Array.from(tokens(text)).join(" ");
+
+/** Share of the screen name's words found in the screenshot's label, filename and tags. */
+function matchScore(screen: DraftScreen, shot: LibraryScreenshot): number {
+  const wanted = [screen.existingScreenshot, screen.label].filter((t): t is string => !!t);
+  const shotNames = [shot.label, shot.filename].filter((t): t is string => !!t).map(normalize);
+  if (wanted.some((w) => shotNames.includes(normalize(w)))) return 1;
+
+  const words = tokens(screen.label);
+  if (words.size === 0) return 0;
+  const available = tokens([shot.label, shot.filename, ...(shot.tags || [])].join(" "));
+  const overlap = Array.from(words).filter((w) => available.has(w)).length / words.size;
+  // A screenshot from another platform is a weaker match
+  const platformPenalty = screen.platform && shot.platform && screen.platform !== shot.platform ? 0.2 : 0;
+  return overlap - platformPenalty;
+}
+
+/**
+ * Library screenshot for each draft screen that has a good enough match, best
+ * matches first; each screenshot is used for at most one screen.
+ */
+export function matchScreenshots(screens: DraftScreen[], library: LibraryScreenshot[]): Map<string, LibraryScreenshot> {
+  const candidates: { key: string; shot: LibraryScreenshot; score: number }[] = [];
+  for (const screen of screens) {
+    for (const shot of library) {
+      const score = matchScore(screen, shot);
+      if (score >= MATCH_THRESHOLD) candidates.push({ key: screen.key, shot, score });
+    }
+  }
+  candidates.sort((a, b) => b.score - a.score);
+
+  const matches = new Map<string, LibraryScreenshot>();
+  const used = new Set<string>();
+  for (const { key, shot } of candidates) {
+    if (matches.has(key) || used.has(shot._id)) continue;
+    matches.set(key, shot);
+    used.add(shot._id);
+  }
+  return matches;
+}
+
+/**
+ * Board nodes for the draft: screens in flow-order columns (matched screens as
+ * screenshot nodes, the rest as placeholder text nodes like the sample
+ * boards), attention notes beside their screen, and labeled edges.
+ */
+export function planDraftBoard(
+  draft: JourneyDraft,
+  matches: Map<string, LibraryScreenshot>,
+  idPrefix: string,
+): DraftBoardPlan {
+  const nodeIdOf = new Map(draft.screens.map((s, i) => [s.key, `${idPrefix}-screen-${i + 1}`]));
+  const { order, depth } = flowOrder(
+    draft.screens.map((s, i) => ({ nodeId: s.key, type: "screenshot", position: { x: i, y: 0 } })),
+    draft.connections,
+  );
+
+  const rowsUsed = new Map<number, number>();
+  const positionOf = new Map<string, { x: number; y: number }>();
+  for (const key of order) {
+    const column = depth.get(key)!;
+    const row = rowsUsed.get(column) ?? 0;
+    rowsUsed.set(column, row + 1);
+    positionOf.set(key, { x: column * COLUMN_GAP, y: row * ROW_GAP });
+  }
+
+  const nodes: DraftBoardPlan["nodes"] = draft.screens.map((screen) => {
+    const nodeId = nodeIdOf.get(screen.key)!;
+    const position = positionOf.get(screen.key)!;
+    const shot = matches.get(screen.key);
+    if (shot) {
+      return {
+        nodeId,
+        type: "screenshot",
+        position,
+        data: { label: screen.label, platform: screen.platform || shot.platform },
+        width: SCREEN_WIDTH,
+        globalScreenshotId: shot._id,
+      };
+    }
+    return {
+      nodeId,
+      type: "text",
+      position,
+      data: {
+        text: `[${(screen.platform || "screen").toUpperCase()}] ${screen.label}`,
+        platform: screen.platform,
+        missingScreenshot: true,
+      },
+    };
+  });
+
+  const notesNear = new Map<string, number>();
+  let unanchored = 0;
+  draft.attentionNotes.forEach((note, i) => {
+    const anchor = note.nearScreen ? positionOf.get(note.nearScreen) : undefined;
+    let position: { x: number; y: number };
+    if (anchor) {
+      const stacked = notesNear.get(note.nearScreen!) ?? 0;
+      notesNear.set(note.nearScreen!, stacked + 1);
+      position = { x: anchor.x + ATTENTION_OFFSET_X, y: anchor.y + stacked * 160 };
+    } else {
+      position = { x: unanchored++ * (SCREEN_WIDTH + 40), y: UNANCHORED_NOTE_Y };
+    }
+    nodes.push({ nodeId: `${idPrefix}-attention-${i + 1}`, type: "attention", position, data: { text: note.text } });
+  });
+
+  const edges = draft.connections.map((c, i) => ({
+    edgeId: `${idPrefix}-edge-${i + 1}`,
+    source: nodeIdOf.get(c.source)!,
+    target: nodeIdOf.get(c.target)!,
+    ...calcHandles(positionOf.get(c.source)!, positionOf.get(c.target)!, SCREEN_WIDTH, SCREEN_WIDTH),
+    label: c.label,
+  }));
+
+  const personaNodes = draft.screens.flatMap((screen) =>
+    screen.personas.map((persona) => ({ persona, nodeId: nodeIdOf.get(screen.key)! }))
+  );
+
+  return { nodes, edges, personaNodes };
+}
@@ -0,0 +1,772 @@
+/**
+ * Provider-agnostic LLM layer used by the AI actions in gemini.ts.
+ *
+ * Providers translate a common request shape into their wire format and back.
+ * Retries, timeouts, token accounting and response parsing live here so the
+ * actions only deal with prompts and results.
+ *
+ * Selection order: prompt template `provider`/`model` → `AI_PROVIDER`/`AI_MODEL`
+ * environment variables → Gemini.
+ *
+ * With a fixture store configured (see llmFixtures.ts), responses are recorded
+ * per request or replayed from earlier recordings without calling a provider.
+ *
+ * Embeddings (semantic search) use `AI_EMBEDDING_PROVIDER`/`AI_EMBEDDING_MODEL`,
+ * falling back to the generation provider. They are not recorded as fixtures.
+ */
+
+export type LLMProviderName = "gemini" | "openai" | "mock";
+
+export type LLMPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface LLMMessage {
+  role: "user" | "model";
+  parts: LLMPart[];
+}
+
+export interface LLMRequest {
+  system?: string;
+  messages: LLMMessage[];
+  temperature?: number;
+  maxOutputTokens?: number;
+  // Ask the provider for a bare JSON response instead of free text
+  json?: boolean;
+  // JSON schema the response must follow (structured output); implies json
+  responseSchema?: Record<string, unknown>;
+}
+
+export interface LLMUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LLMResponse {
+  text: string;
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+export interface LLMEmbeddingResponse {
+  // One vector of EMBEDDING_DIMENSIONS numbers per input text
+  vectors: number[][];
+  provider: LLMProviderName;
+  model: string;
+  usage: LLMUsage;
+  latencyMs: number;
+}
+
+export interface LLMSelection {
+  provider?: string;
+  model?: string;
+}
+
+interface LLMProvider {
+  name: LLMProviderName;
+  label: string;
+  defaultModel: () => string;
+  apiKey: () => string | undefined;
+  generate: (request: LLMRequest, model: string, signal: AbortSignal) => Promise<Omit<LLMResponse, "latencyMs">>;
+  stream: (request: LLMRequest, model: string, signal: AbortSignal, onText: (delta: string) => void) => Promise<Omit<LLMResponse, "latencyMs">>;
+  defaultEmbeddingModel: () => string;
+  embed: (texts: string[], model: string, signal: AbortSignal) => Promise<Omit<LLMEmbeddingResponse, "latencyMs">>;
+}
+
+// "record" calls the provider and saves the response; "replay" only reads saved responses
+export type LLMFixtureMode = "record" | "replay";
+
+export interface LLMFixture {
+  // Request as sent, with inline image data replaced by its hash
+  request: unknown;
+  response: Omit<LLMResponse, "latencyMs">;
+  recordedAt: number;
+}
+
+export interface LLMFixtureStore {
+  load: (key: string) => Promise<LLMFixture | null>;
+  save: (key: string, fixture: LLMFixture) => Promise<void>;
+}
+
+export class LLMError extends Error {
+  status?: number;
+  retryable: boolean;
+
+  constructor(message: string, options: { status?: number; retryable?: boolean } = {}) {
+    super(message);
+    this.name = "LLMError";
+    this.status = options.status;
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 120_000;
+// Streams stay open while tokens arrive, so they get a longer overall limit
+const STREAM_TIMEOUT_MS = 300_000;
+const MAX_RETRIES = 2;
+const RETRY_BASE_DELAY_MS = 750;
+// Size of every stored embedding; the search vector index is fixed to it
+export const EMBEDDING_DIMENSIONS = 768;
+
+// Just the parts of each provider's JSON responses that are read here
+interface GeminiResponse {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number };
+}
+
+interface GeminiEmbeddingResponse {
+  embeddings?: { values?: number[] }[];
+}
+
+interface OpenAIUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+}
+
+interface OpenAIChatResponse {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: OpenAIUsage;
+}
+
+interface OpenAIChatChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: OpenAIUsage | null;
+}
+
+interface OpenAIEmbeddingResponse {
+  data?: { index: number; embedding: number[] }[];
+  usage?: OpenAIUsage;
+}
+
+type OpenAIMessage =
+  | { role: "system"; content: string }
+  | {
+    role: "user" | "assistant";
+    content: (
+      | { type: "text"; text: string }
+      | { type: "image_url"; image_url: { url: string } }
+    )[];
+  };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+let fixtures: { store: LLMFixtureStore; mode: LLMFixtureMode } | null = null;
+
+/** Record or replay all requests through `store`; pass null to call providers directly. */
+export function setFixtureStore(store: LLMFixtureStore | null, mode: LLMFixtureMode = "replay") {
+  fixtures = store ? { store, mode } : null;
+}
+
+async function sha256(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Fixture key and stored form of a request. The key covers everything sent
+ * to the model but not the provider or model, so recordings replay under any
+ * selection.
+ */
+async function fixtureRequest(request: LLMRequest): Promise<{ key: string; request: unknown }> {
+  const messages = await Promise.all(request.messages.map(async (m) => ({
+    role: m.role,
+    parts: await Promise.all(m.parts.map(async (p) =>
+      "text" in p ? p : { inlineData: { mimeType: p.inlineData.mimeType, sha256: await sha256(p.inlineData.data) } }
+    )),
+  })));
+  const stored = {
+    system: request.system,
+    messages,
+    temperature: request.temperature,
+    maxOutputTokens: request.maxOutputTokens,
+    json: request.json,
+    responseSchema: request.responseSchema,
+  };
+  return { key: (await sha256(JSON.stringify(stored))).slice(0, 24), request: stored };
+}
+
+/**
+ * Serve a request from the fixture store: replay the saved response, or run
+ * `live` and save what it returns.
+ */
+async function withFixtures(
+  request: LLMRequest,
+  live: () => Promise<LLMResponse>,
+  onReplay?: (text: string) => void,
+): Promise<LLMResponse> {
+  if (!fixtures) return live();
+  const { store, mode } = fixtures;
+  const { key, request: stored } = await fixtureRequest(request);
+
+  if (mode === "replay") {
+    const fixture = await store.load(key);
+    if (!fixture) {
+      throw new LLMError(`No recorded AI response for this request (fixture ${key}). Record it with AI_FIXTURE_MODE=record.`);
+    }
+    onReplay?.(fixture.response.text);
+    return { ...fixture.response, latencyMs: 0 };
+  }
+
+  const result = await live();
+  const response = { text: result.text, provider: result.provider, model: result.model, usage: result.usage };
+  await store.save(key, { request: stored, response, recordedAt: Date.now() });
+  return result;
+}
+
+// Rough token estimate for providers that don't report usage
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+const partsToText = (parts: LLMPart[]) =>
+  parts.map((p) => ("text" in p ? p.text : "")).join("\n");
+
+/** Message of a caught value, which isn't always an Error. */
+export const errorMessage = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+async function readError(providerLabel: string, response: Response): Promise<LLMError> {
+  const errorText = await response.text();
+  return new LLMError(`${providerLabel} API error (${response.status}): ${errorText.slice(0, 500)}`, {
+    status: response.status,
+    retryable: response.status === 429 || response.status >= 500,
+  });
+}
+
+/** Yield the JSON payload of each `data:` line in a server-sent events body. */
+async function* readSSE<T>(response: Response): AsyncGenerator<T> {
+  if (!response.body) return;
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split("\n");
+    buffer = lines.pop() || "";
+    for (const line of lines) {
+      const payload = line.replace(/^data:\s*/, "").trim();
+      if (!line.startsWith("data:") || !payload || payload === "[DONE]") continue;
+      try {
+        yield JSON.parse(payload) as T;
+      } catch {
+        // Ignore keep-alives and partial frames
+      }
+    }
+  }
+}
+
+function geminiBody(request: LLMRequest) {
+  return JSON.stringify({
+    ...(request.system ? { systemInstruction: { parts: [{ text: request.system }] } } : {}),
+    contents: request.messages,
+    generationConfig: {
+      temperature: request.temperature ?? 0.7,
+      maxOutputTokens: request.maxOutputTokens ?? 8192,
+      ...(request.json || request.responseSchema ? { responseMimeType: "application/json" } : {}),
+      ...(request.responseSchema ? { responseJsonSchema: request.responseSchema } : {}),
+    },
+  });
+}
+
+const geminiText = (data: GeminiResponse): string =>
+  (data?.candidates?.[0]?.content?.parts || []).map((p) => p.text || "").join("");
+
+const geminiProvider: LLMProvider = {
+  name: "gemini",
+  label: "Gemini",
+  defaultModel: () => process.env.GEMINI_MODEL || "gemini-3.1-pro-preview",
+  apiKey: () => process.env.GEMINI_API_KEY,
+  generate: async (request, model, signal) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:generateContent?key=${process.env.GEMINI_API_KEY}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal,
+        body: geminiBody(request),
+      }
+    );
+    if (!response.ok) throw await readError("Gemini", response);
+
+    const data: GeminiResponse = await response.json();
+    return {
+      text: geminiText(data),
+      provider: "gemini",
+      model,
+      usage: {
+        inputTokens: data?.usageMetadata?.promptTokenCount ?? 0,
+        outputTokens: data?.usageMetadata?.candidatesTokenCount ?? 0,
+      },
+    };
+  },
+  stream: async (request, model, signal, onText) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:streamGenerateContent?alt=sse&key=${process.env.GEMINI_API_KEY}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal,
+        body: geminiBody(request),
+      }
+    );
+    if (!response.ok) throw await readError("Gemini", response);
+
+    let text = "";
+    let usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of readSSE<GeminiResponse>(response)) {
+      const delta = geminiText(chunk);
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      if (chunk?.usageMetadata) {
+        usage = {
+          inputTokens: chunk.usageMetadata.promptTokenCount ?? 0,
+          outputTokens: chunk.usageMetadata.candidatesTokenCount ?? 0,
+        };
+      }
+    }
+    return { text, provider: "gemini", model, usage };
+  },
+  defaultEmbeddingModel: () => "gemini-embedding-001",
+  embed: async (texts, model, signal) => {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${model}:batchEmbedContents?key=${process.env.GEMINI_API_KEY}`,
+      {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        signal,
+        body: JSON.stringify({
+          requests: texts.map((text) => ({
+            model: `models/${model}`,
+            content: { parts: [{ text }] },
+            outputDimensionality: EMBEDDING_DIMENSIONS,
+          })),
+        }),
+      }
+    );
+    if (!response.ok) throw await readError("Gemini", response);
+
+    const data: GeminiEmbeddingResponse = await response.json();
+    return {
+      // Truncated Gemini embeddings are not unit length; normalize for cosine search
+      vectors: (data?.embeddings || []).map((e) => normalize(e.values || [])),
+      provider: "gemini",
+      model,
+      usage: { inputTokens: estimateTokens(texts.join("\n")), outputTokens: 0 },
+    };
+  },
+};
+
+function openAIFetch(request: LLMRequest, model: string, signal: AbortSignal, stream: boolean) {
+  const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+  const messages: OpenAIMessage[] = [];
+  if (request.system) messages.push({ role: "system", content: request.system });
+  for (const m of request.messages) {
+    messages.push({
+      role: m.role === "model" ? "assistant" : "user",
+      content: m.parts.map((p) =>
+        "text" in p
+          ? { type: "text", text: p.text }
+          : { type: "image_url", image_url: { url: `data:${p.inlineData.mimeType};base64,${p.inlineData.data}` } }
+      ),
+    });
+  }
+
+  return fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
+    },
+    signal,
+    body: JSON.stringify({
+      model,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxOutputTokens ?? 8192,
+      ...(request.responseSchema
+        ? { response_format: { type: "json_schema", json_schema: { name: "response", schema: request.responseSchema } } }
+        : request.json ? { response_format: { type: "json_object" } } : {}),
+      ...(stream ? { stream: true, stream_options: { include_usage: true } } : {}),
+    }),
+  });
+}
+
+const openAIProvider: LLMProvider = {
+  name: "openai",
+  label: "OpenAI",
+  defaultModel: () => process.env.OPENAI_MODEL || "gpt-4.1",
+  apiKey: () => process.env.OPENAI_API_KEY,
+  generate: async (request, model, signal) => {
+    const response = await openAIFetch(request, model, signal, false);
+    if (!response.ok) throw await readError("OpenAI", response);
+
+    const data: OpenAIChatResponse = await response.json();
+    return {
+      text: data?.choices?.[0]?.message?.content || "",
+      provider: "openai",
+      model,
+      usage: {
+        inputTokens: data?.usage?.prompt_tokens ?? 0,
+        outputTokens: data?.usage?.completion_tokens ?? 0,
+      },
+    };
+  },
+  stream: async (request, model, signal, onText) => {
+    const response = await openAIFetch(request, model, signal, true);
+    if (!response.ok) throw await readError("OpenAI", response);
+
+    let text = "";
+    let usage: LLMUsage = { inputTokens: 0, outputTokens: 0 };
+    for await (const chunk of readSSE<OpenAIChatChunk>(response)) {
+      const delta = chunk?.choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(delta);
+      }
+      if (chunk?.usage) {
+        usage = {
+          inputTokens: chunk.usage.prompt_tokens ?? 0,
+          outputTokens: chunk.usage.completion_tokens ?? 0,
+        };
+      }
+    }
+    return { text, provider: "openai", model, usage };
+  },
+  defaultEmbeddingModel: () => "text-embedding-3-small",
+  embed: async (texts, model, signal) => {
+    const baseUrl = (process.env.OPENAI_BASE_URL || "https://api.openai.com/v1").replace(/\/$/, "");
+    const response = await fetch(`${baseUrl}/embeddings`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "Authorization": `Bearer ${process.env.OPENAI_API_KEY}`,
+      },
+      signal,
+      body: JSON.stringify({ model, input: texts, dimensions: EMBEDDING_DIMENSIONS }),
+    });
+    if (!response.ok) throw await readError("OpenAI", response);
+
+    const data: OpenAIEmbeddingResponse = await response.json();
+    return {
+      vectors: (data?.data || [])
+        .sort((a, b) => a.index - b.index)
+        .map((d) => d.embedding),
+      provider: "openai",
+      model,
+      usage: { inputTokens: data?.usage?.prompt_tokens ?? 0, outputTokens: 0 },
+    };
+  },
+};
+
+/**
+ * Offline provider for local development and tests. Returns `MOCK_LLM_RESPONSE`
+ * when set, otherwise an empty JSON object (json mode) or an echo of the prompt.
+ */
+const mockProvider: LLMProvider = {
+  name: "mock",
+  label: "Mock",
+  defaultModel: () => "mock",
+  apiKey: () => "mock",
+  generate: async (request, model) => {
+    const lastMessage = request.messages[request.messages.length - 1];
+    const prompt = lastMessage ? partsToText(lastMessage.parts) : "";
+    const text = process.env.MOCK_LLM_RESPONSE
+      || (request.json || request.responseSchema ? "{}" : `[mock response] ${prompt.slice(0, 200)}`);
+    return {
+      text,
+      provider: "mock",
+      model,
+      usage: {
+        inputTokens: estimateTokens((request.system || "") + request.messages.map((m) => partsToText(m.parts)).join("\n")),
+        outputTokens: estimateTokens(text),
+      },
+    };
+  },
+  stream: async (request, model, signal, onText) => {
+    const result = await mockProvider.generate(request, model, signal);
+    for (let i = 0; i < result.text.length; i += 24) {
+      if (signal.aborted) throw new Error("aborted");
+      onText(result.text.slice(i, i + 24));
+      await sleep(20);
+    }
+    return result;
+  },
+  defaultEmbeddingModel: () => "mock",
+  // Hashed bag of words: texts sharing words land close together, which is enough to exercise search offline
+  embed: async (texts, model) => ({
+    vectors: texts.map((text) => {
+      const vector = new Array(EMBEDDING_DIMENSIONS).fill(0);
+      for (const word of text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)) {
+        let hash = 2166136261;
+        for (let i = 0; i < word.length; i++) hash = Math.imul(hash ^ word.charCodeAt(i), 16777619);
+        vector[(hash >>> 0) % EMBEDDING_DIMENSIONS] += 1;
+      }
+      return normalize(vector);
+    }),
+    provider: "mock",
+    model,
+    usage: { inputTokens: estimateTokens(texts.join("\n")), outputTokens: 0 },
+  }),
+};
+
+function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return length > 0 ? vector.map((x) => x / length) : vector;
+}
+
+const PROVIDERS: Record<LLMProviderName, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider,
+};
+
+function resolveProvider(selection?: LLMSelection): { provider: LLMProvider; model: string } {
+  const name = (selection?.provider || process.env.AI_PROVIDER || "gemini") as LLMProviderName;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new LLMError(`Unknown AI provider "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`);
+  }
+  const model = selection?.model || (selection?.provider ? "" : process.env.AI_MODEL || "") || provider.defaultModel();
+  return { provider, model };
+}
+
+/**
+ * Returns a user-facing message when the selected provider has no API key,
+ * or null when it is ready to use.
+ */
+export function getConfigError(selection?: LLMSelection): string | null {
+  // Replayed responses need no provider
+  if (fixtures?.mode === "replay") return null;
+  try {
+    const { provider } = resolveProvider(selection);
+    if (provider.apiKey()) return null;
+    const envVar = provider.name === "openai" ? "OPENAI_API_KEY" : "GEMINI_API_KEY";
+    return `${provider.label} API key not configured. Please add ${envVar} to your Convex environment variables.`;
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+/** Provider and model a selection resolves to, for usage accounting. */
+export function describeSelection(selection?: LLMSelection): { provider: string; model: string } {
+  try {
+    const { provider, model } = resolveProvider(selection);
+    return { provider: provider.name, model };
+  } catch {
+    return { provider: selection?.provider || "unknown", model: selection?.model || "" };
+  }
+}
+
+function resolveEmbeddingProvider(): { provider: LLMProvider; model: string } {
+  const name = (process.env.AI_EMBEDDING_PROVIDER || process.env.AI_PROVIDER || "gemini") as LLMProviderName;
+  const provider = PROVIDERS[name];
+  if (!provider) {
+    throw new LLMError(`Unknown AI embedding provider "${name}". Use one of: ${Object.keys(PROVIDERS).join(", ")}.`);
+  }
+  return { provider, model: process.env.AI_EMBEDDING_MODEL || provider.defaultEmbeddingModel() };
+}
+
+/** Like getConfigError, for the embedding provider. */
+export function getEmbeddingConfigError(): string | null {
+  try {
+    const { provider } = resolveEmbeddingProvider();
+    if (provider.apiKey()) return null;
+    const envVar = provider.name === "openai" ? "OPENAI_API_KEY" : "GEMINI_API_KEY";
+    return `${provider.label} API key not configured. Please add ${envVar} to your Convex environment variables.`;
+  } catch (error) {
+    return errorMessage(error);
+  }
+}
+
+/** Provider and model that embed() will use, for tagging stored vectors. */
+export function describeEmbeddingSelection(): { provider: string; model: string } {
+  try {
+    const { provider, model } = resolveEmbeddingProvider();
+    return { provider: provider.name, model };
+  } catch {
+    return { provider: process.env.AI_EMBEDDING_PROVIDER || "unknown", model: process.env.AI_EMBEDDING_MODEL || "" };
+  }
+}
+
+/** Embed texts for semantic search, with the same timeout and retry policy as generate. */
+export async function embed(
+  texts: string[],
+  options: { timeoutMs?: number; maxRetries?: number } = {}
+): Promise<LLMEmbeddingResponse> {
+  const { provider, model } = resolveEmbeddingProvider();
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  const started = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const result = await provider.embed(texts, model, controller.signal);
+      if (result.vectors.length !== texts.length || result.vectors.some((v) => v.length !== EMBEDDING_DIMENSIONS)) {
+        throw new LLMError(`${provider.label} returned embeddings of the wrong shape for ${model}`);
+      }
+      return { ...result, latencyMs: Date.now() - started };
+    } catch (error) {
+      const llmError = error instanceof LLMError
+        ? error
+        : controller.signal.aborted
+          ? new LLMError(`${provider.label} embedding request timed out`, { retryable: true })
+          : new LLMError(`${provider.label} embedding request failed: ${errorMessage(error)}`, { retryable: true });
+      if (!llmError.retryable || attempt >= maxRetries) throw llmError;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Run a request against the selected provider with timeout and retry on
+ * rate limits, server errors and network failures.
+ */
+export async function generate(
+  request: LLMRequest,
+  selection?: LLMSelection,
+  options: { timeoutMs?: number; maxRetries?: number } = {}
+): Promise<LLMResponse> {
+  return withFixtures(request, () => generateLive(request, selection, options));
+}
+
+async function generateLive(
+  request: LLMRequest,
+  selection: LLMSelection | undefined,
+  options: { timeoutMs?: number; maxRetries?: number },
+): Promise<LLMResponse> {
+  const { provider, model } = resolveProvider(selection);
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  const started = Date.now();
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      const result = await provider.generate(request, model, controller.signal);
+      return { ...result, latencyMs: Date.now() - started };
+    } catch (error) {
+      const llmError = error instanceof LLMError
+        ? error
+        : controller.signal.aborted
+          ? new LLMError(`${provider.label} request timed out`, { retryable: true })
+          : new LLMError(`${provider.label} request failed: ${errorMessage(error)}`, { retryable: true });
+      if (!llmError.retryable || attempt >= maxRetries) throw llmError;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+/**
+ * Stream a request, calling `onText` with each text delta as it arrives.
+ * Failures are only retried before the first delta, since partial output may
+ * already have been shown. Aborting `options.signal` cancels the request.
+ */
+export async function stream(
+  request: LLMRequest,
+  onText: (delta: string) => void,
+  selection?: LLMSelection,
+  options: { timeoutMs?: number; maxRetries?: number; signal?: AbortSignal } = {}
+): Promise<LLMResponse> {
+  return withFixtures(request, () => streamLive(request, onText, selection, options), onText);
+}
+
+async function streamLive(
+  request: LLMRequest,
+  onText: (delta: string) => void,
+  selection: LLMSelection | undefined,
+  options: { timeoutMs?: number; maxRetries?: number; signal?: AbortSignal },
+): Promise<LLMResponse> {
+  const { provider, model } = resolveProvider(selection);
+  const maxRetries = options.maxRetries ?? MAX_RETRIES;
+  const started = Date.now();
+  let received = false;
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), options.timeoutMs ?? STREAM_TIMEOUT_MS);
+    const cancel = () => controller.abort();
+    options.signal?.addEventListener("abort", cancel);
+    try {
+      const result = await provider.stream(request, model, controller.signal, (delta) => {
+        received = true;
+        onText(delta);
+      });
+      return { ...result, latencyMs: Date.now() - started };
+    } catch (error) {
+      if (options.signal?.aborted) throw new LLMError(`${provider.label} request cancelled`);
+      const llmError = error instanceof LLMError
+        ? error
+        : controller.signal.aborted
+          ? new LLMError(`${provider.label} request timed out`, { retryable: !received })
+          : new LLMError(`${provider.label} request failed: ${errorMessage(error)}`, { retryable: !received });
+      if (!llmError.retryable || received || attempt >= maxRetries) throw llmError;
+      await sleep(RETRY_BASE_DELAY_MS * 2 ** attempt);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener("abort", cancel);
+    }
+  }
+}
+
+/** Convenience for the common single-turn text prompt. */
+export function userMessage(text: string): LLMMessage {
+  return { role: "user", parts: [{ text }] };
+}
+
+/**
+ * Parse a JSON response, tolerating models that wrap it in a ```json fence.
+ * Returns null when nothing parseable is found.
+ */
+export function parseJSONResponse(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    const match = text.match(/```(?:json)?\s*([\s\S]*?)\s*```/);
+    if (!match) return null;
+    try {
+      return JSON.parse(match[1]);
+    } catch {
+      return null;
+    }
+  }
+}
+
+/**
+ * Read a top-level string field out of a JSON document that may still be
+ * streaming in, e.g. to display `"analysis"` before the object is complete.
+ * Returns null until the field has started.
+ */
+export function extractPartialJSONString(text: string, key: string): string | null {
+  const match = new RegExp(`"${key}"\\s*:\\s*"`).exec(text);
+  if (!match) return null;
+
+  let value = "";
+  for (let i = match.index + match[0].length; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') return value;
+    if (ch !== "\\") {
+      value += ch;
+      continue;
+    }
+    const next = text[i + 1];
+    if (next === undefined) break;
+    if (next === "u") {
+      const hex = text.slice(i + 2, i + 6);
+      if (hex.length < 4) break;
+      value += String.fromCharCode(parseInt(hex, 16));
+      i += 5;
+    } else {
+      value += ({ n: "\n", t: "\t", r: "\r", b: "\b", f: "\f" } as Record<string, string>)[next] ?? next;
+      i++;
+    }
+  }
+  return value;
+}
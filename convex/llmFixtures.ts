@@ -0,0 +1,41 @@
+"use node";
+
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { setFixtureStore, type LLMFixture, type LLMFixtureMode, type LLMFixtureStore } from "./llm";
+
+/**
+ * File-based fixture store for llm.ts: one pretty-printed JSON file per
+ * request, named by its fixture key, so recordings can be reviewed and
+ * committed alongside the prompts that produced them.
+ */
+
+const DEFAULT_FIXTURE_DIR = "fixtures/llm";
+
+export function fileFixtureStore(dir: string): LLMFixtureStore {
+  const fileFor = (key: string) => path.join(dir, `${key}.json`);
+  return {
+    load: async (key) => {
+      try {
+        return JSON.parse(await readFile(fileFor(key), "utf8")) as LLMFixture;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+    save: async (key, fixture) => {
+      await mkdir(dir, { recursive: true });
+      await writeFile(fileFor(key), `${JSON.stringify(fixture, null, 2)}\n`);
+    },
+  };
+}
+
+/**
+ * Enable recording or replay from `AI_FIXTURE_MODE` ("record" | "replay")
+ * and `AI_FIXTURE_DIR`. Does nothing when the mode is unset.
+ */
+export function configureFixturesFromEnv() {
+  const mode = process.env.AI_FIXTURE_MODE as LLMFixtureMode | undefined;
+  if (mode !== "record" && mode !== "replay") return;
+  setFixtureStore(fileFixtureStore(path.resolve(process.env.AI_FIXTURE_DIR || DEFAULT_FIXTURE_DIR)), mode);
+}
@@ -1,5 +1,11 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+
+/** Revision to store with a node's new data; rows from before revisions count as 0. */
+export function nextRevision(node: Doc<"nodes">): number {
+  return (node.revision ?? 0) + 1;
+}
 
 export const getByBoard = query({
   args: { boardId: v.id("boards") },
@@ -20,6 +26,7 @@ export const addNode = mutation({
     data: v.any(),
     width: v.optional(v.number()),
     height: v.optional(v.number()),
+    parentId: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
     await ctx.db.insert("nodes", args);
@@ -27,11 +34,15 @@ export const addNode = mutation({
   },
 });
 
+// null takes a node out of its section; leaving it out keeps the section
+const parentIdValidator = v.optional(v.union(v.string(), v.null()));
+
 export const updatePosition = mutation({
   args: {
     boardId: v.id("boards"),
     nodeId: v.string(),
     position: v.object({ x: v.number(), y: v.number() }),
+    parentId: parentIdValidator,
   },
   handler: async (ctx, args) => {
     const node = await ctx.db
@@ -40,12 +51,20 @@ export const updatePosition = mutation({
       .filter((q) => q.eq(q.field("nodeId"), args.nodeId))
       .first();
     if (node) {
-      await ctx.db.patch(node._id, { position: args.position });
+      await ctx.db.patch(node._id, {
+        position: args.position,
+        ...(args.parentId !== undefined ? { parentId: args.parentId ?? undefined } : {}),
+      });
       await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
     }
   },
 });
 
+/**
+ * Replace a node's data. With expectedRevision the write only goes through if
+ * nobody changed the data since the caller read it; otherwise the current
+ * data and revision come back so the caller can merge and retry.
+ */
 export const updateData = mutation({
   args: {
     boardId: v.id("boards"),
@@ -53,20 +72,31 @@ export const updateData = mutation({
     data: v.any(),
     width: v.optional(v.number()),
     height: v.optional(v.number()),
+    expectedRevision: v.optional(v.number()),
   },
-  handler: async (ctx, args) => {
+  handler: async (ctx, args): Promise<
+    | { ok: true; revision: number }
+    | { ok: false; reason: "not_found" }
+    | { ok: false; reason: "stale"; revision: number; data: Record<string, unknown> }
+  > => {
     const node = await ctx.db
       .query("nodes")
       .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
       .filter((q) => q.eq(q.field("nodeId"), args.nodeId))
       .first();
-    if (node) {
-      const updates: Record<string, unknown> = { data: args.data };
-      if (args.width !== undefined) updates.width = args.width;
-      if (args.height !== undefined) updates.height = args.height;
-      await ctx.db.patch(node._id, updates);
-      await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+    if (!node) {
+      return { ok: false, reason: "not_found" };
+    }
+    if (args.expectedRevision !== undefined && args.expectedRevision !== (node.revision ?? 0)) {
+      return { ok: false, reason: "stale", revision: node.revision ?? 0, data: node.data };
     }
+    const revision = nextRevision(node);
+    const updates: Record<string, unknown> = { data: args.data, revision };
+    if (args.width !== undefined) updates.width = args.width;
+    if (args.height !== undefined) updates.height = args.height;
+    await ctx.db.patch(node._id, updates);
+    await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+    return { ok: true, revision };
   },
 });
 
@@ -92,6 +122,21 @@ export const updateDimensions = mutation({
   },
 });
 
+const sectionNodeValidator = v.object({
+  nodeId: v.string(),
+  type: v.literal("section"),
+  position: v.object({ x: v.number(), y: v.number() }),
+  data: v.any(),
+  width: v.optional(v.number()),
+  height: v.optional(v.number()),
+});
+
+/**
+ * Move many nodes at once, optionally adding and removing section nodes in
+ * the same step (auto-layout). Nodes owned by a removed section are released
+ * unless the update gives them a new one. Returns the inverse change, which
+ * undoes this one when passed back in.
+ */
 export const bulkUpdatePositions = mutation({
   args: {
     boardId: v.id("boards"),
@@ -99,21 +144,66 @@ export const bulkUpdatePositions = mutation({
       v.object({
         nodeId: v.string(),
         position: v.object({ x: v.number(), y: v.number() }),
+        parentId: parentIdValidator,
       })
     ),
+    addSections: v.optional(v.array(sectionNodeValidator)),
+    removeSectionIds: v.optional(v.array(v.string())),
   },
   handler: async (ctx, args) => {
-    for (const update of args.updates) {
-      const node = await ctx.db
-        .query("nodes")
-        .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
-        .filter((q) => q.eq(q.field("nodeId"), update.nodeId))
-        .first();
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const inverse: {
+      updates: { nodeId: string; position: { x: number; y: number }; parentId?: string | null }[];
+      addSections: { nodeId: string; type: "section"; position: { x: number; y: number }; data: unknown; width?: number; height?: number }[];
+      removeSectionIds: string[];
+    } = { updates: [], addSections: [], removeSectionIds: [] };
+
+    const removeIds = new Set(args.removeSectionIds || []);
+    const updates = [...args.updates];
+    for (const node of nodes) {
+      if (node.parentId && removeIds.has(node.parentId) && !updates.some((u) => u.nodeId === node.nodeId)) {
+        updates.push({ nodeId: node.nodeId, position: node.position, parentId: null });
+      }
+    }
+
+    for (const update of updates) {
+      const node = nodes.find((n) => n.nodeId === update.nodeId);
       if (node) {
-        await ctx.db.patch(node._id, { position: update.position });
+        inverse.updates.push({
+          nodeId: node.nodeId,
+          position: node.position,
+          ...(update.parentId !== undefined ? { parentId: node.parentId ?? null } : {}),
+        });
+        await ctx.db.patch(node._id, {
+          position: update.position,
+          ...(update.parentId !== undefined ? { parentId: update.parentId ?? undefined } : {}),
+        });
       }
     }
+
+    for (const node of nodes) {
+      if (node.type !== "section" || !removeIds.has(node.nodeId)) continue;
+      inverse.addSections.push({
+        nodeId: node.nodeId,
+        type: "section",
+        position: node.position,
+        data: node.data,
+        ...(node.width !== undefined ? { width: node.width } : {}),
+        ...(node.height !== undefined ? { height: node.height } : {}),
+      });
+      await ctx.db.delete(node._id);
+    }
+
+    for (const section of args.addSections || []) {
+      await ctx.db.insert("nodes", { boardId: args.boardId, ...section });
+      inverse.removeSectionIds.push(section.nodeId);
+    }
+
     await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+    return inverse;
   },
 });
 
@@ -180,8 +270,41 @@ export const convertToScreenshot = mutation({
           globalScreenshotId: args.globalScreenshotId,
         },
         width: 220,
+        revision: nextRevision(node),
       });
       await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
     }
   },
 });
+
+/**
+ * Store the latest accessibility audit of a screenshot node on its data, so
+ * the node can draw the issue boxes over the image. Replaces earlier results.
+ */
+export const setAccessibilityIssues = internalMutation({
+  args: {
+    boardId: v.id("boards"),
+    nodeId: v.string(),
+    issues: v.array(v.object({
+      type: v.string(),
+      severity: v.string(),
+      description: v.string(),
+      x: v.optional(v.number()),
+      y: v.optional(v.number()),
+      width: v.optional(v.number()),
+      height: v.optional(v.number()),
+    })),
+  },
+  handler: async (ctx, args) => {
+    const node = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .filter((q) => q.eq(q.field("nodeId"), args.nodeId))
+      .first();
+    if (!node || node.type !== "screenshot") return;
+    await ctx.db.patch(node._id, {
+      data: { ...node.data, accessibilityIssues: args.issues, accessibilityAuditedAt: Date.now() },
+      revision: nextRevision(node),
+    });
+  },
+});
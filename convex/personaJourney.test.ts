@@ -0,0 +1,71 @@
+import { describe, expect, test } from "vitest";
+import { planPersonaJourney, type JourneyEdge, type JourneyNode } from "./personaJourney";
+
+const screen = (nodeId: string, x: number, y: number): JourneyNode => ({
+  nodeId,
+  type: "screenshot",
+  position: { x, y },
+  data: { label: nodeId.replace(/^\w/, (c) => c.toUpperCase()) },
+});
+
+// signup branches to verify and sso, which both lead to the dashboard
+const nodes = [
+  screen("signup", 0, 0),
+  screen("verify", 300, 0),
+  screen("sso", 300, 200),
+  screen("dashboard", 600, 0),
+  screen("billing", 900, 0),
+  screen("help", 0, 400),
+];
+const edges: JourneyEdge[] = [
+  { source: "signup", target: "verify", label: "Email" },
+  { source: "signup", target: "sso", label: "Google" },
+  { source: "verify", target: "dashboard" },
+  { source: "sso", target: "dashboard" },
+  { source: "dashboard", target: "billing", label: "Upgrade" },
+];
+
+describe("planPersonaJourney", () => {
+  test("walks breadth-first from the entry screen, visiting each screen once", () => {
+    const plan = planPersonaJourney(nodes, edges, new Set(["signup", "verify", "sso", "dashboard"]));
+
+    expect(plan.entryNodeIds).toEqual(["signup"]);
+    expect(plan.steps.map((s) => [s.nodeId, s.depth, s.fromNodeId])).toEqual([
+      ["signup", 0, undefined],
+      ["verify", 1, "signup"],
+      ["sso", 1, "signup"],
+      ["dashboard", 2, "verify"],
+    ]);
+    expect(plan.steps[1].via).toBe("Email");
+    // Billing isn't one of the persona's screens, so it is an exit rather than a step
+    expect(plan.steps[3].next).toEqual([]);
+    expect(plan.steps[3].exits).toEqual([{ nodeId: "billing", label: "Billing", via: "Upgrade" }]);
+    expect(plan.deadEnds).toEqual([]);
+  });
+
+  test("starts a new walk at screens no entry screen reaches", () => {
+    const cycle: JourneyEdge[] = [
+      ...edges,
+      { source: "help", target: "billing" },
+      { source: "billing", target: "help" },
+    ];
+    const plan = planPersonaJourney(nodes, cycle, new Set(["signup", "verify", "billing", "help"]));
+
+    // Billing and help only lead to each other, so neither is an entry screen up front
+    expect(plan.entryNodeIds).toEqual(["signup", "billing"]);
+    expect(plan.steps.map((s) => [s.nodeId, s.depth])).toEqual([
+      ["signup", 0],
+      ["verify", 1],
+      ["billing", 0],
+      ["help", 1],
+    ]);
+    expect(plan.deadEnds).toEqual([]);
+  });
+
+  test("reports persona screens with no way forward as dead ends", () => {
+    const plan = planPersonaJourney(nodes, edges, new Set(["help"]));
+
+    expect(plan.steps.map((s) => s.nodeId)).toEqual(["help"]);
+    expect(plan.deadEnds).toEqual(["help"]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Plans the route a persona takes through a board for the "walk as persona"
+ * simulation. Pure so the traversal can be checked without a model.
+ *
+ * Only nodes assigned to the persona (personaNodes) are walked, and only edges
+ * between two of them are followed. Entry screens are the persona's nodes that
+ * no other persona node leads to; any nodes left unreached (e.g. a cycle with
+ * no way in) start a new walk of their own.
+ */
+
+export interface JourneyNode {
+  nodeId: string;
+  type: string;
+  position: { x: number; y: number };
+  data?: { label?: string; text?: string };
+}
+
+export interface JourneyEdge {
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface JourneyStep {
+  nodeId: string;
+  label: string;
+  // Steps from the entry screen this walk started at
+  depth: number;
+  // Step the persona arrived from, and the label of the edge taken
+  fromNodeId?: string;
+  via?: string;
+  // Persona screens reachable from here
+  next: { nodeId: string; label: string; via?: string }[];
+  // Edges that lead off the persona's path
+  exits: { nodeId: string; label: string; via?: string }[];
+}
+
+export interface JourneyPlan {
+  steps: JourneyStep[];
+  entryNodeIds: string[];
+  // Persona screens with no way forward at all
+  deadEnds: string[];
+}
+
+export function journeyNodeLabel(node: JourneyNode | undefined, fallback: string): string {
+  return node?.data?.label || node?.data?.text?.slice(0, 40) || fallback;
+}
+
+// Top-to-bottom, then left-to-right, the way boards are usually read
+function byPosition(a: JourneyNode, b: JourneyNode): number {
+  return a.position.y - b.position.y || a.position.x - b.position.x;
+}
+
+export function planPersonaJourney(
+  nodes: JourneyNode[],
+  edges: JourneyEdge[],
+  personaNodeIds: Set<string>,
+): JourneyPlan {
+  const nodeById = new Map(nodes.map((n) => [n.nodeId, n]));
+  const personaNodes = nodes.filter((n) => personaNodeIds.has(n.nodeId)).sort(byPosition);
+  const label = (nodeId: string) => journeyNodeLabel(nodeById.get(nodeId), nodeId);
+
+  const outgoing = new Map<string, JourneyEdge[]>();
+  const hasPersonaIncoming = new Set<string>();
+  for (const e of edges) {
+    if (!personaNodeIds.has(e.source) || !nodeById.has(e.target)) continue;
+    outgoing.set(e.source, [...(outgoing.get(e.source) || []), e]);
+    if (personaNodeIds.has(e.target) && e.target !== e.source) hasPersonaIncoming.add(e.target);
+  }
+
+  const entryNodeIds = personaNodes
+    .filter((n) => !hasPersonaIncoming.has(n.nodeId))
+    .map((n) => n.nodeId);
+
+  const steps: JourneyStep[] = [];
+  const visited = new Set<string>();
+  const walkFrom = (entryId: string) => {
+    const queue: { nodeId: string; depth: number; fromNodeId?: string; via?: string }[] = [
+      { nodeId: entryId, depth: 0 },
+    ];
+    visited.add(entryId);
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const out = outgoing.get(current.nodeId) || [];
+      const next = out.filter((e) => personaNodeIds.has(e.target));
+      const exits = out.filter((e) => !personaNodeIds.has(e.target));
+      steps.push({
+        ...current,
+        label: label(current.nodeId),
+        next: next.map((e) => ({ nodeId: e.target, label: label(e.target), via: e.label || undefined })),
+        exits: exits.map((e) => ({ nodeId: e.target, label: label(e.target), via: e.label || undefined })),
+      });
+      for (const e of next) {
+        if (visited.has(e.target)) continue;
+        visited.add(e.target);
+        queue.push({ nodeId: e.target, depth: current.depth + 1, fromNodeId: current.nodeId, via: e.label || undefined });
+      }
+    }
+  };
+
+  for (const entryId of entryNodeIds) walkFrom(entryId);
+  for (const node of personaNodes) {
+    if (!visited.has(node.nodeId)) {
+      entryNodeIds.push(node.nodeId);
+      walkFrom(node.nodeId);
+    }
+  }
+
+  return {
+    steps,
+    entryNodeIds,
+    deadEnds: steps.filter((s) => s.next.length === 0 && s.exits.length === 0).map((s) => s.nodeId),
+  };
+}
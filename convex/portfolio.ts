@@ -0,0 +1,130 @@
+/**
+ * Portfolio analysis: several journeys described to the model together. Node
+ * ids are only unique within a board, so every node is referred to as
+ * "<journey key>/<nodeId>" (e.g. "J2/node-7"). Screens found on several
+ * journeys are listed up front so the model compares like with like.
+ */
+
+export interface PortfolioBoard {
+  boardId: string;
+  name: string;
+  nodes: {
+    nodeId: string;
+    type: string;
+    data?: { label?: string; text?: string; platform?: string; imageUrl?: string; globalScreenshotId?: string };
+  }[];
+  edges: { source: string; target: string; label?: string }[];
+}
+
+export interface PortfolioNodeRef {
+  boardId: string;
+  nodeId: string;
+}
+
+export interface SharedScreen {
+  label: string;
+  // "image" when the same screenshot is placed on several journeys, "name" when only the screen names match
+  match: "image" | "name";
+  nodes: PortfolioNodeRef[];
+}
+
+// Annotations are cut to this length in the inventory
+const MAX_ANNOTATION_LENGTH = 200;
+
+/** Short journey keys ("J1", "J2", ...) in selection order, mapped to board ids. */
+export function portfolioKeys(boards: PortfolioBoard[]): Map<string, string> {
+  return new Map(boards.map((b, i) => [`J${i + 1}`, b.boardId]));
+}
+
+/**
+ * Resolve a "J2/node-7" reference to its board and node. Returns null for
+ * unknown journeys or nodes that aren't on that journey.
+ */
+export function resolveNodeRef(
+  ref: string,
+  keys: Map<string, string>,
+  nodeIdsByBoard: Map<string, Set<string>>,
+): PortfolioNodeRef | null {
+  const slash = ref.indexOf("/");
+  if (slash <= 0) return null;
+  const boardId = keys.get(ref.slice(0, slash).trim().toUpperCase());
+  const nodeId = ref.slice(slash + 1).trim();
+  if (!boardId || !nodeIdsByBoard.get(boardId)?.has(nodeId)) return null;
+  return { boardId, nodeId };
+}
+
+const normalizeLabel = (label: string) =>
+  label.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * Screens that appear on more than one of the journeys: the same screenshot
+ * from the global library first, then screens with the same name.
+ */
+export function findSharedScreens(boards: PortfolioBoard[]): SharedScreen[] {
+  const shared: SharedScreen[] = [];
+  const matched = new Set<string>();
+  const screens = boards.flatMap((b) =>
+    b.nodes
+      .filter((n) => n.type === "screenshot")
+      .map((n) => ({ boardId: b.boardId, nodeId: n.nodeId, data: n.data || {} }))
+  );
+
+  const collect = (match: SharedScreen["match"], keyOf: (s: (typeof screens)[number]) => string | undefined) => {
+    const groups = new Map<string, typeof screens>();
+    for (const screen of screens) {
+      if (matched.has(`${screen.boardId}/${screen.nodeId}`)) continue;
+      const key = keyOf(screen);
+      if (key) groups.set(key, [...(groups.get(key) || []), screen]);
+    }
+    for (const group of groups.values()) {
+      if (new Set(group.map((s) => s.boardId)).size < 2) continue;
+      group.forEach((s) => matched.add(`${s.boardId}/${s.nodeId}`));
+      shared.push({
+        label: group[0].data.label || group[0].nodeId,
+        match,
+        nodes: group.map((s) => ({ boardId: s.boardId, nodeId: s.nodeId })),
+      });
+    }
+  };
+
+  collect("image", (s) => s.data.globalScreenshotId || s.data.imageUrl);
+  collect("name", (s) => (s.data.label ? normalizeLabel(s.data.label) || undefined : undefined));
+  return shared;
+}
+
+/** Markdown description of every journey plus the screens they share, for the prompt. */
+export function buildPortfolioInventory(boards: PortfolioBoard[], shared: SharedScreen[]): string {
+  const keyOf = new Map(Array.from(portfolioKeys(boards)).map(([key, boardId]) => [boardId, key]));
+  const sections = boards.map((board) => {
+    const key = keyOf.get(board.boardId)!;
+    const labelOf = new Map(board.nodes.map((n) => [n.nodeId, n.data?.label || n.data?.text?.slice(0, 40) || n.nodeId]));
+    const screens = board.nodes
+      .filter((n) => n.type === "screenshot")
+      .map((n) => `- ${key}/${n.nodeId}: "${n.data?.label || n.nodeId}" (platform: ${n.data?.platform || "unknown"})`);
+    const connections = board.edges
+      .map((e) => `- "${labelOf.get(e.source) || e.source}" → "${labelOf.get(e.target) || e.target}"${e.label ? ` [${e.label}]` : ""}`);
+    const annotations = board.nodes
+      .filter((n) => (n.type === "text" || n.type === "attention") && n.data?.text)
+      .map((n) => `- ${key}/${n.nodeId}${n.type === "attention" ? " ⚠" : ""}: ${(n.data?.text ?? "").replace(/\s+/g, " ").slice(0, MAX_ANNOTATION_LENGTH)}`);
+
+    return `## ${key}: "${board.name}"
+
+### Screens (${screens.length}):
+${screens.join("\n") || "(none)"}
+
+### Connections (${connections.length}):
+${connections.join("\n") || "(none)"}
+
+### Annotations and attention flags:
+${annotations.join("\n") || "(none)"}`;
+  });
+
+  const sharedLines = shared.map((s) =>
+    `- "${s.label}" (${s.match === "image" ? "same screenshot" : "same name"}): ${s.nodes.map((n) => `${keyOf.get(n.boardId)}/${n.nodeId}`).join(", ")}`
+  );
+
+  return `${sections.join("\n\n")}
+
+## Screens found on more than one journey:
+${sharedLines.join("\n") || "(none detected by name or screenshot)"}`;
+}
@@ -0,0 +1,37 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import { portfolioFindingValidator } from "./aiSchemas";
+
+export const list = query({
+  args: {},
+  handler: async (ctx) => {
+    const reports = await ctx.db.query("portfolioReports").collect();
+    return reports.sort((a, b) => b.createdAt - a.createdAt);
+  },
+});
+
+export const create = internalMutation({
+  args: {
+    boardIds: v.array(v.id("boards")),
+    boardNames: v.array(v.string()),
+    title: v.string(),
+    content: v.string(),
+    summary: v.string(),
+    findings: v.array(portfolioFindingValidator),
+    validationIssues: v.optional(v.array(v.string())),
+    createdByName: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    return await ctx.db.insert("portfolioReports", {
+      ...args,
+      createdAt: Date.now(),
+    });
+  },
+});
+
+export const remove = mutation({
+  args: { reportId: v.id("portfolioReports") },
+  handler: async (ctx, args) => {
+    await ctx.db.delete(args.reportId);
+  },
+});
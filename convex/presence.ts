@@ -0,0 +1,166 @@
+import { v } from "convex/values";
+import { internalMutation, mutation, query } from "./_generated/server";
+import type { Doc } from "./_generated/dataModel";
+
+/**
+ * Live presence on a board: who has it open, where their pointer is, what
+ * they have selected and which node they are editing. Each tab heartbeats;
+ * rows that stop heartbeating count as gone after PRESENCE_TIMEOUT_MS and are
+ * deleted by a cron. An edit lock is just the editingNodeId of a live row, so
+ * it is released when its tab closes or goes quiet.
+ */
+
+export const PRESENCE_TIMEOUT_MS = 30_000;
+
+const PRESENCE_COLORS = ["#ef4444", "#f97316", "#eab308", "#22c55e", "#06b6d4", "#3b82f6", "#8b5cf6", "#ec4899"];
+
+// Stable per user, so someone keeps their color across tabs and reloads
+function colorFor(userId: string): string {
+  let hash = 0;
+  for (let i = 0; i < userId.length; i++) {
+    hash = (hash * 31 + userId.charCodeAt(i)) | 0;
+  }
+  return PRESENCE_COLORS[Math.abs(hash) % PRESENCE_COLORS.length];
+}
+
+const isLive = (row: Doc<"presence">, now: number) => now - row.lastSeenAt < PRESENCE_TIMEOUT_MS;
+
+export const getByBoard = query({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const now = Date.now();
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    return rows
+      .filter((row) => isLive(row, now))
+      .map((row) => ({
+        sessionId: row.sessionId,
+        userId: row.userId,
+        name: row.name,
+        imageUrl: row.imageUrl,
+        color: colorFor(row.userId),
+        cursor: row.cursor,
+        selectedNodeIds: row.selectedNodeIds,
+        editingNodeId: row.editingNodeId,
+      }));
+  },
+});
+
+/**
+ * Create or refresh this tab's presence. Cursor and selection are only
+ * changed when passed; a null cursor clears it.
+ */
+export const heartbeat = mutation({
+  args: {
+    boardId: v.id("boards"),
+    sessionId: v.string(),
+    userId: v.string(),
+    name: v.string(),
+    imageUrl: v.optional(v.string()),
+    cursor: v.optional(v.union(v.object({ x: v.number(), y: v.number() }), v.null())),
+    selectedNodeIds: v.optional(v.array(v.string())),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("presence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .first();
+    const cursor = args.cursor === null ? undefined : args.cursor;
+    if (existing) {
+      await ctx.db.patch(existing._id, {
+        name: args.name,
+        imageUrl: args.imageUrl,
+        lastSeenAt: Date.now(),
+        ...(args.cursor !== undefined ? { cursor } : {}),
+        ...(args.selectedNodeIds !== undefined ? { selectedNodeIds: args.selectedNodeIds } : {}),
+      });
+      return;
+    }
+    await ctx.db.insert("presence", {
+      boardId: args.boardId,
+      sessionId: args.sessionId,
+      userId: args.userId,
+      name: args.name,
+      imageUrl: args.imageUrl,
+      cursor,
+      selectedNodeIds: args.selectedNodeIds ?? [],
+      lastSeenAt: Date.now(),
+    });
+  },
+});
+
+export const leave = mutation({
+  args: { sessionId: v.string() },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("presence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .first();
+    if (existing) {
+      await ctx.db.delete(existing._id);
+    }
+  },
+});
+
+/**
+ * Take the edit lock on a node. Fails with the holder's name when another
+ * live session is editing it; mutations run serially, so two people can't
+ * both get the lock.
+ */
+export const claimEditing = mutation({
+  args: {
+    boardId: v.id("boards"),
+    sessionId: v.string(),
+    nodeId: v.string(),
+  },
+  handler: async (ctx, args): Promise<{ ok: true } | { ok: false; lockedBy: string }> => {
+    const now = Date.now();
+    const rows = await ctx.db
+      .query("presence")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const holder = rows.find(
+      (row) => row.sessionId !== args.sessionId && row.editingNodeId === args.nodeId && isLive(row, now)
+    );
+    if (holder) {
+      return { ok: false, lockedBy: holder.name };
+    }
+    const own = rows.find((row) => row.sessionId === args.sessionId);
+    if (own) {
+      await ctx.db.patch(own._id, { editingNodeId: args.nodeId, lastSeenAt: now });
+    }
+    return { ok: true };
+  },
+});
+
+export const releaseEditing = mutation({
+  args: {
+    sessionId: v.string(),
+    nodeId: v.string(),
+  },
+  handler: async (ctx, args) => {
+    const own = await ctx.db
+      .query("presence")
+      .withIndex("by_session", (q) => q.eq("sessionId", args.sessionId))
+      .first();
+    if (own && own.editingNodeId === args.nodeId) {
+      await ctx.db.patch(own._id, { editingNodeId: undefined });
+    }
+  },
+});
+
+// Tabs that closed without calling leave (crash, lost connection)
+export const removeStale = internalMutation({
+  args: {},
+  handler: async (ctx) => {
+    const stale = await ctx.db
+      .query("presence")
+      .withIndex("by_last_seen", (q) => q.lt("lastSeenAt", Date.now() - PRESENCE_TIMEOUT_MS))
+      .collect();
+    for (const row of stale) {
+      await ctx.db.delete(row._id);
+    }
+  },
+});
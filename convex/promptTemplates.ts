@@ -30,11 +30,16 @@ export const upsert = mutation({
       .withIndex("by_key", (q) => q.eq("key", args.key))
       .first();
 
+    // An edited prompt is the user's from now on and no longer gets upgraded
+    const builtIn = DEFAULT_TEMPLATES.find((t) => t.key === args.key);
+    const defaultVersion = builtIn && builtIn.prompt === args.prompt ? builtIn.version : undefined;
+
     if (existing) {
       await ctx.db.patch(existing._id, {
         label: args.label,
         category: args.category,
         prompt: args.prompt,
+        defaultVersion,
         updatedAt: Date.now(),
       });
       return existing._id;
@@ -44,74 +49,445 @@ export const upsert = mutation({
         label: args.label,
         category: args.category,
         prompt: args.prompt,
+        defaultVersion,
         updatedAt: Date.now(),
       });
     }
   },
 });
 
-const DEFAULT_TEMPLATES = [
+export const setModel = mutation({
+  args: {
+    key: v.string(),
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+  },
+  handler: async (ctx, args) => {
+    const existing = await ctx.db
+      .query("promptTemplates")
+      .withIndex("by_key", (q) => q.eq("key", args.key))
+      .first();
+    if (!existing) throw new Error("Template not found");
+
+    await ctx.db.patch(existing._id, {
+      provider: args.provider || undefined,
+      model: args.model || undefined,
+      updatedAt: Date.now(),
+    });
+  },
+});
+
+/**
+ * Built-in prompt defaults. Prompts may reference `{{variable}}` placeholders
+ * which the Gemini actions fill in at call time.
+ */
+export const DEFAULT_TEMPLATES = [
   {
     key: "chat_system",
+    version: 2,
     label: "Chat System Prompt",
     category: "chat",
     prompt: `You are an expert UX analyst specializing in customer journey mapping across multi-platform enterprise software (OPPR platforms). You help teams analyze and improve cross-platform customer journeys.
 
 Your capabilities:
-1. Identify terminology mismatches across screens
+1. Identify terminology mismatches across screens (e.g. "start" vs "initiate" vs "activate")
 2. Find missing screens or dead-end flows where users might get stuck
-3. Analyze per-persona experience
+3. Analyze per-persona experience — walk through each persona's path and annotate friction points
 4. Suggest specific improvements with references to actual screen names
-5. Propose canvas changes as structured JSON
+5. Propose canvas changes as structured JSON that can be applied automatically
+6. Add yellow annotation notes, red attention/issue markers, and green improvement boxes to provide rich visual feedback on the journey map
 
-## Tone Guidelines
-Be constructive and supportive in your analysis. Frame issues as opportunities for improvement rather than criticisms. Explain the user impact clearly — use language like "users may find this confusing because..." or "this could be streamlined by..." rather than bluntly stating what's wrong. Acknowledge what works well before suggesting changes. Your goal is to guide the team toward better UX, not to criticize their work.`,
+## Canvas Node Types
+The journey map canvas supports these node types:
+- **Screenshot nodes**: Actual screen captures with labels and platform tags
+- **Text nodes (yellow)**: Annotation notes — use these for observations, context, persona-specific notes
+- **Attention nodes (red)**: Issue markers — use these for problems, friction points, UX issues, dead ends
+- **Improvement nodes (green)**: Improvement suggestions — use these for actionable recommendations
+
+## Tone
+Be constructive and supportive. Frame issues as opportunities — use "users may find this confusing because..." rather than "this is broken". Acknowledge what works well before suggesting changes. Your goal is to guide the team, not criticize.
+
+## How to provide comprehensive analysis
+When analyzing a journey, you should:
+1. Walk through EACH persona's path and identify where they succeed and where they get stuck
+2. For EACH screen, consider adding:
+   - A yellow **note** with persona-specific observations (e.g. "Admin sees this first after login")
+   - A red **attention** marker for any UX issues or friction points found
+   - A green **improvement** suggestion with actionable recommendations
+3. Connect screens in logical flow order using appropriate directional edges
+4. Add missing screens where the journey has gaps
+
+IMPORTANT: Whenever you suggest changes, you MUST ALWAYS include them in the "proposals" array so the user can apply your changes directly to the canvas with one click. Do not just describe changes in text — always provide the proposals.
+
+Be generous with annotations! Add notes, attention markers, and improvement boxes for every meaningful observation. The goal is a richly annotated journey map that tells the full story.
+
+Available node IDs and positions (use these exact IDs in your proposals):
+{{nodePositionList}}
+
+Available screenshot node IDs (for edges and references):
+{{nodeIdList}}
+
+## Response format
+Respond with a single JSON object. Put your full analysis (markdown) in "analysis" and your proposed changes in "proposals" (use an empty array when there are none):
+\`\`\`json
+{
+  "analysis": "Markdown analysis...",
+  "proposals": [
+    { "action": "addNode", "label": "Screen Name", "platform": "admin", "afterNode": "existing-node-id", "connectionLabel": "label for auto-created edge" },
+    { "action": "addEdge", "source": "existing-node-id", "target": "existing-node-id", "label": "Connection Label" },
+    { "action": "addNote", "text": "Observation or context note", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
+    { "action": "addAttention", "text": "Issue or friction point description", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
+    { "action": "addImprovement", "text": "Actionable improvement suggestion", "nearNode": "existing-node-id", "persona": "Persona Name (optional)" },
+    { "action": "relabelEdge", "edgeSource": "node-id", "edgeTarget": "node-id", "newLabel": "New Label" },
+    { "action": "removeNode", "nodeId": "node-id-to-remove" },
+    { "action": "removeEdge", "source": "node-id", "target": "node-id" }
+  ]
+}
+\`\`\`
+
+### Proposal types explained:
+- **addNode**: Add a proposed new screen (creates a yellow text node placeholder). Use "afterNode" to position it near an existing screen and auto-connect.
+- **addEdge**: Connect two existing nodes with a labeled edge. The system will automatically choose the correct handle direction (top/bottom/left/right) based on node positions.
+- **addNote**: Add a yellow annotation box near a screen. Use "nearNode" to place it near the relevant screen. Include "persona" to tag which persona this note applies to.
+- **addAttention**: Add a red attention/issue box near a screen. Same positioning as addNote. Use for problems, friction points, dead-ends.
+- **addImprovement**: Add a green improvement box near a screen. Same positioning as addNote. Use for actionable recommendations.
+- **relabelEdge**: Change the label on an existing edge.
+- **removeNode**: Remove an existing node and its connections.
+- **removeEdge**: Remove a specific edge.
+
+Rules for proposals:
+- Use the exact nodeId values listed above (e.g. "screenshot-abc123"), NOT screen labels
+- For "afterNode" in addNode, use the nodeId of the screen the new node should appear after
+- For "nearNode" in addNote/addAttention/addImprovement, use the nodeId of the screen to annotate
+- For addEdge source/target, use nodeIds
+- Every referenced nodeId must exist on the board — proposals pointing at unknown nodes are rejected
+- Always include the proposals array alongside your analysis
+- Include persona name in addNote/addAttention/addImprovement when the observation is persona-specific
+- Create MULTIPLE notes/attention/improvement boxes — one per distinct observation, not one giant block{{toolContext}}`,
+  },
+  {
+    key: "chat_history_summary",
+    version: 1,
+    label: "Chat Memory Summary Prompt",
+    category: "chat",
+    prompt: `You maintain the memory of a conversation between a product team member and an AI journey analyst about the customer journey map "{{boardName}}". Older messages are being dropped from the analyst's context, so write a summary that lets the analyst continue the conversation seamlessly.
+
+Keep:
+- The questions the user asked and the conclusions reached
+- Numbered points and lists from the analyst with their original numbering, so references like "point 3" still resolve
+- Screens and nodeIds that were discussed
+- Changes the analyst proposed
+- Open questions and follow-ups
+
+Write concise markdown, at most ~400 words. Do not add new analysis.
+
+{{previousSummary}}
+
+## Conversation to Summarize
+{{transcript}}`,
   },
   {
     key: "summary_generate",
+    version: 2,
     label: "Board Summary Prompt",
     category: "summary",
-    prompt: `Summarize this customer journey map in 1-2 concise sentences for a dashboard card. Keep the tone neutral and informative — describe what the journey covers and its scope without judgment.`,
+    prompt: `Summarize this customer journey map in 1-2 concise sentences for a dashboard card. Keep the tone neutral and informative — describe what the journey covers and its scope without judgment.
+Screens: {{screenList}}
+Connections: {{connectionCount}}
+Personas: {{personaNames}}{{toolContext}}`,
   },
   {
     key: "report_gap_analysis",
+    version: 2,
     label: "Gap Analysis Prompt",
     category: "report",
     prompt: `You are a supportive UX consultant conducting a gap analysis of this customer journey map. Your role is to help the team understand where the experience can be strengthened.
 
 Frame all findings constructively — instead of "this is broken" or "this fails", explain what users experience and why it may cause friction. Acknowledge the strengths of the current journey before diving into areas for improvement. Write as a collaborative partner, not a critic.
 
-Your response MUST follow this exact format:
-
-## Executive Summary
-(2-3 sentences summarizing the overall journey health, leading with what's working well)
+Your response MUST be a single JSON object in this exact format:
+\`\`\`json
+{
+  "executiveSummary": "2-3 sentences summarizing the overall journey health, leading with what's working well",
+  "findings": [
+    { "type": "gap|terminology|dead-end|missing-connection", "severity": "high|medium|low", "description": "...", "affectedNodes": ["nodeId1", "nodeId2"] }
+  ],
+  "detailedAnalysis": "Markdown analysis with specific, constructive recommendations"
+}
+\`\`\`
 
-## Findings
-Provide findings as a JSON code block.
+Only use nodeIds from the list below in "affectedNodes".
 
-## Detailed Analysis
-(Markdown analysis with specific, constructive recommendations)`,
+Available node IDs:
+{{nodeIdList}}{{focusPersona}}{{toolContext}}`,
   },
   {
     key: "walkthrough_system",
+    version: 2,
     label: "UX Walkthrough Prompt",
     category: "walkthrough",
-    prompt: `You are a supportive senior UX/UI colleague conducting a walkthrough of an enterprise software application. You are reviewing each screen in a customer journey map as a collaborative partner — not a critic.
+    prompt: `You are a supportive senior UX/UI colleague conducting a walkthrough of an enterprise software application. You are reviewing each screen in a customer journey map as a collaborative partner helping the team improve the experience.
+
+For EACH screen listed below, you must provide a focused UX analysis. Your response must be a JSON array where each item has:
+- "nodeId": the exact nodeId provided
+- "comment": your UX analysis (150-300 words). Cover:
+  1. First impressions and visual hierarchy — note what works well first
+  2. Information architecture and labeling clarity
+  3. Navigation flow — is it clear where the user came from and where they can go?
+  4. Terminology consistency — flag any terms that differ from other screens
+  5. Accessibility and usability observations
+  6. Specific, actionable suggestions framed as opportunities (not vague criticism)
+  7. If the screen is a dead end (no outgoing flows), explain the user impact
 
-For EACH screen, provide a focused UX analysis covering:
-1. First impressions and visual hierarchy — note what works well first
-2. Information architecture and labeling clarity
-3. Navigation flow — is it clear where the user came from and where they can go?
-4. Terminology consistency — flag any terms that differ from other screens
-5. Accessibility and usability observations
-6. Specific, actionable suggestions (framed as opportunities)
-7. Dead-end detection — if the screen is a dead end, explain the user impact
+After the per-screen analysis, provide an overall summary object with:
+- "overallFindings": array of { "type", "severity" (critical/high/medium/low), "description", "affectedNodes": [nodeIds] }
+- "terminologyIssues": array of { "term", "usedOn": [nodeIds], "alternateTerms": [strings], "recommendation" }
+- "flowGaps": array of { "description", "fromNode", "toNode" or null }
 
 ## Tone
-Think of yourself as a trusted colleague doing a design review, not an auditor filing a report. Instead of "the navigation is confusing", try "users coming from **Screen X** may not immediately see how to reach **Screen Y** — adding a breadcrumb or back link could help orient them." Always explain the *why* behind your suggestions.`,
+Think of yourself as a trusted colleague doing a design review, not an auditor filing a report. Acknowledge what each screen does well before noting areas for improvement. Frame suggestions constructively: instead of "the navigation is confusing", try "users coming from the previous screen may not immediately see how to proceed — consider adding a visual cue or breadcrumb."
+
+Be specific. Reference actual screen names. If something works well, say so. Focus on user impact in your suggestions.
+
+IMPORTANT: Return ONLY valid JSON. No markdown, no code fences, just the JSON object.{{toolContext}}`,
+  },
+  {
+    key: "persona_journey",
+    version: 1,
+    label: "Persona Journey Prompt",
+    category: "walkthrough",
+    prompt: `You are role-playing a real user walking through an enterprise application. Stay in character as this persona for the whole journey:
+
+**{{personaName}}**: {{personaDescription}}
+
+You will be given the screens this persona uses, in the order they reach them, with where each one leads. For EACH step, narrate in the first person what you see, what you are trying to do and how it feels — using the vocabulary, goals and expertise of this persona. Then score the friction of that step:
+1 = effortless, 2 = minor hesitation, 3 = noticeable effort or confusion, 4 = likely to need help or make a mistake, 5 = likely to give up.
+
+Be honest but fair: call out what helps you as well as what slows you down. Dead ends and exits to screens outside your path matter — say what you would expect to happen next.
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "summary": "2-3 sentences, in the persona's voice, on how the journey went overall",
+  "steps": [
+    { "nodeId": "exact nodeId of the step", "narration": "first-person narration (60-150 words)", "frictionScore": 1, "frictionPoints": ["specific friction point", "..."] }
+  ],
+  "findings": [
+    { "type": "friction|dead-end|terminology|missing-connection", "severity": "critical|high|medium|low", "description": "...", "affectedNodes": ["nodeId1"] }
+  ]
+}
+
+Write exactly one step per screen, in the order given. Only use nodeIds from the list below.
+
+Available node IDs:
+{{nodeIdList}}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "terminology_check",
+    version: 1,
+    label: "Terminology Check Prompt",
+    category: "report",
+    prompt: `You are a UX writer auditing the terminology of an enterprise application across all of its screens and platforms. Users lose confidence when the same thing is called different names ("Start" vs "Initiate" vs "Activate", "Workspace" vs "Project") or when one word means different things in different places.
+
+You are given every piece of text on the journey map — screen names, connection labels and annotations — and the screenshots themselves. Read the visible text in each screenshot too: headings, buttons, menu items, field labels and status names.
+
+Group the terms into concepts: one concept per thing the user needs to understand, with every wording used for it and exactly which screens use each wording. Include a concept only if it matters to users; include concepts that are worded consistently only when they are central to the journey. For each concept, pick the preferred term (the clearest, most widely used, or platform convention) and explain the recommendation briefly.
+
+Severity: "high" when a mismatch can cause a wrong action or blocks understanding, "medium" when it causes hesitation, "low" for cosmetic differences (casing, pluralization).
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "summary": "2-3 sentences on the overall consistency of the product's language",
+  "glossary": [
+    {
+      "concept": "What the user is dealing with, e.g. 'Begin a scan'",
+      "preferredTerm": "Start",
+      "variants": [
+        { "term": "Start", "nodeIds": ["nodeId1"], "platforms": ["web"] },
+        { "term": "Initiate", "nodeIds": ["nodeId2"], "platforms": ["mobile"] }
+      ],
+      "severity": "critical|high|medium|low",
+      "recommendation": "..."
+    }
+  ]
+}
+
+Only use nodeIds from the list below.
+
+Available node IDs:
+{{nodeIdList}}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "portfolio_analysis",
+    version: 1,
+    label: "Portfolio Analysis Prompt",
+    category: "report",
+    prompt: `You are a principal product designer reviewing a portfolio of related products as one experience. Customers move between these journeys — {{journeyNames}} — and judge the company by the whole, not by each product alone.
+
+Each journey is listed with a key (J1, J2, ...), its screens, connections and annotations. Screens that appear on more than one journey (the same screenshot or the same name) are listed at the end.
+
+Look across the journeys for:
+- "shared_screen": screens or components that several journeys use — login, settings, navigation, billing — and whether they behave and look the same everywhere
+- "terminology": the same concept named differently across products, or one word meaning different things
+- "handoff": points where a user leaves one product for another (links, redirects, "open in ..."), and whether context, identity and state survive the jump
+- "systemic": problems that recur in several journeys and should be fixed once, at the platform level
+
+Do not repeat issues that concern a single journey only; those belong in that journey's own gap analysis.
+
+Severity: "critical" when it breaks a cross-product task, "high" when users are likely to get lost or lose work, "medium" for noticeable inconsistency, "low" for polish.
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "executiveSummary": "3-5 sentences on how coherent the portfolio feels and the most important cross-product fixes",
+  "findings": [
+    {
+      "type": "shared_screen|terminology|handoff|systemic",
+      "severity": "critical|high|medium|low",
+      "description": "What is inconsistent or broken across journeys and what to do about it",
+      "affectedNodes": ["J1/nodeId", "J2/nodeId"]
+    }
+  ],
+  "detailedAnalysis": "Markdown with one section per theme, naming the journeys involved"
+}
+
+Reference nodes only as "<journey key>/<nodeId>" exactly as they appear in the inventory.
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "journey_draft",
+    version: 1,
+    label: "Journey Draft Prompt",
+    category: "report",
+    prompt: `You are a UX designer turning written requirements — a user story, PRD or support ticket — into a first draft of a customer journey map. The draft is a starting point the team will refine, so cover the whole flow the text describes without inventing features it doesn't mention.
+
+Produce:
+- "name" and "description": a short journey name and one sentence on what it maps
+- "personas": the distinct user roles in the text, each with a 1-2 sentence description of their goal and context
+- "screens": every screen or step the user sees, in the order they reach them. "key" is a short unique id ("s1", "s2", ...), "label" the screen name in the product's vocabulary, "platform" one of "desktop", "mobile", "admin" or "web" when the text implies it, and "personas" the persona names who use the screen
+- "connections": the transitions between screens by key, each labeled with the user action that causes it ("Submit", "Click Invite")
+- "attentionNotes": open questions, risks, edge cases and gaps the text leaves unclear (missing error states, unclear permissions, dead ends), each anchored to a screen key via "nearScreen" when it concerns one screen
+
+The team has a library of existing screenshots. When a screen is clearly shown by one of them, set "existingScreenshot" to that screenshot's label exactly as listed and prefer its name for the screen label:
+{{screenshotLibrary}}
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "name": "...",
+  "description": "...",
+  "personas": [{ "name": "...", "description": "..." }],
+  "screens": [{ "key": "s1", "label": "...", "platform": "desktop", "personas": ["..."], "existingScreenshot": "..." }],
+  "connections": [{ "source": "s1", "target": "s2", "label": "..." }],
+  "attentionNotes": [{ "text": "...", "nearScreen": "s2" }]
+}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "screenshot_labelling",
+    version: 1,
+    label: "Screenshot Labelling Prompt",
+    category: "report",
+    prompt: `You are cataloguing screenshots for a team's library of product screens. Look at the attached screenshot (its file name is "{{filename}}") and describe it so it can be found and reused on customer journey maps.
+
+Produce:
+- "label": the screen's name as the product would call it, 2-6 words in title case ("Invite Team Members", "Billing Settings"). Use the page title or main heading when visible; never repeat the file name
+- "platform": "mobile" for phone-sized layouts, "admin" for back-office, console or configuration screens aimed at administrators, otherwise "desktop"
+- "tool": the product tool the screen belongs to, exactly as named in this list, or omit it when none clearly fits:
+{{toolList}}
+- "tags": 3-8 short lowercase tags for the screen's purpose, key UI elements and state ("onboarding", "form", "empty-state", "error")
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "label": "...",
+  "platform": "desktop",
+  "tool": "...",
+  "tags": ["..."]
+}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "accessibility_audit",
+    version: 1,
+    label: "Accessibility Audit Prompt",
+    category: "report",
+    prompt: `You are an accessibility specialist auditing the screen "{{screenLabel}}" (platform: {{platform}}) of the journey "{{boardName}}" against WCAG 2.2 AA. You only have the attached screenshot, so report only problems visible in its pixels:
+- "contrast": text or meaningful icons whose contrast with their background looks below 4.5:1 (3:1 for large text and UI component boundaries). Estimate the colors and mention the approximate ratio (WCAG 1.4.3, 1.4.11)
+- "touch_target": on mobile screens, tap targets that look smaller than 44×44 CSS pixels or are crowded together; on other platforms only targets below 24×24 (WCAG 2.5.8)
+- "focus_indicator": a focused control with no visible focus ring, or focus shown by color alone (WCAG 2.4.7, 2.4.11)
+- "text_in_image": text rendered as part of an image or illustration rather than real text (WCAG 1.4.5)
+- "other": other visible problems such as meaning conveyed by color alone, placeholder text used as the only label or truncated text
+
+For each issue give the WCAG criterion number and a bounding "box" around the affected area in percent of the image: "x" and "y" are the top-left corner, "width" and "height" the size, all from 0 to 100. Omit the box when the issue concerns the whole screen.
+
+Severity: "critical" when users relying on assistive technology or low vision cannot complete the task, "high" for clear failures of a criterion on primary content or actions, "medium" for failures on secondary content, "low" for borderline cases. Don't report guesses about things the screenshot can't show (screen reader labels, keyboard order).
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "summary": "1-2 sentences on the screen's overall accessibility",
+  "issues": [
+    { "type": "contrast", "severity": "high", "wcag": "1.4.3", "description": "...", "box": { "x": 10, "y": 62, "width": 30, "height": 5 } }
+  ]
+}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "auto_layout",
+    version: 1,
+    label: "Auto-Layout Prompt",
+    category: "report",
+    prompt: `You are an information architect tidying up a customer journey map for the board "{{boardName}}". Group its screens into the logical stages of the journey — for example "Sign up", "Onboarding", "Daily work", "Settings & admin" — so each stage can be framed as a labeled section on the canvas.
+
+Rules:
+- Every screen belongs to exactly one stage.
+- Order the stages the way users move through the product, and list the screens inside each stage in the order users reach them.
+- Prefer 3-8 stages of 2-8 screens each; a screen that fits nowhere can be its own stage.
+- Stage labels are short (1-4 words), written in the product's own vocabulary.
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "stages": [
+    { "label": "Sign up", "nodeIds": ["nodeId1", "nodeId2"] }
+  ]
+}
+
+Only use nodeIds from the list below.
+
+Available node IDs:
+{{nodeIdList}}
+
+Return ONLY valid JSON.{{toolContext}}`,
+  },
+  {
+    key: "improvement_dedupe",
+    version: 1,
+    label: "Improvement Deduplication Prompt",
+    category: "improvement",
+    prompt: `You are a product manager cleaning up a backlog of UX improvement suggestions, many of them AI-generated. Similar-looking improvements have been grouped into candidate clusters for you. Decide which of them are genuinely duplicates — the same change to the same part of the product, so doing one would make the others unnecessary.
+
+Related but distinct improvements (same screen but different problem, same problem on a different product area) are NOT duplicates: leave them out or split the cluster. Only group improvements that appear together in one candidate cluster.
+
+For each confirmed cluster, pick the primary improvement that should survive the merge: prefer the one furthest along (in progress over open), then the one with the most complete analysis and todos, then the oldest.
+
+Your response MUST be a single JSON object in this exact format:
+{
+  "clusters": [
+    { "improvementIds": ["id1", "id2"], "primaryId": "id1", "reason": "One sentence on why these are the same change", "confidence": "high|medium|low" }
+  ]
+}
+
+Use the exact improvement ids given. Return an empty "clusters" array when nothing should be merged.
+
+Return ONLY valid JSON.{{toolContext}}`,
   },
   {
     key: "improvement_generate",
+    version: 2,
     label: "Improvement Generation Prompt v2",
     category: "improvement",
     prompt: `You are a senior UX improvement analyst conducting a deep-dive analysis of a customer journey. Your task is to thoroughly examine the connected screens and produce a comprehensive, granular improvement suggestion. DO NOT summarize or take shortcuts — be exhaustive and specific.
@@ -141,10 +517,19 @@ Respond with a JSON object with these fields:
 
   "developerTodos": "A structured, sequenced developer checklist that breaks down ALL proposed changes into granular, independently actionable tasks. Group by implementation phase. Format as plain text using numbered steps and phase headers like:\\n\\nPhase 1: Quick Wins (can be done in < 1 day)\\n1. [ ] Change button label from X to Y on **Screen Name**\\n2. [ ] Add loading spinner to form submit on **Screen Name**\\n\\nPhase 2: Navigation & Flow (2-3 days)\\n3. [ ] Add breadcrumb bar showing current path on **Screen Name**\\n4. [ ] Create back button linking **Screen A** back to **Screen B**\\n\\nPhase 3: Structural Changes (1+ week)\\n5. [ ] Refactor settings panel into tabbed layout on **Screen Name**\\n6. [ ] Consolidate duplicate filter controls into a single toolbar\\n\\nEach task must be specific enough that a developer knows exactly what file/component/element to change. Number all tasks sequentially across phases so they can be tracked as a single list. Reference screen names in **double asterisks**.",
 
+  "structuredTodos": [
+    { "text": "Change button label from 'Submit' to 'Save Changes' on **Screen Name**", "phase": "Phase 1: Quick Wins" },
+    { "text": "Add loading spinner to form submit action", "phase": "Phase 1: Quick Wins" },
+    { "text": "Add breadcrumb navigation bar on **Screen Name**", "phase": "Phase 2: Navigation & Flow" },
+    { "text": "Refactor settings panel into tabbed layout", "phase": "Phase 3: Structural Changes" }
+  ],
+
   "priority": "high|medium|low — based on severity of current friction, number of affected users, and implementation complexity"
 }
 
-Return ONLY valid JSON. Every screen name mentioned MUST be wrapped in **double asterisks**.`,
+IMPORTANT: The "structuredTodos" array MUST mirror the same tasks from "developerTodos" but as individual structured objects. Each todo must have a "text" describing a single, actionable task, and a "phase" grouping label. Include 6-15 specific, granular sub-tasks covering the full scope of work. Be exhaustive — break larger tasks into smaller checkable steps.
+
+Return ONLY valid JSON. Every screen name mentioned MUST be wrapped in **double asterisks**.{{toolContext}}`,
   },
 ];
 
@@ -155,10 +540,7 @@ export const seed = mutation({
     if (existing.length > 0) return;
 
     for (const template of DEFAULT_TEMPLATES) {
-      await ctx.db.insert("promptTemplates", {
-        ...template,
-        updatedAt: Date.now(),
-      });
+      await ctx.db.insert("promptTemplates", defaultTemplateRow(template));
     }
   },
 });
@@ -172,43 +554,68 @@ export const resetToDefaults = mutation({
     }
     // Re-seed
     for (const template of DEFAULT_TEMPLATES) {
-      await ctx.db.insert("promptTemplates", {
-        ...template,
-        updatedAt: Date.now(),
-      });
+      await ctx.db.insert("promptTemplates", defaultTemplateRow(template));
     }
   },
 });
 
+function defaultTemplateRow(template: (typeof DEFAULT_TEMPLATES)[number]) {
+  const { version, ...fields } = template;
+  return { ...fields, defaultVersion: version, updatedAt: Date.now() };
+}
+
+/**
+ * Hashes of the defaults shipped before templates were versioned. A stored
+ * prompt without a `defaultVersion` that hashes to one of these was never
+ * edited and can be upgraded; anything else is a user's prompt.
+ */
+const UNVERSIONED_DEFAULT_HASHES: Record<string, string[]> = {
+  chat_system: ["e6ee938c"],
+  summary_generate: ["2fdf1a46"],
+  report_gap_analysis: ["88aa4c51"],
+  walkthrough_system: ["69cd2695"],
+  improvement_generate: ["b367f35b"],
+};
+
+// FNV-1a; only used to recognise the unversioned defaults above
+function promptHash(prompt: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < prompt.length; i++) {
+    hash ^= prompt.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, "0");
+}
+
 /**
  * Auto-upgrade stale prompt templates.
- * Checks if the improvement_generate template is missing the new "content" field
- * format (v2) and upserts with the latest version if so.
+ * Inserts missing defaults and replaces stored prompts that are still an
+ * older built-in default. Prompts a user has edited are left alone.
  */
 export const ensureLatestTemplates = mutation({
   handler: async (ctx) => {
-    const improvementTemplate = await ctx.db
-      .query("promptTemplates")
-      .withIndex("by_key", (q) => q.eq("key", "improvement_generate"))
-      .first();
+    for (const latestTemplate of DEFAULT_TEMPLATES) {
+      const existing = await ctx.db
+        .query("promptTemplates")
+        .withIndex("by_key", (q) => q.eq("key", latestTemplate.key))
+        .first();
 
-    const latestTemplate = DEFAULT_TEMPLATES.find((t) => t.key === "improvement_generate");
-    if (!latestTemplate) return;
-
-    // If the template doesn't exist or is missing the new "content" field format, upsert it
-    if (!improvementTemplate || !improvementTemplate.prompt.includes('"content"')) {
-      if (improvementTemplate) {
-        await ctx.db.patch(improvementTemplate._id, {
-          label: latestTemplate.label,
-          prompt: latestTemplate.prompt,
-          updatedAt: Date.now(),
-        });
-      } else {
-        await ctx.db.insert("promptTemplates", {
-          ...latestTemplate,
-          updatedAt: Date.now(),
-        });
+      if (!existing) {
+        await ctx.db.insert("promptTemplates", defaultTemplateRow(latestTemplate));
+        continue;
       }
+
+      const isOlderDefault = existing.defaultVersion !== undefined
+        ? existing.defaultVersion < latestTemplate.version
+        : (UNVERSIONED_DEFAULT_HASHES[latestTemplate.key] || []).includes(promptHash(existing.prompt));
+      if (!isOlderDefault) continue;
+
+      await ctx.db.patch(existing._id, {
+        label: latestTemplate.label,
+        prompt: latestTemplate.prompt,
+        defaultVersion: latestTemplate.version,
+        updatedAt: Date.now(),
+      });
     }
   },
 });
@@ -0,0 +1,264 @@
+import type { Proposal } from "./aiSchemas";
+
+/**
+ * Turns AI chat proposals into concrete node/edge operations against a board.
+ *
+ * Pure and framework-free so the canvas preview (ghost overlays) and the
+ * mutations in versions.ts place proposed nodes in exactly the same spots.
+ */
+
+export interface PlanNode {
+  nodeId: string;
+  type: string;
+  position: { x: number; y: number };
+  data?: { label?: string; text?: string; [key: string]: unknown };
+  width?: number;
+}
+
+export interface PlanEdge {
+  edgeId: string;
+  source: string;
+  target: string;
+  label?: string;
+}
+
+export interface PlannedNode extends PlanNode {
+  proposalIndex: number;
+}
+
+export interface PlannedEdge {
+  proposalIndex: number;
+  edgeId: string;
+  source: string;
+  target: string;
+  label: string;
+  sourceHandle: string;
+  targetHandle: string;
+}
+
+export interface ProposalPlan {
+  addNodes: PlannedNode[];
+  addEdges: PlannedEdge[];
+  relabelEdges: { proposalIndex: number; edgeId: string; label: string }[];
+  removeNodes: { proposalIndex: number; nodeId: string }[];
+  removeEdges: { proposalIndex: number; edgeId: string }[];
+  // Proposals that reference nodes or edges not on the board
+  skipped: number[];
+}
+
+/** Pick the handle pair that best matches the spatial relationship. */
+export function calcHandles(
+  sourcePos: { x: number; y: number },
+  targetPos: { x: number; y: number },
+  sourceWidth?: number,
+  targetWidth?: number,
+): { sourceHandle: string; targetHandle: string } {
+  const sw = sourceWidth || 220;
+  const tw = targetWidth || 220;
+
+  // Use center points for more accurate direction
+  const cx = (targetPos.x + tw / 2) - (sourcePos.x + sw / 2);
+  const cy = targetPos.y - sourcePos.y;
+
+  const absCx = Math.abs(cx);
+  const absCy = Math.abs(cy);
+
+  // Determine dominant direction
+  if (absCy > absCx * 0.6) {
+    // Primarily vertical
+    if (cy > 0) {
+      return { sourceHandle: "bottom-source", targetHandle: "top-target" };
+    } else {
+      return { sourceHandle: "top-source", targetHandle: "bottom-target" };
+    }
+  } else {
+    // Primarily horizontal
+    if (cx > 0) {
+      return { sourceHandle: "right-source", targetHandle: "left-target" };
+    } else {
+      return { sourceHandle: "left-source", targetHandle: "right-target" };
+    }
+  }
+}
+
+/**
+ * Plan the given proposals against the board's current nodes and edges.
+ * `proposalIndexes` limits the plan to a subset (indexes into `proposals`).
+ */
+export function planProposals(
+  nodes: PlanNode[],
+  edges: PlanEdge[],
+  proposals: Proposal[],
+  options: { now?: number; proposalIndexes?: number[] } = {},
+): ProposalPlan {
+  const now = options.now ?? Date.now();
+  const include = options.proposalIndexes ? new Set(options.proposalIndexes) : null;
+  const boardNodes: PlanNode[] = [...nodes];
+  const plan: ProposalPlan = {
+    addNodes: [],
+    addEdges: [],
+    relabelEdges: [],
+    removeNodes: [],
+    removeEdges: [],
+    skipped: [],
+  };
+
+  // Helper: find node by ID or label
+  const resolveNodeId = (idOrLabel: string | undefined): string | null => {
+    if (!idOrLabel) return null;
+    const byId = boardNodes.find((n) => n.nodeId === idOrLabel);
+    if (byId) return byId.nodeId;
+    const byLabel = boardNodes.find(
+      (n) =>
+        n.data?.label?.toLowerCase() === idOrLabel.toLowerCase() ||
+        n.data?.text?.toLowerCase() === idOrLabel.toLowerCase()
+    );
+    return byLabel ? byLabel.nodeId : null;
+  };
+
+  // Track annotation offsets per nearNode to avoid stacking
+  const annotationOffsets = new Map<string, number>();
+  const pendingEdges: Omit<PlannedEdge, "sourceHandle" | "targetHandle">[] = [];
+  let addedNodeCount = 0;
+
+  proposals.forEach((proposal, proposalIndex) => {
+    if (include && !include.has(proposalIndex)) return;
+
+    if (proposal.action === "addNode") {
+      // Find the "afterNode" to position relative to it
+      let position = { x: 200 + addedNodeCount * 300, y: 400 };
+      const refNode = boardNodes.find((n) => n.nodeId === proposal.afterNode);
+      if (refNode) {
+        position = {
+          x: refNode.position.x,
+          y: refNode.position.y + 300,
+        };
+      }
+
+      const nodeId = `ai-${now}-${addedNodeCount}`;
+      const node: PlannedNode = {
+        proposalIndex,
+        nodeId,
+        type: "text",
+        position,
+        data: {
+          text: `[AI Proposed] ${proposal.label || "New Screen"}${proposal.platform ? ` (${proposal.platform})` : ""}`,
+          missingScreenshot: true,
+          platform: proposal.platform || "",
+        },
+      };
+      plan.addNodes.push(node);
+      // Track so later proposals can reference this node by its label
+      boardNodes.push({ ...node, data: { ...node.data, text: proposal.label } });
+
+      // Auto-connect from afterNode if specified
+      if (refNode) {
+        pendingEdges.push({
+          proposalIndex,
+          edgeId: `ai-edge-${now}-${addedNodeCount}`,
+          source: refNode.nodeId,
+          target: nodeId,
+          label: proposal.connectionLabel || "",
+        });
+      }
+
+      addedNodeCount++;
+    } else if (proposal.action === "addNote" || proposal.action === "addAttention" || proposal.action === "addImprovement") {
+      const nodeType =
+        proposal.action === "addAttention" ? "attention" :
+        proposal.action === "addImprovement" ? "improvement" :
+        "text";
+
+      // Position near the referenced node
+      let position = { x: 200 + addedNodeCount * 250, y: 600 };
+      const refNode = boardNodes.find((n) => n.nodeId === proposal.nearNode);
+      if (refNode) {
+        // Stack annotations to the right of the screen, offset vertically
+        const offsetCount = annotationOffsets.get(refNode.nodeId) || 0;
+        const refWidth = refNode.width || 220;
+        position = {
+          x: refNode.position.x + refWidth + 30,
+          y: refNode.position.y + offsetCount * 80,
+        };
+        annotationOffsets.set(refNode.nodeId, offsetCount + 1);
+      }
+
+      const nodeId = `ai-${nodeType}-${now}-${addedNodeCount}`;
+      const textContent = proposal.persona
+        ? `[${proposal.persona}] ${proposal.text || ""}`
+        : proposal.text || "";
+      const node: PlannedNode = {
+        proposalIndex,
+        nodeId,
+        type: nodeType,
+        position,
+        data: { text: textContent },
+        width: 250,
+      };
+      plan.addNodes.push(node);
+      boardNodes.push(node);
+
+      // Auto-connect annotation to the nearNode
+      if (refNode) {
+        pendingEdges.push({
+          proposalIndex,
+          edgeId: `ai-edge-${now}-${addedNodeCount}`,
+          source: refNode.nodeId,
+          target: nodeId,
+          label: "",
+        });
+      }
+
+      addedNodeCount++;
+    } else if (proposal.action === "addEdge") {
+      const sourceId = resolveNodeId(proposal.source);
+      const targetId = resolveNodeId(proposal.target);
+      if (sourceId && targetId) {
+        pendingEdges.push({
+          proposalIndex,
+          edgeId: `ai-edge-${now}-${proposalIndex}`,
+          source: sourceId,
+          target: targetId,
+          label: proposal.label || "",
+        });
+      } else {
+        plan.skipped.push(proposalIndex);
+      }
+    } else if (proposal.action === "relabelEdge") {
+      // Find edge by source + target
+      const edge = edges.find((e) => e.source === proposal.edgeSource && e.target === proposal.edgeTarget);
+      if (edge) {
+        plan.relabelEdges.push({ proposalIndex, edgeId: edge.edgeId, label: proposal.newLabel || "" });
+      } else {
+        plan.skipped.push(proposalIndex);
+      }
+    } else if (proposal.action === "removeNode") {
+      if (nodes.some((n) => n.nodeId === proposal.nodeId)) {
+        plan.removeNodes.push({ proposalIndex, nodeId: proposal.nodeId });
+      } else {
+        plan.skipped.push(proposalIndex);
+      }
+    } else if (proposal.action === "removeEdge") {
+      const edge = edges.find((e) => e.source === proposal.source && e.target === proposal.target);
+      if (edge) {
+        plan.removeEdges.push({ proposalIndex, edgeId: edge.edgeId });
+      } else {
+        plan.skipped.push(proposalIndex);
+      }
+    } else {
+      plan.skipped.push(proposalIndex);
+    }
+  });
+
+  // Calculate smart handles once every proposed node has a position
+  for (const pe of pendingEdges) {
+    const sourceNode = boardNodes.find((n) => n.nodeId === pe.source);
+    const targetNode = boardNodes.find((n) => n.nodeId === pe.target);
+    const handles = sourceNode && targetNode
+      ? calcHandles(sourceNode.position, targetNode.position, sourceNode.width, targetNode.width)
+      : { sourceHandle: "bottom-source", targetHandle: "top-target" };
+    plan.addEdges.push({ ...pe, ...handles });
+  }
+
+  return plan;
+}
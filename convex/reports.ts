@@ -1,5 +1,6 @@
 import { v } from "convex/values";
 import { mutation, query } from "./_generated/server";
+import { findingValidator, glossaryEntryValidator } from "./aiSchemas";
 
 export const getByBoard = query({
   args: { boardId: v.id("boards") },
@@ -25,13 +26,11 @@ export const create = mutation({
     title: v.string(),
     content: v.string(),
     summary: v.string(),
-    findings: v.array(v.object({
-      type: v.string(),
-      severity: v.string(),
-      description: v.string(),
-      affectedNodes: v.optional(v.array(v.string())),
-    })),
+    findings: v.array(findingValidator),
     personaId: v.optional(v.id("personas")),
+    sectionId: v.optional(v.string()),
+    validationIssues: v.optional(v.array(v.string())),
+    glossary: v.optional(v.array(glossaryEntryValidator)),
   },
   handler: async (ctx, args) => {
     return await ctx.db.insert("reports", {
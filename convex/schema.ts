@@ -1,5 +1,14 @@
 import { defineSchema, defineTable } from "convex/server";
 import { v } from "convex/values";
+import {
+  findingValidator,
+  glossaryEntryValidator,
+  jobArgsValidator,
+  jobStateValidator,
+  portfolioFindingValidator,
+  screenshotSuggestionValidator,
+} from "./aiSchemas";
+import { EMBEDDING_DIMENSIONS } from "./llm";
 
 export default defineSchema({
   boards: defineTable({
@@ -20,6 +29,8 @@ export default defineSchema({
     ownerName: v.optional(v.string()),
     // Tools association
     toolIds: v.optional(v.array(v.id("tools"))),
+    // When the semantic search index last caught up with this board
+    searchIndexedAt: v.optional(v.number()),
   }).index("by_owner", ["ownerId"])
     .index("by_root", ["rootBoardId"]),
 
@@ -51,6 +62,12 @@ export default defineSchema({
     createdAt: v.number(),
     folderId: v.optional(v.id("screenshotFolders")),
     size: v.optional(v.number()),
+    // Product tool the screen belongs to
+    toolId: v.optional(v.id("tools")),
+    // AI labelling run on upload: "pending" | "ready" | "failed"
+    aiSuggestionStatus: v.optional(v.string()),
+    aiSuggestion: v.optional(screenshotSuggestionValidator),
+    aiSuggestionError: v.optional(v.string()),
   }).index("by_uploader", ["uploadedBy"])
     .index("by_folder", ["folderId"]),
 
@@ -70,6 +87,10 @@ export default defineSchema({
     data: v.any(),
     width: v.optional(v.number()),
     height: v.optional(v.number()),
+    // Bumped on every data change, so stale writes can be detected (nodes.updateData)
+    revision: v.optional(v.number()),
+    // Section that owns this node (see sections.ts); position stays absolute
+    parentId: v.optional(v.string()),
   }).index("by_board", ["boardId"]),
 
   edges: defineTable({
@@ -120,6 +141,20 @@ export default defineSchema({
     content: v.string(),
     createdAt: v.number(),
     metadata: v.optional(v.any()),
+    // Assistant replies: "streaming" while tokens arrive, then "complete", "cancelled" or "error"
+    status: v.optional(v.string()),
+    // Conversation thread; undefined is the board's main thread
+    threadId: v.optional(v.string()),
+  }).index("by_board", ["boardId"]),
+
+  // Rolling summary of the older part of a chat thread, used as model memory
+  chatSummaries: defineTable({
+    boardId: v.id("boards"),
+    threadId: v.optional(v.string()),
+    summary: v.string(),
+    // createdAt of the newest message folded into the summary
+    coversUntil: v.number(),
+    updatedAt: v.number(),
   }).index("by_board", ["boardId"]),
 
   personaNodes: defineTable({
@@ -135,16 +170,115 @@ export default defineSchema({
     title: v.string(),
     content: v.string(),
     summary: v.string(),
-    findings: v.array(v.object({
-      type: v.string(),
-      severity: v.string(),
-      description: v.string(),
-      affectedNodes: v.optional(v.array(v.string())),
-    })),
+    findings: v.array(findingValidator),
     createdAt: v.number(),
     personaId: v.optional(v.id("personas")),
+    // Section node the report was limited to (see sections.ts)
+    sectionId: v.optional(v.string()),
+    // Problems found while validating the model's structured output
+    validationIssues: v.optional(v.array(v.string())),
+    // Terminology check reports: one row per concept and its wordings
+    glossary: v.optional(v.array(glossaryEntryValidator)),
   }).index("by_board", ["boardId"]),
 
+  // Cross-board analyses of several journeys together, not owned by any one board
+  portfolioReports: defineTable({
+    boardIds: v.array(v.id("boards")),
+    // Journey names at analysis time, so the report still reads after a board is deleted
+    boardNames: v.array(v.string()),
+    title: v.string(),
+    content: v.string(),
+    summary: v.string(),
+    findings: v.array(portfolioFindingValidator),
+    validationIssues: v.optional(v.array(v.string())),
+    createdByName: v.optional(v.string()),
+    createdAt: v.number(),
+  }),
+
+  // Long-running AI work (walkthroughs, reports, persona journeys, terminology checks, accessibility audits) run by scheduled actions
+  aiJobs: defineTable({
+    boardId: v.id("boards"),
+    // "walkthrough" | "report" | "persona_journey" | "terminology" | "accessibility"
+    kind: v.string(),
+    args: v.optional(jobArgsValidator),
+    // "queued" | "running" | "completed" | "failed" | "cancelled"
+    status: v.string(),
+    progress: v.object({ completed: v.number(), total: v.number() }),
+    message: v.optional(v.string()),
+    error: v.optional(v.string()),
+    // Runs started so far; steps carry theirs so stale ones can be ignored (aiJobs.ts)
+    attempts: v.number(),
+    // Work carried between chunks (e.g. walkthrough comments and findings so far)
+    state: v.optional(jobStateValidator),
+    result: v.optional(v.object({
+      reportId: v.optional(v.id("reports")),
+      commentsCreated: v.optional(v.number()),
+    })),
+    createdByName: v.optional(v.string()),
+    createdAt: v.number(),
+    updatedAt: v.number(),
+    finishedAt: v.optional(v.number()),
+    // Set once the finished job has been acknowledged on the board
+    dismissed: v.optional(v.boolean()),
+  }).index("by_board", ["boardId"]),
+
+  // One row per LLM call made by the AI actions
+  aiUsage: defineTable({
+    boardId: v.optional(v.id("boards")),
+    // Prompt template key of the feature that made the call
+    feature: v.string(),
+    provider: v.string(),
+    model: v.string(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    costUsd: v.number(),
+    latencyMs: v.number(),
+    // "success" | "error" | "cancelled" | "blocked"
+    outcome: v.string(),
+    error: v.optional(v.string()),
+    userName: v.optional(v.string()),
+    createdAt: v.number(),
+  }).index("by_created", ["createdAt"])
+    .index("by_board", ["boardId"]),
+
+  // Month-to-date spend per budget scope, kept by aiUsage.record so budget
+  // checks don't have to sum the ledger
+  aiUsageTotals: defineTable({
+    // UTC month, "YYYY-MM"
+    month: v.string(),
+    // "global" | "board" | "feature", as on aiBudgets
+    scope: v.string(),
+    // boardId or prompt template key; unset for global
+    scopeKey: v.optional(v.string()),
+    calls: v.number(),
+    costUsd: v.number(),
+  }).index("by_scope", ["month", "scope", "scopeKey"]),
+
+  // Call statistics per UTC day, board and feature, for the usage dashboard
+  aiUsageDaily: defineTable({
+    // "YYYY-MM-DD"
+    day: v.string(),
+    boardId: v.optional(v.id("boards")),
+    feature: v.string(),
+    calls: v.number(),
+    errors: v.number(),
+    costUsd: v.number(),
+    inputTokens: v.number(),
+    outputTokens: v.number(),
+    latencyMs: v.number(),
+  }).index("by_day", ["day", "boardId", "feature"]),
+
+  // Monthly spend limits; calls are refused once a matching budget is used up
+  aiBudgets: defineTable({
+    // "global" | "board" | "feature"
+    scope: v.string(),
+    // boardId or prompt template key; unset for global
+    scopeKey: v.optional(v.string()),
+    scopeLabel: v.optional(v.string()),
+    monthlyLimitUsd: v.number(),
+    updatedAt: v.number(),
+  }),
+
   improvements: defineTable({
     boardId: v.id("boards"),
     nodeId: v.string(),
@@ -171,10 +305,41 @@ export default defineSchema({
       changedBy: v.string(),
       changedByName: v.string(),
       changedAt: v.number(),
+      // e.g. which improvement a merged entry came from
+      note: v.optional(v.string()),
+    }))),
+    // Set when this improvement was merged into another; kept so IMP references still resolve
+    mergedIntoId: v.optional(v.id("improvements")),
+    // Improvements merged into this one
+    mergedFrom: v.optional(v.array(v.object({
+      improvementId: v.id("improvements"),
+      boardId: v.id("boards"),
+      number: v.number(),
+      title: v.string(),
+      mergedAt: v.number(),
     }))),
   }).index("by_board", ["boardId"])
     .index("by_status", ["status"]),
 
+  // Content of an improvement after each change, newest last
+  improvementRevisions: defineTable({
+    improvementId: v.id("improvements"),
+    boardId: v.id("boards"),
+    title: v.optional(v.string()),
+    content: v.optional(v.string()),
+    currentState: v.optional(v.string()),
+    proposedImprovement: v.optional(v.string()),
+    expectedImpact: v.optional(v.string()),
+    developerTodos: v.optional(v.string()),
+    priority: v.optional(v.string()),
+    // "manual" | "ai" | "clear" | "merge" | "restore"
+    source: v.string(),
+    note: v.optional(v.string()),
+    createdAt: v.number(),
+    authorName: v.optional(v.string()),
+  }).index("by_improvement", ["improvementId"])
+    .index("by_board", ["boardId"]),
+
   improvementTodos: defineTable({
     improvementId: v.id("improvements"),
     boardId: v.id("boards"),
@@ -208,6 +373,11 @@ export default defineSchema({
     label: v.string(),
     category: v.string(),
     prompt: v.string(),
+    // Optional LLM override for this template; falls back to AI_PROVIDER/AI_MODEL
+    provider: v.optional(v.string()),
+    model: v.optional(v.string()),
+    // Version of the built-in default this prompt still is; cleared once edited
+    defaultVersion: v.optional(v.number()),
     updatedAt: v.number(),
   }).index("by_key", ["key"]),
 
@@ -219,4 +389,43 @@ export default defineSchema({
     createdAt: v.number(),
     updatedAt: v.number(),
   }).index("by_slug", ["slug"]),
+
+  // Who has a board open: one row per browser tab, kept alive by heartbeats
+  presence: defineTable({
+    boardId: v.id("boards"),
+    sessionId: v.string(),
+    userId: v.string(),
+    name: v.string(),
+    imageUrl: v.optional(v.string()),
+    // Pointer position in canvas coordinates, unset while outside the canvas
+    cursor: v.optional(v.object({ x: v.number(), y: v.number() })),
+    selectedNodeIds: v.array(v.string()),
+    // Node whose text this session is editing; others can't edit it meanwhile
+    editingNodeId: v.optional(v.string()),
+    lastSeenAt: v.number(),
+  }).index("by_board", ["boardId"])
+    .index("by_session", ["sessionId"])
+    .index("by_last_seen", ["lastSeenAt"]),
+
+  // Semantic search index: one embedded document per piece of journey content
+  searchEmbeddings: defineTable({
+    boardId: v.id("boards"),
+    // "node" | "comment" | "improvement" | "report" | "chat"
+    sourceType: v.string(),
+    sourceId: v.string(),
+    // Node the hit opens on the canvas
+    nodeId: v.optional(v.string()),
+    title: v.string(),
+    text: v.string(),
+    contentHash: v.string(),
+    // Embedding model; vectors from another model are re-embedded
+    model: v.string(),
+    embedding: v.array(v.float64()),
+    updatedAt: v.number(),
+  }).index("by_board", ["boardId"])
+    .vectorIndex("by_embedding", {
+      vectorField: "embedding",
+      dimensions: EMBEDDING_DIMENSIONS,
+      filterFields: ["boardId", "sourceType"],
+    }),
 });
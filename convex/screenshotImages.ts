@@ -0,0 +1,110 @@
+"use node";
+
+import sharp from "sharp";
+import type { LLMPart } from "./llm";
+
+/**
+ * Loads screenshot node images as inline parts for vision-capable models.
+ *
+ * Images are fetched from storage, downscaled and re-encoded as JPEG so a
+ * whole board fits a fixed request budget. The more screens there are, the
+ * smaller each one gets; anything past the budget is described by text only.
+ */
+
+// Total pixel area shared by all images in one request
+const VISION_PIXEL_BUDGET = 6_000_000;
+// Encoded bytes across all images in one request
+const VISION_BYTE_BUDGET = 4_000_000;
+const VISION_MAX_IMAGES = 24;
+const IMAGE_MAX_SIDE = 1280;
+const IMAGE_MIN_SIDE = 384;
+const IMAGE_JPEG_QUALITY = 70;
+const IMAGE_FETCH_TIMEOUT_MS = 15_000;
+
+export interface ScreenshotImages {
+  parts: LLMPart[];
+  // nodeIds whose image was attached
+  included: string[];
+  // nodeIds left as text only (budget exceeded or image unavailable)
+  skipped: string[];
+}
+
+/** The fields of a screenshot node that images are loaded from. */
+export interface ScreenshotNode {
+  nodeId: string;
+  data?: { label?: string; imageUrl?: string };
+}
+
+/** Vision is on unless AI_VISION is set to "off". */
+export function visionEnabled(): boolean {
+  return (process.env.AI_VISION || "").toLowerCase() !== "off";
+}
+
+async function loadResized(url: string, maxSide: number): Promise<Buffer | null> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(IMAGE_FETCH_TIMEOUT_MS) });
+    if (!response.ok) return null;
+    const source = Buffer.from(await response.arrayBuffer());
+    return await sharp(source)
+      .rotate()
+      .resize({ width: maxSide, height: maxSide, fit: "inside", withoutEnlargement: true })
+      .flatten({ background: "#ffffff" })
+      .jpeg({ quality: IMAGE_JPEG_QUALITY })
+      .toBuffer();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Build interleaved label + image parts for the given screenshot nodes, in
+ * order. Each image is preceded by a text part naming the screen and its
+ * nodeId so the model can tie what it sees back to the board.
+ */
+export async function loadScreenshotImages(
+  screenshotNodes: ScreenshotNode[],
+  options: { maxImages?: number } = {},
+): Promise<ScreenshotImages> {
+  const result: ScreenshotImages = { parts: [], included: [], skipped: [] };
+  const withImages = screenshotNodes.flatMap((node) => node.data?.imageUrl ? [{ node, url: node.data.imageUrl }] : []);
+  result.skipped.push(...screenshotNodes.filter((n) => !n.data?.imageUrl).map((n) => n.nodeId));
+  if (!visionEnabled() || withImages.length === 0) {
+    result.skipped.push(...withImages.map(({ node }) => node.nodeId));
+    return result;
+  }
+
+  const candidates = withImages.slice(0, options.maxImages ?? VISION_MAX_IMAGES);
+  result.skipped.push(...withImages.slice(candidates.length).map(({ node }) => node.nodeId));
+
+  // Share the pixel budget evenly, within sensible bounds
+  const maxSide = Math.round(Math.max(
+    IMAGE_MIN_SIDE,
+    Math.min(IMAGE_MAX_SIDE, Math.sqrt(VISION_PIXEL_BUDGET / candidates.length)),
+  ));
+  const images = await Promise.all(candidates.map(({ url }) => loadResized(url, maxSide)));
+
+  let bytes = 0;
+  candidates.forEach(({ node }, i) => {
+    const image = images[i];
+    if (!image || bytes + image.length > VISION_BYTE_BUDGET) {
+      result.skipped.push(node.nodeId);
+      return;
+    }
+    bytes += image.length;
+    result.parts.push(
+      { text: `Screenshot of "${node.data?.label || node.nodeId}" (nodeId: ${node.nodeId}):` },
+      { inlineData: { mimeType: "image/jpeg", data: image.toString("base64") } },
+    );
+    result.included.push(node.nodeId);
+  });
+
+  return result;
+}
+
+/** One-line note for prompts about which screens are attached as images. */
+export function describeAttachedImages(images: ScreenshotImages): string {
+  if (images.included.length === 0) return "";
+  return images.skipped.length === 0
+    ? `Screenshot images of all ${images.included.length} screens are attached. Base your analysis on what is actually visible in them (button labels, layout, copy), not only on the screen names.`
+    : `Screenshot images of ${images.included.length} screens are attached; ${images.skipped.length} other screens are described by name only. Base your analysis on what is actually visible in the images (button labels, layout, copy).`;
+}
@@ -0,0 +1,139 @@
+import { v } from "convex/values";
+import { internalMutation, internalQuery, query } from "./_generated/server";
+
+/**
+ * Storage side of semantic search. Embedding and vector search happen in the
+ * actions in gemini.ts; these read board content and maintain the index.
+ */
+
+const entryValidator = v.object({
+  sourceType: v.string(),
+  sourceId: v.string(),
+  nodeId: v.optional(v.string()),
+  title: v.string(),
+  text: v.string(),
+  contentHash: v.string(),
+  model: v.string(),
+  embedding: v.array(v.float64()),
+});
+
+/** Everything on a board that collectSearchDocuments indexes. */
+export const getBoardContent = internalQuery({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const { boardId } = args;
+    return {
+      nodes: await ctx.db.query("nodes").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+      comments: await ctx.db.query("comments").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+      improvements: await ctx.db.query("improvements").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+      reports: await ctx.db.query("reports").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+      chatMessages: await ctx.db.query("chatMessages").withIndex("by_board", (q) => q.eq("boardId", boardId)).collect(),
+    };
+  },
+});
+
+export const getEntryHashes = internalQuery({
+  args: { boardId: v.id("boards") },
+  handler: async (ctx, args) => {
+    const entries = await ctx.db
+      .query("searchEmbeddings")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    return entries.map((e) => ({ _id: e._id, sourceId: e.sourceId, contentHash: e.contentHash, model: e.model }));
+  },
+});
+
+/**
+ * Write a batch of one board's index changes. The last batch passes
+ * `indexedAt` to mark the board as caught up.
+ */
+export const saveEntries = internalMutation({
+  args: {
+    boardId: v.id("boards"),
+    upserts: v.array(entryValidator),
+    removeIds: v.array(v.id("searchEmbeddings")),
+    indexedAt: v.optional(v.number()),
+  },
+  handler: async (ctx, args) => {
+    for (const id of args.removeIds) {
+      if (await ctx.db.get(id)) await ctx.db.delete(id);
+    }
+    const existing = await ctx.db
+      .query("searchEmbeddings")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const bySource = new Map(existing.map((e) => [e.sourceId, e]));
+    for (const entry of args.upserts) {
+      const current = bySource.get(entry.sourceId);
+      if (current) {
+        await ctx.db.replace(current._id, { boardId: args.boardId, ...entry, updatedAt: Date.now() });
+      } else {
+        await ctx.db.insert("searchEmbeddings", { boardId: args.boardId, ...entry, updatedAt: Date.now() });
+      }
+    }
+    // Deliberately not touching updatedAt, which is what marks a board stale
+    if (args.indexedAt !== undefined && await ctx.db.get(args.boardId)) {
+      await ctx.db.patch(args.boardId, { searchIndexedAt: args.indexedAt });
+    }
+  },
+});
+
+/**
+ * Active boards whose content changed since they were last indexed. Comments
+ * and chat don't all bump updatedAt, so the periodic refresh passes `all`.
+ */
+export const listBoardsToIndex = internalQuery({
+  args: { all: v.optional(v.boolean()) },
+  handler: async (ctx, args) => {
+    const boards = await ctx.db.query("boards").collect();
+    return boards
+      .filter((b) => !b.archived && (args.all || (b.searchIndexedAt ?? 0) < b.updatedAt))
+      .sort((a, b) => b.updatedAt - a.updatedAt)
+      .map((b) => b._id);
+  },
+});
+
+/** Load vector search results with their board, dropping archived boards. */
+export const getHits = internalQuery({
+  args: { results: v.array(v.object({ _id: v.id("searchEmbeddings"), _score: v.number() })) },
+  handler: async (ctx, args) => {
+    const boardNames = new Map<string, string | null>();
+    const hits = [];
+    for (const result of args.results) {
+      const entry = await ctx.db.get(result._id);
+      if (!entry) continue;
+      if (!boardNames.has(entry.boardId)) {
+        const board = await ctx.db.get(entry.boardId);
+        boardNames.set(entry.boardId, board && !board.archived ? board.name : null);
+      }
+      const boardName = boardNames.get(entry.boardId);
+      if (!boardName) continue;
+      hits.push({
+        boardId: entry.boardId,
+        boardName,
+        sourceType: entry.sourceType,
+        nodeId: entry.nodeId,
+        title: entry.title,
+        text: entry.text,
+        model: entry.model,
+        score: result._score,
+      });
+    }
+    return hits;
+  },
+});
+
+/** How much of the workspace the index covers, for the search bar. */
+export const getIndexStatus = query({
+  args: {},
+  handler: async (ctx) => {
+    const boards = (await ctx.db.query("boards").collect()).filter((b) => !b.archived);
+    const indexed = boards.filter((b) => b.searchIndexedAt !== undefined);
+    return {
+      boards: boards.length,
+      indexed: indexed.length,
+      stale: boards.filter((b) => (b.searchIndexedAt ?? 0) < b.updatedAt).length,
+      lastIndexedAt: indexed.length > 0 ? Math.max(...indexed.map((b) => b.searchIndexedAt!)) : null,
+    };
+  },
+});
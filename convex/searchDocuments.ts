@@ -0,0 +1,119 @@
+/**
+ * What the semantic search index holds for a board: one document per piece of
+ * journey content, each pointing at the node it should open. Each document's
+ * content hash is stored with its embedding, so a refresh only re-embeds
+ * documents whose text changed.
+ */
+
+export type SearchSourceType = "node" | "comment" | "improvement" | "report" | "chat";
+
+export interface SearchDocument {
+  sourceType: SearchSourceType;
+  // Stable id of the indexed thing; reports have one document per finding
+  sourceId: string;
+  // Node to focus when the hit is opened
+  nodeId?: string;
+  title: string;
+  text: string;
+}
+
+// Longer texts are cut before embedding; the start carries most of the meaning
+const MAX_TEXT_LENGTH = 2000;
+// Chat replies shorter than this are acknowledgements rather than content
+const MIN_CHAT_LENGTH = 40;
+
+const clip = (text: string) => text.replace(/\s+/g, " ").trim().slice(0, MAX_TEXT_LENGTH);
+
+/** Collect the searchable documents of one board. */
+export function collectSearchDocuments(content: {
+  nodes: { nodeId: string; type: string; data?: { label?: string; text?: string; platform?: string; description?: string } }[];
+  comments: { _id: string; nodeId?: string; authorName: string; text: string }[];
+  improvements: { _id: string; nodeId: string; number: number; title: string; content?: string; currentState?: string; proposedImprovement?: string; mergedIntoId?: string }[];
+  reports: { _id: string; title: string; summary: string; findings: { type: string; description: string; affectedNodes?: string[] }[] }[];
+  chatMessages: { _id: string; role: string; content: string; status?: string }[];
+}): SearchDocument[] {
+  const docs: SearchDocument[] = [];
+  const labelOf = new Map(content.nodes.map((n) => [n.nodeId, n.data?.label || n.data?.text || ""]));
+
+  for (const n of content.nodes) {
+    if (n.type === "screenshot" && n.data?.label) {
+      docs.push({
+        sourceType: "node",
+        sourceId: n.nodeId,
+        nodeId: n.nodeId,
+        title: n.data.label,
+        text: clip([n.data.label, n.data.platform, n.data.description].filter(Boolean).join(" — ")),
+      });
+    } else if (n.type === "text" || n.type === "attention" || n.type === "section") {
+      const text = n.data?.text || n.data?.label;
+      if (!text) continue;
+      docs.push({ sourceType: "node", sourceId: n.nodeId, nodeId: n.nodeId, title: text.slice(0, 80), text: clip(text) });
+    }
+  }
+
+  for (const c of content.comments) {
+    if (!c.text.trim()) continue;
+    const on = c.nodeId ? labelOf.get(c.nodeId) : "";
+    docs.push({
+      sourceType: "comment",
+      sourceId: c._id,
+      nodeId: c.nodeId,
+      title: `${c.authorName}${on ? ` on ${on}` : ""}`,
+      text: clip(c.text),
+    });
+  }
+
+  for (const imp of content.improvements) {
+    if (imp.mergedIntoId) continue;
+    docs.push({
+      sourceType: "improvement",
+      sourceId: imp._id,
+      nodeId: imp.nodeId,
+      title: `IMP-${String(imp.number).padStart(3, "0")}: ${imp.title}`,
+      text: clip([imp.title, imp.content || [imp.currentState, imp.proposedImprovement].filter(Boolean).join("\n")].join("\n")),
+    });
+  }
+
+  for (const r of content.reports) {
+    docs.push({ sourceType: "report", sourceId: r._id, title: r.title, text: clip(`${r.title}\n${r.summary}`) });
+    r.findings.forEach((f, i) => {
+      docs.push({
+        sourceType: "report",
+        sourceId: `${r._id}#${i}`,
+        nodeId: f.affectedNodes?.[0],
+        title: `${r.title} · ${f.type}`,
+        text: clip(f.description),
+      });
+    });
+  }
+
+  for (const m of content.chatMessages) {
+    if (m.status === "streaming" || m.status === "error" || m.content.trim().length < MIN_CHAT_LENGTH) continue;
+    docs.push({
+      sourceType: "chat",
+      sourceId: m._id,
+      title: m.role === "user" ? "Chat question" : "AI chat answer",
+      text: clip(m.content),
+    });
+  }
+
+  return docs;
+}
+
+/** Cheap content fingerprint (FNV-1a) to skip re-embedding unchanged documents. */
+export function contentHash(doc: SearchDocument): string {
+  const input = `${doc.title}\n${doc.text}\n${doc.nodeId ?? ""}`;
+  let hash = 2166136261;
+  for (let i = 0; i < input.length; i++) hash = Math.imul(hash ^ input.charCodeAt(i), 16777619);
+  return `${(hash >>> 0).toString(16)}:${input.length}`;
+}
+
+/** The part of a document around the first query word it contains, for result lists. */
+export function searchSnippet(text: string, query: string, length = 180): string {
+  const words = query.toLowerCase().split(/[^a-z0-9]+/).filter((w) => w.length > 2);
+  const lower = text.toLowerCase();
+  const at = words.map((w) => lower.indexOf(w)).filter((i) => i >= 0).sort((a, b) => a - b)[0] ?? 0;
+  const start = Math.max(0, at - Math.floor(length / 3));
+  const snippet = text.slice(start, start + length);
+  return `${start > 0 ? "…" : ""}${snippet}${start + length < text.length ? "…" : ""}`;
+}
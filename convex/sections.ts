@@ -0,0 +1,96 @@
+/**
+ * Section membership: a section owns the nodes whose `parentId` points at it,
+ * and they move, collapse and get analyzed with it. Positions are stored
+ * absolute; only the canvas converts children to React Flow's
+ * parent-relative positions. The canvas, auto-layout and the AI actions all
+ * go through these helpers to decide what a section contains.
+ */
+
+export interface SectionGeometryNode {
+  nodeId: string;
+  type: string;
+  position: { x: number; y: number };
+  width?: number;
+  height?: number;
+  parentId?: string | null;
+  data?: { label?: string; collapsed?: boolean };
+}
+
+export const DEFAULT_SECTION_WIDTH = 800;
+export const DEFAULT_SECTION_HEIGHT = 400;
+// Size of a collapsed section's summary card
+export const COLLAPSED_SECTION_WIDTH = 260;
+export const COLLAPSED_SECTION_HEIGHT = 88;
+// Used for nodes whose rendered size isn't known, e.g. on the server
+const DEFAULT_NODE_WIDTH = 220;
+const DEFAULT_NODE_HEIGHT = 120;
+
+function sectionArea(section: SectionGeometryNode): number {
+  return (section.width || DEFAULT_SECTION_WIDTH) * (section.height || DEFAULT_SECTION_HEIGHT);
+}
+
+/**
+ * The section a node dropped at this spot belongs to: the smallest expanded
+ * section containing the node's center. Sections don't nest, so a section
+ * never gets a parent. `size` is the rendered size when the caller knows it.
+ */
+export function findParentSection(
+  node: SectionGeometryNode,
+  sections: SectionGeometryNode[],
+  size?: { width: number; height: number },
+): string | undefined {
+  if (node.type === "section") return undefined;
+  const cx = node.position.x + (size?.width ?? node.width ?? DEFAULT_NODE_WIDTH) / 2;
+  const cy = node.position.y + (size?.height ?? node.height ?? DEFAULT_NODE_HEIGHT) / 2;
+  return sections
+    .filter((s) => s.type === "section" && s.nodeId !== node.nodeId && !s.data?.collapsed)
+    .filter((s) => {
+      const width = s.width || DEFAULT_SECTION_WIDTH;
+      const height = s.height || DEFAULT_SECTION_HEIGHT;
+      return cx >= s.position.x && cx <= s.position.x + width && cy >= s.position.y && cy <= s.position.y + height;
+    })
+    .sort((a, b) => sectionArea(a) - sectionArea(b))[0]?.nodeId;
+}
+
+/** Nodes owned by a section. Dangling parentIds (section deleted) count as no parent. */
+export function sectionMembers<T extends SectionGeometryNode>(nodes: T[], sectionId: string): T[] {
+  return nodes.filter((n) => n.parentId === sectionId);
+}
+
+/**
+ * A section as the scope of an AI action or report: its member nodes and the
+ * edges between them. Returns null when the section doesn't exist.
+ */
+export function sectionScope<N extends SectionGeometryNode, E extends { source: string; target: string }>(
+  nodes: N[],
+  edges: E[],
+  sectionId: string,
+): { section: N; nodes: N[]; edges: E[] } | null {
+  const section = nodes.find((n) => n.nodeId === sectionId && n.type === "section");
+  if (!section) return null;
+  const members = sectionMembers(nodes, sectionId);
+  const ids = new Set(members.map((n) => n.nodeId));
+  return {
+    section,
+    nodes: members,
+    edges: edges.filter((e) => ids.has(e.source) && ids.has(e.target)),
+  };
+}
+
+/** "3 screens, 1 improvement" style summary of a section's members for its collapsed card. */
+export function summarizeMembers(members: SectionGeometryNode[]): string {
+  const counts = new Map<string, number>();
+  for (const n of members) counts.set(n.type, (counts.get(n.type) || 0) + 1);
+  const names: Record<string, [string, string]> = {
+    screenshot: ["screen", "screens"],
+    improvement: ["improvement", "improvements"],
+    attention: ["attention flag", "attention flags"],
+    text: ["note", "notes"],
+    divider: ["divider", "dividers"],
+  };
+  const parts = Array.from(counts.entries()).map(([type, count]) => {
+    const [one, many] = names[type] || [type, `${type}s`];
+    return `${count} ${count === 1 ? one : many}`;
+  });
+  return parts.length > 0 ? parts.join(", ") : "Empty";
+}
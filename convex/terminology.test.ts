@@ -0,0 +1,62 @@
+import { describe, expect, test } from "vitest";
+import { cleanGlossary, glossaryFindings, type GlossaryEntry } from "./terminology";
+
+const labels: Record<string, string> = { signup: "Sign up", settings: "Settings", profile: "Profile" };
+const labelOf = (nodeId: string) => labels[nodeId] ?? nodeId;
+
+const entry = (concept: string, variants: GlossaryEntry["variants"]): GlossaryEntry => ({
+  concept,
+  preferredTerm: variants[0]?.term ?? concept,
+  variants,
+  severity: "medium",
+  recommendation: "Pick one term.",
+});
+
+describe("cleanGlossary", () => {
+  test("drops unknown node references and reports them", () => {
+    const { glossary, issues } = cleanGlossary([
+      entry("Account", [
+        { term: "Account", nodeIds: ["signup", "ghost", "signup"] },
+        { term: "Profile", nodeIds: ["profile"] },
+      ]),
+    ], new Set(["signup", "profile"]));
+
+    expect(glossary[0].variants).toEqual([
+      { term: "Account", nodeIds: ["signup"] },
+      { term: "Profile", nodeIds: ["profile"] },
+    ]);
+    expect(issues).toEqual(['"Account": removed unknown node reference "ghost"']);
+  });
+
+  test("discards entries with no variants left on known screens", () => {
+    const { glossary, issues } = cleanGlossary([
+      entry("Billing", [{ term: "Billing", nodeIds: ["ghost"] }, { term: " ", nodeIds: ["signup"] }]),
+    ], new Set(["signup"]));
+
+    expect(glossary).toEqual([]);
+    expect(issues).toContain('"Billing" discarded: no variants on known screens');
+  });
+});
+
+describe("glossaryFindings", () => {
+  test("reports only concepts worded more than one way", () => {
+    const findings = glossaryFindings([
+      entry("Sign-in", [
+        { term: "Log in", nodeIds: ["signup"] },
+        { term: "Sign in", nodeIds: ["settings", "signup"] },
+      ]),
+      // Same wording apart from case and spacing
+      entry("Settings", [
+        { term: "Settings", nodeIds: ["settings"] },
+        { term: " settings", nodeIds: ["profile"] },
+      ]),
+    ], labelOf);
+
+    expect(findings).toEqual([{
+      type: "terminology",
+      severity: "medium",
+      description: 'Sign-in: "Log in" on Sign up; "Sign in" on Settings, Sign up. Use "Log in". Pick one term.',
+      affectedNodes: ["signup", "settings"],
+    }]);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Terminology consistency check: the text inventory sent to the model and the
+ * conversion of its glossary into report findings. The model only sees text
+ * outside the screenshots here (screen names, connection labels, notes); it
+ * reads the screenshots themselves from the attached images when vision is on.
+ */
+
+export interface TermSource {
+  nodeId: string;
+  // "screen" | "edge" | "annotation"
+  kind: string;
+  text: string;
+  platform?: string;
+}
+
+export interface GlossaryVariant {
+  term: string;
+  nodeIds: string[];
+  platforms?: string[];
+}
+
+export interface GlossaryEntry {
+  concept: string;
+  preferredTerm: string;
+  variants: GlossaryVariant[];
+  severity: string;
+  recommendation: string;
+}
+
+/**
+ * Every piece of visible text on the board outside the screenshots
+ * themselves: screen labels, edge labels and annotation text. Edge labels are
+ * attributed to the edge's source node.
+ */
+export function collectTermSources(
+  nodes: { nodeId: string; type: string; data?: { label?: string; text?: string; platform?: string } }[],
+  edges: { source: string; target: string; label?: string }[],
+): TermSource[] {
+  const sources: TermSource[] = [];
+  for (const n of nodes) {
+    if (n.type === "screenshot" && n.data?.label) {
+      sources.push({ nodeId: n.nodeId, kind: "screen", text: n.data.label, platform: n.data?.platform || undefined });
+    } else if ((n.type === "text" || n.type === "attention") && n.data?.text) {
+      sources.push({ nodeId: n.nodeId, kind: "annotation", text: String(n.data.text).slice(0, 300) });
+    }
+  }
+  const platformOf = new Map(nodes.map((n) => [n.nodeId, n.data?.platform]));
+  for (const e of edges) {
+    if (!e.label?.trim()) continue;
+    sources.push({ nodeId: e.source, kind: "edge", text: e.label, platform: platformOf.get(e.source) || undefined });
+  }
+  return sources;
+}
+
+/**
+ * Drop glossary variants that point at no known node, and entries left with
+ * nothing to compare. Returns the cleaned glossary plus what was removed.
+ */
+export function cleanGlossary(
+  glossary: GlossaryEntry[],
+  nodeIds: Set<string>,
+): { glossary: GlossaryEntry[]; issues: string[] } {
+  const issues: string[] = [];
+  const cleaned: GlossaryEntry[] = [];
+  for (const entry of glossary) {
+    const variants = entry.variants
+      .map((variant) => ({ ...variant, nodeIds: Array.from(new Set(variant.nodeIds.filter((id) => nodeIds.has(id)))) }))
+      .filter((variant) => variant.term.trim() && variant.nodeIds.length > 0);
+    const unknown = entry.variants.flatMap((variant) => variant.nodeIds).filter((id) => !nodeIds.has(id));
+    if (unknown.length > 0) {
+      issues.push(`"${entry.concept}": removed unknown node reference${unknown.length > 1 ? "s" : ""} ${unknown.map((id) => `"${id}"`).join(", ")}`);
+    }
+    if (variants.length === 0) {
+      issues.push(`"${entry.concept}" discarded: no variants on known screens`);
+      continue;
+    }
+    cleaned.push({ ...entry, variants });
+  }
+  return { glossary: cleaned, issues };
+}
+
+// Distinct spellings of a concept, ignoring case and surrounding whitespace
+function distinctTerms(entry: GlossaryEntry): string[] {
+  const seen = new Map<string, string>();
+  for (const variant of entry.variants) {
+    const key = variant.term.trim().toLowerCase();
+    if (!seen.has(key)) seen.set(key, variant.term.trim());
+  }
+  return Array.from(seen.values());
+}
+
+/** One `terminology` finding per concept that is worded more than one way. */
+export function glossaryFindings(
+  glossary: GlossaryEntry[],
+  labelOf: (nodeId: string) => string,
+): { type: string; severity: string; description: string; affectedNodes: string[] }[] {
+  return glossary
+    .filter((entry) => distinctTerms(entry).length > 1)
+    .map((entry) => {
+      const usage = entry.variants
+        .map((variant) => `"${variant.term}" on ${variant.nodeIds.map(labelOf).join(", ")}`)
+        .join("; ");
+      return {
+        type: "terminology",
+        severity: entry.severity,
+        description: `${entry.concept}: ${usage}. Use "${entry.preferredTerm}". ${entry.recommendation}`.trim(),
+        affectedNodes: Array.from(new Set(entry.variants.flatMap((variant) => variant.nodeIds))),
+      };
+    });
+}
+
+/** Markdown glossary table for the report content. */
+export function glossaryTable(glossary: GlossaryEntry[], labelOf: (nodeId: string) => string): string {
+  const cell = (text: string) => text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+  const rows = glossary.map((entry) => {
+    const variants = entry.variants
+      .map((variant) => `${variant.term} (${variant.nodeIds.map(labelOf).join(", ")}${variant.platforms?.length ? `; ${variant.platforms.join(", ")}` : ""})`)
+      .join("<br>");
+    return `| ${cell(entry.concept)} | ${cell(entry.preferredTerm)} | ${cell(variants)} | ${cell(entry.recommendation)} |`;
+  });
+  return ["| Concept | Preferred term | Variants (where used) | Recommendation |", "| --- | --- | --- | --- |", ...rows].join("\n");
+}
@@ -1,5 +1,7 @@
 import { v } from "convex/values";
-import { mutation, query } from "./_generated/server";
+import { mutation, query, type MutationCtx } from "./_generated/server";
+import type { Doc, Id } from "./_generated/dataModel";
+import { calcHandles, planProposals, type ProposalPlan } from "./proposalPlan";
 
 export const getVersionHistory = query({
   args: { boardId: v.id("boards") },
@@ -230,6 +232,8 @@ export const applyProposals = mutation({
   args: {
     sourceBoardId: v.id("boards"),
     proposals: v.array(v.any()),
+    // Apply only these proposals (indexes into `proposals`); defaults to all
+    proposalIndexes: v.optional(v.array(v.number())),
     versionNote: v.optional(v.string()),
   },
   handler: async (ctx, args) => {
@@ -349,7 +353,6 @@ export const applyProposals = mutation({
     }
 
     // Step 2: Apply proposals to the NEW board
-    // Re-fetch the cloned nodes/edges so we can reference them
     const clonedNodes = await ctx.db
       .query("nodes")
       .withIndex("by_board", (q) => q.eq("boardId", newBoardId))
@@ -358,255 +361,15 @@ export const applyProposals = mutation({
       .query("edges")
       .withIndex("by_board", (q) => q.eq("boardId", newBoardId))
       .collect();
-
-    // Helper: calculate optimal handle pair based on spatial relationship
-    function calcHandles(
-      sourcePos: { x: number; y: number },
-      targetPos: { x: number; y: number },
-      sourceWidth?: number,
-      targetWidth?: number,
-    ): { sourceHandle: string; targetHandle: string } {
-      const dx = targetPos.x - sourcePos.x;
-      const dy = targetPos.y - sourcePos.y;
-      const sw = sourceWidth || 220;
-      const tw = targetWidth || 220;
-
-      // Use center points for more accurate direction
-      const cx = (targetPos.x + tw / 2) - (sourcePos.x + sw / 2);
-      const cy = targetPos.y - sourcePos.y;
-
-      const absCx = Math.abs(cx);
-      const absCy = Math.abs(cy);
-
-      // Determine dominant direction
-      if (absCy > absCx * 0.6) {
-        // Primarily vertical
-        if (cy > 0) {
-          return { sourceHandle: "bottom-source", targetHandle: "top-target" };
-        } else {
-          return { sourceHandle: "top-source", targetHandle: "bottom-target" };
-        }
-      } else {
-        // Primarily horizontal
-        if (cx > 0) {
-          return { sourceHandle: "right-source", targetHandle: "left-target" };
-        } else {
-          return { sourceHandle: "left-source", targetHandle: "right-target" };
-        }
-      }
-    }
-
-    // Helper: find node by ID or label
-    function resolveNodeId(idOrLabel: string): string | null {
-      const byId = clonedNodes.find((n) => n.nodeId === idOrLabel);
-      if (byId) return byId.nodeId;
-      const byLabel = clonedNodes.find(
-        (n) =>
-          n.data?.label?.toLowerCase() === idOrLabel.toLowerCase() ||
-          n.data?.text?.toLowerCase() === idOrLabel.toLowerCase()
-      );
-      return byLabel ? byLabel.nodeId : null;
-    }
-
-    // Track annotation offsets per nearNode to avoid stacking
-    const annotationOffsets = new Map<string, number>();
-
-    let addedNodeCount = 0;
-    // Track edges we create so we can set handles after all nodes exist
-    const pendingEdges: Array<{
-      edgeId: string;
-      source: string;
-      target: string;
-      label: string;
-      dbId: any;
-    }> = [];
-
-    for (const proposal of args.proposals) {
-      if (proposal.action === "addNode") {
-        // Find the "afterNode" to position relative to it
-        let position = { x: 200 + addedNodeCount * 300, y: 400 };
-        if (proposal.afterNode) {
-          const refNode = clonedNodes.find((n) => n.nodeId === proposal.afterNode);
-          if (refNode) {
-            position = {
-              x: refNode.position.x,
-              y: refNode.position.y + 300,
-            };
-          }
-        }
-
-        const nodeId = `ai-${Date.now()}-${addedNodeCount}`;
-        const missingScreenshot = true;
-        await ctx.db.insert("nodes", {
-          boardId: newBoardId,
-          nodeId,
-          type: "text",
-          position,
-          data: {
-            text: `[AI Proposed] ${proposal.label || "New Screen"}${proposal.platform ? ` (${proposal.platform})` : ""}`,
-            missingScreenshot,
-            platform: proposal.platform || "",
-          },
-        });
-
-        // Track so later proposals can reference this node
-        clonedNodes.push({
-          _id: "" as any,
-          _creationTime: 0,
-          boardId: newBoardId,
-          nodeId,
-          type: "text",
-          position,
-          data: { text: proposal.label, missingScreenshot, platform: proposal.platform },
-          width: undefined,
-          height: undefined,
-        });
-
-        // Auto-connect from afterNode if specified
-        if (proposal.afterNode) {
-          const edgeId = `ai-edge-${Date.now()}-${addedNodeCount}`;
-          const dbId = await ctx.db.insert("edges", {
-            boardId: newBoardId,
-            edgeId,
-            source: proposal.afterNode,
-            target: nodeId,
-            label: proposal.connectionLabel || "",
-            type: "labeled",
-          });
-          pendingEdges.push({ edgeId, source: proposal.afterNode, target: nodeId, label: proposal.connectionLabel || "", dbId });
-        }
-
-        addedNodeCount++;
-
-      } else if (proposal.action === "addNote" || proposal.action === "addAttention" || proposal.action === "addImprovement") {
-        // New annotation node types
-        const nodeType =
-          proposal.action === "addAttention" ? "attention" :
-          proposal.action === "addImprovement" ? "improvement" :
-          "text";
-
-        // Position near the referenced node
-        let position = { x: 200 + addedNodeCount * 250, y: 600 };
-        if (proposal.nearNode) {
-          const refNode = clonedNodes.find((n) => n.nodeId === proposal.nearNode);
-          if (refNode) {
-            // Stack annotations to the right of the screen, offset vertically
-            const offsetCount = annotationOffsets.get(proposal.nearNode) || 0;
-            const refWidth = refNode.width || 220;
-            position = {
-              x: refNode.position.x + refWidth + 30,
-              y: refNode.position.y + offsetCount * 80,
-            };
-            annotationOffsets.set(proposal.nearNode, offsetCount + 1);
-          }
-        }
-
-        const nodeId = `ai-${nodeType}-${Date.now()}-${addedNodeCount}`;
-        const textContent = proposal.persona
-          ? `[${proposal.persona}] ${proposal.text || ""}`
-          : proposal.text || "";
-
-        await ctx.db.insert("nodes", {
-          boardId: newBoardId,
-          nodeId,
-          type: nodeType,
-          position,
-          data: { text: textContent },
-          width: 250,
-        });
-
-        clonedNodes.push({
-          _id: "" as any,
-          _creationTime: 0,
-          boardId: newBoardId,
-          nodeId,
-          type: nodeType,
-          position,
-          data: { text: textContent },
-          width: 250,
-          height: undefined,
-        });
-
-        // Auto-connect annotation to the nearNode
-        if (proposal.nearNode) {
-          const edgeId = `ai-edge-${Date.now()}-${addedNodeCount}`;
-          const dbId = await ctx.db.insert("edges", {
-            boardId: newBoardId,
-            edgeId,
-            source: proposal.nearNode,
-            target: nodeId,
-            label: "",
-            type: "labeled",
-          });
-          pendingEdges.push({ edgeId, source: proposal.nearNode, target: nodeId, label: "", dbId });
-        }
-
-        addedNodeCount++;
-
-      } else if (proposal.action === "addEdge") {
-        let sourceId = resolveNodeId(proposal.source);
-        let targetId = resolveNodeId(proposal.target);
-
-        if (sourceId && targetId) {
-          const edgeId = `ai-edge-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
-          const dbId = await ctx.db.insert("edges", {
-            boardId: newBoardId,
-            edgeId,
-            source: sourceId,
-            target: targetId,
-            label: proposal.label || "",
-            type: "labeled",
-          });
-          pendingEdges.push({ edgeId, source: sourceId, target: targetId, label: proposal.label || "", dbId });
-        }
-      } else if (proposal.action === "relabelEdge") {
-        // Find edge by source + target
-        const edge = clonedEdges.find(
-          (e) => e.source === proposal.edgeSource && e.target === proposal.edgeTarget
-        );
-        if (edge) {
-          await ctx.db.patch(edge._id, { label: proposal.newLabel || "" });
-        }
-      } else if (proposal.action === "removeNode") {
-        const node = clonedNodes.find((n) => n.nodeId === proposal.nodeId);
-        if (node && node._id) {
-          await ctx.db.delete(node._id);
-          // Delete connected edges
-          for (const e of clonedEdges) {
-            if (e.source === proposal.nodeId || e.target === proposal.nodeId) {
-              await ctx.db.delete(e._id);
-            }
-          }
-        }
-      } else if (proposal.action === "removeEdge") {
-        const edge = clonedEdges.find(
-          (e) => e.source === proposal.source && e.target === proposal.target
-        );
-        if (edge) {
-          await ctx.db.delete(edge._id);
-        }
-      }
-    }
-
-    // Step 3: Calculate smart handles for ALL AI-created edges
-    for (const pe of pendingEdges) {
-      const sourceNode = clonedNodes.find((n) => n.nodeId === pe.source);
-      const targetNode = clonedNodes.find((n) => n.nodeId === pe.target);
-      if (sourceNode && targetNode) {
-        const handles = calcHandles(
-          sourceNode.position,
-          targetNode.position,
-          sourceNode.width ?? undefined,
-          targetNode.width ?? undefined,
-        );
-        await ctx.db.patch(pe.dbId, {
-          sourceHandle: handles.sourceHandle,
-          targetHandle: handles.targetHandle,
-        });
-      }
-    }
-
-    // Step 4: Fix handles on existing cloned edges that had no handles set
+    const plan = planProposals(
+      clonedNodes.map(toPlanNode),
+      clonedEdges,
+      args.proposals,
+      { proposalIndexes: args.proposalIndexes },
+    );
+    await applyPlan(ctx, newBoardId, plan);
+
+    // Step 3: Fix handles on existing cloned edges that had no handles set
     const allEdges = await ctx.db
       .query("edges")
       .withIndex("by_board", (q) => q.eq("boardId", newBoardId))
@@ -635,3 +398,195 @@ export const applyProposals = mutation({
     return newBoardId;
   },
 });
+
+/**
+ * Apply proposals directly to the current board instead of cloning it.
+ * Returns an undo record for revertProposals.
+ */
+export const applyProposalsInPlace = mutation({
+  args: {
+    boardId: v.id("boards"),
+    proposals: v.array(v.any()),
+    proposalIndexes: v.optional(v.array(v.number())),
+  },
+  handler: async (ctx, args) => {
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    const edges = await ctx.db
+      .query("edges")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+
+    const plan = planProposals(nodes.map(toPlanNode), edges, args.proposals, {
+      proposalIndexes: args.proposalIndexes,
+    });
+    const undo = await applyPlan(ctx, args.boardId, plan);
+    await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+    return undo;
+  },
+});
+
+/**
+ * Undo an in-place apply: remove what it added and restore what it removed
+ * or relabeled.
+ */
+export const revertProposals = mutation({
+  args: {
+    boardId: v.id("boards"),
+    undo: v.any(),
+  },
+  handler: async (ctx, args) => {
+    const undo = args.undo as ProposalUndo;
+    const addedNodeIds = new Set(undo.addedNodeIds);
+    const addedEdgeIds = new Set(undo.addedEdgeIds);
+
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const node of nodes) {
+      if (addedNodeIds.has(node.nodeId)) await ctx.db.delete(node._id);
+    }
+
+    const edges = await ctx.db
+      .query("edges")
+      .withIndex("by_board", (q) => q.eq("boardId", args.boardId))
+      .collect();
+    for (const edge of edges) {
+      if (addedEdgeIds.has(edge.edgeId) || addedNodeIds.has(edge.source) || addedNodeIds.has(edge.target)) {
+        await ctx.db.delete(edge._id);
+        continue;
+      }
+      const relabel = undo.relabeledEdges.find((r) => r.edgeId === edge.edgeId);
+      if (relabel) await ctx.db.patch(edge._id, { label: relabel.label });
+    }
+
+    for (const node of undo.removedNodes) {
+      await ctx.db.insert("nodes", { ...node, boardId: args.boardId });
+    }
+    for (const edge of undo.removedEdges) {
+      await ctx.db.insert("edges", { ...edge, boardId: args.boardId });
+    }
+    for (const pn of undo.removedPersonaNodes) {
+      await ctx.db.insert("personaNodes", { ...pn, boardId: args.boardId });
+    }
+
+    await ctx.db.patch(args.boardId, { updatedAt: Date.now() });
+  },
+});
+
+type StoredFields<T> = Omit<T, "_id" | "_creationTime" | "boardId">;
+
+export interface ProposalUndo {
+  addedNodeIds: string[];
+  addedEdgeIds: string[];
+  removedNodes: StoredFields<Doc<"nodes">>[];
+  removedEdges: StoredFields<Doc<"edges">>[];
+  removedPersonaNodes: StoredFields<Doc<"personaNodes">>[];
+  relabeledEdges: { edgeId: string; label: string }[];
+}
+
+function toPlanNode(node: Doc<"nodes">) {
+  return {
+    nodeId: node.nodeId,
+    type: node.type,
+    position: node.position,
+    data: node.data,
+    width: node.width ?? undefined,
+  };
+}
+
+function stripSystemFields<T extends { _id: unknown; _creationTime: number; boardId: unknown }>(doc: T): StoredFields<T> {
+  // eslint-disable-next-line @typescript-eslint/no-unused-vars
+  const { _id, _creationTime, boardId, ...fields } = doc;
+  return fields;
+}
+
+/** Write a proposal plan to a board, recording what is needed to undo it. */
+async function applyPlan(ctx: MutationCtx, boardId: Id<"boards">, plan: ProposalPlan): Promise<ProposalUndo> {
+  const undo: ProposalUndo = {
+    addedNodeIds: [],
+    addedEdgeIds: [],
+    removedNodes: [],
+    removedEdges: [],
+    removedPersonaNodes: [],
+    relabeledEdges: [],
+  };
+
+  for (const node of plan.addNodes) {
+    await ctx.db.insert("nodes", {
+      boardId,
+      nodeId: node.nodeId,
+      type: node.type,
+      position: node.position,
+      data: node.data,
+      ...(node.width ? { width: node.width } : {}),
+    });
+    undo.addedNodeIds.push(node.nodeId);
+  }
+
+  for (const edge of plan.addEdges) {
+    await ctx.db.insert("edges", {
+      boardId,
+      edgeId: edge.edgeId,
+      source: edge.source,
+      target: edge.target,
+      sourceHandle: edge.sourceHandle,
+      targetHandle: edge.targetHandle,
+      label: edge.label,
+      type: "labeled",
+    });
+    undo.addedEdgeIds.push(edge.edgeId);
+  }
+
+  const edges = await ctx.db
+    .query("edges")
+    .withIndex("by_board", (q) => q.eq("boardId", boardId))
+    .collect();
+
+  for (const relabel of plan.relabelEdges) {
+    const edge = edges.find((e) => e.edgeId === relabel.edgeId);
+    if (edge) {
+      undo.relabeledEdges.push({ edgeId: edge.edgeId, label: edge.label || "" });
+      await ctx.db.patch(edge._id, { label: relabel.label });
+    }
+  }
+
+  const removedEdgeIds = new Set(plan.removeEdges.map((r) => r.edgeId));
+  const removedNodeIds = new Set(plan.removeNodes.map((r) => r.nodeId));
+
+  if (removedNodeIds.size > 0) {
+    const nodes = await ctx.db
+      .query("nodes")
+      .withIndex("by_board", (q) => q.eq("boardId", boardId))
+      .collect();
+    for (const node of nodes) {
+      if (!removedNodeIds.has(node.nodeId)) continue;
+      undo.removedNodes.push(stripSystemFields(node));
+      await ctx.db.delete(node._id);
+
+      const personaNodes = await ctx.db
+        .query("personaNodes")
+        .withIndex("by_node", (q) => q.eq("boardId", boardId).eq("nodeId", node.nodeId))
+        .collect();
+      for (const pn of personaNodes) {
+        undo.removedPersonaNodes.push(stripSystemFields(pn));
+        await ctx.db.delete(pn._id);
+      }
+    }
+  }
+
+  // Delete removed edges plus any connected to removed nodes
+  for (const edge of edges) {
+    if (removedEdgeIds.has(edge.edgeId) || removedNodeIds.has(edge.source) || removedNodeIds.has(edge.target)) {
+      if (!undo.addedEdgeIds.includes(edge.edgeId)) {
+        undo.removedEdges.push(stripSystemFields(edge));
+      }
+      await ctx.db.delete(edge._id);
+    }
+  }
+
+  return undo;
+}
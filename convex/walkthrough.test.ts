@@ -0,0 +1,178 @@
+/// <reference types="vite/client" />
+import { convexTest } from "convex-test";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import schema from "./schema";
+import { api, internal } from "./_generated/api";
+import type { Id } from "./_generated/dataModel";
+
+const modules = import.meta.glob("./**/*.*s");
+
+// What the mock provider answers every walkthrough call with
+function walkthroughResponse(nodeIds: string[]) {
+  return JSON.stringify({
+    screenAnalyses: [
+      ...nodeIds.map((nodeId) => ({ nodeId, comment: `The primary action on ${nodeId} is easy to find.` })),
+      { nodeId: "ghost", comment: "A screen that isn't on the board." },
+    ],
+    overallFindings: [
+      { type: "navigation", severity: "high", description: "No way back from the last screen.", affectedNodes: [nodeIds[0], "ghost"] },
+    ],
+    terminologyIssues: [],
+    flowGaps: [],
+  });
+}
+
+async function seedBoard(t: ReturnType<typeof convexTest>, screenCount: number) {
+  const nodeIds = Array.from({ length: screenCount }, (_, i) => `screen-${i + 1}`);
+  const boardId = await t.run(async (ctx) => {
+    const now = Date.now();
+    const boardId = await ctx.db.insert("boards", { name: "Onboarding", ownerId: "user-1", createdAt: now, updatedAt: now });
+    for (const [i, nodeId] of nodeIds.entries()) {
+      await ctx.db.insert("nodes", {
+        boardId,
+        nodeId,
+        type: "screenshot",
+        position: { x: i * 300, y: 0 },
+        data: { label: `Screen ${i + 1}`, platform: "desktop" },
+      });
+    }
+    await ctx.db.insert("nodes", { boardId, nodeId: "note-1", type: "text", position: { x: 0, y: 400 }, data: { text: "Check copy" } });
+    return boardId;
+  });
+  return { boardId, nodeIds };
+}
+
+async function aiComments(t: ReturnType<typeof convexTest>, boardId: Id<"boards">) {
+  const comments = await t.query(api.comments.getByBoard, { boardId });
+  return comments.filter((c) => c.authorId === "ai-ux-walkthrough");
+}
+
+describe("walkthrough comments", () => {
+  beforeEach(() => {
+    vi.stubEnv("AI_PROVIDER", "mock");
+    vi.stubEnv("AI_VISION", "off");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.useRealTimers();
+  });
+
+  test("runUXWalkthrough comments once on each analyzed screen", async () => {
+    const t = convexTest(schema, modules);
+    const { boardId, nodeIds } = await seedBoard(t, 3);
+    vi.stubEnv("MOCK_LLM_RESPONSE", walkthroughResponse([...nodeIds, "note-1"]));
+
+    const result = await t.action(api.gemini.runUXWalkthrough, { boardId });
+
+    expect(result.error).toBeUndefined();
+    expect(result.commentsCreated).toBe(3);
+    const comments = await aiComments(t, boardId);
+    expect(comments.map((c) => c.nodeId).sort()).toEqual(nodeIds);
+    expect(comments.every((c) => c.authorName === "AI UX Analyst")).toBe(true);
+
+    const report = await t.run(async (ctx) => await ctx.db.get(result.reportId as Id<"reports">));
+    expect(report?.findings[0].affectedNodes).toEqual(["screen-1"]);
+    expect(report?.validationIssues).toEqual(expect.arrayContaining([
+      expect.stringContaining('"note-1" is not one of the screens analyzed'),
+      expect.stringContaining('"ghost" is not one of the screens analyzed'),
+      expect.stringContaining('removed unknown node reference "ghost"'),
+    ]));
+  });
+
+  test("a chunked walkthrough job comments only on each chunk's own screens", async () => {
+    vi.useFakeTimers();
+    const t = convexTest(schema, modules);
+    // More screens than one chunk, and every chunk's answer covers all of them
+    const { boardId, nodeIds } = await seedBoard(t, 10);
+    vi.stubEnv("MOCK_LLM_RESPONSE", walkthroughResponse(nodeIds));
+
+    const jobId = await t.mutation(api.aiJobs.enqueue, { boardId, kind: "walkthrough" });
+    await t.finishAllScheduledFunctions(vi.runAllTimers);
+
+    const comments = await aiComments(t, boardId);
+    expect(comments.map((c) => c.nodeId).sort()).toEqual([...nodeIds].sort());
+    const job = await t.run(async (ctx) => await ctx.db.get(jobId));
+    expect(job?.status).toBe("completed");
+    expect(job?.result?.commentsCreated).toBe(10);
+  });
+
+  test("a cancelled and retried job ignores the step of its earlier attempt", async () => {
+    const t = convexTest(schema, modules);
+    const { boardId } = await seedBoard(t, 1);
+    const jobId = await t.run(async (ctx) => {
+      const now = Date.now();
+      return await ctx.db.insert("aiJobs", {
+        boardId,
+        kind: "walkthrough",
+        status: "running",
+        progress: { completed: 0, total: 1 },
+        attempts: 1,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    await t.mutation(api.aiJobs.cancel, { jobId });
+    await t.mutation(api.aiJobs.retry, { jobId });
+    const saved = await t.mutation(internal.aiJobs.updateProgress, {
+      jobId,
+      attempt: 1,
+      progress: { completed: 1, total: 1 },
+      comments: [{ nodeId: "screen-1", authorId: "ai-ux-walkthrough", authorName: "AI UX Analyst", text: "Late comment" }],
+    });
+
+    expect(saved).toBe(false);
+    expect(await aiComments(t, boardId)).toEqual([]);
+    const job = await t.run(async (ctx) => await ctx.db.get(jobId));
+    expect(job).toMatchObject({ status: "queued", attempts: 2 });
+  });
+
+  test("a job that stopped responding can be retried", async () => {
+    const t = convexTest(schema, modules);
+    const { boardId } = await seedBoard(t, 1);
+    const jobId = await t.run(async (ctx) => {
+      const longAgo = Date.now() - 60 * 60 * 1000;
+      return await ctx.db.insert("aiJobs", {
+        boardId,
+        kind: "walkthrough",
+        status: "running",
+        progress: { completed: 0, total: 1 },
+        attempts: 1,
+        createdAt: longAgo,
+        updatedAt: longAgo,
+      });
+    });
+
+    const [listed] = await t.query(api.aiJobs.getByBoard, { boardId });
+    expect(listed.status).toBe("failed");
+    await t.mutation(api.aiJobs.retry, { jobId });
+    const job = await t.run(async (ctx) => await ctx.db.get(jobId));
+    expect(job).toMatchObject({ status: "queued", attempts: 2 });
+  });
+
+  test("enqueueing reuses an active job only when it covers the same section", async () => {
+    const t = convexTest(schema, modules);
+    const { boardId } = await seedBoard(t, 1);
+    const jobId = await t.run(async (ctx) => {
+      const now = Date.now();
+      return await ctx.db.insert("aiJobs", {
+        boardId,
+        kind: "walkthrough",
+        args: { sectionId: "section-a" },
+        status: "running",
+        progress: { completed: 0, total: 1 },
+        attempts: 1,
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+
+    const same = await t.mutation(api.aiJobs.enqueue, { boardId, kind: "walkthrough", args: { sectionId: "section-a" } });
+    const other = await t.mutation(api.aiJobs.enqueue, { boardId, kind: "walkthrough", args: { sectionId: "section-b" } });
+
+    expect(same).toBe(jobId);
+    expect(other).not.toBe(jobId);
+    await expect(t.mutation(api.aiJobs.enqueue, { boardId, kind: "persona_journey" })).rejects.toThrow("args.personaId is required");
+  });
+});
@@ -9,10 +9,14 @@ import Link from "next/link";
 
 export default function BoardPage({
   params,
+  searchParams,
 }: {
   params: Promise<{ boardId: string }>;
+  searchParams: Promise<{ node?: string }>;
 }) {
   const { boardId } = use(params);
+  // Search results link straight to the node they matched
+  const { node: focusNodeId } = use(searchParams);
   const board = useQuery(api.boards.get, {
     boardId: boardId as Id<"boards">,
   });
@@ -41,7 +45,7 @@ export default function BoardPage({
 
   return (
     <div className="flex h-screen flex-col bg-zinc-50 dark:bg-zinc-950">
-      <FlowLoader boardId={boardId as Id<"boards">} boardName={board.name} />
+      <FlowLoader boardId={boardId as Id<"boards">} boardName={board.name} focusNodeId={focusNodeId} />
     </div>
   );
 }
@@ -3,6 +3,7 @@
 import { useUser, UserButton } from "@clerk/nextjs";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../convex/_generated/api";
+import type { Id } from "../../convex/_generated/dataModel";
 import { useState, useMemo, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { formatRelativeTime } from "@/lib/utils";
@@ -12,6 +13,8 @@ import PersonasEditor from "@/components/dashboard/PersonasEditor";
 import ConfigurationPanel from "@/components/dashboard/ConfigurationPanel";
 import ToolsPanel from "@/components/dashboard/ToolsPanel";
 import ImprovementsHub from "@/components/dashboard/ImprovementsHub";
+import GlobalSearch from "@/components/dashboard/GlobalSearch";
+import PortfolioPanel from "@/components/dashboard/PortfolioPanel";
 
 interface BoardDoc {
   _id: string;
@@ -35,7 +38,7 @@ interface JourneyGroup {
   allVersions: BoardDoc[];
 }
 
-type MainTab = "journeys" | "improvements" | "screenshots" | "personas" | "users" | "tools" | "configuration";
+type MainTab = "journeys" | "portfolio" | "improvements" | "screenshots" | "personas" | "users" | "tools" | "configuration";
 type JourneyFilter = "all" | "archived";
 
 export default function DashboardPage() {
@@ -54,6 +57,7 @@ export default function DashboardPage() {
   const archiveBoard = useMutation(api.boards.archive);
   const restoreBoard = useMutation(api.boards.restore);
   const generateSummary = useAction(api.gemini.generateBoardSummary);
+  const draftJourney = useAction(api.gemini.draftJourneyFromText);
   const upsertUser = useMutation(api.users.upsert);
   const ensureLatestTemplates = useMutation(api.promptTemplates.ensureLatestTemplates);
 
@@ -79,8 +83,12 @@ export default function DashboardPage() {
   const [showDialog, setShowDialog] = useState(false);
   const [boardName, setBoardName] = useState("");
   const [boardDesc, setBoardDesc] = useState("");
-  const [selectedToolIds, setSelectedToolIds] = useState<string[]>([]);
+  const [selectedToolIds, setSelectedToolIds] = useState<Id<"tools">[]>([]);
   const [creating, setCreating] = useState(false);
+  // "text" drafts the journey with AI from a pasted user story, PRD or ticket
+  const [createMode, setCreateMode] = useState<"blank" | "text">("blank");
+  const [draftSource, setDraftSource] = useState("");
+  const [createError, setCreateError] = useState<string | null>(null);
   const [expandedJourney, setExpandedJourney] = useState<string | null>(null);
   const [mainTab, setMainTab] = useState<MainTab>("journeys");
   const [journeyFilter, setJourneyFilter] = useState<JourneyFilter>("all");
@@ -118,22 +126,49 @@ export default function DashboardPage() {
     return result;
   }, [boards]);
 
+  const closeDialog = () => {
+    setShowDialog(false);
+    setBoardName("");
+    setBoardDesc("");
+    setSelectedToolIds([]);
+    setCreateMode("blank");
+    setDraftSource("");
+    setCreateError(null);
+  };
+
   const handleCreate = async () => {
-    if (!boardName.trim() || !user) return;
+    if (!user) return;
+    if (createMode === "blank" ? !boardName.trim() : !draftSource.trim()) return;
     setCreating(true);
+    setCreateError(null);
     try {
-      const boardId = await createBoard({
-        name: boardName.trim(),
-        description: boardDesc.trim() || undefined,
-        ownerId: user.id,
-        ownerName: user.fullName || user.firstName || "User",
-        toolIds: selectedToolIds.length > 0 ? selectedToolIds as any : undefined,
-      });
-      setShowDialog(false);
-      setBoardName("");
-      setBoardDesc("");
-      setSelectedToolIds([]);
+      let boardId;
+      if (createMode === "text") {
+        const result = await draftJourney({
+          text: draftSource,
+          name: boardName.trim() || undefined,
+          ownerId: user.id,
+          ownerName: user.fullName || user.firstName || "User",
+          toolIds: selectedToolIds.length > 0 ? selectedToolIds : undefined,
+        });
+        if (!result.boardId) {
+          setCreateError(result.error || "Failed to draft the journey.");
+          return;
+        }
+        boardId = result.boardId;
+      } else {
+        boardId = await createBoard({
+          name: boardName.trim(),
+          description: boardDesc.trim() || undefined,
+          ownerId: user.id,
+          ownerName: user.fullName || user.firstName || "User",
+          toolIds: selectedToolIds.length > 0 ? selectedToolIds : undefined,
+        });
+      }
+      closeDialog();
       router.push(`/board/${boardId}`);
+    } catch (err) {
+      setCreateError((err instanceof Error && err.message) || "Failed to create the journey.");
     } finally {
       setCreating(false);
     }
@@ -179,6 +214,15 @@ export default function DashboardPage() {
         </svg>
       ),
     },
+    {
+      key: "portfolio",
+      label: "Portfolio",
+      icon: (
+        <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <rect x="2" y="7" width="20" height="14" rx="2" /><path d="M16 7V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v2" />
+        </svg>
+      ),
+    },
     {
       key: "improvements",
       label: "Improvements",
@@ -240,8 +284,8 @@ export default function DashboardPage() {
     <div className="min-h-screen bg-zinc-50 dark:bg-zinc-950">
       {/* Header */}
       <header className="border-b border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
-        <div className="mx-auto flex max-w-6xl items-center justify-between px-6 py-4">
-          <div>
+        <div className="mx-auto flex max-w-6xl items-center justify-between gap-6 px-6 py-4">
+          <div className="shrink-0">
             <h1 className="text-xl font-semibold text-zinc-900 dark:text-zinc-100">
               OPPR Customer Journey Tool
             </h1>
@@ -249,6 +293,7 @@ export default function DashboardPage() {
               Map, analyze and optimize customer journeys
             </p>
           </div>
+          <GlobalSearch />
           <div className="flex items-center gap-3">
             {user && (
               <span className="text-sm text-zinc-600 dark:text-zinc-400">
@@ -347,6 +392,8 @@ export default function DashboardPage() {
           <ConfigurationPanel />
         ) : mainTab === "improvements" ? (
           <ImprovementsHub />
+        ) : mainTab === "portfolio" ? (
+          <PortfolioPanel />
         ) : mainTab === "tools" ? (
           <ToolsPanel />
         ) : mainTab === "users" ? (
@@ -634,36 +681,66 @@ export default function DashboardPage() {
       {/* Create Journey Dialog */}
       {showDialog && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4">
-          <div className="w-full max-w-md rounded-xl bg-white p-6 shadow-xl dark:bg-zinc-900">
+          <div className="max-h-[90vh] w-full max-w-md overflow-y-auto rounded-xl bg-white p-6 shadow-xl dark:bg-zinc-900">
             <h2 className="mb-4 text-lg font-semibold text-zinc-900 dark:text-zinc-100">
               Create New Journey
             </h2>
+            <div className="mb-4 flex rounded-lg bg-zinc-100 p-0.5 dark:bg-zinc-800">
+              {([["blank", "Blank board"], ["text", "Draft from text"]] as const).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => setCreateMode(mode)}
+                  className={`flex-1 rounded-md px-3 py-1.5 text-xs font-medium transition-colors ${
+                    createMode === mode
+                      ? "bg-white text-zinc-900 shadow-sm dark:bg-zinc-700 dark:text-zinc-100"
+                      : "text-zinc-500 hover:text-zinc-700 dark:text-zinc-400"
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
             <div className="mb-4">
               <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                Journey Name
+                Journey Name{createMode === "text" && " (optional)"}
               </label>
               <input
                 type="text"
                 value={boardName}
                 onChange={(e) => setBoardName(e.target.value)}
-                placeholder="e.g., Onboarding Flow v2"
+                placeholder={createMode === "text" ? "Leave empty to let AI name it" : "e.g., Onboarding Flow v2"}
                 className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
                 autoFocus
                 onKeyDown={(e) => e.key === "Enter" && handleCreate()}
               />
             </div>
-            <div className="mb-4">
-              <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
-                Description (optional)
-              </label>
-              <textarea
-                value={boardDesc}
-                onChange={(e) => setBoardDesc(e.target.value)}
-                placeholder="What journey does this map?"
-                rows={2}
-                className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
-              />
-            </div>
+            {createMode === "text" ? (
+              <div className="mb-4">
+                <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  User story, PRD or ticket
+                </label>
+                <textarea
+                  value={draftSource}
+                  onChange={(e) => setDraftSource(e.target.value)}
+                  placeholder="Paste the requirements. AI drafts screens, connections, personas and attention notes for open questions, reusing library screenshots whose names match."
+                  rows={8}
+                  className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
+                />
+              </div>
+            ) : (
+              <div className="mb-4">
+                <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+                  Description (optional)
+                </label>
+                <textarea
+                  value={boardDesc}
+                  onChange={(e) => setBoardDesc(e.target.value)}
+                  placeholder="What journey does this map?"
+                  rows={2}
+                  className="w-full rounded-lg border border-zinc-300 bg-white px-3 py-2 text-sm text-zinc-900 outline-none focus:border-blue-500 focus:ring-1 focus:ring-blue-500 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-100"
+                />
+              </div>
+            )}
             {/* Tool selection */}
             {allTools && allTools.length > 0 && (
               <div className="mb-6">
@@ -702,24 +779,24 @@ export default function DashboardPage() {
                 </div>
               </div>
             )}
+            {createError && (
+              <p className="mb-3 text-sm text-red-600 dark:text-red-400">{createError}</p>
+            )}
             <div className="flex justify-end gap-3">
               <button
-                onClick={() => {
-                  setShowDialog(false);
-                  setBoardName("");
-                  setBoardDesc("");
-                  setSelectedToolIds([]);
-                }}
+                onClick={closeDialog}
                 className="rounded-lg px-4 py-2 text-sm font-medium text-zinc-600 hover:bg-zinc-100 dark:text-zinc-400 dark:hover:bg-zinc-800"
               >
                 Cancel
               </button>
               <button
                 onClick={handleCreate}
-                disabled={!boardName.trim() || creating}
+                disabled={(createMode === "blank" ? !boardName.trim() : !draftSource.trim()) || creating}
                 className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
               >
-                {creating ? "Creating..." : "Create Journey"}
+                {creating
+                  ? createMode === "text" ? "Drafting..." : "Creating..."
+                  : createMode === "text" ? "Draft Journey" : "Create Journey"}
               </button>
             </div>
           </div>
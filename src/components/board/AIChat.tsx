@@ -4,9 +4,12 @@ import { useState, useRef, useEffect } from "react";
 import { useMutation, useQuery, useAction } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import type { InvalidItem, Proposal } from "../../../convex/aiSchemas";
+import type { ProposalUndo } from "../../../convex/versions";
 import { useRouter } from "next/navigation";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import { useProposalPreviewStore } from "@/store/proposalPreviewStore";
 
 interface AIChatProps {
   boardId: Id<"boards">;
@@ -19,19 +22,62 @@ const QUICK_ACTIONS = [
   { label: "Per-persona review", prompt: "Analyze this journey from each persona's perspective separately. For EACH persona, walk through their path step by step and add yellow notes (observations), red attention markers (friction/issues), and green improvement suggestions at every relevant screen. Be thorough and comprehensive. Propose all changes as structured JSON." },
 ];
 
+function proposalColor(p: Proposal): string {
+  return p.action === "addAttention" ? "text-red-600 dark:text-red-400" :
+    p.action === "addImprovement" ? "text-emerald-600 dark:text-emerald-400" :
+    p.action === "addNote" ? "text-amber-600 dark:text-amber-400" :
+    p.action === "removeNode" || p.action === "removeEdge" ? "text-red-500 dark:text-red-400" :
+    "text-green-600 dark:text-green-400";
+}
+
+function describeInvalid(item: InvalidItem): string {
+  if (item.index < 0) return item.errors.join("; ");
+  const action = typeof item.item === "object" && item.item !== null && "action" in item.item ? item.item.action : undefined;
+  return `#${item.index + 1}${typeof action === "string" ? ` ${action}` : ""}: ${item.errors.join("; ")}`;
+}
+
+function describeProposal(p: Proposal): string {
+  switch (p.action) {
+    case "addNode": return `+ Add screen: "${p.label}"`;
+    case "addEdge": return `+ Connect: ${p.source} → ${p.target}${p.label ? ` [${p.label}]` : ""}`;
+    case "addNote": return `📝 Note${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`;
+    case "addAttention": return `⚠ Issue${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`;
+    case "addImprovement": return `✨ Improve${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`;
+    case "relabelEdge": return `~ Relabel edge: "${p.newLabel}"`;
+    case "removeNode": return `- Remove node: ${p.nodeId}`;
+    case "removeEdge": return `- Remove edge: ${p.source} → ${p.target}`;
+    // Proposals saved by older versions may use actions no longer offered
+    default: return `? ${(p as { action: string }).action}`;
+  }
+}
+
 export default function AIChat({ boardId }: AIChatProps) {
   const router = useRouter();
-  const messages = useQuery(api.chat.getByBoard, { boardId });
+  const [threadId, setThreadId] = useState<string | undefined>(undefined);
+  const messages = useQuery(api.chat.getByBoard, { boardId, threadId });
+  const threads = useQuery(api.chat.getThreads, { boardId });
   const addMessage = useMutation(api.chat.addMessage);
   const clearChat = useMutation(api.chat.clearChat);
+  const cancelMessage = useMutation(api.chat.cancelMessage);
+  const branchFromMessage = useMutation(api.chat.branchFromMessage);
+  const restartFromMessage = useMutation(api.chat.restartFromMessage);
   const analyzeJourney = useAction(api.gemini.analyzeJourney);
   const applyProposals = useMutation(api.versions.applyProposals);
+  const applyProposalsInPlace = useMutation(api.versions.applyProposalsInPlace);
+  const revertProposals = useMutation(api.versions.revertProposals);
+  const updateMetadata = useMutation(api.chat.updateMetadata);
+  const preview = useProposalPreviewStore();
 
   const [input, setInput] = useState("");
   const [loading, setLoading] = useState(false);
   const [applying, setApplying] = useState<string | null>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
+  const streamingMessage = messages?.find((m) => m.status === "streaming");
+
+  // Drop any canvas preview when the chat closes
+  useEffect(() => () => useProposalPreviewStore.getState().clear(), []);
+
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
@@ -46,47 +92,110 @@ export default function AIChat({ boardId }: AIChatProps) {
 
     try {
       // Save user message
-      await addMessage({ boardId, role: "user", content: messageText });
+      await addMessage({ boardId, role: "user", content: messageText, threadId });
 
-      // Call Gemini
-      const result = await analyzeJourney({ boardId, userMessage: messageText });
-
-      // Save assistant response
-      await addMessage({
-        boardId,
-        role: "assistant",
-        content: result.response,
-        metadata: result.proposals ? { proposals: result.proposals } : undefined,
-      });
+      // The action streams the assistant reply into chatMessages itself
+      await analyzeJourney({ boardId, userMessage: messageText, threadId });
     } catch (error: any) {
       await addMessage({
         boardId,
         role: "assistant",
         content: `Error: ${error.message || "Failed to get AI response"}`,
+        status: "error",
+        threadId,
       });
     } finally {
       setLoading(false);
     }
   };
 
-  const handleApplyChanges = async (messageId: string, proposals: any[]) => {
+  const handleApplyInPlace = async (messageId: Id<"chatMessages">, proposals: Proposal[], selected: number[]) => {
+    setApplying(messageId);
+    try {
+      const undo = await applyProposalsInPlace({ boardId, proposals, proposalIndexes: selected });
+      await updateMetadata({ messageId, metadata: { appliedInPlace: { undo, count: selected.length } } });
+      preview.clear();
+    } catch (error) {
+      alert(`Failed to apply changes: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  const handleUndoApply = async (messageId: Id<"chatMessages">, undo: ProposalUndo) => {
+    setApplying(messageId);
+    try {
+      await revertProposals({ boardId, undo });
+      await updateMetadata({ messageId, metadata: { appliedInPlace: null } });
+    } catch (error) {
+      alert(`Failed to undo changes: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setApplying(null);
+    }
+  };
+
+  const handleBranch = async (messageId: Id<"chatMessages">) => {
+    const newThreadId = await branchFromMessage({ messageId });
+    setThreadId(newThreadId);
+  };
+
+  const handleRestart = async (messageId: Id<"chatMessages">) => {
+    if (!confirm("Delete every message after this one and continue the thread from here?")) return;
+    await restartFromMessage({ messageId });
+  };
+
+  const handleApplyChanges = async (messageId: string, proposals: Proposal[], selected: number[]) => {
     setApplying(messageId);
     try {
       const newBoardId = await applyProposals({
         sourceBoardId: boardId,
         proposals,
-        versionNote: `AI changes applied (${proposals.length} modification${proposals.length !== 1 ? "s" : ""})`,
+        proposalIndexes: selected,
+        versionNote: `AI changes applied (${selected.length} modification${selected.length !== 1 ? "s" : ""})`,
       });
+      preview.clear();
       router.push(`/board/${newBoardId}`);
-    } catch (error: any) {
-      alert(`Failed to apply changes: ${error.message}`);
+    } catch (error) {
+      alert(`Failed to apply changes: ${error instanceof Error ? error.message : error}`);
     } finally {
       setApplying(null);
     }
   };
 
+  // Threads shown in the picker; a freshly started thread has no messages yet
+  const threadOptions = threads ? [...threads] : [];
+  if (threadId && !threadOptions.some((t) => t.threadId === threadId)) {
+    threadOptions.push({ threadId, title: "", messageCount: 0, lastMessageAt: Date.now() });
+  }
+
   return (
     <div className="flex h-full flex-col">
+      {/* Thread picker */}
+      {(threadOptions.length > 1 || threadId) && (
+        <div className="flex items-center gap-1.5 border-b border-zinc-200 px-3 py-1.5 dark:border-zinc-700">
+          <select
+            value={threadId ?? ""}
+            onChange={(e) => setThreadId(e.target.value || undefined)}
+            disabled={loading}
+            className="min-w-0 flex-1 rounded border border-zinc-200 bg-white px-1.5 py-0.5 text-[10px] text-zinc-600 outline-none dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+          >
+            {threadOptions.map((t, i) => (
+              <option key={t.threadId ?? ""} value={t.threadId ?? ""}>
+                {t.threadId === undefined ? "Main thread" : `Thread ${i + (threadOptions[0]?.threadId === undefined ? 0 : 1)}`}
+                {t.title ? ` — ${t.title}` : ""}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => setThreadId(`thread-${Date.now()}`)}
+            disabled={loading}
+            className="shrink-0 text-[10px] text-purple-600 hover:text-purple-700 disabled:opacity-50 dark:text-purple-400"
+          >
+            + New
+          </button>
+        </div>
+      )}
+
       {/* Messages */}
       <div className="flex-1 overflow-y-auto p-3 space-y-3">
         {(!messages || messages.length === 0) && !loading && (
@@ -107,12 +216,12 @@ export default function AIChat({ boardId }: AIChatProps) {
         )}
 
         {messages?.map((msg) => {
-          const proposals = msg.metadata?.proposals;
+          const proposals: Proposal[] | undefined = msg.metadata?.proposals;
           const hasProposals = proposals && Array.isArray(proposals) && proposals.length > 0;
           const isApplying = applying === msg._id;
 
           return (
-            <div key={msg._id}>
+            <div key={msg._id} className="group">
               <div className={`flex ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
                 <div
                   className={`max-w-[90%] rounded-lg px-3 py-2 text-xs ${
@@ -121,11 +230,23 @@ export default function AIChat({ boardId }: AIChatProps) {
                       : "bg-zinc-100 text-zinc-800 dark:bg-zinc-800 dark:text-zinc-200"
                   }`}
                 >
-                  {msg.role === "assistant" ? (
+                  {msg.role === "assistant" && msg.status === "streaming" && !msg.content ? (
+                    <div className="flex items-center gap-1 py-0.5">
+                      <div className="h-1.5 w-1.5 animate-bounce rounded-full bg-zinc-400" style={{ animationDelay: "0ms" }} />
+                      <div className="h-1.5 w-1.5 animate-bounce rounded-full bg-zinc-400" style={{ animationDelay: "150ms" }} />
+                      <div className="h-1.5 w-1.5 animate-bounce rounded-full bg-zinc-400" style={{ animationDelay: "300ms" }} />
+                    </div>
+                  ) : msg.role === "assistant" ? (
                     <div className="prose prose-xs prose-zinc dark:prose-invert max-w-none [&_p]:text-xs [&_li]:text-xs [&_h1]:text-sm [&_h2]:text-xs [&_h3]:text-xs [&_code]:text-[10px] [&_pre]:text-[10px] [&_pre]:bg-zinc-200 [&_pre]:dark:bg-zinc-900 [&_pre]:p-2 [&_pre]:rounded">
                       <ReactMarkdown remarkPlugins={[remarkGfm]}>
                         {msg.content}
                       </ReactMarkdown>
+                      {msg.status === "streaming" && (
+                        <span className="inline-block h-3 w-1 animate-pulse bg-purple-500 align-middle" />
+                      )}
+                      {msg.status === "cancelled" && (
+                        <p className="mt-1 text-[10px] italic text-zinc-400">Stopped{msg.content ? "" : " before any response"}</p>
+                      )}
                     </div>
                   ) : (
                     <p>{msg.content}</p>
@@ -133,68 +254,144 @@ export default function AIChat({ boardId }: AIChatProps) {
                 </div>
               </div>
 
-              {/* Apply Changes button */}
-              {hasProposals && msg.role === "assistant" && (
-                <div className="mt-1.5 flex justify-start">
-                  <div className="rounded-lg border border-green-200 bg-green-50 p-2 dark:border-green-800 dark:bg-green-950/30">
-                    <div className="mb-1.5 flex items-center gap-1.5">
-                      <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="text-green-600">
-                        <path d="M12 5v14M5 12h14" />
-                      </svg>
-                      <span className="text-[10px] font-medium text-green-700 dark:text-green-300">
-                        {proposals.length} proposed change{proposals.length !== 1 ? "s" : ""}
-                      </span>
-                    </div>
-                    <div className="mb-2 space-y-0.5 max-h-40 overflow-y-auto">
-                      {proposals.slice(0, 10).map((p: any, i: number) => (
-                        <p key={i} className={`text-[9px] ${
-                          p.action === "addAttention" ? "text-red-600 dark:text-red-400" :
-                          p.action === "addImprovement" ? "text-emerald-600 dark:text-emerald-400" :
-                          p.action === "addNote" ? "text-amber-600 dark:text-amber-400" :
-                          p.action === "removeNode" || p.action === "removeEdge" ? "text-red-500 dark:text-red-400" :
-                          "text-green-600 dark:text-green-400"
-                        }`}>
-                          {p.action === "addNode" && `+ Add screen: "${p.label}"`}
-                          {p.action === "addEdge" && `+ Connect: ${p.source} → ${p.target}${p.label ? ` [${p.label}]` : ""}`}
-                          {p.action === "addNote" && `📝 Note${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`}
-                          {p.action === "addAttention" && `⚠ Issue${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`}
-                          {p.action === "addImprovement" && `✨ Improve${p.persona ? ` (${p.persona})` : ""}: "${(p.text || "").slice(0, 50)}..."`}
-                          {p.action === "relabelEdge" && `~ Relabel edge: "${p.newLabel}"`}
-                          {p.action === "removeNode" && `- Remove node: ${p.nodeId}`}
-                          {p.action === "removeEdge" && `- Remove edge: ${p.source} → ${p.target}`}
-                        </p>
-                      ))}
-                      {proposals.length > 10 && (
-                        <p className="text-[9px] text-green-500">...and {proposals.length - 10} more</p>
-                      )}
-                    </div>
+              {/* Branch / restart from this message */}
+              {msg.status !== "streaming" && !loading && (
+                <div className={`mt-0.5 flex gap-2 opacity-0 transition-opacity group-hover:opacity-100 ${msg.role === "user" ? "justify-end" : "justify-start"}`}>
+                  <button
+                    onClick={() => handleBranch(msg._id)}
+                    className="text-[9px] text-zinc-400 hover:text-purple-600"
+                    title="Start a new thread from this point"
+                  >
+                    Branch
+                  </button>
+                  {msg._id !== messages[messages.length - 1]?._id && (
                     <button
-                      onClick={() => handleApplyChanges(msg._id, proposals)}
-                      disabled={isApplying || loading}
-                      className="flex w-full items-center justify-center gap-1.5 rounded-md bg-green-600 px-3 py-1.5 text-[11px] font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                      onClick={() => handleRestart(msg._id)}
+                      className="text-[9px] text-zinc-400 hover:text-red-500"
+                      title="Delete later messages and continue from here"
                     >
-                      {isApplying ? (
-                        <>
-                          <div className="h-3 w-3 animate-spin rounded-full border-2 border-white border-t-transparent" />
-                          Creating new version...
-                        </>
-                      ) : (
-                        <>
-                          <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                            <path d="M20 6L9 17l-5-5" />
-                          </svg>
-                          Apply Changes (creates new version)
-                        </>
-                      )}
+                      Restart here
                     </button>
+                  )}
+                </div>
+              )}
+
+              {/* Proposals rejected by server-side validation */}
+              {msg.role === "assistant" && Array.isArray(msg.metadata?.invalidProposals) && msg.metadata.invalidProposals.length > 0 && (
+                <div className="mt-1.5 rounded-lg border border-amber-200 bg-amber-50 p-2 dark:border-amber-800 dark:bg-amber-950/30">
+                  <p className="mb-1 text-[10px] font-medium text-amber-700 dark:text-amber-300">
+                    {msg.metadata.invalidProposals.length} proposal{msg.metadata.invalidProposals.length !== 1 ? "s" : ""} could not be used
+                  </p>
+                  <div className="max-h-24 space-y-0.5 overflow-y-auto">
+                    {(msg.metadata.invalidProposals as InvalidItem[]).map((item, i) => (
+                      <p key={i} className="text-[9px] text-amber-700 dark:text-amber-400">
+                        {describeInvalid(item)}
+                      </p>
+                    ))}
                   </div>
                 </div>
               )}
+
+              {/* Proposed changes: tick, preview on canvas, apply */}
+              {hasProposals && msg.role === "assistant" && (() => {
+                const isPreviewing = preview.messageId === msg._id;
+                const selected = isPreviewing ? preview.selected : proposals.map((_, i) => i);
+                const appliedInPlace = msg.metadata?.appliedInPlace;
+
+                return (
+                  <div className="mt-1.5 flex justify-start">
+                    <div className="w-full rounded-lg border border-green-200 bg-green-50 p-2 dark:border-green-800 dark:bg-green-950/30">
+                      <div className="mb-1.5 flex items-center gap-1.5">
+                        <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" className="text-green-600">
+                          <path d="M12 5v14M5 12h14" />
+                        </svg>
+                        <span className="text-[10px] font-medium text-green-700 dark:text-green-300">
+                          {selected.length}/{proposals.length} proposed change{proposals.length !== 1 ? "s" : ""} selected
+                        </span>
+                        <button
+                          onClick={() => {
+                            if (!isPreviewing) preview.startPreview(msg._id, proposals);
+                            else preview.setAllSelected(selected.length !== proposals.length);
+                          }}
+                          className="ml-auto text-[9px] text-green-600 hover:text-green-800 dark:text-green-400"
+                        >
+                          {isPreviewing && selected.length === proposals.length ? "None" : "All"}
+                        </button>
+                      </div>
+                      <div className="mb-2 space-y-0.5 max-h-40 overflow-y-auto">
+                        {proposals.map((p, i) => (
+                          <label key={i} className={`flex cursor-pointer items-start gap-1 text-[9px] ${proposalColor(p)}`}>
+                            <input
+                              type="checkbox"
+                              checked={selected.includes(i)}
+                              onChange={() => {
+                                if (!isPreviewing) preview.startPreview(msg._id, proposals);
+                                useProposalPreviewStore.getState().toggle(i);
+                              }}
+                              className="mt-px h-2.5 w-2.5 shrink-0 accent-green-600"
+                            />
+                            <span>{describeProposal(p)}</span>
+                          </label>
+                        ))}
+                      </div>
+                      <div className="mb-1.5 flex gap-1">
+                        <button
+                          onClick={() => {
+                            if (!isPreviewing) preview.startPreview(msg._id, proposals);
+                            else preview.setVisible(!preview.visible);
+                          }}
+                          className="flex-1 rounded-md border border-green-300 bg-white px-2 py-1 text-[10px] font-medium text-green-700 hover:bg-green-100 dark:border-green-700 dark:bg-zinc-900 dark:text-green-300"
+                        >
+                          {isPreviewing && preview.visible ? "Hide preview" : "Preview on canvas"}
+                        </button>
+                        <button
+                          onClick={() => handleApplyInPlace(msg._id, proposals, selected)}
+                          disabled={isApplying || loading || selected.length === 0}
+                          className="flex-1 rounded-md bg-green-600 px-2 py-1 text-[10px] font-medium text-white hover:bg-green-700 disabled:opacity-50"
+                        >
+                          Apply here
+                        </button>
+                      </div>
+                      <button
+                        onClick={() => handleApplyChanges(msg._id, proposals, selected)}
+                        disabled={isApplying || loading || selected.length === 0}
+                        className="flex w-full items-center justify-center gap-1.5 rounded-md border border-green-600 px-3 py-1 text-[10px] font-medium text-green-700 hover:bg-green-100 disabled:opacity-50 dark:text-green-300"
+                      >
+                        {isApplying ? (
+                          <>
+                            <div className="h-3 w-3 animate-spin rounded-full border-2 border-green-600 border-t-transparent" />
+                            Applying...
+                          </>
+                        ) : (
+                          <>
+                            <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                              <path d="M20 6L9 17l-5-5" />
+                            </svg>
+                            Apply as new version
+                          </>
+                        )}
+                      </button>
+                      {appliedInPlace && (
+                        <div className="mt-1.5 flex items-center justify-between text-[9px] text-green-700 dark:text-green-300">
+                          <span>Applied {appliedInPlace.count} change{appliedInPlace.count !== 1 ? "s" : ""} to this board</span>
+                          <button
+                            onClick={() => handleUndoApply(msg._id, appliedInPlace.undo)}
+                            disabled={isApplying}
+                            className="font-medium underline hover:text-green-900 disabled:opacity-50"
+                          >
+                            Undo
+                          </button>
+                        </div>
+                      )}
+                    </div>
+                  </div>
+                );
+              })()}
             </div>
           );
         })}
 
-        {loading && (
+        {loading && !streamingMessage && (
           <div className="flex justify-start">
             <div className="rounded-lg bg-zinc-100 px-3 py-2 dark:bg-zinc-800">
               <div className="flex items-center gap-1">
@@ -240,20 +437,29 @@ export default function AIChat({ boardId }: AIChatProps) {
             onKeyDown={(e) => e.key === "Enter" && handleSend()}
             disabled={loading}
           />
-          <button
-            onClick={() => handleSend()}
-            disabled={!input.trim() || loading}
-            className="rounded-lg bg-purple-600 px-3 py-1.5 text-[10px] font-medium text-white hover:bg-purple-700 disabled:opacity-50"
-          >
-            Send
-          </button>
+          {streamingMessage ? (
+            <button
+              onClick={() => cancelMessage({ messageId: streamingMessage._id })}
+              className="rounded-lg bg-zinc-600 px-3 py-1.5 text-[10px] font-medium text-white hover:bg-zinc-700"
+            >
+              Stop
+            </button>
+          ) : (
+            <button
+              onClick={() => handleSend()}
+              disabled={!input.trim() || loading}
+              className="rounded-lg bg-purple-600 px-3 py-1.5 text-[10px] font-medium text-white hover:bg-purple-700 disabled:opacity-50"
+            >
+              Send
+            </button>
+          )}
         </div>
         {messages && messages.length > 0 && (
           <button
-            onClick={() => clearChat({ boardId })}
+            onClick={() => clearChat({ boardId, threadId })}
             className="mt-1.5 text-[10px] text-zinc-400 hover:text-red-500"
           >
-            Clear chat history
+            Clear {threadId ? "thread" : "chat history"}
           </button>
         )}
       </div>
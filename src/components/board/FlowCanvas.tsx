@@ -1,6 +1,6 @@
 "use client";
 
-import { useCallback, useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import {
   ReactFlow,
   Background,
@@ -20,6 +20,7 @@ import {
 } from "@xyflow/react";
 import "@xyflow/react/dist/style.css";
 import { useAction, useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
 import { nanoid } from "nanoid";
@@ -29,13 +30,42 @@ import TextNode from "@/components/nodes/TextNode";
 import AttentionNode from "@/components/nodes/AttentionNode";
 import ImprovementNode from "@/components/nodes/ImprovementNode";
 import DividerNode from "@/components/nodes/DividerNode";
-import SectionNode from "@/components/nodes/SectionNode";
+import SectionNode, { type SectionActionKind } from "@/components/nodes/SectionNode";
 import LabeledEdge from "@/components/edges/LabeledEdge";
 import Toolbar from "./Toolbar";
 import ScreenshotSidebar from "./ScreenshotSidebar";
 import RightPanel from "./RightPanel";
 import VersionBanner from "./VersionBanner";
-import { useFlowStore } from "@/store/flowStore";
+import JobsBanner from "./JobsBanner";
+import RegenerateImprovementModal from "./RegenerateImprovementModal";
+import PresenceCursors from "./PresenceCursors";
+import NodeDataConflictModal from "./NodeDataConflictModal";
+import { useCanvasHistoryStore } from "@/store/canvasHistoryStore";
+import { useProposalPreviewStore } from "@/store/proposalPreviewStore";
+import { planProposals } from "../../../convex/proposalPlan";
+import { edgeSnapshot, invertChange, mergeNodeData, nodeSnapshot, type CanvasChange, type EdgeFields, type NodeFields } from "../../../convex/canvasChange";
+import {
+  COLLAPSED_SECTION_HEIGHT,
+  COLLAPSED_SECTION_WIDTH,
+  DEFAULT_SECTION_HEIGHT,
+  DEFAULT_SECTION_WIDTH,
+  findParentSection,
+  sectionMembers,
+  summarizeMembers,
+} from "../../../convex/sections";
+import {
+  optimisticAddEdge,
+  optimisticAddNode,
+  optimisticBulkUpdatePositions,
+  optimisticConvertToScreenshot,
+  optimisticDeleteEdge,
+  optimisticDeleteNode,
+  optimisticUpdateConnection,
+  optimisticUpdateData,
+  optimisticUpdateDimensions,
+  optimisticUpdateEdgeLabel,
+  optimisticUpdatePosition,
+} from "@/lib/canvasOptimistic";
 
 const nodeTypes = {
   screenshot: ScreenshotNode,
@@ -52,13 +82,23 @@ const edgeTypes = {
 
 const DEFAULT_SCREENSHOT_WIDTH = 220;
 
+// Presence: heartbeat well inside the server's 30s timeout; cursor moves are batched
+const PRESENCE_HEARTBEAT_MS = 10_000;
+const CURSOR_THROTTLE_MS = 100;
+// Copied selections live in localStorage so they paste into other tabs and boards
+const CLIPBOARD_KEY = "canvas-clipboard";
+const DUPLICATE_OFFSET = 40;
+
 interface FlowCanvasProps {
   boardId: Id<"boards">;
   boardName: string;
+  // Node to open on first load, e.g. from a search result link
+  focusNodeId?: string;
 }
 
-export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
-  const { screenToFlowPosition, fitView } = useReactFlow();
+export default function FlowCanvas({ boardId, boardName, focusNodeId }: FlowCanvasProps) {
+  const { screenToFlowPosition, fitView, getInternalNode } = useReactFlow();
+  const { user } = useUser();
 
   // Convex queries
   const board = useQuery(api.boards.get, { boardId });
@@ -68,20 +108,22 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
   const comments = useQuery(api.comments.getByBoard, { boardId });
   const personaNodeAssignments = useQuery(api.personaNodes.getByBoard, { boardId });
   const improvements = useQuery(api.improvements.getByBoard, { boardId });
-
-  // Convex mutations
-  const addNodeMutation = useMutation(api.nodes.addNode);
-  const updatePositionMutation = useMutation(api.nodes.updatePosition);
-  const bulkUpdatePositionsMutation = useMutation(api.nodes.bulkUpdatePositions);
-  const updateNodeDataMutation = useMutation(api.nodes.updateData);
-  const updateDimensionsMutation = useMutation(api.nodes.updateDimensions);
-  const deleteNodeMutation = useMutation(api.nodes.deleteNode);
-  const addEdgeMutation = useMutation(api.edges.addEdge);
-  const updateEdgeLabelMutation = useMutation(api.edges.updateLabel);
-  const deleteEdgeMutation = useMutation(api.edges.deleteEdge);
+  const presence = useQuery(api.presence.getByBoard, { boardId });
+
+  // Convex mutations (canvas edits apply optimistically, so syncing never reverts them)
+  const addNodeMutation = useMutation(api.nodes.addNode).withOptimisticUpdate(optimisticAddNode);
+  const updatePositionMutation = useMutation(api.nodes.updatePosition).withOptimisticUpdate(optimisticUpdatePosition);
+  const bulkUpdatePositionsMutation = useMutation(api.nodes.bulkUpdatePositions).withOptimisticUpdate(optimisticBulkUpdatePositions);
+  const suggestAutoLayoutAction = useAction(api.gemini.suggestAutoLayout);
+  const updateNodeDataMutation = useMutation(api.nodes.updateData).withOptimisticUpdate(optimisticUpdateData);
+  const updateDimensionsMutation = useMutation(api.nodes.updateDimensions).withOptimisticUpdate(optimisticUpdateDimensions);
+  const deleteNodeMutation = useMutation(api.nodes.deleteNode).withOptimisticUpdate(optimisticDeleteNode);
+  const addEdgeMutation = useMutation(api.edges.addEdge).withOptimisticUpdate(optimisticAddEdge);
+  const updateEdgeLabelMutation = useMutation(api.edges.updateLabel).withOptimisticUpdate(optimisticUpdateEdgeLabel);
+  const deleteEdgeMutation = useMutation(api.edges.deleteEdge).withOptimisticUpdate(optimisticDeleteEdge);
   const linkToBoard = useMutation(api.globalScreenshots.linkToBoard);
-  const convertToScreenshotMutation = useMutation(api.nodes.convertToScreenshot);
-  const updateConnectionMutation = useMutation(api.edges.updateConnection);
+  const convertToScreenshotMutation = useMutation(api.nodes.convertToScreenshot).withOptimisticUpdate(optimisticConvertToScreenshot);
+  const updateConnectionMutation = useMutation(api.edges.updateConnection).withOptimisticUpdate(optimisticUpdateConnection);
   const updateBoardTools = useMutation(api.boards.updateTools);
   const createImprovement = useMutation(api.improvements.create);
   const updateImprovement = useMutation(api.improvements.update);
@@ -89,6 +131,13 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
   const generateImprovementAction = useAction(api.gemini.generateImprovement);
   const slackNotifyNewImprovement = useAction(api.slack.notifyNewImprovement);
   const bulkCreateTodos = useMutation(api.improvementTodos.bulkCreate);
+  const applyChangeMutation = useMutation(api.canvasHistory.applyChange);
+  const pasteNodesMutation = useMutation(api.clipboard.pasteNodes);
+  const enqueueJob = useMutation(api.aiJobs.enqueue);
+  const presenceHeartbeat = useMutation(api.presence.heartbeat);
+  const leavePresence = useMutation(api.presence.leave);
+  const claimEditing = useMutation(api.presence.claimEditing);
+  const releaseEditing = useMutation(api.presence.releaseEditing);
 
   // Local React Flow state
   const [nodes, setNodes] = useState<Node[]>([]);
@@ -98,22 +147,164 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
   const [activePersonaId, setActivePersonaId] = useState<string | null>(null);
   const [improvementFilter, setImprovementFilter] = useState<"all" | "open" | "in_progress" | "closed" | "hidden">("all");
   const [generatingNodeIds, setGeneratingNodeIds] = useState<Set<string>>(new Set());
-
-  // Sync blocking: prevents Convex from overwriting local state during/after operations
+  const [autoLayoutRunning, setAutoLayoutRunning] = useState(false);
+  // Last applied auto-layout, undone by passing its inverse back to bulkUpdatePositions
+  const [appliedLayout, setAppliedLayout] = useState<{
+    summary: string;
+    issues: string[];
+    inverse: Awaited<ReturnType<typeof bulkUpdatePositionsMutation>>;
+  } | null>(null);
+  // Regenerated content waiting for review against the improvement's current content
+  const [pendingRegeneration, setPendingRegeneration] = useState<{
+    nodeId: string;
+    connectedIds: string[];
+    result: {
+      title: string;
+      content: string;
+      developerTodos: string;
+      priority: string;
+      structuredTodos?: { text: string; phase?: string }[];
+    };
+  } | null>(null);
+
+  // Node data save that lost a race with someone else's edit, waiting for the user to merge
+  const [dataConflict, setDataConflict] = useState<{
+    nodeId: string;
+    mine: Record<string, unknown>;
+    theirs: Record<string, unknown>;
+    merged: Record<string, unknown>;
+    conflicts: string[];
+    revision: number;
+  } | null>(null);
+
+  // Dragging: local positions lead until the drop is saved
   const isDragging = useRef(false);
-  const syncBlockedUntil = useRef(0);
   const hasInitialized = useRef(false);
 
   // Edge selection: ref to track selected edge for z-reordering
   const selectedEdgeRef = useRef<string | null>(null);
 
-  // Block sync for a given duration (ms) after a local mutation
-  const blockSync = useCallback((durationMs: number = 2000) => {
-    syncBlockedUntil.current = Date.now() + durationMs;
-  }, []);
+  // Undo/redo: every canvas edit is recorded as a change that can be replayed
+  // in reverse on the server
+  const recordChange = useCanvasHistoryStore((s) => s.record);
+  const [historyNotice, setHistoryNotice] = useState<string | null>(null);
+  const historyBusy = useRef(false);
+
+  useEffect(() => {
+    useCanvasHistoryStore.getState().reset(boardId);
+  }, [boardId]);
+
+  const recordNodeChange = useCallback(
+    (nodeId: string, before: Partial<NodeFields> | null, after: Partial<NodeFields> | null) =>
+      recordChange({ nodes: [{ nodeId, before, after }], edges: [], personaNodes: [] }),
+    [recordChange]
+  );
+  const recordEdgeChange = useCallback(
+    (edgeId: string, before: Partial<EdgeFields> | null, after: Partial<EdgeFields> | null) =>
+      recordChange({ nodes: [], edges: [{ edgeId, before, after }], personaNodes: [] }),
+    [recordChange]
+  );
 
-  // Zustand store for undo/redo
-  const store = useFlowStore();
+  // Save node data edited from the given base and revision. If someone else
+  // saved in between, changes to different fields are merged and retried; a
+  // field both changed opens the merge prompt. Resolves to the saved data, or
+  // null when nothing was saved (yet).
+  const saveNodeData = useCallback(
+    async (nodeId: string, base: Record<string, unknown>, data: Record<string, unknown>, revision: number) => {
+      const result = await updateNodeDataMutation({ boardId, nodeId, data, expectedRevision: revision });
+      if (result.ok) return data;
+      if (result.reason !== "stale") return null;
+      const { merged, conflicts } = mergeNodeData(base, data, result.data ?? {});
+      if (conflicts.length > 0) {
+        setDataConflict({ nodeId, mine: data, theirs: result.data ?? {}, merged, conflicts, revision: result.revision });
+        return null;
+      }
+      const retry = await updateNodeDataMutation({ boardId, nodeId, data: merged, expectedRevision: result.revision });
+      return retry.ok ? merged : null;
+    },
+    [boardId, updateNodeDataMutation]
+  );
+
+  // Presence: one session per tab, so the same person in two tabs shows up twice
+  const [sessionId] = useState(() => nanoid(12));
+  const pendingCursor = useRef<{ x: number; y: number } | null | undefined>(undefined);
+  const cursorTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const sendPresence = useCallback(
+    (update: { cursor?: { x: number; y: number } | null; selectedNodeIds?: string[] } = {}) => {
+      if (!user) return;
+      presenceHeartbeat({
+        boardId,
+        sessionId,
+        userId: user.id,
+        name: user.fullName || user.firstName || "User",
+        imageUrl: user.imageUrl || undefined,
+        ...update,
+      }).catch(() => {});
+    },
+    [boardId, sessionId, user, presenceHeartbeat]
+  );
+
+  useEffect(() => {
+    if (!user) return;
+    sendPresence();
+    const interval = setInterval(() => sendPresence(), PRESENCE_HEARTBEAT_MS);
+    const leave = () => {
+      leavePresence({ sessionId }).catch(() => {});
+    };
+    window.addEventListener("beforeunload", leave);
+    return () => {
+      clearInterval(interval);
+      if (cursorTimer.current) clearTimeout(cursorTimer.current);
+      window.removeEventListener("beforeunload", leave);
+      leave();
+    };
+  }, [user, sessionId, sendPresence, leavePresence]);
+
+  const trackCursor = useCallback(
+    (cursor: { x: number; y: number } | null) => {
+      pendingCursor.current = cursor;
+      if (cursorTimer.current) return;
+      cursorTimer.current = setTimeout(() => {
+        cursorTimer.current = null;
+        sendPresence({ cursor: pendingCursor.current });
+      }, CURSOR_THROTTLE_MS);
+    },
+    [sendPresence]
+  );
+
+  const others = useMemo(
+    () => (presence ?? []).filter((p) => p.sessionId !== sessionId),
+    [presence, sessionId]
+  );
+
+  // One avatar per person, however many tabs they have open
+  const collaborators = useMemo(() => {
+    const byUser = new Map<string, (typeof others)[number]>();
+    for (const p of others) {
+      if (p.userId !== user?.id && !byUser.has(p.userId)) byUser.set(p.userId, p);
+    }
+    return Array.from(byUser.values());
+  }, [others, user?.id]);
+
+  // Edit locks for text editing, see presence.claimEditing
+  const startEditingNode = useCallback(
+    async (nodeId: string) => {
+      const result = await claimEditing({ boardId, sessionId, nodeId });
+      if (!result.ok) {
+        alert(`${result.lockedBy} is editing this node right now.`);
+      }
+      return result.ok;
+    },
+    [boardId, sessionId, claimEditing]
+  );
+
+  const stopEditingNode = useCallback(
+    (nodeId: string) => {
+      releaseEditing({ sessionId, nodeId }).catch(() => {});
+    },
+    [sessionId, releaseEditing]
+  );
 
   // Build persona lookup map
   const personaMap = new Map<string, { name: string; color: string }>();
@@ -164,11 +355,17 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     }
   }
 
-  // Sync from Convex -> local state (blocked during drag/resize/mutation)
+  // Sync from Convex -> local state (skipped while dragging; local edits show through optimistic updates)
   useEffect(() => {
-    if (!dbNodes || isDragging.current || Date.now() < syncBlockedUntil.current) return;
+    if (!dbNodes || isDragging.current) return;
+
+    // React Flow wants sections before the nodes they own, and members
+    // positioned relative to their section; stored positions are absolute
+    const sectionsById = new Map(dbNodes.filter((n) => n.type === "section").map((n) => [n.nodeId, n]));
+    const orderedNodes = [...dbNodes].sort((a, b) => Number(b.type === "section") - Number(a.type === "section"));
 
-    const flowNodes: Node[] = dbNodes.map((n: any) => {
+    const flowNodes: Node[] = orderedNodes.map((n) => {
+      const parent = n.parentId ? sectionsById.get(n.parentId) : undefined;
       // Look up multi-persona info
       const assignedPersonas = nodePersonaMap.get(n.nodeId) || [];
       const commentCount = commentCountMap.get(n.nodeId) || 0;
@@ -251,7 +448,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
             const impRecord = improvementMap.get(n.nodeId);
             if (impRecord) {
               clearImprovementContent({ improvementId: impRecord._id });
-              updateNodeDataMutation({ boardId, nodeId: n.nodeId, data: { text: "New improvement" } });
+              saveNodeData(n.nodeId, n.data, { ...n.data, text: "New improvement" }, n.revision ?? 0);
             }
           },
           onUpdateField: (field: string, value: string) => {
@@ -263,7 +460,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
               });
               // Also update title on canvas node if that's the field
               if (field === "title") {
-                updateNodeDataMutation({ boardId, nodeId: n.nodeId, data: { text: value } });
+                saveNodeData(n.nodeId, n.data, { ...n.data, text: value }, n.revision ?? 0);
               }
             }
           },
@@ -276,8 +473,11 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
       return {
         id: n.nodeId,
         type: n.type,
-        position: n.position,
-        hidden: improvementHidden,
+        position: parent
+          ? { x: n.position.x - parent.position.x, y: n.position.y - parent.position.y }
+          : n.position,
+        ...(parent ? { parentId: parent.nodeId } : {}),
+        hidden: improvementHidden || !!parent?.data?.collapsed,
         ...(n.type === "section" ? { zIndex: -1000 } : {}),
         style: {
           ...(n.type === "screenshot"
@@ -285,7 +485,9 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
             : n.type === "improvement"
               ? { width: n.width || 380 }
               : n.type === "section"
-                ? { width: n.width || 800, height: n.height || 400 }
+                ? n.data?.collapsed
+                  ? { width: COLLAPSED_SECTION_WIDTH, height: COLLAPSED_SECTION_HEIGHT }
+                  : { width: n.width || DEFAULT_SECTION_WIDTH, height: n.height || DEFAULT_SECTION_HEIGHT }
                 : n.type === "divider"
                   ? {
                       width: n.width || (n.data?.orientation === "vertical" ? 30 : 600),
@@ -305,51 +507,64 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
           // Resize callback — persists dimensions to Convex
           // Improvement nodes only persist width (height auto-sizes to content)
           onNodeResized: (width: number, height: number) => {
-            blockSync(2000);
-            updateDimensionsMutation({
-              boardId,
-              nodeId: n.nodeId,
+            const size = {
               width: Math.round(width),
               ...(n.type !== "improvement" ? { height: Math.round(height) } : {}),
-            });
+            };
+            updateDimensionsMutation({ boardId, nodeId: n.nodeId, ...size });
+            const { width: beforeWidth, height: beforeHeight } = nodeSnapshot(n);
+            recordNodeChange(
+              n.nodeId,
+              { width: beforeWidth, ...("height" in size ? { height: beforeHeight } : {}) },
+              size
+            );
           },
+          ...((n.type === "text" || n.type === "improvement")
+            ? {
+                onStartEditing: () => startEditingNode(n.nodeId),
+                onStopEditing: () => stopEditingNode(n.nodeId),
+              }
+            : {}),
           ...((n.type === "text" || n.type === "attention" || n.type === "improvement" || n.type === "divider" || n.type === "section")
             ? {
-                onTextChange: (text: string) => {
-                  updateNodeDataMutation({
-                    boardId,
-                    nodeId: n.nodeId,
-                    data: { ...n.data, [n.type === "divider" || n.type === "section" ? "label" : "text"]: text },
-                  });
+                onTextChange: async (text: string) => {
+                  const data = { ...n.data, [n.type === "divider" || n.type === "section" ? "label" : "text"]: text };
+                  const saved = await saveNodeData(n.nodeId, n.data, data, n.revision ?? 0);
+                  if (!saved) return;
                   // Also update improvement title
                   if (n.type === "improvement") {
                     const imp = improvementMap.get(n.nodeId);
-                    if (imp) {
-                      updateImprovement({ improvementId: imp._id, title: text });
+                    if (imp && typeof saved.text === "string") {
+                      updateImprovement({ improvementId: imp._id, title: saved.text });
                     }
+                  } else {
+                    // Improvement titles live in the improvements table too, which undo doesn't cover
+                    recordNodeChange(n.nodeId, { data: n.data }, { data: saved });
                   }
                 },
               }
             : {}),
           ...(n.type === "section"
             ? {
-                onColorChange: (color: string) => {
-                  updateNodeDataMutation({
-                    boardId,
-                    nodeId: n.nodeId,
-                    data: { ...n.data, color },
-                  });
+                memberSummary: summarizeMembers(sectionMembers(dbNodes, n.nodeId)),
+                onColorChange: async (color: string) => {
+                  const saved = await saveNodeData(n.nodeId, n.data, { ...n.data, color }, n.revision ?? 0);
+                  if (saved) recordNodeChange(n.nodeId, { data: n.data }, { data: saved });
+                },
+                onToggleCollapsed: async () => {
+                  const saved = await saveNodeData(n.nodeId, n.data, { ...n.data, collapsed: !n.data?.collapsed }, n.revision ?? 0);
+                  if (saved) recordNodeChange(n.nodeId, { data: n.data }, { data: saved });
                 },
+                onSectionResized: (frame: { x: number; y: number; width: number; height: number }) =>
+                  handleSectionResized(n.nodeId, frame),
+                onAnalyze: (kind: SectionActionKind) => handleAnalyzeSection(n.nodeId, kind),
               }
             : {}),
           ...(n.type === "divider"
             ? {
-                onOrientationChange: (orientation: string) => {
-                  updateNodeDataMutation({
-                    boardId,
-                    nodeId: n.nodeId,
-                    data: { ...n.data, orientation },
-                  });
+                onOrientationChange: async (orientation: string) => {
+                  const saved = await saveNodeData(n.nodeId, n.data, { ...n.data, orientation }, n.revision ?? 0);
+                  if (saved) recordNodeChange(n.nodeId, { data: n.data }, { data: saved });
                 },
               }
             : {}),
@@ -359,12 +574,16 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     });
 
     setNodes(flowNodes);
-    store.setNodes(flowNodes);
 
     // Fit view only on first load
     if (!hasInitialized.current && flowNodes.length > 0) {
       hasInitialized.current = true;
-      setTimeout(() => fitView({ padding: 0.2 }), 100);
+      if (focusNodeId && flowNodes.some((n) => n.id === focusNodeId)) {
+        setSelectedNodeId(focusNodeId);
+        setTimeout(() => fitView({ nodes: [{ id: focusNodeId }], duration: 400, padding: 0.5 }), 100);
+      } else {
+        setTimeout(() => fitView({ padding: 0.2 }), 100);
+      }
     }
   }, [dbNodes, dbEdges, personas, comments, personaNodeAssignments, activePersonaId, improvements, improvementFilter, generatingNodeIds]); // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -396,15 +615,16 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         data: {
           onLabelChange: (label: string) => {
             updateEdgeLabelMutation({ boardId, edgeId: e.edgeId, label });
+            recordEdgeChange(e.edgeId, { label: e.label ?? "" }, { label });
           },
           onDelete: () => {
             deleteEdgeMutation({ boardId, edgeId: e.edgeId });
+            recordEdgeChange(e.edgeId, edgeSnapshot(e), null);
           },
         },
       };
     });
     setEdges(flowEdges);
-    store.setEdges(flowEdges);
   }, [dbEdges, activePersonaId]); // eslint-disable-line react-hooks/exhaustive-deps
 
   // Handle node changes (position, selection, removal, resize)
@@ -434,10 +654,38 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     [deleteEdgeMutation, boardId]
   );
 
+  // Record deletions (keyboard or selection) as one change, with the connected
+  // edges and persona assignments the server removes along with the nodes
+  const onDelete = useCallback(
+    ({ nodes: deletedNodes, edges: deletedEdges }: { nodes: Node[]; edges: Edge[] }) => {
+      const nodeIds = new Set(deletedNodes.map((n) => n.id));
+      const edgeIds = new Set(deletedEdges.map((e) => e.id));
+      recordChange({
+        nodes: (dbNodes ?? [])
+          .filter((n) => nodeIds.has(n.nodeId))
+          .map((n) => ({ nodeId: n.nodeId, before: nodeSnapshot(n), after: null })),
+        edges: (dbEdges ?? [])
+          .filter((e) => edgeIds.has(e.edgeId) || nodeIds.has(e.source) || nodeIds.has(e.target))
+          .map((e) => ({ edgeId: e.edgeId, before: edgeSnapshot(e), after: null })),
+        personaNodes: (personaNodeAssignments ?? [])
+          .filter((pn) => nodeIds.has(pn.nodeId))
+          .map((pn) => ({ nodeId: pn.nodeId, personaId: pn.personaId, before: true, after: false })),
+      });
+    },
+    [dbNodes, dbEdges, personaNodeAssignments, recordChange]
+  );
+
   // Handle new connections
   const onConnect = useCallback(
     (connection: Connection) => {
       const edgeId = `e-${nanoid(8)}`;
+      const fields = {
+        source: connection.source,
+        target: connection.target,
+        sourceHandle: connection.sourceHandle ?? undefined,
+        targetHandle: connection.targetHandle ?? undefined,
+        type: "labeled",
+      };
       const newEdge: Edge = {
         ...connection,
         id: edgeId,
@@ -446,40 +694,39 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         data: {
           onLabelChange: (label: string) => {
             updateEdgeLabelMutation({ boardId, edgeId, label });
+            recordEdgeChange(edgeId, { label: "" }, { label });
           },
           onDelete: () => {
             deleteEdgeMutation({ boardId, edgeId });
+            recordEdgeChange(edgeId, edgeSnapshot(fields), null);
           },
         },
       };
       setEdges((eds) => addEdge(newEdge, eds));
-      addEdgeMutation({
-        boardId,
-        edgeId,
-        source: connection.source,
-        target: connection.target,
-        sourceHandle: connection.sourceHandle ?? undefined,
-        targetHandle: connection.targetHandle ?? undefined,
-        type: "labeled",
-      });
+      addEdgeMutation({ boardId, edgeId, ...fields });
+      recordEdgeChange(edgeId, null, edgeSnapshot(fields));
     },
-    [boardId, addEdgeMutation, updateEdgeLabelMutation, deleteEdgeMutation]
+    [boardId, addEdgeMutation, updateEdgeLabelMutation, deleteEdgeMutation, recordEdgeChange]
   );
 
   // Handle edge reconnection (drag an edge endpoint to a new handle)
   const onReconnect = useCallback(
     (oldEdge: Edge, newConnection: Connection) => {
       setEdges((eds) => reconnectEdge(oldEdge, newConnection, eds));
-      updateConnectionMutation({
-        boardId,
-        edgeId: oldEdge.id,
+      const connection = {
         source: newConnection.source,
         target: newConnection.target,
         sourceHandle: newConnection.sourceHandle ?? undefined,
         targetHandle: newConnection.targetHandle ?? undefined,
-      });
+      };
+      updateConnectionMutation({ boardId, edgeId: oldEdge.id, ...connection });
+      const dbEdge = dbEdges?.find((e) => e.edgeId === oldEdge.id);
+      if (dbEdge) {
+        const { source, target, sourceHandle, targetHandle } = edgeSnapshot(dbEdge);
+        recordEdgeChange(oldEdge.id, { source, target, sourceHandle, targetHandle }, connection);
+      }
     },
-    [boardId, updateConnectionMutation]
+    [boardId, dbEdges, updateConnectionMutation, recordEdgeChange]
   );
 
   // Dragging: block Convex sync while dragging, persist ALL dragged nodes on stop
@@ -487,36 +734,125 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     isDragging.current = true;
   }, []);
 
+  // Rendered size of a node, for deciding which section it was dropped in
+  const measuredSize = useCallback(
+    (nodeId: string) => {
+      const measured = getInternalNode(nodeId)?.measured;
+      return measured?.width && measured?.height ? { width: measured.width, height: measured.height } : undefined;
+    },
+    [getInternalNode]
+  );
+
   const onNodeDragStop = useCallback(
     (_: React.MouseEvent, _node: Node, draggedNodes: Node[]) => {
-      // Save ALL dragged nodes (handles multi-select drag)
-      if (draggedNodes.length === 1) {
-        // Single node drag — use simple mutation
-        updatePositionMutation({
-          boardId,
-          nodeId: draggedNodes[0].id,
-          position: draggedNodes[0].position,
-        });
-        store.updateNodePosition(draggedNodes[0].id, draggedNodes[0].position);
-      } else if (draggedNodes.length > 1) {
-        // Multi-node drag — use bulk mutation
-        bulkUpdatePositionsMutation({
-          boardId,
-          updates: draggedNodes.map((n) => ({
-            nodeId: n.id,
-            position: n.position,
-          })),
-        });
-        for (const n of draggedNodes) {
-          store.updateNodePosition(n.id, n.position);
+      // Positions are saved absolute (React Flow's are relative to the
+      // section). A dragged section takes its members along; any other node
+      // joins the section it's dropped in, or leaves its old one.
+      const draggedIds = new Set(draggedNodes.map((n) => n.id));
+      const absolute = new Map(draggedNodes.map((n) => [n.id, getInternalNode(n.id)?.internals.positionAbsolute ?? n.position]));
+      const sections = (dbNodes ?? [])
+        .filter((n) => n.type === "section")
+        .map((s) => (absolute.has(s.nodeId) ? { ...s, position: absolute.get(s.nodeId)! } : s));
+      const updates: { nodeId: string; position: { x: number; y: number }; parentId?: string | null }[] = [];
+      const entries: CanvasChange["nodes"] = [];
+      for (const n of draggedNodes) {
+        const dbNode = dbNodes?.find((dn) => dn.nodeId === n.id);
+        if (!dbNode) continue;
+        const position = { x: absolute.get(n.id)!.x, y: absolute.get(n.id)!.y };
+        if (dbNode.type === "section") {
+          updates.push({ nodeId: n.id, position });
+          entries.push({ nodeId: n.id, before: { position: dbNode.position }, after: { position } });
+          const dx = position.x - dbNode.position.x;
+          const dy = position.y - dbNode.position.y;
+          for (const member of sectionMembers(dbNodes ?? [], n.id)) {
+            if (draggedIds.has(member.nodeId)) continue;
+            const memberPosition = { x: member.position.x + dx, y: member.position.y + dy };
+            updates.push({ nodeId: member.nodeId, position: memberPosition });
+            entries.push({ nodeId: member.nodeId, before: { position: member.position }, after: { position: memberPosition } });
+          }
+          continue;
         }
+        const parentId = findParentSection({ ...dbNode, position }, sections, measuredSize(n.id)) ?? null;
+        const before = dbNode.parentId ?? null;
+        const parentChange = parentId !== before;
+        updates.push({ nodeId: n.id, position, ...(parentChange ? { parentId } : {}) });
+        entries.push({
+          nodeId: n.id,
+          before: { position: dbNode.position, ...(parentChange ? { parentId: before } : {}) },
+          after: { position, ...(parentChange ? { parentId } : {}) },
+        });
+      }
+
+      if (updates.length === 1) {
+        updatePositionMutation({ boardId, ...updates[0] });
+      } else if (updates.length > 1) {
+        bulkUpdatePositionsMutation({ boardId, updates });
       }
+      recordChange({ nodes: entries, edges: [], personaNodes: [] });
 
       isDragging.current = false;
-      // Block sync for 2s to let mutations propagate before Convex overwrites
-      blockSync(2000);
     },
-    [boardId, updatePositionMutation, bulkUpdatePositionsMutation, store, blockSync]
+    [boardId, dbNodes, getInternalNode, measuredSize, updatePositionMutation, bulkUpdatePositionsMutation, recordChange]
+  );
+
+  // Resizing a section saves its new frame (the top-left moves when dragging
+  // those edges) and re-decides membership: nodes now inside join it, members
+  // left outside are released
+  const handleSectionResized = useCallback(
+    (sectionId: string, frame: { x: number; y: number; width: number; height: number }) => {
+      const section = dbNodes?.find((n) => n.nodeId === sectionId);
+      if (!dbNodes || !section) return;
+      const size = { width: Math.round(frame.width), height: Math.round(frame.height) };
+      const position = { x: frame.x, y: frame.y };
+      const sections = dbNodes
+        .filter((n) => n.type === "section")
+        .map((s) => (s.nodeId === sectionId ? { ...s, position, ...size } : s));
+      const updates: { nodeId: string; position: { x: number; y: number }; parentId?: string | null }[] = [];
+      const entries: CanvasChange["nodes"] = [{
+        nodeId: sectionId,
+        before: { position: section.position, width: section.width, height: section.height },
+        after: { position, ...size },
+      }];
+      if (position.x !== section.position.x || position.y !== section.position.y) {
+        updates.push({ nodeId: sectionId, position });
+      }
+      for (const n of dbNodes) {
+        if (n.type === "section") continue;
+        const parentId = findParentSection(n, sections, measuredSize(n.nodeId)) ?? null;
+        const before = n.parentId ?? null;
+        if (parentId === before || (before !== sectionId && parentId !== sectionId)) continue;
+        updates.push({ nodeId: n.nodeId, position: n.position, parentId });
+        entries.push({ nodeId: n.nodeId, before: { parentId: before }, after: { parentId } });
+      }
+
+      updateDimensionsMutation({ boardId, nodeId: sectionId, ...size });
+      if (updates.length > 0) bulkUpdatePositionsMutation({ boardId, updates });
+      recordChange({ nodes: entries, edges: [], personaNodes: [] });
+    },
+    [boardId, dbNodes, measuredSize, updateDimensionsMutation, bulkUpdatePositionsMutation, recordChange]
+  );
+
+  // Run an AI report job on just the screens a section owns
+  const handleAnalyzeSection = useCallback(
+    async (sectionId: string, kind: SectionActionKind) => {
+      const section = dbNodes?.find((n) => n.nodeId === sectionId);
+      const screens = sectionMembers(dbNodes ?? [], sectionId).filter((n) => n.type === "screenshot");
+      if (screens.length === 0) {
+        alert(`"${section?.data?.label || "This section"}" has no screens to analyze.`);
+        return;
+      }
+      try {
+        await enqueueJob({
+          boardId,
+          kind,
+          args: { sectionId },
+          createdByName: user?.fullName || user?.firstName || undefined,
+        });
+      } catch (error) {
+        alert(`Failed to start analysis: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [boardId, dbNodes, enqueueJob, user]
   );
 
   // Handle drag-and-drop from sidebar
@@ -528,8 +864,6 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
   const onDrop = useCallback(
     (e: React.DragEvent) => {
       e.preventDefault();
-      // Block sync to prevent overwriting existing node positions/sizes
-      blockSync(2000);
 
       try {
         const jsonData = e.dataTransfer.getData("application/json");
@@ -545,8 +879,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
           // Check if dropped on an existing text node (for conversion)
           const targetNode = nodes.find((n) => {
             if (n.type !== "text") return false;
-            const nx = n.position.x;
-            const ny = n.position.y;
+            const { x: nx, y: ny } = getInternalNode(n.id)?.internals.positionAbsolute ?? n.position;
             const nw = (n.style?.width as number) || 300;
             const nh = 80;
             return position.x >= nx && position.x <= nx + nw && position.y >= ny && position.y <= ny + nh;
@@ -562,6 +895,19 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
               platform: data.platform || "",
               globalScreenshotId: data.globalScreenshotId,
             });
+            const dbNode = dbNodes?.find((n) => n.nodeId === targetNode.id);
+            if (dbNode) {
+              recordNodeChange(targetNode.id, { type: dbNode.type, data: dbNode.data, width: dbNode.width }, {
+                type: "screenshot",
+                data: {
+                  imageUrl: data.imageUrl,
+                  label: data.label || "",
+                  platform: data.platform || "",
+                  globalScreenshotId: data.globalScreenshotId,
+                },
+                width: 220,
+              });
+            }
 
             // Link to board if from global repo
             if (data.source === "global" && data.globalScreenshotId) {
@@ -574,11 +920,16 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
           }
 
           const nodeId = `screenshot-${nanoid(8)}`;
+          // Dropped inside a section: it belongs to that section
+          const sections = (dbNodes ?? []).filter((n) => n.type === "section");
+          const parentId = findParentSection({ nodeId, type: "screenshot", position, width: DEFAULT_SCREENSHOT_WIDTH }, sections);
+          const parent = sections.find((s) => s.nodeId === parentId);
 
           const newNode: Node = {
             id: nodeId,
             type: "screenshot",
-            position,
+            position: parent ? { x: position.x - parent.position.x, y: position.y - parent.position.y } : position,
+            ...(parent ? { parentId: parent.nodeId } : {}),
             style: { width: DEFAULT_SCREENSHOT_WIDTH },
             data: {
               imageUrl: data.imageUrl,
@@ -590,9 +941,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
           };
 
           setNodes((nds) => [...nds, newNode]);
-          addNodeMutation({
-            boardId,
-            nodeId,
+          const fields = {
             type: "screenshot",
             position,
             data: {
@@ -603,7 +952,10 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
               globalScreenshotId: data.globalScreenshotId,
             },
             width: DEFAULT_SCREENSHOT_WIDTH,
-          });
+            ...(parentId ? { parentId } : {}),
+          };
+          addNodeMutation({ boardId, nodeId, ...fields });
+          recordNodeChange(nodeId, null, fields);
 
           // Link global screenshot to this board
           if (data.source === "global" && data.globalScreenshotId) {
@@ -617,7 +969,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         // Ignore invalid drops
       }
     },
-    [boardId, screenToFlowPosition, addNodeMutation, linkToBoard, convertToScreenshotMutation, nodes, blockSync]
+    [boardId, screenToFlowPosition, getInternalNode, addNodeMutation, linkToBoard, convertToScreenshotMutation, nodes, dbNodes, recordNodeChange]
   );
 
   // Add text node
@@ -625,62 +977,51 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     const nodeId = `text-${nanoid(8)}`;
     const position = { x: 100 + Math.random() * 200, y: 100 + Math.random() * 200 };
 
+    const fields = { type: "text", position, data: { text: "New annotation" } };
+
     const newNode: Node = {
       id: nodeId,
       type: "text",
       position,
       data: {
-        text: "New annotation",
-        onTextChange: (text: string) => {
-          updateNodeDataMutation({
-            boardId,
-            nodeId,
-            data: { text },
-          });
+        ...fields.data,
+        // Edits before the saved node arrives start from the first revision
+        onTextChange: async (text: string) => {
+          const saved = await saveNodeData(nodeId, fields.data, { text }, 0);
+          if (saved) recordNodeChange(nodeId, { data: fields.data }, { data: saved });
         },
       },
     };
 
     setNodes((nds) => [...nds, newNode]);
-    addNodeMutation({
-      boardId,
-      nodeId,
-      type: "text",
-      position,
-      data: { text: "New annotation" },
-    });
-  }, [boardId, addNodeMutation, updateNodeDataMutation]);
+    addNodeMutation({ boardId, nodeId, ...fields });
+    recordNodeChange(nodeId, null, fields);
+  }, [boardId, addNodeMutation, saveNodeData, recordNodeChange]);
 
   // Add attention node
   const handleAddAttention = useCallback(() => {
     const nodeId = `attention-${nanoid(8)}`;
     const position = { x: 100 + Math.random() * 200, y: 100 + Math.random() * 200 };
 
+    const fields = { type: "attention", position, data: { text: "Needs investigation" } };
+
     const newNode: Node = {
       id: nodeId,
       type: "attention",
       position,
       data: {
-        text: "Needs investigation",
-        onTextChange: (text: string) => {
-          updateNodeDataMutation({
-            boardId,
-            nodeId,
-            data: { text },
-          });
+        ...fields.data,
+        onTextChange: async (text: string) => {
+          const saved = await saveNodeData(nodeId, fields.data, { text }, 0);
+          if (saved) recordNodeChange(nodeId, { data: fields.data }, { data: saved });
         },
       },
     };
 
     setNodes((nds) => [...nds, newNode]);
-    addNodeMutation({
-      boardId,
-      nodeId,
-      type: "attention",
-      position,
-      data: { text: "Needs investigation" },
-    });
-  }, [boardId, addNodeMutation, updateNodeDataMutation]);
+    addNodeMutation({ boardId, nodeId, ...fields });
+    recordNodeChange(nodeId, null, fields);
+  }, [boardId, addNodeMutation, saveNodeData, recordNodeChange]);
 
   // Add improvement node
   const handleAddImprovement = useCallback(async () => {
@@ -707,17 +1048,13 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     };
 
     setNodes((nds) => [...nds, newNode]);
-    addNodeMutation({
-      boardId,
-      nodeId,
-      type: "improvement",
-      position,
-      data: { text: "New improvement" },
-    });
+    const fields = { type: "improvement", position, data: { text: "New improvement" } };
+    addNodeMutation({ boardId, nodeId, ...fields });
+    recordNodeChange(nodeId, null, fields);
 
     // Fire-and-forget Slack notification
     slackNotifyNewImprovement({ improvementId: result.id, boardId }).catch(() => {});
-  }, [boardId, addNodeMutation, createImprovement, slackNotifyNewImprovement]);
+  }, [boardId, addNodeMutation, createImprovement, slackNotifyNewImprovement, recordNodeChange]);
 
   // Add divider node
   const handleAddDivider = useCallback(() => {
@@ -736,16 +1073,10 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     };
 
     setNodes((nds) => [...nds, newNode]);
-    addNodeMutation({
-      boardId,
-      nodeId,
-      type: "divider",
-      position,
-      data: { label: "", orientation: "horizontal" },
-      width: 600,
-      height: 30,
-    });
-  }, [boardId, addNodeMutation]);
+    const fields = { type: "divider", position, data: { label: "", orientation: "horizontal" }, width: 600, height: 30 };
+    addNodeMutation({ boardId, nodeId, ...fields });
+    recordNodeChange(nodeId, null, fields);
+  }, [boardId, addNodeMutation, recordNodeChange]);
 
   // Add section node
   const handleAddSection = useCallback(() => {
@@ -765,16 +1096,81 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     };
 
     setNodes((nds) => [...nds, newNode]);
-    addNodeMutation({
-      boardId,
-      nodeId,
-      type: "section",
-      position,
-      data: { label: "Section", color: "blue" },
-      width: 800,
-      height: 400,
+    const fields = { type: "section", position, data: { label: "Section", color: "blue" }, width: 800, height: 400 };
+    addNodeMutation({ boardId, nodeId, ...fields });
+    recordNodeChange(nodeId, null, fields);
+  }, [boardId, addNodeMutation, recordNodeChange]);
+
+  // Group screens into stages and arrange them inside new sections
+  const handleAutoLayout = useCallback(async () => {
+    if (!confirm("Arrange all screens into stages? Existing sections are replaced by one section per stage. You can undo this afterwards.")) return;
+    setAutoLayoutRunning(true);
+    try {
+      const plan = await suggestAutoLayoutAction({
+        boardId,
+        nodeSizes: nodes
+          .filter((n) => n.measured?.width && n.measured?.height)
+          .map((n) => ({ nodeId: n.id, width: n.measured!.width!, height: n.measured!.height! })),
+      });
+      if (plan.error) {
+        alert(plan.error);
+        return;
+      }
+      const inverse = await bulkUpdatePositionsMutation({
+        boardId,
+        updates: plan.positions,
+        addSections: plan.addSections,
+        removeSectionIds: plan.removeSectionIds,
+      });
+      const screenCount = plan.stages.reduce((sum, stage) => sum + stage.nodeIds.length, 0);
+      setAppliedLayout({
+        summary: `Arranged ${screenCount} screen${screenCount !== 1 ? "s" : ""} into ${plan.stages.length} stage${plan.stages.length !== 1 ? "s" : ""} (${plan.source === "ai" ? "AI grouping" : "grouped by flow order"})`,
+        issues: plan.issues,
+        inverse,
+      });
+      setTimeout(() => fitView({ padding: 0.2, duration: 400 }), 300);
+    } catch (error) {
+      alert(`Auto-layout failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setAutoLayoutRunning(false);
+    }
+  }, [boardId, nodes, suggestAutoLayoutAction, bulkUpdatePositionsMutation, fitView]);
+
+  const handleUndoAutoLayout = useCallback(async () => {
+    if (!appliedLayout) return;
+    await bulkUpdatePositionsMutation({ boardId, ...appliedLayout.inverse });
+    setAppliedLayout(null);
+  }, [boardId, appliedLayout, bulkUpdatePositionsMutation]);
+
+  // Write generated content to the improvement record and its canvas node
+  const applyGeneratedImprovement = useCallback(async (
+    nodeId: string,
+    connectedIds: string[],
+    result: NonNullable<typeof pendingRegeneration>["result"],
+  ) => {
+    const imp = improvementMap.get(nodeId);
+    if (!imp) return;
+    await updateImprovement({
+      improvementId: imp._id,
+      title: result.title,
+      content: result.content,
+      developerTodos: result.developerTodos,
+      priority: result.priority,
+      connectedNodeIds: connectedIds,
+      generatedByAI: true,
     });
-  }, [boardId, addNodeMutation]);
+    // Update the node title on canvas
+    const node = dbNodes?.find((n) => n.nodeId === nodeId);
+    if (node) saveNodeData(nodeId, node.data, { ...node.data, text: result.title }, node.revision ?? 0);
+    // Create structured todos if AI returned them
+    if (result.structuredTodos && result.structuredTodos.length > 0) {
+      bulkCreateTodos({
+        improvementId: imp._id,
+        boardId,
+        todos: result.structuredTodos,
+      }).catch(() => {});
+    }
+  }, [boardId, updateImprovement, saveNodeData, dbNodes, improvementMap, bulkCreateTodos]);
 
   // Generate improvement via AI
   const handleGenerateImprovement = useCallback(async (nodeId: string) => {
@@ -804,33 +1200,13 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         return;
       }
 
-      // Update the improvement record
+      // Regenerating over existing content is reviewed first; a fresh improvement is filled in directly
       const imp = improvementMap.get(nodeId);
-      if (imp) {
-        await updateImprovement({
-          improvementId: imp._id,
-          title: result.title,
-          content: result.content,
-          developerTodos: result.developerTodos,
-          priority: result.priority,
-          connectedNodeIds: connectedIds,
-          generatedByAI: true,
-        });
-        // Update the node title on canvas
-        updateNodeDataMutation({
-          boardId,
-          nodeId,
-          data: { text: result.title },
-        });
-        // Create structured todos if AI returned them
-        if (result.structuredTodos && result.structuredTodos.length > 0) {
-          bulkCreateTodos({
-            improvementId: imp._id,
-            boardId,
-            todos: result.structuredTodos,
-          }).catch(() => {});
-        }
+      if (imp && (imp.content || imp.developerTodos)) {
+        setPendingRegeneration({ nodeId, connectedIds, result });
+        return;
       }
+      await applyGeneratedImprovement(nodeId, connectedIds, result);
     } finally {
       setGeneratingNodeIds((prev) => {
         const next = new Set(prev);
@@ -838,36 +1214,145 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         return next;
       });
     }
-  }, [boardId, dbEdges, generateImprovementAction, updateImprovement, updateNodeDataMutation, improvementMap, bulkCreateTodos]);
+  }, [boardId, dbEdges, generateImprovementAction, improvementMap, applyGeneratedImprovement]);
+
+  // Undo/Redo keyboard shortcuts: replay the recorded change (inverted for
+  // undo) on the server, so the result syncs to everyone on the board
+  const applyHistoryStep = useCallback(async (direction: "undo" | "redo") => {
+    const history = useCanvasHistoryStore.getState();
+    const stack = direction === "undo" ? history.past : history.future;
+    if (historyBusy.current || stack.length === 0) return;
+    const change = stack[stack.length - 1];
+    historyBusy.current = true;
+    try {
+      const result = await applyChangeMutation({
+        boardId,
+        change: direction === "undo" ? invertChange(change) : change,
+      });
+      if (direction === "undo") history.undone();
+      else history.redone();
+      setHistoryNotice(
+        result.conflicts.length > 0
+          ? `${direction === "undo" ? "Undo" : "Redo"} skipped ${result.conflicts.length} change${result.conflicts.length !== 1 ? "s" : ""}: ${result.conflicts.join("; ")}`
+          : null
+      );
+    } catch (error) {
+      setHistoryNotice(`${direction === "undo" ? "Undo" : "Redo"} failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      historyBusy.current = false;
+    }
+  }, [boardId, applyChangeMutation]);
+
+  // Clipboard: copying stores which nodes to copy, pasting has the server copy
+  // their current state (with edges, personas and improvements) into this board
+  const lastPointer = useRef<{ x: number; y: number } | null>(null);
+
+  const copySelection = useCallback(() => {
+    const nodeIds = nodes.filter((n) => n.selected).map((n) => n.id);
+    if (nodeIds.length === 0) return false;
+    localStorage.setItem(CLIPBOARD_KEY, JSON.stringify({ sourceBoardId: boardId, nodeIds }));
+    return true;
+  }, [nodes, boardId]);
+
+  const pasteNodes = useCallback(
+    async (sourceBoardId: Id<"boards">, nodeIds: string[], position: { x: number; y: number }) => {
+      try {
+        const result = await pasteNodesMutation({
+          sourceBoardId,
+          nodeIds,
+          targetBoardId: boardId,
+          position,
+          createdById: user?.id,
+          createdByName: user?.fullName || user?.firstName || undefined,
+        });
+        if (result.nodeIds.length === 0) {
+          alert("The copied screens no longer exist.");
+          return;
+        }
+        recordChange(result.change);
+      } catch (error) {
+        alert(`Failed to paste: ${error instanceof Error ? error.message : error}`);
+      }
+    },
+    [boardId, pasteNodesMutation, user, recordChange]
+  );
+
+  const pasteClipboard = useCallback(() => {
+    let clipboard: { sourceBoardId: Id<"boards">; nodeIds: string[] } | null = null;
+    try {
+      clipboard = JSON.parse(localStorage.getItem(CLIPBOARD_KEY) || "null");
+    } catch {
+      clipboard = null;
+    }
+    if (!clipboard || clipboard.nodeIds.length === 0) return false;
+    // At the cursor, or next to the originals when pasting into the same board
+    let position = lastPointer.current;
+    if (!position) {
+      const originals = (dbNodes ?? []).filter((n) => clipboard!.nodeIds.includes(n.nodeId));
+      position = originals.length > 0
+        ? {
+            x: Math.min(...originals.map((n) => n.position.x)) + DUPLICATE_OFFSET,
+            y: Math.min(...originals.map((n) => n.position.y)) + DUPLICATE_OFFSET,
+          }
+        : screenToFlowPosition({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+    }
+    pasteNodes(clipboard.sourceBoardId, clipboard.nodeIds, position);
+    return true;
+  }, [dbNodes, pasteNodes, screenToFlowPosition]);
+
+  const duplicateSelection = useCallback(() => {
+    const selectedIds = new Set(nodes.filter((n) => n.selected).map((n) => n.id));
+    const selected = (dbNodes ?? []).filter((n) => selectedIds.has(n.nodeId));
+    if (selected.length === 0) return false;
+    pasteNodes(boardId, selected.map((n) => n.nodeId), {
+      x: Math.min(...selected.map((n) => n.position.x)) + DUPLICATE_OFFSET,
+      y: Math.min(...selected.map((n) => n.position.y)) + DUPLICATE_OFFSET,
+    });
+    return true;
+  }, [nodes, dbNodes, boardId, pasteNodes]);
 
-  // Undo/Redo keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === "z") {
+      // Leave undo and copy/paste inside text fields to the browser
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const key = e.key.toLowerCase();
+      if (key === "z") {
         e.preventDefault();
-        if (e.shiftKey) {
-          const future = useFlowStore.temporal.getState().futureStates;
-          if (future.length > 0) {
-            useFlowStore.temporal.getState().redo();
-            const state = useFlowStore.getState();
-            setNodes(state.nodes);
-            setEdges(state.edges);
-          }
-        } else {
-          const past = useFlowStore.temporal.getState().pastStates;
-          if (past.length > 0) {
-            useFlowStore.temporal.getState().undo();
-            const state = useFlowStore.getState();
-            setNodes(state.nodes);
-            setEdges(state.edges);
-          }
-        }
+        applyHistoryStep(e.shiftKey ? "redo" : "undo");
+      } else if (key === "y") {
+        e.preventDefault();
+        applyHistoryStep("redo");
+      } else if (key === "c") {
+        if (copySelection()) e.preventDefault();
+      } else if (key === "v") {
+        if (pasteClipboard()) e.preventDefault();
+      } else if (key === "d") {
+        // Also keeps the browser's bookmark shortcut from firing on the canvas
+        e.preventDefault();
+        duplicateSelection();
       }
     };
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, []);
+  }, [applyHistoryStep, copySelection, pasteClipboard, duplicateSelection]);
+
+  // Save the user's pick from the merge prompt; it may lose another race and prompt again
+  const handleResolveDataConflict = useCallback(async (data: Record<string, unknown>) => {
+    if (!dataConflict) return;
+    const { nodeId, theirs, revision } = dataConflict;
+    setDataConflict(null);
+    const saved = await saveNodeData(nodeId, theirs, data, revision);
+    if (!saved) return;
+    const imp = improvements?.find((i) => i.nodeId === nodeId);
+    if (imp && typeof saved.text === "string" && saved.text !== theirs.text) {
+      updateImprovement({ improvementId: imp._id, title: saved.text });
+    } else if (!imp) {
+      recordNodeChange(nodeId, { data: theirs }, { data: saved });
+    }
+  }, [dataConflict, saveNodeData, improvements, updateImprovement, recordNodeChange]);
 
   // Track node and edge selection
   // When an edge is selected, move it to the end of the array so it renders on top.
@@ -879,6 +1364,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
       } else {
         setSelectedNodeId(null);
       }
+      sendPresence({ selectedNodeIds: selectedNodes.map((n) => n.id) });
 
       // Bring selected edge to front by moving it to end of array
       if (selectedEdges.length === 1) {
@@ -898,7 +1384,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         selectedEdgeRef.current = null;
       }
     },
-    []
+    [sendPresence]
   );
 
   // Focus/pan to a specific node (used by RightPanel FlowView)
@@ -909,6 +1395,103 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
     [fitView]
   );
 
+  // Ghost overlays for AI proposals being previewed from the chat
+  const preview = useProposalPreviewStore();
+  const proposalPlan = useMemo(() => {
+    if (!preview.visible || !dbNodes || !dbEdges || preview.proposals.length === 0) return null;
+    return planProposals(
+      dbNodes.map((n) => ({ nodeId: n.nodeId, type: n.type, position: n.position, data: n.data, width: n.width })),
+      dbEdges,
+      preview.proposals,
+      { now: 0, proposalIndexes: preview.selected },
+    );
+  }, [preview.visible, preview.proposals, preview.selected, dbNodes, dbEdges]);
+
+  // Outline nodes other people have selected or are editing, in their color
+  const collaboratorNodes = useMemo(() => {
+    if (others.length === 0) return nodes;
+    const selectedBy = new Map<string, string>();
+    const editingBy = new Map<string, { name: string; color: string }>();
+    for (const p of others) {
+      for (const nodeId of p.selectedNodeIds) {
+        if (!selectedBy.has(nodeId)) selectedBy.set(nodeId, p.color);
+      }
+      if (p.editingNodeId) editingBy.set(p.editingNodeId, { name: p.name, color: p.color });
+    }
+    return nodes.map((n) => {
+      const lockedBy = editingBy.get(n.id);
+      const color = lockedBy?.color ?? selectedBy.get(n.id);
+      if (!color) return n;
+      return {
+        ...n,
+        style: { ...n.style, outline: `2px solid ${color}`, outlineOffset: 4, borderRadius: 8 },
+        ...(lockedBy ? { data: { ...n.data, lockedBy } } : {}),
+      };
+    });
+  }, [nodes, others]);
+
+  const displayNodes = useMemo(() => {
+    if (!proposalPlan) return collaboratorNodes;
+    const removed = new Set(proposalPlan.removeNodes.map((r) => r.nodeId));
+    const ghostNodes: Node[] = proposalPlan.addNodes.map((n) => ({
+      id: n.nodeId,
+      type: n.type,
+      position: n.position,
+      data: { ...n.data, ghost: true },
+      style: {
+        ...(n.width ? { width: n.width } : {}),
+        opacity: 0.55,
+        outline: "2px dashed #22c55e",
+        outlineOffset: 4,
+        borderRadius: 8,
+        pointerEvents: "none" as const,
+      },
+      draggable: false,
+      selectable: false,
+      connectable: false,
+      deletable: false,
+    }));
+    return [
+      ...collaboratorNodes.map((n) =>
+        removed.has(n.id)
+          ? { ...n, style: { ...n.style, opacity: 0.35, outline: "2px dashed #ef4444", outlineOffset: 4, borderRadius: 8 } }
+          : n
+      ),
+      ...ghostNodes,
+    ];
+  }, [collaboratorNodes, proposalPlan]);
+
+  const displayEdges = useMemo(() => {
+    if (!proposalPlan) return edges;
+    const removedNodes = new Set(proposalPlan.removeNodes.map((r) => r.nodeId));
+    const removed = new Set(proposalPlan.removeEdges.map((r) => r.edgeId));
+    const relabels = new Map(proposalPlan.relabelEdges.map((r) => [r.edgeId, r.label]));
+    const ghostEdges: Edge[] = proposalPlan.addEdges.map((e) => ({
+      id: e.edgeId,
+      source: e.source,
+      target: e.target,
+      sourceHandle: e.sourceHandle,
+      targetHandle: e.targetHandle,
+      label: e.label,
+      animated: true,
+      selectable: false,
+      deletable: false,
+      style: { stroke: "#22c55e", strokeDasharray: "6 4" },
+    }));
+    return [
+      ...edges.map((e) => {
+        if (removed.has(e.id) || removedNodes.has(e.source) || removedNodes.has(e.target)) {
+          return { ...e, type: "default", selectable: false, style: { stroke: "#ef4444", strokeDasharray: "6 4", opacity: 0.5 } };
+        }
+        if (relabels.has(e.id)) {
+          return { ...e, type: "default", selectable: false, label: `${relabels.get(e.id)} (was: ${e.label || "none"})`, style: { stroke: "#f59e0b" } };
+        }
+        return e;
+      }),
+      ...ghostEdges,
+    ];
+  }, [edges, proposalPlan]);
+
   // Collect screenshotIds that are on the canvas for the sidebar "used" tracking
   const usedScreenshotIds = new Set(
     nodes
@@ -929,26 +1512,76 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
           onAddImprovement={handleAddImprovement}
           onAddDivider={handleAddDivider}
           onAddSection={handleAddSection}
+          onAutoLayout={handleAutoLayout}
+          autoLayoutRunning={autoLayoutRunning}
+          onUndo={() => applyHistoryStep("undo")}
+          onRedo={() => applyHistoryStep("redo")}
           onFitView={() => fitView({ padding: 0.2 })}
           currentVersion={board?.version}
           improvementFilter={improvementFilter}
           onSetImprovementFilter={setImprovementFilter}
           boardToolIds={board?.toolIds as string[] | undefined}
           onUpdateTools={(toolIds) => updateBoardTools({ boardId, toolIds: toolIds as any })}
+          collaborators={collaborators}
         />
         <VersionBanner
           version={board?.version}
           versionNote={board?.versionNote}
           parentBoardId={board?.parentBoardId}
         />
-        <div className="flex-1">
+        <JobsBanner boardId={boardId} />
+        {historyNotice && (
+          <div className="flex items-center gap-2 border-b border-zinc-200 bg-amber-50 px-3 py-1 text-xs dark:border-zinc-700 dark:bg-amber-950/30">
+            <span className="truncate text-amber-700 dark:text-amber-300" title={historyNotice}>{historyNotice}</span>
+            <button
+              onClick={() => setHistoryNotice(null)}
+              className="ml-auto shrink-0 text-[10px] text-zinc-500 hover:text-zinc-700 hover:underline dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        {appliedLayout && (
+          <div className="flex items-center gap-2 border-b border-zinc-200 bg-violet-50 px-3 py-1 text-xs dark:border-zinc-700 dark:bg-violet-950/30">
+            <span className="font-medium text-violet-700 dark:text-violet-300">{appliedLayout.summary}</span>
+            {appliedLayout.issues.length > 0 && (
+              <span className="truncate text-violet-500 dark:text-violet-400" title={appliedLayout.issues.join("\n")}>
+                {appliedLayout.issues.length} note{appliedLayout.issues.length !== 1 ? "s" : ""}
+              </span>
+            )}
+            <button
+              onClick={handleUndoAutoLayout}
+              className="ml-auto shrink-0 text-[10px] font-medium text-violet-700 hover:underline dark:text-violet-300"
+            >
+              Undo layout
+            </button>
+            <button
+              onClick={() => setAppliedLayout(null)}
+              className="shrink-0 text-[10px] text-zinc-500 hover:text-zinc-700 hover:underline dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+        <div
+          className="flex-1"
+          onPointerMove={(e) => {
+            lastPointer.current = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+            trackCursor(lastPointer.current);
+          }}
+          onPointerLeave={() => {
+            lastPointer.current = null;
+            trackCursor(null);
+          }}
+        >
           <ReactFlow
-            nodes={nodes}
-            edges={edges}
+            nodes={displayNodes}
+            edges={displayEdges}
             onNodesChange={onNodesChange}
             onEdgesChange={onEdgesChange}
             onConnect={onConnect}
             onReconnect={onReconnect}
+            onDelete={onDelete}
             edgesReconnectable
             onNodeDragStart={onNodeDragStart}
             onNodeDragStop={onNodeDragStop}
@@ -989,6 +1622,7 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
               }}
               maskColor="rgba(0,0,0,0.1)"
             />
+            <PresenceCursors cursors={others} />
           </ReactFlow>
         </div>
       </div>
@@ -1004,6 +1638,33 @@ export default function FlowCanvas({ boardId, boardName }: FlowCanvasProps) {
         selectedNodeId={selectedNodeId}
         onDeselectNode={() => setSelectedNodeId(null)}
       />
+      {dataConflict && (
+        <NodeDataConflictModal
+          nodeLabel={
+            dbNodes?.find((n) => n.nodeId === dataConflict.nodeId)?.data?.label ||
+            (typeof dataConflict.theirs.text === "string" && dataConflict.theirs.text.slice(0, 40)) ||
+            dataConflict.nodeId
+          }
+          conflicts={dataConflict.conflicts}
+          mine={dataConflict.mine}
+          theirs={dataConflict.theirs}
+          merged={dataConflict.merged}
+          onResolve={handleResolveDataConflict}
+          onCancel={() => setDataConflict(null)}
+        />
+      )}
+      {pendingRegeneration && (
+        <RegenerateImprovementModal
+          current={improvementMap.get(pendingRegeneration.nodeId) || {}}
+          proposed={pendingRegeneration.result}
+          onAccept={() => {
+            const { nodeId, connectedIds, result } = pendingRegeneration;
+            setPendingRegeneration(null);
+            applyGeneratedImprovement(nodeId, connectedIds, result);
+          }}
+          onCancel={() => setPendingRegeneration(null)}
+        />
+      )}
     </div>
   );
 }
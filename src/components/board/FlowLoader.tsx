@@ -16,12 +16,13 @@ const FlowCanvas = dynamic(() => import("./FlowCanvas"), {
 interface FlowLoaderProps {
   boardId: Id<"boards">;
   boardName: string;
+  focusNodeId?: string;
 }
 
-export default function FlowLoader({ boardId, boardName }: FlowLoaderProps) {
+export default function FlowLoader({ boardId, boardName, focusNodeId }: FlowLoaderProps) {
   return (
     <ReactFlowProvider>
-      <FlowCanvas boardId={boardId} boardName={boardName} />
+      <FlowCanvas boardId={boardId} boardName={boardName} focusNodeId={focusNodeId} />
     </ReactFlowProvider>
   );
 }
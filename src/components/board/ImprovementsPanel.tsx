@@ -5,11 +5,13 @@ import { useUser } from "@clerk/nextjs";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
+import type { FunctionReturnType } from "convex/server";
 import type { Node } from "@xyflow/react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import ImprovementCommentThread from "@/components/shared/ImprovementCommentThread";
 import ImprovementTodoList from "@/components/shared/ImprovementTodoList";
+import ImprovementRevisionHistory from "@/components/shared/ImprovementRevisionHistory";
 
 interface ImprovementsPanelProps {
   boardId: Id<"boards">;
@@ -372,6 +374,147 @@ function StatusBadge({ status }: { status: string }) {
   );
 }
 
+type MergeSuggestions = FunctionReturnType<typeof api.gemini.suggestImprovementMerges>;
+
+/**
+ * Finds duplicate improvements with AI and merges an accepted cluster into
+ * its primary improvement (which keeps its IMP number).
+ */
+function DuplicateFinder({ boardId, onClose }: { boardId: Id<"boards">; onClose: () => void }) {
+  const { user } = useUser();
+  const suggestMerges = useAction(api.gemini.suggestImprovementMerges);
+  const mergeImprovements = useMutation(api.improvements.merge);
+
+  const [acrossBoards, setAcrossBoards] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [result, setResult] = useState<MergeSuggestions | null>(null);
+  const [primaryIds, setPrimaryIds] = useState<Record<number, string>>({});
+  const [mergedIndexes, setMergedIndexes] = useState<Set<number>>(new Set());
+  const [mergingIndex, setMergingIndex] = useState<number | null>(null);
+
+  const handleFind = async () => {
+    setLoading(true);
+    setResult(null);
+    setMergedIndexes(new Set());
+    try {
+      const found = await suggestMerges({ boardId, acrossBoards });
+      setResult(found);
+      setPrimaryIds(Object.fromEntries(found.suggestions.map((s, i) => [i, s.primaryId])));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleMerge = async (index: number) => {
+    const suggestion = result?.suggestions[index];
+    if (!suggestion) return;
+    const targetId = (primaryIds[index] || suggestion.primaryId) as Id<"improvements">;
+    const target = suggestion.improvements.find((imp) => imp._id === targetId);
+    if (!confirm(`Merge ${suggestion.improvements.length - 1} improvement(s) into IMP-${String(target?.number ?? 0).padStart(3, "0")}? Todos, comments and history move to it; the others are closed.`)) return;
+
+    setMergingIndex(index);
+    try {
+      await mergeImprovements({
+        targetId,
+        sourceIds: suggestion.improvements.map((imp) => imp._id).filter((id) => id !== targetId),
+        mergedBy: user?.id || "unknown",
+        mergedByName: user?.fullName || user?.firstName || "Unknown",
+      });
+      setMergedIndexes((prev) => new Set(prev).add(index));
+    } catch (error) {
+      alert(`Merge failed: ${error instanceof Error ? error.message : error}`);
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  return (
+    <div className="mb-3 rounded-lg border border-dashed border-emerald-300 bg-emerald-50/50 p-2 dark:border-emerald-700 dark:bg-emerald-950/20">
+      <div className="mb-1.5 flex items-center justify-between">
+        <p className="text-[10px] font-medium text-emerald-700 dark:text-emerald-300">Find Duplicates</p>
+        <button onClick={onClose} className="text-[10px] text-zinc-400 hover:text-zinc-600 dark:hover:text-zinc-300">
+          &times;
+        </button>
+      </div>
+      <div className="flex items-center gap-2">
+        <label className="flex flex-1 items-center gap-1 text-[9px] text-emerald-700/80 dark:text-emerald-400/80">
+          <input
+            type="checkbox"
+            checked={acrossBoards}
+            onChange={(e) => setAcrossBoards(e.target.checked)}
+            className="h-3 w-3"
+          />
+          Also compare with other boards
+        </label>
+        <button
+          onClick={handleFind}
+          disabled={loading}
+          className="shrink-0 rounded bg-emerald-600 px-3 py-1 text-[10px] font-medium text-white hover:bg-emerald-700 disabled:opacity-50"
+        >
+          {loading ? (
+            <span className="flex items-center gap-1">
+              <span className="h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+              Comparing...
+            </span>
+          ) : (
+            "Find"
+          )}
+        </button>
+      </div>
+
+      {result?.error && <p className="mt-1.5 text-[9px] text-red-500">{result.error}</p>}
+      {result && !result.error && result.suggestions.length === 0 && (
+        <p className="mt-1.5 text-[9px] text-emerald-700/80 dark:text-emerald-400/80">
+          No duplicates found among {result.compared} improvements.
+        </p>
+      )}
+
+      {result && result.suggestions.length > 0 && (
+        <div className="mt-2 space-y-1.5">
+          {result.suggestions.map((suggestion, index) => {
+            const merged = mergedIndexes.has(index);
+            return (
+              <div key={index} className="rounded border border-emerald-200 bg-white p-1.5 dark:border-emerald-800 dark:bg-zinc-900">
+                <p className="mb-1 text-[9px] text-zinc-600 dark:text-zinc-400">
+                  <span className="font-medium uppercase text-zinc-400">{suggestion.confidence}</span> — {suggestion.reason}
+                </p>
+                <div className="space-y-0.5">
+                  {suggestion.improvements.map((imp) => (
+                    <label key={imp._id} className="flex items-center gap-1.5 text-[10px] text-zinc-700 dark:text-zinc-300" title="Keep this one">
+                      <input
+                        type="radio"
+                        name={`merge-primary-${index}`}
+                        checked={(primaryIds[index] || suggestion.primaryId) === imp._id}
+                        onChange={() => setPrimaryIds((prev) => ({ ...prev, [index]: imp._id }))}
+                        disabled={merged}
+                        className="h-3 w-3"
+                      />
+                      <span className="shrink-0 rounded bg-emerald-600 px-1 py-0.5 text-[8px] font-bold text-white">
+                        IMP-{String(imp.number).padStart(3, "0")}
+                      </span>
+                      <span className="truncate">{imp.title}</span>
+                      {imp.boardId !== boardId && (
+                        <span className="shrink-0 text-[8px] text-zinc-400">({imp.boardName})</span>
+                      )}
+                    </label>
+                  ))}
+                </div>
+                <button
+                  onClick={() => handleMerge(index)}
+                  disabled={merged || mergingIndex !== null}
+                  className="mt-1 rounded border border-emerald-300 px-2 py-0.5 text-[9px] font-medium text-emerald-700 hover:bg-emerald-50 disabled:opacity-50 dark:border-emerald-700 dark:text-emerald-400 dark:hover:bg-emerald-900/20"
+                >
+                  {merged ? "Merged" : mergingIndex === index ? "Merging..." : "Merge into selected"}
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
+
 export default function ImprovementsPanel({ boardId, nodes, onFocusNode }: ImprovementsPanelProps) {
   const { user } = useUser();
   const improvements = useQuery(api.improvements.getByBoard, { boardId });
@@ -386,6 +529,7 @@ export default function ImprovementsPanel({ boardId, nodes, onFocusNode }: Impro
 
   const [filter, setFilter] = useState<FilterTab>("all");
   const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showDuplicates, setShowDuplicates] = useState(false);
 
   const filtered = improvements?.filter((imp) => {
     if (filter === "open") return imp.status === "open";
@@ -489,19 +633,31 @@ export default function ImprovementsPanel({ boardId, nodes, onFocusNode }: Impro
         <p className="text-[10px] font-medium uppercase tracking-wider text-zinc-400">
           Improvements ({improvements?.length || 0})
         </p>
-        <button
-          onClick={handleExport}
-          disabled={!improvements || improvements.length === 0}
-          className="flex items-center gap-1 rounded border border-zinc-200 px-2 py-0.5 text-[9px] font-medium text-zinc-600 hover:bg-zinc-50 disabled:opacity-30 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
-          title="Export as markdown"
-        >
-          <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
-          </svg>
-          Export
-        </button>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowDuplicates((v) => !v)}
+            disabled={!improvements || improvements.length < 2}
+            className="rounded border border-zinc-200 px-2 py-0.5 text-[9px] font-medium text-zinc-600 hover:bg-zinc-50 disabled:opacity-30 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+            title="Find and merge duplicate improvements"
+          >
+            Duplicates
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!improvements || improvements.length === 0}
+            className="flex items-center gap-1 rounded border border-zinc-200 px-2 py-0.5 text-[9px] font-medium text-zinc-600 hover:bg-zinc-50 disabled:opacity-30 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+            title="Export as markdown"
+          >
+            <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+              <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4M7 10l5 5 5-5M12 15V3" />
+            </svg>
+            Export
+          </button>
+        </div>
       </div>
 
+      {showDuplicates && <DuplicateFinder boardId={boardId} onClose={() => setShowDuplicates(false)} />}
+
       {/* Filter tabs */}
       <div className="mb-3 flex gap-1">
         {([
@@ -544,6 +700,14 @@ export default function ImprovementsPanel({ boardId, nodes, onFocusNode }: Impro
                         IMP-{impNum}
                       </span>
                       <StatusBadge status={imp.status} />
+                      {imp.mergedInto && (
+                        <span
+                          title={imp.mergedInto.boardName ? `Merged into IMP-${String(imp.mergedInto.number).padStart(3, "0")} on ${imp.mergedInto.boardName}` : undefined}
+                          className="rounded bg-zinc-100 px-1.5 py-0.5 text-[8px] font-medium text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400"
+                        >
+                          Merged &rarr; IMP-{String(imp.mergedInto.number).padStart(3, "0")}
+                        </span>
+                      )}
                       {imp.generatedByAI && (
                         <span title="AI-generated" className="flex items-center gap-0.5 text-[8px] text-amber-500">
                           <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -698,6 +862,14 @@ export default function ImprovementsPanel({ boardId, nodes, onFocusNode }: Impro
                     </select>
                   </div>
 
+                  {/* Content revisions */}
+                  <details className="mb-2">
+                    <summary className="cursor-pointer text-[9px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-600">Revision History</summary>
+                    <div className="mt-1">
+                      <ImprovementRevisionHistory improvementId={imp._id as Id<"improvements">} />
+                    </div>
+                  </details>
+
                   {/* Inline comment thread */}
                   <div className="mb-2 border-t border-zinc-100 pt-2 dark:border-zinc-800">
                     <ImprovementCommentThread
@@ -0,0 +1,55 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { JOB_KIND_LABELS } from "./JobsPanel";
+
+interface JobsBannerProps {
+  boardId: Id<"boards">;
+}
+
+/**
+ * Notice for background jobs that finished or failed and haven't been
+ * acknowledged yet, including ones that finished while the board was closed.
+ */
+export default function JobsBanner({ boardId }: JobsBannerProps) {
+  const jobs = useQuery(api.aiJobs.getByBoard, { boardId });
+  const dismissJob = useMutation(api.aiJobs.dismiss);
+
+  const finished = jobs?.filter(
+    (j) => (j.status === "completed" || j.status === "failed") && !j.dismissed
+  ) ?? [];
+  if (finished.length === 0) return null;
+
+  return (
+    <div className="border-b border-zinc-200 dark:border-zinc-700">
+      {finished.map((job) => {
+        const failed = job.status === "failed";
+        return (
+          <div
+            key={job._id}
+            className={`flex items-center gap-2 px-3 py-1 text-xs ${
+              failed
+                ? "bg-red-50 dark:bg-red-950/30"
+                : "bg-green-50 dark:bg-green-950/30"
+            }`}
+          >
+            <span className={`font-medium ${failed ? "text-red-700 dark:text-red-300" : "text-green-700 dark:text-green-300"}`}>
+              {JOB_KIND_LABELS[job.kind] || job.kind} {failed ? "failed" : "finished"}
+            </span>
+            <span className={`truncate ${failed ? "text-red-600 dark:text-red-400" : "text-green-600 dark:text-green-400"}`}>
+              {failed ? job.error : `${job.message || "Done"}${job.result?.reportId ? " — see the Reports tab" : ""}`}
+            </span>
+            <button
+              onClick={() => dismissJob({ jobId: job._id })}
+              className="ml-auto shrink-0 text-[10px] text-zinc-500 hover:text-zinc-700 hover:underline dark:text-zinc-400 dark:hover:text-zinc-200"
+            >
+              Dismiss
+            </button>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,126 @@
+"use client";
+
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface JobsPanelProps {
+  boardId: Id<"boards">;
+}
+
+export const JOB_KIND_LABELS: Record<string, string> = {
+  walkthrough: "UX Walkthrough",
+  report: "Gap Analysis Report",
+  persona_journey: "Persona Journey",
+  terminology: "Terminology Check",
+  accessibility: "Accessibility Audit",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  queued: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400",
+  running: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+  completed: "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300",
+  failed: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  cancelled: "bg-zinc-100 text-zinc-500 dark:bg-zinc-800 dark:text-zinc-500",
+};
+
+export default function JobsPanel({ boardId }: JobsPanelProps) {
+  const jobs = useQuery(api.aiJobs.getByBoard, { boardId });
+  const retryJob = useMutation(api.aiJobs.retry);
+  const cancelJob = useMutation(api.aiJobs.cancel);
+  const removeJob = useMutation(api.aiJobs.remove);
+
+  return (
+    <div className="p-3">
+      <p className="mb-2 text-[10px] font-medium uppercase tracking-wider text-zinc-400">
+        Background Jobs ({jobs?.length || 0})
+      </p>
+
+      <div className="space-y-2">
+        {jobs?.map((job) => {
+          const active = job.status === "queued" || job.status === "running";
+          const percent = job.progress.total > 0
+            ? Math.round((job.progress.completed / job.progress.total) * 100)
+            : 0;
+
+          return (
+            <div key={job._id} className="rounded-lg border border-zinc-200 p-2.5 dark:border-zinc-700">
+              <div className="flex items-start justify-between gap-2">
+                <div className="min-w-0">
+                  <p className="text-xs font-medium text-zinc-800 dark:text-zinc-200">
+                    {JOB_KIND_LABELS[job.kind] || job.kind}
+                  </p>
+                  <p className="mt-0.5 text-[10px] text-zinc-400">
+                    {job.createdByName ? `${job.createdByName} · ` : ""}
+                    {formatRelativeTime(job.createdAt)}
+                    {job.attempts > 1 ? ` · attempt ${job.attempts}` : ""}
+                  </p>
+                </div>
+                <span className={`shrink-0 rounded px-1.5 py-0.5 text-[9px] font-medium capitalize ${STATUS_STYLES[job.status] || STATUS_STYLES.queued}`}>
+                  {job.status}
+                </span>
+              </div>
+
+              {/* Progress */}
+              {(active || job.status === "failed") && job.progress.total > 0 && (
+                <div className="mt-2">
+                  <div className="h-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                    <div
+                      className={`h-full transition-all ${job.status === "failed" ? "bg-red-400" : "bg-blue-500"}`}
+                      style={{ width: `${percent}%` }}
+                    />
+                  </div>
+                  <p className="mt-0.5 text-[9px] text-zinc-400">
+                    {job.progress.completed} / {job.progress.total} ({percent}%)
+                  </p>
+                </div>
+              )}
+
+              {job.message && job.status !== "failed" && (
+                <p className="mt-1 text-[10px] text-zinc-500 dark:text-zinc-400">{job.message}</p>
+              )}
+              {job.error && (
+                <p className="mt-1 text-[10px] text-red-500">{job.error}</p>
+              )}
+
+              {/* Actions */}
+              <div className="mt-2 flex items-center gap-1.5">
+                {active && (
+                  <button
+                    onClick={() => cancelJob({ jobId: job._id })}
+                    className="rounded border border-zinc-200 px-2 py-0.5 text-[9px] font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                  >
+                    Cancel
+                  </button>
+                )}
+                {(job.status === "failed" || job.status === "cancelled") && (
+                  <button
+                    onClick={() => retryJob({ jobId: job._id })}
+                    className="rounded bg-blue-600 px-2 py-0.5 text-[9px] font-medium text-white hover:bg-blue-700"
+                  >
+                    {job.state ? "Resume" : "Retry"}
+                  </button>
+                )}
+                {!active && (
+                  <button
+                    onClick={() => removeJob({ jobId: job._id })}
+                    className="rounded border border-zinc-200 px-2 py-0.5 text-[9px] font-medium text-red-500 hover:bg-red-50 dark:border-zinc-700 dark:hover:bg-red-900/20"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      {(!jobs || jobs.length === 0) && (
+        <p className="py-6 text-center text-[11px] text-zinc-400">
+          No background jobs. Reports and UX walkthroughs started from the Reports tab show up here.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+"use client";
+
+import { useState } from "react";
+import SideBySideDiff from "@/components/shared/SideBySideDiff";
+
+interface NodeDataConflictModalProps {
+  nodeLabel: string;
+  // Keys both you and someone else changed
+  conflicts: string[];
+  mine: Record<string, unknown>;
+  theirs: Record<string, unknown>;
+  // Merge of both sides with your value for each conflicting key
+  merged: Record<string, unknown>;
+  onResolve: (data: Record<string, unknown>) => void;
+  onCancel: () => void;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  text: "Text",
+  label: "Label",
+  color: "Color",
+  orientation: "Orientation",
+};
+
+const asText = (value: unknown) =>
+  value === undefined ? "" : typeof value === "string" ? value : JSON.stringify(value, null, 2);
+
+/**
+ * Shown when saving a node's data lost a race with someone else's edit.
+ * Changes to different fields are merged already; this asks which version to
+ * keep for each field both sides changed, with text fields editable.
+ */
+export default function NodeDataConflictModal({
+  nodeLabel,
+  conflicts,
+  mine,
+  theirs,
+  merged,
+  onResolve,
+  onCancel,
+}: NodeDataConflictModalProps) {
+  const [values, setValues] = useState<Record<string, unknown>>(() =>
+    Object.fromEntries(conflicts.map((key) => [key, mine[key]]))
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onCancel}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-xl bg-white shadow-xl dark:bg-zinc-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            &quot;{nodeLabel}&quot; was changed while you were editing
+          </h2>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            Someone else saved a different version first. Pick what to keep for each field you both changed.
+          </p>
+        </div>
+        <div className="flex-1 space-y-4 overflow-y-auto px-6 py-4">
+          {conflicts.map((key) => (
+            <div key={key} className="space-y-2">
+              <SideBySideDiff
+                label={FIELD_LABELS[key] || key}
+                before={asText(theirs[key])}
+                after={asText(mine[key])}
+                beforeLabel="Their version"
+                afterLabel="Your version"
+              />
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setValues((prev) => ({ ...prev, [key]: theirs[key] }))}
+                  className={`rounded-md border px-2.5 py-1 text-xs font-medium ${
+                    values[key] === theirs[key]
+                      ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+                      : "border-zinc-200 text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  Keep theirs
+                </button>
+                <button
+                  onClick={() => setValues((prev) => ({ ...prev, [key]: mine[key] }))}
+                  className={`rounded-md border px-2.5 py-1 text-xs font-medium ${
+                    values[key] === mine[key]
+                      ? "border-blue-500 bg-blue-50 text-blue-700 dark:bg-blue-950/40 dark:text-blue-300"
+                      : "border-zinc-200 text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                  }`}
+                >
+                  Use mine
+                </button>
+              </div>
+              {typeof values[key] === "string" && (
+                <textarea
+                  value={values[key]}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [key]: e.target.value }))}
+                  rows={3}
+                  className="w-full rounded-lg border border-zinc-200 bg-white px-3 py-2 text-sm text-zinc-800 outline-none focus:border-blue-400 focus:ring-1 focus:ring-blue-400 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-200"
+                />
+              )}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end gap-2 border-t border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <button
+            onClick={onCancel}
+            className="rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-600 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={() => onResolve({ ...merged, ...values })}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700"
+          >
+            Save merged version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
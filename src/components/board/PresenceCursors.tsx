@@ -0,0 +1,43 @@
+"use client";
+
+import { ViewportPortal, useViewport } from "@xyflow/react";
+
+interface PresenceCursorsProps {
+  cursors: { sessionId: string; name: string; color: string; cursor?: { x: number; y: number } }[];
+}
+
+/**
+ * Other people's pointers, drawn in canvas coordinates so they line up with
+ * the nodes at any pan and zoom. Counter-scaled so they stay the same size.
+ */
+export default function PresenceCursors({ cursors }: PresenceCursorsProps) {
+  const { zoom } = useViewport();
+
+  return (
+    <ViewportPortal>
+      {cursors.map((c) =>
+        c.cursor ? (
+          <div
+            key={c.sessionId}
+            className="pointer-events-none absolute left-0 top-0 transition-transform duration-100 ease-linear"
+            style={{
+              transform: `translate(${c.cursor.x}px, ${c.cursor.y}px) scale(${1 / zoom})`,
+              transformOrigin: "0 0",
+              zIndex: 1000,
+            }}
+          >
+            <svg width="16" height="16" viewBox="0 0 16 16" fill={c.color} stroke="white" strokeWidth="1">
+              <path d="M1 1l5 14 2-6 6-2z" />
+            </svg>
+            <span
+              className="ml-3 whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-medium text-white shadow-sm"
+              style={{ backgroundColor: c.color }}
+            >
+              {c.name}
+            </span>
+          </div>
+        ) : null
+      )}
+    </ViewportPortal>
+  );
+}
@@ -0,0 +1,81 @@
+"use client";
+
+import SideBySideDiff from "@/components/shared/SideBySideDiff";
+
+interface ImprovementDraft {
+  title?: string;
+  priority?: string;
+  content?: string;
+  developerTodos?: string;
+}
+
+interface RegenerateImprovementModalProps {
+  current: ImprovementDraft;
+  proposed: ImprovementDraft & { structuredTodos?: { text: string; phase?: string }[] };
+  onAccept: () => void;
+  onCancel: () => void;
+}
+
+const FIELDS: { key: keyof ImprovementDraft; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "priority", label: "Priority" },
+  { key: "content", label: "Content" },
+  { key: "developerTodos", label: "Developer todos" },
+];
+
+/** Side-by-side review of a regenerated improvement before it replaces the current content. */
+export default function RegenerateImprovementModal({
+  current,
+  proposed,
+  onAccept,
+  onCancel,
+}: RegenerateImprovementModalProps) {
+  const newTodoCount = proposed.structuredTodos?.length ?? 0;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onCancel}>
+      <div
+        className="flex max-h-[90vh] w-full max-w-4xl flex-col rounded-xl bg-white shadow-xl dark:bg-zinc-900"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="border-b border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            Review regenerated improvement
+          </h2>
+          <p className="mt-1 text-sm text-zinc-600 dark:text-zinc-400">
+            Accepting replaces the current content. The current version stays in the revision history and can be restored.
+          </p>
+        </div>
+        <div className="flex-1 space-y-3 overflow-y-auto px-6 py-4">
+          {FIELDS.map(({ key, label }) => (
+            <SideBySideDiff
+              key={key}
+              label={label}
+              before={current[key] || ""}
+              after={proposed[key] || ""}
+            />
+          ))}
+          {newTodoCount > 0 && (
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Accepting also adds {newTodoCount} structured todo{newTodoCount !== 1 ? "s" : ""} to the checklist.
+            </p>
+          )}
+        </div>
+        <div className="flex justify-end gap-2 border-t border-zinc-200 px-6 py-4 dark:border-zinc-800">
+          <button
+            onClick={onCancel}
+            className="rounded-lg border border-zinc-200 px-4 py-2 text-sm font-medium text-zinc-600 transition-colors hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+          >
+            Keep current
+          </button>
+          <button
+            onClick={onAccept}
+            className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-emerald-700"
+          >
+            Accept new version
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
 "use client";
 
 import { useState } from "react";
-import { useAction, useMutation, useQuery } from "convex/react";
+import { useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
 import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
 import { formatRelativeTime } from "@/lib/utils";
@@ -12,55 +13,98 @@ interface ReportsPanelProps {
 }
 
 const SEVERITY_COLORS: Record<string, { bg: string; text: string }> = {
+  critical: { bg: "bg-red-200 dark:bg-red-900/60", text: "text-red-800 dark:text-red-200" },
   high: { bg: "bg-red-100 dark:bg-red-900/40", text: "text-red-700 dark:text-red-300" },
   medium: { bg: "bg-amber-100 dark:bg-amber-900/40", text: "text-amber-700 dark:text-amber-300" },
   low: { bg: "bg-blue-100 dark:bg-blue-900/40", text: "text-blue-700 dark:text-blue-300" },
 };
 
 export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps) {
+  const { user } = useUser();
   const reports = useQuery(api.reports.getByBoard, { boardId });
   const personas = useQuery(api.personas.getByBoard, { boardId });
-  const generateReport = useAction(api.gemini.generateReport);
-  const runUXWalkthrough = useAction(api.gemini.runUXWalkthrough);
+  const nodes = useQuery(api.nodes.getByBoard, { boardId });
+  const jobs = useQuery(api.aiJobs.getByBoard, { boardId });
+  const enqueueJob = useMutation(api.aiJobs.enqueue);
   const removeReport = useMutation(api.reports.remove);
 
-  const [generating, setGenerating] = useState(false);
-  const [walkthroughRunning, setWalkthroughRunning] = useState(false);
-  const [walkthroughResult, setWalkthroughResult] = useState<string | null>(null);
   const [filterPersonaId, setFilterPersonaId] = useState<string>("");
+  const [journeyPersonaId, setJourneyPersonaId] = useState<string>("");
   const [expandedReportId, setExpandedReportId] = useState<string | null>(null);
+  // Section node the report, walkthrough and accessibility audit are limited to
+  const [scopeSectionId, setScopeSectionId] = useState<string>("");
+
+  const sections = nodes?.filter((n) => n.type === "section") ?? [];
+  const scopeArgs = scopeSectionId && sections.some((s) => s.nodeId === scopeSectionId)
+    ? { sectionId: scopeSectionId }
+    : {};
+
+  // Reports and walkthroughs run as background jobs; show the latest of each kind
+  const reportJob = jobs?.find((j) => j.kind === "report");
+  const walkthroughJob = jobs?.find((j) => j.kind === "walkthrough");
+  const generating = reportJob?.status === "queued" || reportJob?.status === "running";
+  const walkthroughRunning = walkthroughJob?.status === "queued" || walkthroughJob?.status === "running";
+  const journeyJob = jobs?.find((j) => j.kind === "persona_journey");
+  const journeyRunning = journeyJob?.status === "queued" || journeyJob?.status === "running";
+  const terminologyJob = jobs?.find((j) => j.kind === "terminology");
+  const terminologyRunning = terminologyJob?.status === "queued" || terminologyJob?.status === "running";
+  const accessibilityJob = jobs?.find((j) => j.kind === "accessibility");
+  const accessibilityRunning = accessibilityJob?.status === "queued" || accessibilityJob?.status === "running";
 
   const handleGenerate = async () => {
-    setGenerating(true);
-    try {
-      await generateReport({
-        boardId,
-        personaId: filterPersonaId ? (filterPersonaId as Id<"personas">) : undefined,
-      });
-    } finally {
-      setGenerating(false);
-    }
+    await enqueueJob({
+      boardId,
+      kind: "report",
+      args: filterPersonaId || scopeArgs.sectionId
+        ? { ...(filterPersonaId ? { personaId: filterPersonaId } : {}), ...scopeArgs }
+        : undefined,
+      createdByName: user?.fullName || user?.firstName || undefined,
+    });
   };
 
   const handleUXWalkthrough = async () => {
-    setWalkthroughRunning(true);
-    setWalkthroughResult(null);
-    try {
-      const result = await runUXWalkthrough({ boardId });
-      if (result.error) {
-        setWalkthroughResult(`Error: ${result.error}`);
-      } else {
-        setWalkthroughResult(
-          `Analyzed ${result.commentsCreated} screens. Check Comments tab for per-screen analysis.`
-        );
-      }
-    } catch (err: any) {
-      setWalkthroughResult(`Error: ${err.message}`);
-    } finally {
-      setWalkthroughRunning(false);
-    }
+    await enqueueJob({
+      boardId,
+      kind: "walkthrough",
+      args: scopeArgs.sectionId ? scopeArgs : undefined,
+      createdByName: user?.fullName || user?.firstName || undefined,
+    });
+  };
+
+  const handlePersonaJourney = async () => {
+    if (!journeyPersonaId) return;
+    await enqueueJob({
+      boardId,
+      kind: "persona_journey",
+      args: { personaId: journeyPersonaId },
+      createdByName: user?.fullName || user?.firstName || undefined,
+    });
+  };
+
+  const handleTerminologyCheck = async () => {
+    await enqueueJob({
+      boardId,
+      kind: "terminology",
+      createdByName: user?.fullName || user?.firstName || undefined,
+    });
   };
 
+  const handleAccessibilityAudit = async () => {
+    await enqueueJob({
+      boardId,
+      kind: "accessibility",
+      args: scopeArgs.sectionId ? scopeArgs : undefined,
+      createdByName: user?.fullName || user?.firstName || undefined,
+    });
+  };
+
+  let walkthroughResult: string | null = null;
+  if (walkthroughJob?.status === "completed") {
+    walkthroughResult = `Analyzed ${walkthroughJob.result?.commentsCreated ?? 0} screens. Check Comments tab for per-screen analysis.`;
+  } else if (walkthroughJob?.status === "failed") {
+    walkthroughResult = `Error: ${walkthroughJob.error}`;
+  }
+
   const handleDownload = (report: any) => {
     const blob = new Blob([report.content], { type: "text/markdown" });
     const url = URL.createObjectURL(blob);
@@ -72,7 +116,7 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
   };
 
   const getSeveritySummary = (findings: any[]) => {
-    const counts: Record<string, number> = { high: 0, medium: 0, low: 0 };
+    const counts: Record<string, number> = { critical: 0, high: 0, medium: 0, low: 0 };
     for (const f of findings) {
       counts[f.severity] = (counts[f.severity] || 0) + 1;
     }
@@ -82,6 +126,22 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
   return (
     <div className="p-3">
       <div className="mb-3">
+        {sections.length > 0 && (
+          <div className="mb-3 flex items-center gap-1.5">
+            <span className="shrink-0 text-[10px] text-zinc-500 dark:text-zinc-400">Scope</span>
+            <select
+              value={scopeSectionId}
+              onChange={(e) => setScopeSectionId(e.target.value)}
+              className="min-w-0 flex-1 rounded border border-zinc-200 bg-white px-2 py-1 text-[10px] outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-200"
+              title="Limits the gap report, UX walkthrough and accessibility audit to one section's screens"
+            >
+              <option value="">Whole board</option>
+              {sections.map((s) => (
+                <option key={s.nodeId} value={s.nodeId}>Section: {s.data?.label || "Section"}</option>
+              ))}
+            </select>
+          </div>
+        )}
         <p className="mb-2 text-[10px] font-medium uppercase tracking-wider text-zinc-400">
           Gap Analysis ({reports?.length || 0})
         </p>
@@ -114,13 +174,17 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
           </button>
         </div>
 
+        {reportJob?.status === "failed" && !reportJob.dismissed && (
+          <p className="mt-1.5 text-[9px] text-red-500">Report failed: {reportJob.error}</p>
+        )}
+
         {/* AI UX Walkthrough */}
         <div className="mt-3 rounded-lg border border-dashed border-purple-300 bg-purple-50/50 p-2 dark:border-purple-700 dark:bg-purple-950/20">
           <p className="mb-1.5 text-[10px] font-medium text-purple-700 dark:text-purple-300">
             AI UX Walkthrough
           </p>
           <p className="mb-2 text-[9px] text-purple-600/70 dark:text-purple-400/70">
-            Let AI walk through every screen from a UX/UI perspective. Generates per-screen comments and a summary report with terminology checks and flow gap analysis.
+            Let AI walk through every screen from a UX/UI perspective. Generates per-screen comments and a summary report with terminology checks and flow gap analysis. Runs in the background — you can close the tab and follow it in the Jobs tab.
           </p>
           <button
             onClick={handleUXWalkthrough}
@@ -130,18 +194,121 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
             {walkthroughRunning ? (
               <span className="flex items-center justify-center gap-1.5">
                 <span className="h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
-                Walking through screens...
+                {walkthroughJob?.progress.total
+                  ? `Walking through screens (${walkthroughJob.progress.completed}/${walkthroughJob.progress.total})...`
+                  : "Walking through screens..."}
               </span>
             ) : (
               "Run UX Walkthrough"
             )}
           </button>
-          {walkthroughResult && (
+          {walkthroughRunning && walkthroughJob && walkthroughJob.progress.total > 0 && (
+            <div className="mt-1.5 h-1 overflow-hidden rounded-full bg-purple-100 dark:bg-purple-900/40">
+              <div
+                className="h-full bg-purple-500 transition-all"
+                style={{ width: `${(walkthroughJob.progress.completed / walkthroughJob.progress.total) * 100}%` }}
+              />
+            </div>
+          )}
+          {!walkthroughRunning && walkthroughResult && (
             <p className="mt-1.5 text-[9px] text-purple-600 dark:text-purple-400">
               {walkthroughResult}
             </p>
           )}
         </div>
+
+        {/* Walk as persona */}
+        <div className="mt-3 rounded-lg border border-dashed border-teal-300 bg-teal-50/50 p-2 dark:border-teal-700 dark:bg-teal-950/20">
+          <p className="mb-1.5 text-[10px] font-medium text-teal-700 dark:text-teal-300">
+            Walk as Persona
+          </p>
+          <p className="mb-2 text-[9px] text-teal-600/70 dark:text-teal-400/70">
+            Follow one persona&apos;s assigned screens from their entry points. AI narrates each step in the persona&apos;s voice, scores its friction and flags high-friction steps with attention nodes.
+          </p>
+          <div className="flex items-center gap-1.5">
+            <select
+              value={journeyPersonaId}
+              onChange={(e) => setJourneyPersonaId(e.target.value)}
+              className="min-w-0 flex-1 rounded border border-zinc-200 bg-white px-2 py-1 text-[10px] outline-none focus:border-teal-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-200"
+            >
+              <option value="">Choose a persona</option>
+              {personas?.map((p) => (
+                <option key={p._id} value={p._id}>{p.name}</option>
+              ))}
+            </select>
+            <button
+              onClick={handlePersonaJourney}
+              disabled={!journeyPersonaId || journeyRunning}
+              className="shrink-0 rounded bg-teal-600 px-3 py-1 text-[10px] font-medium text-white hover:bg-teal-700 disabled:opacity-50"
+            >
+              {journeyRunning ? (
+                <span className="flex items-center gap-1">
+                  <span className="h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+                  Walking...
+                </span>
+              ) : (
+                "Walk Journey"
+              )}
+            </button>
+          </div>
+          {!journeyRunning && journeyJob?.status === "failed" && !journeyJob.dismissed && (
+            <p className="mt-1.5 text-[9px] text-red-500">Journey failed: {journeyJob.error}</p>
+          )}
+        </div>
+
+        {/* Terminology check */}
+        <div className="mt-3 rounded-lg border border-dashed border-sky-300 bg-sky-50/50 p-2 dark:border-sky-700 dark:bg-sky-950/20">
+          <p className="mb-1.5 text-[10px] font-medium text-sky-700 dark:text-sky-300">
+            Terminology Check
+          </p>
+          <p className="mb-2 text-[9px] text-sky-600/70 dark:text-sky-400/70">
+            Compare the wording on every screen, connection and annotation — including text read from the screenshots — and build a glossary of terms that should be unified.
+          </p>
+          <button
+            onClick={handleTerminologyCheck}
+            disabled={terminologyRunning}
+            className="w-full rounded bg-sky-600 px-3 py-1.5 text-[10px] font-medium text-white hover:bg-sky-700 disabled:opacity-50"
+          >
+            {terminologyRunning ? (
+              <span className="flex items-center justify-center gap-1.5">
+                <span className="h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+                Checking terminology...
+              </span>
+            ) : (
+              "Check Terminology"
+            )}
+          </button>
+          {!terminologyRunning && terminologyJob?.status === "failed" && !terminologyJob.dismissed && (
+            <p className="mt-1.5 text-[9px] text-red-500">Check failed: {terminologyJob.error}</p>
+          )}
+        </div>
+
+        {/* Accessibility audit */}
+        <div className="mt-3 rounded-lg border border-dashed border-rose-300 bg-rose-50/50 p-2 dark:border-rose-700 dark:bg-rose-950/20">
+          <p className="mb-1.5 text-[10px] font-medium text-rose-700 dark:text-rose-300">
+            Accessibility Audit
+          </p>
+          <p className="mb-2 text-[9px] text-rose-600/70 dark:text-rose-400/70">
+            Check every screenshot for WCAG issues visible in the image — low contrast, small touch targets, missing focus indicators, text baked into images. Issues are boxed on the screenshots.
+          </p>
+          <button
+            onClick={handleAccessibilityAudit}
+            disabled={accessibilityRunning}
+            className="w-full rounded bg-rose-600 px-3 py-1.5 text-[10px] font-medium text-white hover:bg-rose-700 disabled:opacity-50"
+          >
+            {accessibilityRunning ? (
+              <span className="flex items-center justify-center gap-1.5">
+                <span className="h-3 w-3 animate-spin rounded-full border border-white border-t-transparent" />
+                Auditing {accessibilityJob?.progress.total ? `${accessibilityJob.progress.completed}/${accessibilityJob.progress.total}` : ""}...
+              </span>
+            ) : (
+              "Audit Accessibility"
+            )}
+          </button>
+          {!accessibilityRunning && accessibilityJob?.status === "failed" && !accessibilityJob.dismissed && (
+            <p className="mt-1.5 text-[9px] text-red-500">Audit failed: {accessibilityJob.error}</p>
+          )}
+        </div>
       </div>
 
       {/* Report list */}
@@ -171,6 +338,11 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
                     </p>
                   </div>
                   <div className="flex shrink-0 items-center gap-1">
+                    {severity.critical > 0 && (
+                      <span className="rounded bg-red-200 px-1.5 py-0.5 text-[9px] font-medium text-red-800 dark:bg-red-900/60 dark:text-red-200">
+                        {severity.critical}C
+                      </span>
+                    )}
                     {severity.high > 0 && (
                       <span className="rounded bg-red-100 px-1.5 py-0.5 text-[9px] font-medium text-red-600 dark:bg-red-900/40 dark:text-red-300">
                         {severity.high}H
@@ -251,7 +423,9 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
                                         onFocusNode(nodeId);
                                       }}
                                       className="rounded bg-blue-50 px-1.5 py-0.5 text-[8px] font-medium text-blue-600 hover:bg-blue-100 dark:bg-blue-900/30 dark:text-blue-400"
+                                      title={finding.regions?.some((r: { nodeId: string }) => r.nodeId === nodeId) ? "Marked on the screenshot" : undefined}
                                     >
+                                      {finding.regions?.some((r: { nodeId: string }) => r.nodeId === nodeId) && "▢ "}
                                       {nodeId}
                                     </button>
                                   ))}
@@ -264,6 +438,74 @@ export default function ReportsPanel({ boardId, onFocusNode }: ReportsPanelProps
                     </div>
                   )}
 
+                  {/* Glossary (terminology checks) */}
+                  {report.glossary && report.glossary.length > 0 && (
+                    <div className="mb-3">
+                      <p className="mb-1 text-[9px] font-medium uppercase tracking-wider text-zinc-400">
+                        Glossary ({report.glossary.length})
+                      </p>
+                      <div className="overflow-x-auto rounded border border-zinc-100 dark:border-zinc-800">
+                        <table className="w-full text-left text-[9px]">
+                          <thead className="bg-zinc-50 text-zinc-500 dark:bg-zinc-800/50 dark:text-zinc-400">
+                            <tr>
+                              <th className="px-1.5 py-1 font-medium">Concept</th>
+                              <th className="px-1.5 py-1 font-medium">Preferred</th>
+                              <th className="px-1.5 py-1 font-medium">Variants</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {report.glossary.map((entry, gi) => {
+                              const inconsistent = new Set(entry.variants.map((variant) => variant.term.trim().toLowerCase())).size > 1;
+                              return (
+                                <tr key={gi} className="border-t border-zinc-100 align-top dark:border-zinc-800">
+                                  <td className="px-1.5 py-1 text-zinc-700 dark:text-zinc-300" title={entry.recommendation}>
+                                    {entry.concept}
+                                  </td>
+                                  <td className="px-1.5 py-1 font-medium text-zinc-800 dark:text-zinc-200">
+                                    {entry.preferredTerm}
+                                  </td>
+                                  <td className="px-1.5 py-1">
+                                    <div className="flex flex-wrap gap-0.5">
+                                      {entry.variants.map((variant, vi) => (
+                                        <button
+                                          key={vi}
+                                          onClick={(e) => {
+                                            e.stopPropagation();
+                                            onFocusNode(variant.nodeIds[0]);
+                                          }}
+                                          title={variant.nodeIds.join(", ")}
+                                          className={`rounded px-1 py-0.5 text-[8px] font-medium ${
+                                            inconsistent && variant.term.trim().toLowerCase() !== entry.preferredTerm.trim().toLowerCase()
+                                              ? "bg-amber-100 text-amber-700 hover:bg-amber-200 dark:bg-amber-900/40 dark:text-amber-300"
+                                              : "bg-zinc-100 text-zinc-600 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400"
+                                          }`}
+                                        >
+                                          {variant.term} ×{variant.nodeIds.length}
+                                        </button>
+                                      ))}
+                                    </div>
+                                  </td>
+                                </tr>
+                              );
+                            })}
+                          </tbody>
+                        </table>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Output validation problems */}
+                  {report.validationIssues && report.validationIssues.length > 0 && (
+                    <div className="mb-3 rounded border border-amber-200 bg-amber-50 p-1.5 dark:border-amber-800 dark:bg-amber-900/20">
+                      <p className="mb-0.5 text-[9px] font-medium uppercase tracking-wider text-amber-600 dark:text-amber-400">
+                        Validation issues ({report.validationIssues.length})
+                      </p>
+                      {report.validationIssues.map((issue: string, ii: number) => (
+                        <p key={ii} className="text-[10px] text-amber-700 dark:text-amber-300">{issue}</p>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Full report content (simplified rendering) */}
                   <div className="mb-2 max-h-64 overflow-y-auto rounded bg-zinc-50 p-2 text-[10px] text-zinc-600 dark:bg-zinc-800/50 dark:text-zinc-400">
                     <pre className="whitespace-pre-wrap font-sans">{report.content}</pre>
@@ -2,6 +2,8 @@
 
 import React, { useState, useCallback, useRef, useEffect } from "react";
 import type { Node, Edge } from "@xyflow/react";
+import { useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
 import type { Id } from "../../../convex/_generated/dataModel";
 import { cn } from "@/lib/utils";
 import FlowView from "./FlowView";
@@ -10,9 +12,10 @@ import CommentsPanel from "./CommentsPanel";
 import AIChat from "./AIChat";
 import ImprovementsPanel from "./ImprovementsPanel";
 import ReportsPanel from "./ReportsPanel";
+import JobsPanel from "./JobsPanel";
 import NodeDetailPanel from "./NodeDetailPanel";
 
-type RightTab = "flow" | "ai" | "comments" | "personas" | "improvements" | "reports";
+type RightTab = "flow" | "ai" | "comments" | "personas" | "improvements" | "reports" | "jobs";
 
 const MIN_WIDTH = 280;
 const MAX_WIDTH = 600;
@@ -44,6 +47,8 @@ export default function RightPanel({
   onDeselectNode,
 }: RightPanelProps) {
   const [activeTab, setActiveTab] = useState<RightTab>("flow");
+  const jobs = useQuery(api.aiJobs.getByBoard, { boardId });
+  const activeJobCount = jobs?.filter((j) => j.status === "queued" || j.status === "running").length ?? 0;
   const [commentFilterNodeId, setCommentFilterNodeId] = useState<string | null>(null);
 
   // Switch to comments tab when a node comment badge is clicked
@@ -196,6 +201,16 @@ export default function RightPanel({
         </svg>
       ),
     },
+    {
+      key: "jobs",
+      label: "Jobs",
+      icon: (
+        <svg width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="12" cy="12" r="10" />
+          <path d="M12 6v6l4 2" />
+        </svg>
+      ),
+    },
   ];
 
   return (
@@ -226,6 +241,11 @@ export default function RightPanel({
             >
               {tab.icon}
               <span>{tab.label}</span>
+              {tab.key === "jobs" && activeJobCount > 0 && (
+                <span className="rounded-full bg-blue-500 px-1 text-[9px] font-bold text-white">
+                  {activeJobCount}
+                </span>
+              )}
             </button>
           ))}
         </div>
@@ -278,6 +298,9 @@ export default function RightPanel({
             onFocusNode={onFocusNode}
           />
         )}
+        {activeTab === "jobs" && (
+          <JobsPanel boardId={boardId} />
+        )}
       </div>
     </div>
   );
@@ -5,7 +5,7 @@ import { useReactFlow } from "@xyflow/react";
 import { useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
 import { Id } from "../../../convex/_generated/dataModel";
-import { useFlowStore } from "@/store/flowStore";
+import { useCanvasHistoryStore } from "@/store/canvasHistoryStore";
 import Link from "next/link";
 import VersionSelector from "./VersionSelector";
 
@@ -19,14 +19,22 @@ interface ToolbarProps {
   onAddImprovement: () => void;
   onAddDivider: () => void;
   onAddSection: () => void;
+  onAutoLayout: () => void;
+  autoLayoutRunning?: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
   onFitView: () => void;
   currentVersion?: string;
   improvementFilter: ImprovementFilter;
   onSetImprovementFilter: (filter: ImprovementFilter) => void;
   boardToolIds?: string[];
   onUpdateTools?: (toolIds: string[]) => void;
+  // Other people with the board open
+  collaborators?: { userId: string; name: string; imageUrl?: string; color: string }[];
 }
 
+const MAX_AVATARS = 5;
+
 export default function Toolbar({
   boardId,
   boardName,
@@ -35,12 +43,17 @@ export default function Toolbar({
   onAddImprovement,
   onAddDivider,
   onAddSection,
+  onAutoLayout,
+  autoLayoutRunning = false,
+  onUndo,
+  onRedo,
   onFitView,
   currentVersion,
   improvementFilter,
   onSetImprovementFilter,
   boardToolIds,
   onUpdateTools,
+  collaborators = [],
 }: ToolbarProps) {
   const { zoomIn, zoomOut } = useReactFlow();
   const updateBoard = useMutation(api.boards.update);
@@ -58,21 +71,14 @@ export default function Toolbar({
     }
   }, [name, boardName, boardId, updateBoard]);
 
-  const handleUndo = useCallback(() => {
-    useFlowStore.temporal.getState().undo();
-  }, []);
-
-  const handleRedo = useCallback(() => {
-    useFlowStore.temporal.getState().redo();
-  }, []);
-
   const handleShare = useCallback(async () => {
     await navigator.clipboard.writeText(window.location.href);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   }, []);
 
-  const temporal = useFlowStore.temporal.getState();
+  const canUndo = useCanvasHistoryStore((s) => s.past.length > 0);
+  const canRedo = useCanvasHistoryStore((s) => s.future.length > 0);
 
   const FILTER_OPTIONS: { key: ImprovementFilter; label: string }[] = [
     { key: "all", label: "Show All" },
@@ -187,6 +193,22 @@ export default function Toolbar({
           Section
         </button>
 
+        {/* Auto-layout */}
+        <button
+          onClick={onAutoLayout}
+          disabled={autoLayoutRunning}
+          className="flex items-center gap-1.5 rounded-md px-2.5 py-1.5 text-xs font-medium text-violet-600 hover:bg-violet-50 disabled:opacity-50 dark:text-violet-400 dark:hover:bg-violet-900/20"
+          title="Group screens into stages and arrange them in sections"
+        >
+          <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+            <rect x="3" y="3" width="7" height="7" rx="1" />
+            <rect x="14" y="3" width="7" height="7" rx="1" />
+            <rect x="3" y="14" width="7" height="7" rx="1" />
+            <rect x="14" y="14" width="7" height="7" rx="1" />
+          </svg>
+          {autoLayoutRunning ? "Arranging..." : "Auto-layout"}
+        </button>
+
         {/* Improvement filter */}
         <div className="relative">
           <button
@@ -292,10 +314,10 @@ export default function Toolbar({
 
         {/* Undo */}
         <button
-          onClick={handleUndo}
+          onClick={onUndo}
           className="rounded-md p-1.5 text-zinc-500 hover:bg-zinc-100 disabled:opacity-30 dark:text-zinc-400 dark:hover:bg-zinc-800"
           title="Undo (Ctrl+Z)"
-          disabled={temporal.pastStates.length === 0}
+          disabled={!canUndo}
         >
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M3 7v6h6M3 13a9 9 0 0 1 15.36-6.36" />
@@ -304,10 +326,10 @@ export default function Toolbar({
 
         {/* Redo */}
         <button
-          onClick={handleRedo}
+          onClick={onRedo}
           className="rounded-md p-1.5 text-zinc-500 hover:bg-zinc-100 disabled:opacity-30 dark:text-zinc-400 dark:hover:bg-zinc-800"
           title="Redo (Ctrl+Shift+Z)"
-          disabled={temporal.futureStates.length === 0}
+          disabled={!canRedo}
         >
           <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
             <path d="M21 7v6h-6M21 13a9 9 0 0 0-15.36-6.36" />
@@ -348,8 +370,37 @@ export default function Toolbar({
         </button>
       </div>
 
-      {/* Right: Share */}
+      {/* Right: Collaborators + Share */}
       <div className="flex items-center gap-2">
+        {collaborators.length > 0 && (
+          <div className="flex items-center -space-x-1.5" title={collaborators.map((c) => c.name).join(", ")}>
+            {collaborators.slice(0, MAX_AVATARS).map((c) =>
+              c.imageUrl ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img
+                  key={c.userId}
+                  src={c.imageUrl}
+                  alt={c.name}
+                  className="h-7 w-7 rounded-full border-2"
+                  style={{ borderColor: c.color }}
+                />
+              ) : (
+                <div
+                  key={c.userId}
+                  className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white text-xs font-bold text-white dark:border-zinc-900"
+                  style={{ backgroundColor: c.color }}
+                >
+                  {c.name.charAt(0).toUpperCase()}
+                </div>
+              )
+            )}
+            {collaborators.length > MAX_AVATARS && (
+              <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-white bg-zinc-200 text-[10px] font-bold text-zinc-600 dark:border-zinc-900 dark:bg-zinc-700 dark:text-zinc-300">
+                +{collaborators.length - MAX_AVATARS}
+              </div>
+            )}
+          </div>
+        )}
         <button
           onClick={handleShare}
           className="flex items-center gap-1.5 rounded-md border border-zinc-200 px-3 py-1.5 text-xs font-medium text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
@@ -0,0 +1,277 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/utils";
+
+interface AIUsagePanelProps {
+  // Prompt templates, used to label features and offer them as budget scopes
+  templates: { key: string; label: string }[];
+}
+
+const PERIOD_OPTIONS = [7, 30, 90];
+
+const formatUsd = (value: number) =>
+  value >= 1 ? `$${value.toFixed(2)}` : value > 0 ? `$${value.toFixed(4)}` : "$0";
+
+const formatTokens = (value: number) =>
+  value >= 1_000_000 ? `${(value / 1_000_000).toFixed(1)}M` : value >= 1000 ? `${(value / 1000).toFixed(1)}k` : String(value);
+
+const OUTCOME_COLORS: Record<string, string> = {
+  success: "text-emerald-600 dark:text-emerald-400",
+  error: "text-red-500",
+  cancelled: "text-zinc-400",
+  blocked: "text-amber-600 dark:text-amber-400",
+};
+
+export default function AIUsagePanel({ templates }: AIUsagePanelProps) {
+  const [days, setDays] = useState(30);
+  const summary = useQuery(api.aiUsage.getSummary, { days });
+  const budgets = useQuery(api.aiUsage.getBudgets);
+  const boards = useQuery(api.boards.list);
+  const setBudget = useMutation(api.aiUsage.setBudget);
+  const removeBudget = useMutation(api.aiUsage.removeBudget);
+
+  const [budgetScope, setBudgetScope] = useState("global");
+  const [budgetKey, setBudgetKey] = useState("");
+  const [budgetLimit, setBudgetLimit] = useState("");
+
+  const featureLabel = (key: string) => templates.find((t) => t.key === key)?.label || key;
+
+  const handleAddBudget = async () => {
+    const limit = parseFloat(budgetLimit);
+    if (!Number.isFinite(limit) || limit < 0) return;
+    if (budgetScope !== "global" && !budgetKey) return;
+    const scopeLabel = budgetScope === "board"
+      ? boards?.find((b) => b._id === budgetKey)?.name
+      : budgetScope === "feature" ? featureLabel(budgetKey) : undefined;
+    await setBudget({
+      scope: budgetScope,
+      scopeKey: budgetScope === "global" ? undefined : budgetKey,
+      scopeLabel,
+      monthlyLimitUsd: limit,
+    });
+    setBudgetLimit("");
+  };
+
+  const maxDayCost = Math.max(0, ...(summary?.byDay.map((d) => d.costUsd) ?? []));
+  const totals = summary?.totals;
+
+  return (
+    <div className="mt-8">
+      <div className="mb-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+            AI Usage &amp; Budgets
+          </h2>
+          <p className="text-sm text-zinc-500 dark:text-zinc-400">
+            Calls, tokens, estimated spend and latency for every AI action
+          </p>
+        </div>
+        <select
+          value={days}
+          onChange={(e) => setDays(Number(e.target.value))}
+          className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-xs text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+        >
+          {PERIOD_OPTIONS.map((d) => (
+            <option key={d} value={d}>Last {d} days</option>
+          ))}
+        </select>
+      </div>
+
+      {/* Totals */}
+      <div className="mb-4 grid grid-cols-5 gap-3">
+        {[
+          { label: "Calls", value: totals ? String(totals.calls) : "0" },
+          { label: "Est. spend", value: formatUsd(totals?.costUsd ?? 0) },
+          { label: "This month", value: formatUsd(summary?.monthToDateUsd ?? 0) },
+          { label: "Tokens in / out", value: `${formatTokens(totals?.inputTokens ?? 0)} / ${formatTokens(totals?.outputTokens ?? 0)}` },
+          { label: "Avg latency", value: totals ? `${(totals.avgLatencyMs / 1000).toFixed(1)}s` : "–" },
+        ].map((card) => (
+          <div key={card.label} className="rounded-xl border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+            <p className="text-[10px] font-medium uppercase tracking-wider text-zinc-400">{card.label}</p>
+            <p className="mt-1 text-lg font-semibold text-zinc-800 dark:text-zinc-200">{card.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="mb-4 grid grid-cols-2 gap-3">
+        {/* Per board / per feature */}
+        {[
+          { title: "By board", rows: summary?.byBoard.map((g) => ({ ...g, label: g.boardName })) ?? [] },
+          { title: "By feature", rows: summary?.byFeature.map((g) => ({ ...g, label: featureLabel(g.key) })) ?? [] },
+        ].map((table) => (
+          <div key={table.title} className="rounded-xl border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+            <p className="mb-2 text-xs font-medium text-zinc-600 dark:text-zinc-400">{table.title}</p>
+            {table.rows.length === 0 ? (
+              <p className="py-4 text-center text-[11px] text-zinc-400">No AI calls in this period.</p>
+            ) : (
+              <table className="w-full text-[11px]">
+                <thead>
+                  <tr className="text-left text-[10px] text-zinc-400">
+                    <th className="pb-1 font-medium">Name</th>
+                    <th className="pb-1 text-right font-medium">Calls</th>
+                    <th className="pb-1 text-right font-medium">Errors</th>
+                    <th className="pb-1 text-right font-medium">Avg latency</th>
+                    <th className="pb-1 text-right font-medium">Spend</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {table.rows.map((row) => (
+                    <tr key={row.key} className="border-t border-zinc-100 text-zinc-600 dark:border-zinc-800 dark:text-zinc-300">
+                      <td className="max-w-[160px] truncate py-1">{row.label}</td>
+                      <td className="py-1 text-right">{row.calls}</td>
+                      <td className={`py-1 text-right ${row.errors > 0 ? "text-red-500" : ""}`}>{row.errors}</td>
+                      <td className="py-1 text-right">{(row.avgLatencyMs / 1000).toFixed(1)}s</td>
+                      <td className="py-1 text-right font-medium">{formatUsd(row.costUsd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {/* Per day */}
+      <div className="mb-4 rounded-xl border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+        <p className="mb-2 text-xs font-medium text-zinc-600 dark:text-zinc-400">Spend per day</p>
+        {summary && summary.byDay.length > 0 ? (
+          <div className="flex h-24 items-end gap-0.5">
+            {summary.byDay.map((day) => (
+              <div
+                key={day.key}
+                className="flex-1 rounded-t bg-blue-400 dark:bg-blue-500"
+                style={{ height: `${maxDayCost > 0 ? Math.max(2, (day.costUsd / maxDayCost) * 100) : 2}%` }}
+                title={`${day.key}: ${formatUsd(day.costUsd)} · ${day.calls} calls`}
+              />
+            ))}
+          </div>
+        ) : (
+          <p className="py-4 text-center text-[11px] text-zinc-400">No AI calls in this period.</p>
+        )}
+      </div>
+
+      {/* Budgets */}
+      <div className="mb-4 rounded-xl border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+        <p className="mb-1 text-xs font-medium text-zinc-600 dark:text-zinc-400">Monthly budgets</p>
+        <p className="mb-3 text-[11px] text-zinc-400">
+          AI calls are refused once a matching budget is used up for the current month (UTC).
+        </p>
+
+        <div className="mb-3 space-y-2">
+          {budgets?.map((budget) => {
+            const percent = budget.monthlyLimitUsd > 0
+              ? Math.min(100, (budget.spentUsd / budget.monthlyLimitUsd) * 100)
+              : 100;
+            return (
+              <div key={budget._id} className="flex items-center gap-3 text-[11px]">
+                <span className="w-48 truncate text-zinc-600 dark:text-zinc-300">
+                  {budget.scope === "global" ? "All AI usage" : `${budget.scope === "board" ? "Board" : "Feature"}: ${budget.scopeLabel || budget.scopeKey}`}
+                </span>
+                <div className="h-1.5 flex-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+                  <div
+                    className={`h-full ${percent >= 100 ? "bg-red-500" : percent >= 80 ? "bg-amber-400" : "bg-emerald-500"}`}
+                    style={{ width: `${percent}%` }}
+                  />
+                </div>
+                <span className="w-28 text-right text-zinc-500">
+                  {formatUsd(budget.spentUsd)} / {formatUsd(budget.monthlyLimitUsd)}
+                </span>
+                <button
+                  onClick={() => removeBudget({ budgetId: budget._id as Id<"aiBudgets"> })}
+                  className="text-zinc-400 hover:text-red-500"
+                  title="Remove budget"
+                >
+                  ✕
+                </button>
+              </div>
+            );
+          })}
+          {budgets && budgets.length === 0 && (
+            <p className="text-[11px] text-zinc-400">No budgets set — AI usage is unlimited.</p>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <select
+            value={budgetScope}
+            onChange={(e) => {
+              setBudgetScope(e.target.value);
+              setBudgetKey("");
+            }}
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+          >
+            <option value="global">All AI usage</option>
+            <option value="board">Board</option>
+            <option value="feature">Feature</option>
+          </select>
+          {budgetScope === "board" && (
+            <select
+              value={budgetKey}
+              onChange={(e) => setBudgetKey(e.target.value)}
+              className="w-48 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+            >
+              <option value="">Select board…</option>
+              {boards?.map((b) => (
+                <option key={b._id} value={b._id}>{b.name}</option>
+              ))}
+            </select>
+          )}
+          {budgetScope === "feature" && (
+            <select
+              value={budgetKey}
+              onChange={(e) => setBudgetKey(e.target.value)}
+              className="w-48 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+            >
+              <option value="">Select feature…</option>
+              {templates.map((t) => (
+                <option key={t.key} value={t.key}>{t.label}</option>
+              ))}
+            </select>
+          )}
+          <input
+            value={budgetLimit}
+            onChange={(e) => setBudgetLimit(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddBudget()}
+            placeholder="USD / month"
+            inputMode="decimal"
+            className="w-28 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+          />
+          <button
+            onClick={handleAddBudget}
+            disabled={!budgetLimit || (budgetScope !== "global" && !budgetKey)}
+            className="rounded-lg bg-blue-600 px-3 py-1 text-[11px] font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+          >
+            Set budget
+          </button>
+        </div>
+      </div>
+
+      {/* Recent calls */}
+      {summary && summary.recent.length > 0 && (
+        <div className="rounded-xl border border-zinc-200 bg-white p-3 dark:border-zinc-700 dark:bg-zinc-900">
+          <p className="mb-2 text-xs font-medium text-zinc-600 dark:text-zinc-400">Recent calls</p>
+          <table className="w-full text-[11px]">
+            <tbody>
+              {summary.recent.map((call) => (
+                <tr key={call._id} className="border-t border-zinc-100 text-zinc-600 first:border-t-0 dark:border-zinc-800 dark:text-zinc-300">
+                  <td className="py-1 text-zinc-400">{formatRelativeTime(call.createdAt)}</td>
+                  <td className="py-1">{featureLabel(call.feature)}</td>
+                  <td className="py-1 text-zinc-400">{call.model}</td>
+                  <td className="py-1 text-right">{formatTokens(call.inputTokens)} / {formatTokens(call.outputTokens)}</td>
+                  <td className="py-1 text-right">{(call.latencyMs / 1000).toFixed(1)}s</td>
+                  <td className={`py-1 text-right font-medium ${OUTCOME_COLORS[call.outcome] || ""}`} title={call.error}>
+                    {call.outcome}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useRef, useState } from "react";
 import { useAction, useMutation, useQuery } from "convex/react";
 import { api } from "../../../convex/_generated/api";
+import AIUsagePanel from "./AIUsagePanel";
 
 interface PromptTemplate {
   _id: string;
@@ -10,6 +11,8 @@ interface PromptTemplate {
   label: string;
   category: string;
   prompt: string;
+  provider?: string;
+  model?: string;
   updatedAt: number;
 }
 
@@ -22,14 +25,46 @@ const CATEGORY_LABELS: Record<string, string> = {
   improvement: "Improvement",
 };
 
+// Tab names for categories with more than one template
+const TEMPLATE_TAB_LABELS: Record<string, string> = {
+  chat_history_summary: "Chat Memory",
+  portfolio_analysis: "Portfolio",
+  journey_draft: "Journey Draft",
+  screenshot_labelling: "Screenshot Labels",
+  accessibility_audit: "Accessibility",
+};
+
+// Placeholders the Gemini actions fill in for each template key
+const TEMPLATE_VARIABLES: Record<string, string[]> = {
+  chat_system: ["boardName", "nodeIdList", "nodePositionList", "personaList", "toolContext"],
+  chat_history_summary: ["boardName", "previousSummary", "transcript"],
+  summary_generate: ["boardName", "nodeIdList", "screenList", "connectionCount", "personaNames", "personaList", "toolContext"],
+  report_gap_analysis: ["boardName", "nodeIdList", "personaList", "focusPersona", "toolContext"],
+  walkthrough_system: ["boardName", "nodeIdList", "personaList", "toolContext"],
+  improvement_generate: ["boardName", "nodeIdList", "personaList", "toolContext"],
+  portfolio_analysis: ["journeyNames", "toolContext"],
+  journey_draft: ["screenshotLibrary", "toolContext"],
+  screenshot_labelling: ["filename", "toolList", "toolContext"],
+  accessibility_audit: ["boardName", "screenLabel", "platform", "toolContext"],
+};
+
+// LLM providers supported by convex/llm.ts; empty uses the deployment default
+const PROVIDER_OPTIONS = [
+  { value: "", label: "Deployment default" },
+  { value: "gemini", label: "Gemini" },
+  { value: "openai", label: "OpenAI-compatible" },
+  { value: "mock", label: "Mock (offline)" },
+];
+
 export default function ConfigurationPanel() {
   const templates = useQuery(api.promptTemplates.getAll);
   const upsert = useMutation(api.promptTemplates.upsert);
+  const setModel = useMutation(api.promptTemplates.setModel);
   const seedTemplates = useMutation(api.promptTemplates.seed);
   const resetToDefaults = useMutation(api.promptTemplates.resetToDefaults);
   const testSlack = useAction(api.slack.testConnection);
 
-  const [activeTab, setActiveTab] = useState<string>("chat");
+  const [activeTab, setActiveTab] = useState<string>("chat_system");
   const [editedValues, setEditedValues] = useState<Record<string, string>>({});
   const [savingKeys, setSavingKeys] = useState<Set<string>>(new Set());
   const [resetting, setResetting] = useState(false);
@@ -59,7 +94,7 @@ export default function ConfigurationPanel() {
     }
   }
 
-  const activeTemplate = orderedTemplates.find((t) => t.category === activeTab)
+  const activeTemplate = orderedTemplates.find((t) => t.key === activeTab)
     ?? orderedTemplates[0];
 
   const handleSave = async (template: PromptTemplate, newPrompt: string) => {
@@ -133,24 +168,22 @@ export default function ConfigurationPanel() {
               Prompt Type
             </p>
             <div className="space-y-0.5">
-              {CATEGORY_ORDER.map((category) => {
-                const template = orderedTemplates.find((t) => t.category === category);
-                if (!template) return null;
-                const isActive = activeTab === category;
+              {orderedTemplates.map((template) => {
+                const isActive = activeTemplate?.key === template.key;
                 const isSaving = savingKeys.has(template.key);
                 const isDirty = editedValues[template.key] !== undefined && editedValues[template.key] !== template.prompt;
 
                 return (
                   <button
-                    key={category}
-                    onClick={() => setActiveTab(category)}
+                    key={template.key}
+                    onClick={() => setActiveTab(template.key)}
                     className={`flex w-full items-center justify-between rounded-lg px-3 py-2 text-left text-sm font-medium transition-colors ${
                       isActive
                         ? "bg-white text-zinc-900 shadow-sm dark:bg-zinc-700 dark:text-zinc-100"
                         : "text-zinc-600 hover:bg-white/70 hover:text-zinc-800 dark:text-zinc-400 dark:hover:bg-zinc-700/50 dark:hover:text-zinc-200"
                     }`}
                   >
-                    <span>{CATEGORY_LABELS[category] || category}</span>
+                    <span>{TEMPLATE_TAB_LABELS[template.key] || CATEGORY_LABELS[template.category] || template.label}</span>
                     {isSaving && (
                       <span className="h-1.5 w-1.5 rounded-full bg-blue-400" title="Saving..." />
                     )}
@@ -182,6 +215,31 @@ export default function ConfigurationPanel() {
                       </span>
                     </div>
                     <div className="flex items-center gap-2">
+                      <select
+                        value={activeTemplate.provider ?? ""}
+                        onChange={(e) =>
+                          setModel({ key: activeTemplate.key, provider: e.target.value, model: e.target.value ? activeTemplate.model : "" })
+                        }
+                        className="rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+                        title="Provider used to run this prompt"
+                      >
+                        {PROVIDER_OPTIONS.map((o) => (
+                          <option key={o.value} value={o.value}>{o.label}</option>
+                        ))}
+                      </select>
+                      {activeTemplate.provider && (
+                        <input
+                          key={`${activeTemplate.key}-model`}
+                          defaultValue={activeTemplate.model ?? ""}
+                          onBlur={(e) => {
+                            if (e.target.value !== (activeTemplate.model ?? "")) {
+                              setModel({ key: activeTemplate.key, provider: activeTemplate.provider, model: e.target.value.trim() });
+                            }
+                          }}
+                          placeholder="Default model"
+                          className="w-40 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-[11px] text-zinc-600 outline-none focus:border-blue-400 dark:border-zinc-600 dark:bg-zinc-800 dark:text-zinc-300"
+                        />
+                      )}
                       {isSaving && (
                         <span className="text-[10px] text-blue-500">Saving...</span>
                       )}
@@ -209,6 +267,19 @@ export default function ConfigurationPanel() {
                     style={{ minHeight: "400px" }}
                     placeholder="Enter prompt..."
                   />
+                  {TEMPLATE_VARIABLES[activeTemplate.key] && (
+                    <div className="mt-2 flex flex-wrap items-center gap-1">
+                      <span className="text-[10px] text-zinc-400">Variables:</span>
+                      {TEMPLATE_VARIABLES[activeTemplate.key].map((name) => (
+                        <code
+                          key={name}
+                          className="rounded bg-zinc-100 px-1.5 py-0.5 text-[10px] text-zinc-500 dark:bg-zinc-800 dark:text-zinc-400"
+                        >
+                          {`{{${name}}}`}
+                        </code>
+                      ))}
+                    </div>
+                  )}
                 </>
               );
             })() : (
@@ -218,6 +289,8 @@ export default function ConfigurationPanel() {
         </div>
       )}
 
+      <AIUsagePanel templates={orderedTemplates} />
+
       {/* Slack Integration */}
       <div className="mt-8">
         <div className="mb-4 flex items-center justify-between">
@@ -0,0 +1,158 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { useAction, useQuery } from "convex/react";
+import type { FunctionReturnType } from "convex/server";
+import { api } from "../../../convex/_generated/api";
+import { cn, formatRelativeTime } from "@/lib/utils";
+
+type SearchHit = FunctionReturnType<typeof api.gemini.searchContent>["hits"][number];
+
+const SOURCE_BADGES: Record<string, { label: string; className: string }> = {
+  node: { label: "Screen", className: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300" },
+  comment: { label: "Comment", className: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300" },
+  improvement: { label: "Improvement", className: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/40 dark:text-emerald-300" },
+  report: { label: "Report", className: "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300" },
+  chat: { label: "Chat", className: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400" },
+};
+
+// Wait for a pause in typing before searching; each search embeds the query
+const SEARCH_DEBOUNCE_MS = 500;
+
+/** Dashboard search across every board's content, ranked by meaning rather than exact words. */
+export default function GlobalSearch() {
+  const router = useRouter();
+  const searchContent = useAction(api.gemini.searchContent);
+  const rebuildIndex = useAction(api.gemini.rebuildSearchIndex);
+  const status = useQuery(api.search.getIndexStatus);
+
+  const [query, setQuery] = useState("");
+  const [open, setOpen] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [rebuilding, setRebuilding] = useState(false);
+  const [hits, setHits] = useState<SearchHit[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const latestQuery = useRef("");
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const q = query.trim();
+    latestQuery.current = q;
+    if (q.length < 2) {
+      setHits([]);
+      setError(null);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      setSearching(true);
+      try {
+        const result = await searchContent({ query: q });
+        // Ignore answers to queries the user has already typed past
+        if (latestQuery.current !== q) return;
+        setHits(result.hits);
+        setError(result.error ?? null);
+      } catch (err) {
+        if (latestQuery.current === q) setError((err instanceof Error && err.message) || "Search failed");
+      } finally {
+        if (latestQuery.current === q) setSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [query, searchContent]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const openHit = (hit: SearchHit) => {
+    setOpen(false);
+    router.push(`/board/${hit.boardId}${hit.nodeId ? `?node=${encodeURIComponent(hit.nodeId)}` : ""}`);
+  };
+
+  const handleRebuild = async () => {
+    setRebuilding(true);
+    try {
+      const result = await rebuildIndex({});
+      if (result.error) setError(result.error);
+    } finally {
+      setRebuilding(false);
+    }
+  };
+
+  return (
+    <div ref={containerRef} className="relative w-full max-w-md">
+      <div className="relative">
+        <svg className="pointer-events-none absolute left-3 top-1/2 -translate-y-1/2 text-zinc-400" width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+          <circle cx="11" cy="11" r="8" />
+          <path d="M21 21l-4.35-4.35" />
+        </svg>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") setOpen(false);
+            if (e.key === "Enter" && hits.length > 0) openHit(hits[0]);
+          }}
+          placeholder='Search all journeys, e.g. "where do we mention SSO?"'
+          className="w-full rounded-lg border border-zinc-200 bg-zinc-50 py-2 pl-9 pr-8 text-sm text-zinc-900 outline-none placeholder:text-zinc-400 focus:border-blue-400 focus:bg-white dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:focus:bg-zinc-900"
+        />
+        {searching && (
+          <div className="absolute right-3 top-1/2 h-3.5 w-3.5 -translate-y-1/2 animate-spin rounded-full border border-blue-500 border-t-transparent" />
+        )}
+      </div>
+
+      {open && query.trim().length >= 2 && (
+        <div className="absolute left-0 right-0 top-full z-40 mt-1 overflow-hidden rounded-lg border border-zinc-200 bg-white shadow-lg dark:border-zinc-700 dark:bg-zinc-900">
+          <div className="max-h-96 overflow-y-auto">
+            {error && <p className="px-3 py-2 text-xs text-red-600 dark:text-red-400">{error}</p>}
+            {!error && !searching && hits.length === 0 && (
+              <p className="px-3 py-2 text-xs text-zinc-400">No matches</p>
+            )}
+            {hits.map((hit, i) => {
+              const badge = SOURCE_BADGES[hit.sourceType] || SOURCE_BADGES.chat;
+              return (
+                <button
+                  key={i}
+                  onClick={() => openHit(hit)}
+                  className="block w-full border-b border-zinc-100 px-3 py-2 text-left last:border-b-0 hover:bg-zinc-50 dark:border-zinc-800 dark:hover:bg-zinc-800"
+                >
+                  <div className="flex items-center gap-2">
+                    <span className={cn("shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium", badge.className)}>{badge.label}</span>
+                    <span className="min-w-0 flex-1 truncate text-xs font-medium text-zinc-800 dark:text-zinc-200">{hit.title}</span>
+                    <span className="shrink-0 text-[10px] text-zinc-400">{hit.boardName}</span>
+                  </div>
+                  <p className="mt-0.5 line-clamp-2 text-[11px] text-zinc-500 dark:text-zinc-400">{hit.snippet}</p>
+                </button>
+              );
+            })}
+          </div>
+          <div className="flex items-center justify-between border-t border-zinc-100 bg-zinc-50 px-3 py-1.5 text-[10px] text-zinc-400 dark:border-zinc-800 dark:bg-zinc-800/50">
+            <span>
+              {status
+                ? `${status.indexed}/${status.boards} journeys indexed${status.lastIndexedAt ? ` · updated ${formatRelativeTime(status.lastIndexedAt)}` : ""}`
+                : "Loading index status..."}
+            </span>
+            <button
+              onClick={handleRebuild}
+              disabled={rebuilding}
+              className="font-medium text-blue-600 hover:underline disabled:opacity-50 dark:text-blue-400"
+            >
+              {rebuilding ? "Indexing..." : "Refresh index"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
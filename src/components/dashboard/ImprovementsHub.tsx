@@ -11,6 +11,7 @@ import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
 import ImprovementCommentThread from "@/components/shared/ImprovementCommentThread";
 import ImprovementTodoList from "@/components/shared/ImprovementTodoList";
+import ImprovementRevisionHistory from "@/components/shared/ImprovementRevisionHistory";
 
 type ViewMode = "table" | "kanban";
 type StatusFilter = "all" | "open" | "in_progress" | "closed";
@@ -476,12 +477,21 @@ function ImprovementDetail({
                 </svg>
                 <span className="font-medium text-zinc-700 dark:text-zinc-300">{h.to}</span>
                 <span className="text-zinc-400">by {h.changedByName}</span>
+                {h.note && <span className="truncate text-zinc-400">· {h.note}</span>}
               </div>
             ))}
           </div>
         </div>
       )}
 
+      {/* Content revisions */}
+      <details className="mb-3">
+        <summary className="cursor-pointer text-[9px] font-bold uppercase tracking-wider text-zinc-400 hover:text-zinc-600">Revision History</summary>
+        <div className="mt-1">
+          <ImprovementRevisionHistory improvementId={imp._id as Id<"improvements">} />
+        </div>
+      </details>
+
       {/* Comments */}
       <ImprovementCommentThread
         improvementId={imp._id as Id<"improvements">}
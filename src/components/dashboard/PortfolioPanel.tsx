@@ -0,0 +1,240 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import Link from "next/link";
+import { useAction, useMutation, useQuery } from "convex/react";
+import { useUser } from "@clerk/nextjs";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { api } from "../../../convex/_generated/api";
+import type { Id } from "../../../convex/_generated/dataModel";
+import { formatRelativeTime } from "@/lib/utils";
+
+// Matches MAX_PORTFOLIO_BOARDS in convex/gemini.ts
+const MAX_SELECTED = 6;
+
+const FINDING_TYPE_LABELS: Record<string, string> = {
+  shared_screen: "Shared screen",
+  terminology: "Terminology",
+  handoff: "Handoff",
+  systemic: "Systemic",
+};
+
+const SEVERITY_COLORS: Record<string, string> = {
+  critical: "bg-red-200 text-red-800 dark:bg-red-900/60 dark:text-red-200",
+  high: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  medium: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  low: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+};
+
+/** Pick several journeys, analyze them together and browse the saved portfolio reports. */
+export default function PortfolioPanel() {
+  const { user } = useUser();
+  const boards = useQuery(api.boards.list);
+  const reports = useQuery(api.portfolioReports.list);
+  const analyzePortfolio = useAction(api.gemini.analyzePortfolio);
+  const removeReport = useMutation(api.portfolioReports.remove);
+
+  const [selectedIds, setSelectedIds] = useState<Id<"boards">[]>([]);
+  const [analyzing, setAnalyzing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Only the latest version of each journey is offered
+  const journeys = useMemo(() => {
+    const latest = new Map<string, NonNullable<typeof boards>[number]>();
+    for (const board of boards || []) {
+      const rootId = board.rootBoardId || board._id;
+      const current = latest.get(rootId);
+      if (!current || board.updatedAt > current.updatedAt) latest.set(rootId, board);
+    }
+    return Array.from(latest.values()).sort((a, b) => a.name.localeCompare(b.name));
+  }, [boards]);
+
+  const toggle = (boardId: Id<"boards">) => {
+    setSelectedIds((prev) =>
+      prev.includes(boardId) ? prev.filter((id) => id !== boardId) : prev.length < MAX_SELECTED ? [...prev, boardId] : prev
+    );
+  };
+
+  const handleAnalyze = async () => {
+    setAnalyzing(true);
+    setError(null);
+    try {
+      const result = await analyzePortfolio({
+        boardIds: selectedIds,
+        createdByName: user?.fullName || user?.firstName || undefined,
+      });
+      if (result.error) {
+        setError(result.error);
+      } else if (result.reportId) {
+        setExpandedId(result.reportId);
+        setSelectedIds([]);
+      }
+    } catch (err) {
+      setError((err instanceof Error && err.message) || "Analysis failed");
+    } finally {
+      setAnalyzing(false);
+    }
+  };
+
+  const handleDelete = async (reportId: Id<"portfolioReports">) => {
+    if (!confirm("Delete this portfolio report?")) return;
+    await removeReport({ reportId });
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-xl border border-zinc-200 bg-white p-5 dark:border-zinc-800 dark:bg-zinc-900">
+        <h2 className="text-sm font-semibold text-zinc-900 dark:text-zinc-100">Analyze journeys together</h2>
+        <p className="mt-1 text-xs text-zinc-500 dark:text-zinc-400">
+          Pick two to {MAX_SELECTED} journeys. AI looks for screens they share, terminology that contradicts across products, handoffs between them and issues that recur everywhere.
+        </p>
+
+        <div className="mt-4 flex flex-wrap gap-2">
+          {journeys.length === 0 && <p className="text-xs text-zinc-400">No journeys yet.</p>}
+          {journeys.map((board) => {
+            const selected = selectedIds.includes(board._id);
+            return (
+              <button
+                key={board._id}
+                onClick={() => toggle(board._id)}
+                disabled={!selected && selectedIds.length >= MAX_SELECTED}
+                className={`rounded-full border px-3 py-1 text-xs font-medium transition-colors disabled:opacity-40 ${
+                  selected
+                    ? "border-blue-500 bg-blue-50 text-blue-700 dark:border-blue-400 dark:bg-blue-900/30 dark:text-blue-300"
+                    : "border-zinc-200 text-zinc-600 hover:bg-zinc-50 dark:border-zinc-700 dark:text-zinc-400 dark:hover:bg-zinc-800"
+                }`}
+              >
+                {selected && "✓ "}
+                {board.name}
+                {board.version && <span className="ml-1 text-[10px] opacity-60">v{board.version}</span>}
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="mt-4 flex items-center gap-3">
+          <button
+            onClick={handleAnalyze}
+            disabled={selectedIds.length < 2 || analyzing}
+            className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white transition-colors hover:bg-blue-700 disabled:opacity-50"
+          >
+            {analyzing ? (
+              <span className="flex items-center gap-2">
+                <span className="h-3.5 w-3.5 animate-spin rounded-full border border-white border-t-transparent" />
+                Analyzing {selectedIds.length} journeys...
+              </span>
+            ) : (
+              `Analyze ${selectedIds.length >= 2 ? `${selectedIds.length} journeys` : "together"}`
+            )}
+          </button>
+          {error && <p className="text-xs text-red-600 dark:text-red-400">{error}</p>}
+        </div>
+      </div>
+
+      <div>
+        <p className="mb-2 text-xs font-medium uppercase tracking-wider text-zinc-400">
+          Portfolio reports ({reports?.length || 0})
+        </p>
+        {reports && reports.length === 0 && (
+          <p className="py-8 text-center text-sm text-zinc-400">No portfolio reports yet.</p>
+        )}
+        <div className="space-y-3">
+          {reports?.map((report) => {
+            const isExpanded = expandedId === report._id;
+            const nameOf = new Map(report.boardIds.map((id, i) => [id as string, report.boardNames[i]]));
+            return (
+              <div key={report._id} className="rounded-xl border border-zinc-200 bg-white dark:border-zinc-800 dark:bg-zinc-900">
+                <button
+                  onClick={() => setExpandedId(isExpanded ? null : report._id)}
+                  className="w-full p-4 text-left"
+                >
+                  <div className="flex items-start justify-between gap-3">
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-zinc-900 dark:text-zinc-100">{report.title}</p>
+                      <p className="mt-0.5 text-xs text-zinc-400">
+                        {formatRelativeTime(report.createdAt)}
+                        {report.createdByName && ` · ${report.createdByName}`}
+                        {` · ${report.findings.length} finding${report.findings.length !== 1 ? "s" : ""}`}
+                      </p>
+                    </div>
+                    <svg
+                      width="14"
+                      height="14"
+                      viewBox="0 0 24 24"
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth="2"
+                      className={`mt-1 shrink-0 text-zinc-400 transition-transform ${isExpanded ? "rotate-180" : ""}`}
+                    >
+                      <path d="M6 9l6 6 6-6" />
+                    </svg>
+                  </div>
+                  {!isExpanded && <p className="mt-2 line-clamp-2 text-xs text-zinc-500">{report.summary}</p>}
+                </button>
+
+                {isExpanded && (
+                  <div className="space-y-4 border-t border-zinc-200 p-4 dark:border-zinc-800">
+                    {report.findings.length > 0 && (
+                      <div className="space-y-1.5">
+                        {report.findings.map((finding, i) => (
+                          <div key={i} className="rounded-lg bg-zinc-50 p-2.5 dark:bg-zinc-800/50">
+                            <div className="flex items-center gap-1.5">
+                              <span className={`rounded px-1.5 py-0.5 text-[10px] font-medium ${SEVERITY_COLORS[finding.severity] || SEVERITY_COLORS.low}`}>
+                                {finding.severity}
+                              </span>
+                              <span className="text-[10px] font-medium uppercase tracking-wider text-zinc-400">
+                                {FINDING_TYPE_LABELS[finding.type] || finding.type}
+                              </span>
+                            </div>
+                            <p className="mt-1 text-xs text-zinc-700 dark:text-zinc-300">{finding.description}</p>
+                            {finding.affectedNodes && finding.affectedNodes.length > 0 && (
+                              <div className="mt-1.5 flex flex-wrap gap-1">
+                                {finding.affectedNodes.map((ref, ri) => (
+                                  <Link
+                                    key={ri}
+                                    href={`/board/${ref.boardId}?node=${encodeURIComponent(ref.nodeId)}`}
+                                    className="rounded bg-white px-1.5 py-0.5 text-[10px] text-blue-600 hover:underline dark:bg-zinc-900 dark:text-blue-400"
+                                  >
+                                    {nameOf.get(ref.boardId) || "Journey"} → {ref.label || ref.nodeId}
+                                  </Link>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="prose prose-sm prose-zinc dark:prose-invert max-w-none [&_h2]:text-sm [&_p]:text-xs [&_li]:text-xs">
+                      <ReactMarkdown remarkPlugins={[remarkGfm]}>{report.content}</ReactMarkdown>
+                    </div>
+
+                    {report.validationIssues && report.validationIssues.length > 0 && (
+                      <details className="text-[10px] text-zinc-400">
+                        <summary className="cursor-pointer">{report.validationIssues.length} AI output issue{report.validationIssues.length !== 1 ? "s" : ""}</summary>
+                        <ul className="mt-1 list-disc pl-4">
+                          {report.validationIssues.map((issue, i) => <li key={i}>{issue}</li>)}
+                        </ul>
+                      </details>
+                    )}
+
+                    <div className="flex justify-end">
+                      <button
+                        onClick={() => handleDelete(report._id)}
+                        className="text-xs text-zinc-400 hover:text-red-500"
+                      >
+                        Delete report
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -9,7 +9,13 @@ import { cn } from "@/lib/utils";
 import ConfirmModal from "@/components/ui/ConfirmModal";
 import ScreenshotPreviewModal from "./ScreenshotPreviewModal";
 
-const PLATFORMS = ["all", "desktop", "mobile"] as const;
+const PLATFORMS = ["all", "desktop", "mobile", "admin"] as const;
+
+const PLATFORM_BADGE_COLORS: Record<string, string> = {
+  desktop: "bg-blue-600/80",
+  mobile: "bg-green-600/80",
+  admin: "bg-violet-600/80",
+};
 
 type SidebarView =
   | { kind: "all" }
@@ -33,6 +39,9 @@ export default function ScreenshotBrowser() {
   const updateScreenshot = useMutation(api.globalScreenshots.update);
   const bulkMoveToFolder = useMutation(api.globalScreenshots.bulkMoveToFolder);
   const bulkDelete = useMutation(api.globalScreenshots.bulkDelete);
+  const acceptSuggestions = useMutation(api.globalScreenshots.acceptSuggestions);
+  const dismissSuggestions = useMutation(api.globalScreenshots.dismissSuggestions);
+  const requestSuggestions = useMutation(api.globalScreenshots.requestSuggestions);
   const createFolder = useMutation(api.screenshotFolders.create);
   const renameFolder = useMutation(api.screenshotFolders.rename);
   const removeFolder = useMutation(api.screenshotFolders.remove);
@@ -239,11 +248,28 @@ export default function ScreenshotBrowser() {
     [selectedIds, bulkMoveToFolder]
   );
 
+  const handleAcceptSelected = useCallback(async () => {
+    await acceptSuggestions({ ids: Array.from(selectedIds) as Id<"globalScreenshots">[] });
+    setSelectedIds(new Set());
+  }, [selectedIds, acceptSuggestions]);
+
+  const handleSuggestSelected = useCallback(async () => {
+    await requestSuggestions({ ids: Array.from(selectedIds) as Id<"globalScreenshots">[] });
+    setSelectedIds(new Set());
+  }, [selectedIds, requestSuggestions]);
+
   // Data
   const allScreenshots = globalScreenshots || [];
   const journeyFolders = boardFolders || [];
   const folders = screenshotFolders || [];
   const unfiledCount = allScreenshots.filter((s) => !s.folderId).length;
+  // AI suggestions waiting for the current user's review, on their own uploads
+  const readySuggestionIds = allScreenshots
+    .filter((s) => s.aiSuggestionStatus === "ready" && s.uploadedBy === user?.id)
+    .map((s) => s._id);
+  const selectedWithSuggestions = allScreenshots.filter(
+    (s) => selectedIds.has(s._id) && s.aiSuggestionStatus === "ready"
+  ).length;
 
   // Filtering pipeline
   const filtered = useMemo(() => {
@@ -580,6 +606,28 @@ export default function ScreenshotBrowser() {
           </label>
         </div>
 
+        {/* AI label suggestions */}
+        {readySuggestionIds.length > 0 && (
+          <div className="mb-4 flex items-center gap-3 rounded-lg border border-violet-200 bg-violet-50 px-3 py-2 dark:border-violet-800 dark:bg-violet-900/20">
+            <span className="text-xs text-violet-700 dark:text-violet-300">
+              AI suggested labels, platforms and tags for {readySuggestionIds.length} of your
+              screenshot{readySuggestionIds.length === 1 ? "" : "s"}.
+            </span>
+            <button
+              onClick={() => acceptSuggestions({ ids: readySuggestionIds })}
+              className="ml-auto rounded-md bg-violet-600 px-2.5 py-1 text-xs font-medium text-white transition-colors hover:bg-violet-700"
+            >
+              Accept all
+            </button>
+            <button
+              onClick={() => dismissSuggestions({ ids: readySuggestionIds })}
+              className="text-xs text-violet-600 hover:underline dark:text-violet-400"
+            >
+              Dismiss all
+            </button>
+          </div>
+        )}
+
         {/* Grid */}
         {filtered.length === 0 ? (
           <p className="py-12 text-center text-sm text-zinc-400">
@@ -594,6 +642,8 @@ export default function ScreenshotBrowser() {
               const isNew =
                 newBadgeThreshold.current !== null &&
                 screenshot.createdAt > newBadgeThreshold.current;
+              const suggestion =
+                screenshot.aiSuggestionStatus === "ready" ? screenshot.aiSuggestion : undefined;
 
               return (
                 <div
@@ -678,9 +728,7 @@ export default function ScreenshotBrowser() {
                       <span
                         className={cn(
                           "rounded px-1 py-0.5 text-[8px] font-bold uppercase text-white",
-                          screenshot.platform === "mobile"
-                            ? "bg-green-600/80"
-                            : "bg-blue-600/80"
+                          PLATFORM_BADGE_COLORS[screenshot.platform] || PLATFORM_BADGE_COLORS.desktop
                         )}
                       >
                         {screenshot.platform}
@@ -706,6 +754,43 @@ export default function ScreenshotBrowser() {
                       )}
                     </div>
                   )}
+
+                  {/* AI labelling in progress */}
+                  {screenshot.aiSuggestionStatus === "pending" && (
+                    <div className="absolute bottom-1.5 right-1.5 flex items-center gap-1 rounded bg-black/50 px-1.5 py-0.5 text-[8px] text-white">
+                      <span className="h-2 w-2 animate-spin rounded-full border border-white border-t-transparent" />
+                      Labelling
+                    </div>
+                  )}
+
+                  {/* AI suggestion */}
+                  {suggestion && (
+                    <div
+                      className="border-t border-violet-200 bg-violet-50 px-2 py-1.5 dark:border-violet-800 dark:bg-violet-900/30"
+                      onClick={(e) => e.stopPropagation()}
+                    >
+                      <p className="truncate text-[10px] font-medium text-violet-800 dark:text-violet-200" title={suggestion.label}>
+                        {suggestion.label}
+                      </p>
+                      <p className="truncate text-[9px] text-violet-600 dark:text-violet-400">
+                        {[suggestion.platform, suggestion.toolName, ...suggestion.tags].filter(Boolean).join(" · ")}
+                      </p>
+                      <div className="mt-1 flex gap-2">
+                        <button
+                          onClick={() => acceptSuggestions({ ids: [screenshot._id] })}
+                          className="text-[10px] font-medium text-violet-700 hover:underline dark:text-violet-300"
+                        >
+                          Accept
+                        </button>
+                        <button
+                          onClick={() => dismissSuggestions({ ids: [screenshot._id] })}
+                          className="text-[10px] text-zinc-500 hover:underline"
+                        >
+                          Dismiss
+                        </button>
+                      </div>
+                    </div>
+                  )}
                 </div>
               );
             })}
@@ -756,6 +841,20 @@ export default function ScreenshotBrowser() {
                 </div>
               )}
             </div>
+            {selectedWithSuggestions > 0 && (
+              <button
+                onClick={handleAcceptSelected}
+                className="rounded-lg bg-violet-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-violet-700"
+              >
+                Accept suggestions ({selectedWithSuggestions})
+              </button>
+            )}
+            <button
+              onClick={handleSuggestSelected}
+              className="rounded-lg bg-zinc-100 px-3 py-1.5 text-xs font-medium text-zinc-700 transition-colors hover:bg-zinc-200 dark:bg-zinc-700 dark:text-zinc-300"
+            >
+              Suggest labels
+            </button>
             <button
               onClick={() => setShowBulkDeleteConfirm(true)}
               className="rounded-lg bg-red-600 px-3 py-1.5 text-xs font-medium text-white transition-colors hover:bg-red-700"
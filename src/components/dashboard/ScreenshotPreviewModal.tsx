@@ -164,7 +164,7 @@ export default function ScreenshotPreviewModal({
                   Platform
                 </label>
                 <div className="flex gap-1">
-                  {(["desktop", "mobile"] as const).map((p) => (
+                  {(["desktop", "mobile", "admin"] as const).map((p) => (
                     <button
                       key={p}
                       onClick={() => savePlatform(p)}
@@ -173,7 +173,9 @@ export default function ScreenshotPreviewModal({
                         platform === p
                           ? p === "mobile"
                             ? "bg-green-100 text-green-700 dark:bg-green-900/40 dark:text-green-300"
-                            : "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
+                            : p === "admin"
+                              ? "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300"
+                              : "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300"
                           : "bg-zinc-100 text-zinc-500 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-400"
                       )}
                     >
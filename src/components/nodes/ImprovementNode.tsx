@@ -5,6 +5,7 @@ import { Handle, Position, NodeResizer } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
 import ReactMarkdown from "react-markdown";
 import remarkGfm from "remark-gfm";
+import EditingBadge from "@/components/shared/EditingBadge";
 
 interface ConnectedScreen {
   nodeId: string;
@@ -33,6 +34,10 @@ interface ImprovementNodeData {
   onUpdateField?: (field: string, value: string) => void;
   onFocusNode?: (nodeId: string) => void;
   generating?: boolean;
+  // Edit lock: set when someone else is editing; claim resolves false if they got there first
+  lockedBy?: { name: string; color: string };
+  onStartEditing?: () => Promise<boolean>;
+  onStopEditing?: () => void;
   [key: string]: unknown;
 }
 
@@ -63,6 +68,8 @@ function CollapsibleMarkdown({
   onSave,
   connectedScreens,
   onFocusNode,
+  onStartEditing,
+  onStopEditing,
 }: {
   nodeId: string;
   content: string;
@@ -74,6 +81,8 @@ function CollapsibleMarkdown({
   onSave?: (field: string, value: string) => void;
   connectedScreens?: ConnectedScreen[];
   onFocusNode?: (nodeId: string) => void;
+  onStartEditing?: () => Promise<boolean>;
+  onStopEditing?: () => void;
 }) {
   const persistKey = `${nodeId}:${fieldKey}`;
 
@@ -120,12 +129,18 @@ function CollapsibleMarkdown({
     }
   }, [editing]);
 
+  const startEditing = useCallback(async () => {
+    if (onStartEditing && !(await onStartEditing())) return;
+    setEditing(true);
+  }, [onStartEditing]);
+
   const handleSave = useCallback(() => {
     setEditing(false);
     if (draft !== content && onSave) {
       onSave(fieldKey, draft);
     }
-  }, [draft, content, fieldKey, onSave]);
+    onStopEditing?.();
+  }, [draft, content, fieldKey, onSave, onStopEditing]);
 
   // Custom strong renderer: clickable screen names
   const markdownComponents = {
@@ -167,7 +182,7 @@ function CollapsibleMarkdown({
           <button
             onClick={(e) => {
               e.stopPropagation();
-              setEditing(true);
+              startEditing();
             }}
             className="nodrag rounded p-0.5 text-zinc-400 hover:bg-emerald-100 hover:text-emerald-600 dark:hover:bg-emerald-900/30"
             title="Edit this section"
@@ -241,7 +256,7 @@ function CollapsibleMarkdown({
               if (!expanded) {
                 setExpanded(true);
               } else {
-                setEditing(true);
+                startEditing();
               }
             }}
             title={!expanded && needsCollapse ? "Double-click to expand" : "Double-click to edit"}
@@ -318,11 +333,22 @@ function ImprovementNode({ id, data, selected }: NodeProps) {
     }
   }, [editing]);
 
+  // Shared by the title and the content sections: one lock per node
+  const claimEditing = useCallback(async () => {
+    if (nodeData.lockedBy) return false;
+    return nodeData.onStartEditing ? nodeData.onStartEditing() : true;
+  }, [nodeData]);
+
+  const startEditing = useCallback(async () => {
+    if (await claimEditing()) setEditing(true);
+  }, [claimEditing]);
+
   const handleSave = useCallback(() => {
     setEditing(false);
     if (nodeData.onTextChange) {
       nodeData.onTextChange(text);
     }
+    nodeData.onStopEditing?.();
   }, [text, nodeData]);
 
   return (
@@ -354,6 +380,8 @@ function ImprovementNode({ id, data, selected }: NodeProps) {
             : "border-emerald-400 dark:border-emerald-700"
         }`}
       >
+        {nodeData.lockedBy && <EditingBadge lockedBy={nodeData.lockedBy} />}
+
         {/* Header */}
         <div className="flex items-center justify-between border-b border-emerald-200 bg-emerald-100/60 px-3 py-2 dark:border-emerald-800 dark:bg-emerald-900/40">
           <div className="flex items-center gap-2">
@@ -429,7 +457,7 @@ function ImprovementNode({ id, data, selected }: NodeProps) {
         </div>
 
         {/* Title */}
-        <div className="border-b border-emerald-200/50 px-3 py-2 dark:border-emerald-800/50" onDoubleClick={() => setEditing(true)}>
+        <div className="border-b border-emerald-200/50 px-3 py-2 dark:border-emerald-800/50" onDoubleClick={startEditing}>
           <div className="flex items-start gap-2">
             <svg
               width="14"
@@ -480,6 +508,8 @@ function ImprovementNode({ id, data, selected }: NodeProps) {
                 onSave={nodeData.onUpdateField}
                 connectedScreens={nodeData.connectedScreens}
                 onFocusNode={nodeData.onFocusNode}
+                onStartEditing={claimEditing}
+                onStopEditing={nodeData.onStopEditing}
               />
             )}
             {nodeData.developerTodos && (
@@ -494,6 +524,8 @@ function ImprovementNode({ id, data, selected }: NodeProps) {
                 onSave={nodeData.onUpdateField}
                 connectedScreens={nodeData.connectedScreens}
                 onFocusNode={nodeData.onFocusNode}
+                onStartEditing={claimEditing}
+                onStopEditing={nodeData.onStopEditing}
               />
             )}
           </div>
@@ -5,11 +5,26 @@ import { createPortal } from "react-dom";
 import { Handle, Position, NodeResizer } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
 import { getPlatformColor } from "@/lib/utils";
+import { ACCESSIBILITY_ISSUE_LABELS, type NodeAccessibilityIssue } from "../../../convex/accessibility";
+
+// Outline colors for accessibility issue boxes, by severity
+const A11Y_BOX_COLORS: Record<string, string> = {
+  critical: "border-red-600 bg-red-600/10",
+  high: "border-red-500 bg-red-500/10",
+  medium: "border-amber-500 bg-amber-500/10",
+  low: "border-blue-500 bg-blue-500/10",
+};
+const SEVERITY_ORDER = ["critical", "high", "medium", "low"];
 
 function ScreenshotNode({ id, data, selected }: NodeProps) {
   const nodeData = data as any;
   const [showPreview, setShowPreview] = useState(false);
+  const [showAccessibility, setShowAccessibility] = useState(false);
   const borderColor = getPlatformColor(nodeData.platform);
+  // Latest accessibility audit of this screen; boxes show while selected or toggled on
+  const a11yIssues: NodeAccessibilityIssue[] = nodeData.accessibilityIssues || [];
+  const worstSeverity = SEVERITY_ORDER.find((sev) => a11yIssues.some((issue) => issue.severity === sev)) || "low";
+  const a11yVisible = a11yIssues.length > 0 && (showAccessibility || !!selected);
 
   return (
     <>
@@ -52,6 +67,26 @@ function ScreenshotNode({ id, data, selected }: NodeProps) {
             className="block h-auto w-full object-cover"
             draggable={false}
           />
+          {/* Accessibility issue boxes */}
+          {a11yVisible && a11yIssues.map((issue, i) =>
+            issue.width !== undefined && (
+              <div
+                key={i}
+                className={`pointer-events-auto absolute rounded-sm border-2 ${A11Y_BOX_COLORS[issue.severity] || A11Y_BOX_COLORS.low}`}
+                style={{
+                  left: `${issue.x * 100}%`,
+                  top: `${issue.y * 100}%`,
+                  width: `${issue.width * 100}%`,
+                  height: `${issue.height * 100}%`,
+                }}
+                title={`[${issue.severity}] ${ACCESSIBILITY_ISSUE_LABELS[issue.type] || issue.type}: ${issue.description}`}
+              >
+                <span className="absolute -left-0.5 -top-3 rounded-sm bg-zinc-900/80 px-0.5 text-[7px] font-bold leading-3 text-white">
+                  {i + 1}
+                </span>
+              </div>
+            )
+          )}
           {/* Preview eye icon on hover */}
           <button
             onClick={(e) => {
@@ -89,6 +124,22 @@ function ScreenshotNode({ id, data, selected }: NodeProps) {
           </div>
         )}
 
+        {/* Accessibility issue badge (bottom-left) */}
+        {a11yIssues.length > 0 && (
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              setShowAccessibility((v) => !v);
+            }}
+            className={`absolute bottom-1 left-1 z-10 rounded-full px-1.5 py-0.5 text-[8px] font-bold text-white shadow-sm ${
+              worstSeverity === "critical" || worstSeverity === "high" ? "bg-red-600 hover:bg-red-700" : worstSeverity === "medium" ? "bg-amber-500 hover:bg-amber-600" : "bg-blue-500 hover:bg-blue-600"
+            }`}
+            title={a11yIssues.map((issue, i) => `${i + 1}. [${issue.severity}] ${issue.description}`).join("\n")}
+          >
+            A11y {a11yIssues.length}
+          </button>
+        )}
+
         {/* Comment count badge (bottom-right) */}
         {nodeData.commentCount > 0 && (
           <button
@@ -17,12 +17,26 @@ function getColorSet(colorKey: string) {
   return SECTION_COLORS.find((c) => c.key === colorKey) || SECTION_COLORS[0];
 }
 
+// AI actions that can be limited to a section's screens
+const SECTION_ACTIONS = [
+  { kind: "report", label: "Gap analysis report" },
+  { kind: "walkthrough", label: "UX walkthrough" },
+  { kind: "accessibility", label: "Accessibility audit" },
+] as const;
+
+export type SectionActionKind = (typeof SECTION_ACTIONS)[number]["kind"];
+
 interface SectionNodeData {
   label: string;
   color?: string;
+  collapsed?: boolean;
+  // "3 screens, 1 improvement" for the collapsed card
+  memberSummary?: string;
   onTextChange?: (text: string) => void;
   onColorChange?: (color: string) => void;
-  onNodeResized?: (width: number, height: number) => void;
+  onToggleCollapsed?: () => void;
+  onSectionResized?: (frame: { x: number; y: number; width: number; height: number }) => void;
+  onAnalyze?: (kind: SectionActionKind) => void;
   [key: string]: unknown;
 }
 
@@ -31,6 +45,8 @@ function SectionNode({ id, data, selected }: NodeProps) {
   const colorSet = getColorSet(nodeData.color || "blue");
   const [editing, setEditing] = useState(false);
   const [label, setLabel] = useState(nodeData.label || "Section");
+  const [actionsOpen, setActionsOpen] = useState(false);
+  const collapsed = !!nodeData.collapsed;
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -51,6 +67,47 @@ function SectionNode({ id, data, selected }: NodeProps) {
     }
   }, [label, nodeData]);
 
+  const collapseToggle = (
+    <button
+      onClick={() => nodeData.onToggleCollapsed?.()}
+      className="nodrag flex h-4 w-4 shrink-0 items-center justify-center rounded hover:bg-black/5 dark:hover:bg-white/10"
+      style={{ color: colorSet.text }}
+      title={collapsed ? "Expand section" : "Collapse section"}
+    >
+      <svg
+        width="10"
+        height="10"
+        viewBox="0 0 24 24"
+        fill="none"
+        stroke="currentColor"
+        strokeWidth="3"
+        style={{ transform: collapsed ? "rotate(-90deg)" : undefined }}
+      >
+        <path d="M6 9l6 6 6-6" />
+      </svg>
+    </button>
+  );
+
+  if (collapsed) {
+    return (
+      <div
+        className="flex h-full w-full flex-col justify-center gap-1 rounded-xl px-3 shadow-sm"
+        style={{ backgroundColor: colorSet.bg, border: `2px solid ${colorSet.border}` }}
+        onDoubleClick={() => nodeData.onToggleCollapsed?.()}
+      >
+        <div className="flex items-center gap-1.5">
+          {collapseToggle}
+          <span className="truncate text-xs font-semibold select-none" style={{ color: colorSet.text }}>
+            {label}
+          </span>
+        </div>
+        <span className="pl-5 text-[10px] text-zinc-500 select-none dark:text-zinc-400">
+          {nodeData.memberSummary || "Empty"}
+        </span>
+      </div>
+    );
+  }
+
   return (
     <>
       <NodeResizer
@@ -60,7 +117,7 @@ function SectionNode({ id, data, selected }: NodeProps) {
         lineStyle={{ borderColor: colorSet.border }}
         handleStyle={{ backgroundColor: colorSet.dot, width: 8, height: 8 }}
         onResizeEnd={(_event, params) => {
-          nodeData.onNodeResized?.(params.width, params.height);
+          nodeData.onSectionResized?.({ x: params.x, y: params.y, width: params.width, height: params.height });
         }}
       />
 
@@ -80,6 +137,7 @@ function SectionNode({ id, data, selected }: NodeProps) {
           style={{ pointerEvents: "auto" }}
           onDoubleClick={() => setEditing(true)}
         >
+          {collapseToggle}
           {editing ? (
             <input
               ref={inputRef}
@@ -123,6 +181,35 @@ function SectionNode({ id, data, selected }: NodeProps) {
               ))}
             </div>
           )}
+
+          {/* AI actions limited to this section's screens */}
+          {selected && nodeData.onAnalyze && (
+            <div className="nodrag relative ml-1" onMouseLeave={() => setActionsOpen(false)}>
+              <button
+                onClick={() => setActionsOpen((open) => !open)}
+                className="rounded px-1.5 py-0.5 text-[10px] font-medium hover:bg-black/5 dark:hover:bg-white/10"
+                style={{ color: colorSet.text }}
+              >
+                Analyze ▾
+              </button>
+              {actionsOpen && (
+                <div className="absolute left-0 top-full z-10 w-44 overflow-hidden rounded-md border border-zinc-200 bg-white py-1 shadow-lg dark:border-zinc-700 dark:bg-zinc-800">
+                  {SECTION_ACTIONS.map((action) => (
+                    <button
+                      key={action.kind}
+                      onClick={() => {
+                        setActionsOpen(false);
+                        nodeData.onAnalyze?.(action.kind);
+                      }}
+                      className="block w-full px-3 py-1.5 text-left text-[11px] text-zinc-700 hover:bg-zinc-50 dark:text-zinc-200 dark:hover:bg-zinc-700"
+                    >
+                      {action.label}
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
         </div>
       </div>
     </>
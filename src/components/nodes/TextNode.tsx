@@ -3,6 +3,7 @@
 import { memo, useState, useRef, useEffect, useCallback } from "react";
 import { Handle, Position, NodeResizer } from "@xyflow/react";
 import type { NodeProps } from "@xyflow/react";
+import EditingBadge from "@/components/shared/EditingBadge";
 
 interface TextNodeData {
   text: string;
@@ -10,6 +11,10 @@ interface TextNodeData {
   onNodeResized?: (width: number, height: number) => void;
   missingScreenshot?: boolean;
   platform?: string;
+  // Edit lock: set when someone else is editing; claim resolves false if they got there first
+  lockedBy?: { name: string; color: string };
+  onStartEditing?: () => Promise<boolean>;
+  onStopEditing?: () => void;
   [key: string]: unknown;
 }
 
@@ -30,11 +35,18 @@ function TextNode({ id, data, selected }: NodeProps) {
     }
   }, [editing]);
 
+  const startEditing = useCallback(async () => {
+    if (nodeData.lockedBy) return;
+    if (nodeData.onStartEditing && !(await nodeData.onStartEditing())) return;
+    setEditing(true);
+  }, [nodeData]);
+
   const handleSave = useCallback(() => {
     setEditing(false);
     if (nodeData.onTextChange) {
       nodeData.onTextChange(text);
     }
+    nodeData.onStopEditing?.();
   }, [text, nodeData]);
 
   const hasMissing = nodeData.missingScreenshot === true;
@@ -62,6 +74,8 @@ function TextNode({ id, data, selected }: NodeProps) {
       <Handle type="target" position={Position.Right} id="right-target" className="!w-4 !h-4 !bg-amber-500 !border-2 !border-white hover:!w-5 hover:!h-5 !transition-all !duration-150 !cursor-crosshair" />
       <Handle type="source" position={Position.Right} id="right-source" className="!w-4 !h-4 !bg-amber-500 !border-2 !border-white hover:!w-5 hover:!h-5 !transition-all !duration-150 !cursor-crosshair" />
 
+      {nodeData.lockedBy && <EditingBadge lockedBy={nodeData.lockedBy} />}
+
       <div
         className={`h-full w-full overflow-hidden rounded-lg border shadow-sm ${
           hasMissing
@@ -70,7 +84,7 @@ function TextNode({ id, data, selected }: NodeProps) {
               ? "border-amber-400 ring-2 ring-amber-400 ring-offset-2 bg-amber-50 dark:bg-amber-950/30"
               : "border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950/30"
         }`}
-        onDoubleClick={() => setEditing(true)}
+        onDoubleClick={startEditing}
       >
         {/* Missing screenshot indicator */}
         {hasMissing && (
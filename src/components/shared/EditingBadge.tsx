@@ -0,0 +1,16 @@
+"use client";
+
+/** "Name is editing" tag shown on a node someone else holds the edit lock on. */
+export default function EditingBadge({ lockedBy }: { lockedBy: { name: string; color: string } }) {
+  return (
+    <div
+      className="absolute -top-6 left-0 z-10 flex items-center gap-1 whitespace-nowrap rounded px-1.5 py-0.5 text-[10px] font-medium text-white shadow-sm"
+      style={{ backgroundColor: lockedBy.color }}
+    >
+      <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+        <path d="M12 20h9M16.5 3.5a2.12 2.12 0 0 1 3 3L7 19l-4 1 1-4L16.5 3.5z" />
+      </svg>
+      {lockedBy.name} is editing
+    </div>
+  );
+}
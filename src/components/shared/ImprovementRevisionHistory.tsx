@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import { useMutation, useQuery } from "convex/react";
+import { api } from "../../../convex/_generated/api";
+import type { Doc, Id } from "../../../convex/_generated/dataModel";
+import { cn, formatRelativeTime } from "@/lib/utils";
+import SideBySideDiff from "./SideBySideDiff";
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Edited",
+  ai: "AI generated",
+  clear: "Cleared",
+  merge: "Merged",
+  restore: "Restored",
+};
+
+const SOURCE_COLORS: Record<string, string> = {
+  manual: "bg-zinc-100 text-zinc-600 dark:bg-zinc-800 dark:text-zinc-400",
+  ai: "bg-violet-100 text-violet-700 dark:bg-violet-900/40 dark:text-violet-300",
+  clear: "bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300",
+  merge: "bg-amber-100 text-amber-700 dark:bg-amber-900/40 dark:text-amber-300",
+  restore: "bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300",
+};
+
+const REVISION_DIFF_FIELDS: { key: keyof Doc<"improvementRevisions">; label: string }[] = [
+  { key: "title", label: "Title" },
+  { key: "priority", label: "Priority" },
+  { key: "content", label: "Content" },
+  { key: "currentState", label: "Current state" },
+  { key: "proposedImprovement", label: "Proposed improvement" },
+  { key: "expectedImpact", label: "Expected impact" },
+  { key: "developerTodos", label: "Developer todos" },
+];
+
+interface ImprovementRevisionHistoryProps {
+  improvementId: Id<"improvements">;
+}
+
+export default function ImprovementRevisionHistory({ improvementId }: ImprovementRevisionHistoryProps) {
+  const revisions = useQuery(api.improvementRevisions.getByImprovement, { improvementId });
+  const restore = useMutation(api.improvementRevisions.restore);
+  const [selectedId, setSelectedId] = useState<Id<"improvementRevisions"> | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  if (!revisions) {
+    return (
+      <div className="flex items-center justify-center py-3">
+        <div className="h-4 w-4 animate-spin rounded-full border border-violet-400 border-t-transparent" />
+      </div>
+    );
+  }
+
+  if (revisions.length === 0) {
+    return <p className="py-2 text-xs text-zinc-400">No revisions yet. Edits and AI generations are recorded here.</p>;
+  }
+
+  // Newest first; the newest revision is the improvement's current content
+  const latest = revisions[0];
+  const selected = revisions.find((r) => r._id === selectedId);
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setRestoring(true);
+    try {
+      await restore({ revisionId: selected._id });
+      setSelectedId(null);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="space-y-1">
+        {revisions.map((revision, i) => (
+          <button
+            key={revision._id}
+            onClick={() => setSelectedId(revision._id === selectedId || i === 0 ? null : revision._id)}
+            className={cn(
+              "flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-xs transition-colors",
+              revision._id === selectedId
+                ? "bg-violet-50 dark:bg-violet-900/20"
+                : "hover:bg-zinc-50 dark:hover:bg-zinc-800",
+              i === 0 && "cursor-default"
+            )}
+          >
+            <span className={cn("shrink-0 rounded px-1.5 py-0.5 text-[10px] font-medium", SOURCE_COLORS[revision.source] || SOURCE_COLORS.manual)}>
+              {SOURCE_LABELS[revision.source] || revision.source}
+            </span>
+            <span className="min-w-0 flex-1 truncate text-zinc-700 dark:text-zinc-300">
+              {revision.title || "Untitled"}
+              {revision.note && <span className="text-zinc-400"> · {revision.note}</span>}
+            </span>
+            <span className="shrink-0 text-[10px] text-zinc-400">
+              {i === 0 ? "current" : `${revision.authorName ? `${revision.authorName} · ` : ""}${formatRelativeTime(revision.createdAt)}`}
+            </span>
+          </button>
+        ))}
+      </div>
+
+      {selected && (
+        <div className="space-y-2 rounded-lg border border-violet-200 p-2 dark:border-violet-800">
+          <div className="flex items-center justify-between">
+            <span className="text-xs font-medium text-zinc-600 dark:text-zinc-400">
+              Revision from {formatRelativeTime(selected.createdAt)} compared with current
+            </span>
+            <button
+              onClick={handleRestore}
+              disabled={restoring}
+              className="rounded-md bg-violet-600 px-2.5 py-1 text-xs font-medium text-white hover:bg-violet-700 disabled:opacity-50"
+            >
+              {restoring ? "Restoring..." : "Restore this revision"}
+            </button>
+          </div>
+          {REVISION_DIFF_FIELDS.filter(({ key }) => selected[key] || latest[key]).map(({ key, label }) => (
+            <SideBySideDiff
+              key={key}
+              label={label}
+              before={String(latest[key] ?? "")}
+              after={String(selected[key] ?? "")}
+              beforeLabel="Current"
+              afterLabel="This revision"
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+"use client";
+
+import { useMemo } from "react";
+import { cn } from "@/lib/utils";
+import { diffLines } from "@/lib/diff";
+
+interface SideBySideDiffProps {
+  label: string;
+  before?: string;
+  after?: string;
+  beforeLabel?: string;
+  afterLabel?: string;
+}
+
+export default function SideBySideDiff({
+  label,
+  before = "",
+  after = "",
+  beforeLabel = "Current",
+  afterLabel = "New",
+}: SideBySideDiffProps) {
+  const rows = useMemo(() => diffLines(before, after), [before, after]);
+  const unchanged = before === after;
+
+  return (
+    <div className="rounded-lg border border-zinc-200 dark:border-zinc-700">
+      <div className="flex items-center justify-between border-b border-zinc-200 px-3 py-1.5 dark:border-zinc-700">
+        <span className="text-xs font-semibold text-zinc-700 dark:text-zinc-300">{label}</span>
+        {unchanged && <span className="text-[10px] text-zinc-400">unchanged</span>}
+      </div>
+      {!unchanged && (
+        <div className="max-h-72 overflow-auto font-mono text-[11px] leading-relaxed">
+          <div className="sticky top-0 grid grid-cols-2 bg-zinc-50 text-[10px] font-sans font-medium uppercase tracking-wide text-zinc-400 dark:bg-zinc-800">
+            <span className="px-2 py-1">{beforeLabel}</span>
+            <span className="border-l border-zinc-200 px-2 py-1 dark:border-zinc-700">{afterLabel}</span>
+          </div>
+          {rows.map((row, i) => (
+            <div key={i} className="grid grid-cols-2">
+              <div
+                className={cn(
+                  "whitespace-pre-wrap break-words px-2",
+                  (row.kind === "removed" || row.kind === "changed") && "bg-red-50 text-red-800 dark:bg-red-950/40 dark:text-red-300",
+                  row.kind === "added" && "bg-zinc-50 dark:bg-zinc-800/50",
+                  row.kind === "same" && "text-zinc-500 dark:text-zinc-400"
+                )}
+              >
+                {row.left ?? ""}
+              </div>
+              <div
+                className={cn(
+                  "whitespace-pre-wrap break-words border-l border-zinc-200 px-2 dark:border-zinc-700",
+                  (row.kind === "added" || row.kind === "changed") && "bg-emerald-50 text-emerald-800 dark:bg-emerald-950/40 dark:text-emerald-300",
+                  row.kind === "removed" && "bg-zinc-50 dark:bg-zinc-800/50",
+                  row.kind === "same" && "text-zinc-500 dark:text-zinc-400"
+                )}
+              >
+                {row.right ?? ""}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
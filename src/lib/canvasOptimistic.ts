@@ -0,0 +1,136 @@
+import type { OptimisticLocalStore } from "convex/browser";
+import type { FunctionArgs } from "convex/server";
+import { api } from "../../convex/_generated/api";
+import type { Doc, Id } from "../../convex/_generated/dataModel";
+
+/**
+ * Optimistic updates for the canvas mutations: each applies its change to the
+ * cached nodes.getByBoard / edges.getByBoard results right away, so the canvas
+ * sync from Convex shows the local edit instead of reverting it until the
+ * server confirms. Convex drops them again once the real result arrives.
+ */
+
+function updateNodes(
+  store: OptimisticLocalStore,
+  boardId: Id<"boards">,
+  update: (nodes: Doc<"nodes">[]) => Doc<"nodes">[]
+) {
+  const nodes = store.getQuery(api.nodes.getByBoard, { boardId });
+  if (nodes !== undefined) store.setQuery(api.nodes.getByBoard, { boardId }, update(nodes));
+}
+
+function updateEdges(
+  store: OptimisticLocalStore,
+  boardId: Id<"boards">,
+  update: (edges: Doc<"edges">[]) => Doc<"edges">[]
+) {
+  const edges = store.getQuery(api.edges.getByBoard, { boardId });
+  if (edges !== undefined) store.setQuery(api.edges.getByBoard, { boardId }, update(edges));
+}
+
+export function optimisticAddNode(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.addNode>) {
+  updateNodes(store, args.boardId, (nodes) => [
+    ...nodes,
+    // Placeholder id until the server's row replaces it
+    { _id: `optimistic-${args.nodeId}` as Id<"nodes">, _creationTime: Date.now(), ...args },
+  ]);
+}
+
+// parentId null takes the node out of its section, undefined leaves it as is
+function withPosition(node: Doc<"nodes">, update: { position: { x: number; y: number }; parentId?: string | null }): Doc<"nodes"> {
+  return {
+    ...node,
+    position: update.position,
+    ...(update.parentId !== undefined ? { parentId: update.parentId ?? undefined } : {}),
+  };
+}
+
+export function optimisticUpdatePosition(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.updatePosition>) {
+  updateNodes(store, args.boardId, (nodes) =>
+    nodes.map((n) => (n.nodeId === args.nodeId ? withPosition(n, args) : n))
+  );
+}
+
+export function optimisticBulkUpdatePositions(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.bulkUpdatePositions>) {
+  const updates = new Map(args.updates.map((u) => [u.nodeId, u]));
+  updateNodes(store, args.boardId, (nodes) =>
+    nodes.map((n) => (updates.has(n.nodeId) ? withPosition(n, updates.get(n.nodeId)!) : n))
+  );
+}
+
+export function optimisticUpdateData(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.updateData>) {
+  updateNodes(store, args.boardId, (nodes) =>
+    nodes.map((n) => {
+      if (n.nodeId !== args.nodeId) return n;
+      // A write the server will reject as stale changes nothing
+      if (args.expectedRevision !== undefined && args.expectedRevision !== (n.revision ?? 0)) return n;
+      return {
+        ...n,
+        data: args.data,
+        revision: (n.revision ?? 0) + 1,
+        ...(args.width !== undefined ? { width: args.width } : {}),
+        ...(args.height !== undefined ? { height: args.height } : {}),
+      };
+    })
+  );
+}
+
+export function optimisticUpdateDimensions(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.updateDimensions>) {
+  updateNodes(store, args.boardId, (nodes) =>
+    nodes.map((n) =>
+      n.nodeId === args.nodeId
+        ? { ...n, width: args.width, ...(args.height !== undefined ? { height: args.height } : {}) }
+        : n
+    )
+  );
+}
+
+export function optimisticConvertToScreenshot(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.convertToScreenshot>) {
+  updateNodes(store, args.boardId, (nodes) =>
+    nodes.map((n) =>
+      n.nodeId === args.nodeId
+        ? {
+            ...n,
+            type: "screenshot",
+            data: { imageUrl: args.imageUrl, label: args.label, platform: args.platform || "", globalScreenshotId: args.globalScreenshotId },
+            width: 220,
+            revision: (n.revision ?? 0) + 1,
+          }
+        : n
+    )
+  );
+}
+
+export function optimisticDeleteNode(store: OptimisticLocalStore, args: FunctionArgs<typeof api.nodes.deleteNode>) {
+  updateNodes(store, args.boardId, (nodes) => nodes.filter((n) => n.nodeId !== args.nodeId));
+  updateEdges(store, args.boardId, (edges) =>
+    edges.filter((e) => e.source !== args.nodeId && e.target !== args.nodeId)
+  );
+}
+
+export function optimisticAddEdge(store: OptimisticLocalStore, args: FunctionArgs<typeof api.edges.addEdge>) {
+  updateEdges(store, args.boardId, (edges) => [
+    ...edges,
+    { _id: `optimistic-${args.edgeId}` as Id<"edges">, _creationTime: Date.now(), ...args },
+  ]);
+}
+
+export function optimisticUpdateEdgeLabel(store: OptimisticLocalStore, args: FunctionArgs<typeof api.edges.updateLabel>) {
+  updateEdges(store, args.boardId, (edges) =>
+    edges.map((e) => (e.edgeId === args.edgeId ? { ...e, label: args.label } : e))
+  );
+}
+
+export function optimisticUpdateConnection(store: OptimisticLocalStore, args: FunctionArgs<typeof api.edges.updateConnection>) {
+  updateEdges(store, args.boardId, (edges) =>
+    edges.map((e) =>
+      e.edgeId === args.edgeId
+        ? { ...e, source: args.source, target: args.target, sourceHandle: args.sourceHandle, targetHandle: args.targetHandle }
+        : e
+    )
+  );
+}
+
+export function optimisticDeleteEdge(store: OptimisticLocalStore, args: FunctionArgs<typeof api.edges.deleteEdge>) {
+  updateEdges(store, args.boardId, (edges) => edges.filter((e) => e.edgeId !== args.edgeId));
+}
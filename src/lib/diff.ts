@@ -0,0 +1,53 @@
+export interface DiffRow {
+  left?: string;
+  right?: string;
+  // "same" rows appear on both sides; "changed" rows pair a removal with an addition
+  kind: "same" | "removed" | "added" | "changed";
+}
+
+/**
+ * Line diff of two texts as side-by-side rows. Uses the longest common
+ * subsequence of lines; adjacent removals and additions are paired up so a
+ * rewritten line sits next to what it replaced.
+ */
+export function diffLines(before: string, after: string): DiffRow[] {
+  const a = before ? before.split("\n") : [];
+  const b = after ? after.split("\n") : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const rows: DiffRow[] = [];
+  let removed: string[] = [];
+  let added: string[] = [];
+  const flush = () => {
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) rows.push({ left: removed[k], right: added[k], kind: "changed" });
+    for (const line of removed.slice(paired)) rows.push({ left: line, kind: "removed" });
+    for (const line of added.slice(paired)) rows.push({ right: line, kind: "added" });
+    removed = [];
+    added = [];
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      flush();
+      rows.push({ left: a[i], right: b[j], kind: "same" });
+      i++;
+      j++;
+    } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+      removed.push(a[i++]);
+    } else {
+      added.push(b[j++]);
+    }
+  }
+  flush();
+  return rows;
+}
@@ -0,0 +1,41 @@
+import { create } from "zustand";
+import { compactChange, isEmptyChange, type CanvasChange } from "../../convex/canvasChange";
+
+const HISTORY_LIMIT = 50;
+
+/**
+ * Undo/redo stacks of canvas edits for the open board. Only records changes;
+ * FlowCanvas applies them through canvasHistory.applyChange and moves the
+ * entry across once the server has accepted it.
+ */
+interface CanvasHistoryState {
+  boardId: string | null;
+  past: CanvasChange[];
+  future: CanvasChange[];
+  reset: (boardId: string) => void;
+  record: (change: CanvasChange) => void;
+  undone: () => void;
+  redone: () => void;
+}
+
+export const useCanvasHistoryStore = create<CanvasHistoryState>()((set) => ({
+  boardId: null,
+  past: [],
+  future: [],
+  reset: (boardId) => set({ boardId, past: [], future: [] }),
+  record: (change) => {
+    const compacted = compactChange(change);
+    if (isEmptyChange(compacted)) return;
+    set((state) => ({ past: [...state.past, compacted].slice(-HISTORY_LIMIT), future: [] }));
+  },
+  undone: () =>
+    set((state) => {
+      if (state.past.length === 0) return state;
+      return { past: state.past.slice(0, -1), future: [...state.future, state.past[state.past.length - 1]] };
+    }),
+  redone: () =>
+    set((state) => {
+      if (state.future.length === 0) return state;
+      return { future: state.future.slice(0, -1), past: [...state.past, state.future[state.future.length - 1]] };
+    }),
+}));
@@ -0,0 +1,44 @@
+import { create } from "zustand";
+import type { Proposal } from "../../convex/aiSchemas";
+
+/**
+ * AI proposals currently previewed on the canvas. Ticking proposals on and
+ * off only changes the preview, so it never lands in the canvas undo history.
+ */
+interface ProposalPreviewState {
+  messageId: string | null;
+  proposals: Proposal[];
+  selected: number[];
+  visible: boolean;
+  startPreview: (messageId: string, proposals: Proposal[]) => void;
+  setVisible: (visible: boolean) => void;
+  toggle: (index: number) => void;
+  setAllSelected: (selected: boolean) => void;
+  clear: () => void;
+}
+
+export const useProposalPreviewStore = create<ProposalPreviewState>()((set) => ({
+  messageId: null,
+  proposals: [],
+  selected: [],
+  visible: false,
+  startPreview: (messageId, proposals) =>
+    set({
+      messageId,
+      proposals,
+      selected: proposals.map((_, i) => i),
+      visible: true,
+    }),
+  setVisible: (visible) => set({ visible }),
+  toggle: (index) =>
+    set((state) => ({
+      selected: state.selected.includes(index)
+        ? state.selected.filter((i) => i !== index)
+        : [...state.selected, index].sort((a, b) => a - b),
+    })),
+  setAllSelected: (selected) =>
+    set((state) => ({
+      selected: selected ? state.proposals.map((_, i) => i) : [],
+    })),
+  clear: () => set({ messageId: null, proposals: [], selected: [], visible: false }),
+}));
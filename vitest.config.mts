@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    // The AI actions are "use node" modules (sharp, fs), so tests run in Node
+    environment: "node",
+    server: { deps: { inline: ["convex-test"] } },
+  },
+});